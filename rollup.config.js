@@ -3,7 +3,7 @@ import commonjs from '@rollup/plugin-commonjs';
 import typescript from '@rollup/plugin-typescript';
 import terser from '@rollup/plugin-terser';
 import postcss from 'rollup-plugin-postcss';
-import { copyFileSync, mkdirSync } from 'fs';
+import { copyFileSync, cpSync, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 
 const production = process.env.NODE_ENV === 'production';
@@ -16,6 +16,21 @@ const copyTypesPlugin = () => ({
   }
 });
 
+// Self-hostable PDF.js assets, served with `assets: { baseUrl: '.../dist/pdfjs' }`
+const copyPdfjsAssetsPlugin = () => ({
+  name: 'copy-pdfjs-assets',
+  writeBundle() {
+    const source = 'node_modules/pdfjs-dist';
+
+    ['build/pdf.min.js', 'build/pdf.worker.min.js', 'cmaps', 'standard_fonts'].forEach((path) => {
+      if (!existsSync(`${source}/${path}`)) {
+        this.error(`Missing ${source}/${path}, run npm install to get the PDF.js assets`);
+      }
+      cpSync(`${source}/${path}`, `dist/pdfjs/${path}`, { recursive: true });
+    });
+  }
+});
+
 const baseConfig = {
   external: ['pdfjs-dist', 'mammoth', 'xlsx', 'localforage'],
   plugins: [
@@ -39,9 +54,10 @@ const baseConfig = {
 };
 
 export default [
-  // Core library - ESM
+  // Core library - ESM, also copies the PDF.js assets once for all builds
   {
     ...baseConfig,
+    plugins: [...baseConfig.plugins, copyPdfjsAssetsPlugin()],
     input: 'src/index.ts',
     output: {
       file: 'dist/index.esm.js',
@@ -0,0 +1,576 @@
+import type {
+	Annotation,
+	AnnotationInput,
+	AnnotationPoint,
+	AnnotationRect,
+	AnnotationTool
+} from "../types";
+import { AnnotationLayer } from "./annotation-layer";
+import type { BaseRenderer } from "./base-renderer";
+
+// Smallest shape, as a fraction of the page, that a drag creates
+const MIN_SIZE = 0.005;
+
+interface PageHit {
+	page: number;
+	element: HTMLElement;
+	point: AnnotationPoint;
+}
+
+interface Gesture {
+	mode: "draw" | "move" | "resize";
+	page: number;
+	element: HTMLElement;
+	start: AnnotationPoint;
+	current: AnnotationPoint;
+	/** Freehand points while drawing ink */
+	points: AnnotationPoint[];
+	/** Annotation being moved or resized, as it was when the drag started */
+	original: Annotation | null;
+	bounds: AnnotationRect | null;
+	handle: string | null;
+	draft: AnnotationInput | null;
+}
+
+/**
+ * Annotation Editor
+ * Mouse and keyboard interaction for creating, selecting, moving,
+ * resizing, commenting and deleting annotations. Works with any renderer
+ * that exposes its page elements through getAnnotationPageElement.
+ */
+export class AnnotationEditor {
+	public tool: AnnotationTool | null;
+	private container: HTMLElement;
+	private getRenderer: () => BaseRenderer | null;
+	private gesture: Gesture | null;
+	private preview: HTMLElement | null;
+	private popover: HTMLElement | null;
+
+	constructor(container: HTMLElement, getRenderer: () => BaseRenderer | null) {
+		this.container = container;
+		this.getRenderer = getRenderer;
+		this.tool = null;
+		this.gesture = null;
+		this.preview = null;
+		this.popover = null;
+
+		this.handleMouseDown = this.handleMouseDown.bind(this);
+		this.handleMouseMove = this.handleMouseMove.bind(this);
+		this.handleMouseUp = this.handleMouseUp.bind(this);
+		this.handleDoubleClick = this.handleDoubleClick.bind(this);
+		this.handleKeyDown = this.handleKeyDown.bind(this);
+
+		// Focusable so that Delete only acts on the viewer being used
+		if (!this.container.hasAttribute("tabindex")) {
+			this.container.tabIndex = -1;
+		}
+
+		// Capture runs before renderer handlers such as image panning
+		this.container.addEventListener("mousedown", this.handleMouseDown, true);
+		this.container.addEventListener("dblclick", this.handleDoubleClick);
+		document.addEventListener("keydown", this.handleKeyDown);
+	}
+
+	/**
+	 * Switch tools, or leave annotation mode with null
+	 */
+	setTool(tool: AnnotationTool | null): void {
+		this.reset();
+		this.tool = tool;
+
+		if (tool) {
+			this.container.dataset.annotationTool = tool;
+		} else {
+			delete this.container.dataset.annotationTool;
+		}
+		if (tool !== "select") {
+			this.getRenderer()?.selectAnnotation(null);
+		}
+	}
+
+	handleMouseDown(event: MouseEvent): void {
+		const renderer = this.getRenderer();
+		const target = event.target as Element;
+		if (!this.tool || !renderer || event.button !== 0) return;
+		if (this.popover?.contains(target)) return;
+
+		this.closePopover();
+
+		if (this.tool === "select") {
+			if (!this.startEditing(renderer, target, event)) {
+				renderer.selectAnnotation(null);
+				return;
+			}
+		} else {
+			const hit = this.getPageAt(renderer, event.clientX, event.clientY);
+			if (!hit) return;
+
+			this.gesture = {
+				mode: "draw",
+				page: hit.page,
+				element: hit.element,
+				start: hit.point,
+				current: hit.point,
+				points: [hit.point],
+				original: null,
+				bounds: null,
+				handle: null,
+				draft: null
+			};
+		}
+
+		event.stopPropagation();
+		// Highlighting keeps the default so text can still be selected
+		if (this.tool !== "highlight") {
+			event.preventDefault();
+		}
+		this.container.focus({ preventScroll: true });
+
+		document.addEventListener("mousemove", this.handleMouseMove);
+		document.addEventListener("mouseup", this.handleMouseUp);
+	}
+
+	/**
+	 * Select the annotation under the pointer and start moving it, or start
+	 * resizing the selection from one of its handles
+	 */
+	private startEditing(renderer: BaseRenderer, target: Element, event: MouseEvent): boolean {
+		const handle = target.closest<HTMLElement>(".buka-annotation-handle");
+		const annotationElement = target.closest<HTMLElement | SVGElement>("[data-annotation-id]");
+
+		const id = handle
+			? renderer.selectedAnnotationId
+			: (annotationElement?.getAttribute("data-annotation-id") ?? null);
+		const annotation = id === null ? undefined : renderer.annotations.get(id);
+		if (!id || !annotation?.page || !this.container.contains(target)) return false;
+
+		const element = renderer.getAnnotationPageElement(annotation.page);
+		if (element && annotation.anchor) {
+			// Anchored annotations follow their text or cell, they are not dragged
+			renderer.selectAnnotation(id);
+			return true;
+		}
+		const bounds = AnnotationLayer.getBounds(annotation);
+		if (!element || !bounds) return false;
+
+		renderer.selectAnnotation(id);
+
+		const start = this.toPagePoint(element, event.clientX, event.clientY);
+		this.gesture = {
+			mode: handle ? "resize" : "move",
+			page: annotation.page,
+			element,
+			start,
+			current: start,
+			points: [],
+			original: annotation,
+			bounds,
+			handle: handle?.dataset.handle ?? null,
+			draft: null
+		};
+		return true;
+	}
+
+	handleMouseMove(event: MouseEvent): void {
+		const gesture = this.gesture;
+		if (!gesture) return;
+
+		gesture.current = this.toPagePoint(gesture.element, event.clientX, event.clientY);
+		if (gesture.mode === "draw") {
+			gesture.points.push(gesture.current);
+		}
+
+		gesture.draft =
+			gesture.mode === "draw" ? this.createDraft(gesture) : this.transformDraft(gesture);
+		if (gesture.draft) {
+			this.showPreview(gesture);
+		}
+		event.preventDefault();
+	}
+
+	handleMouseUp(event: MouseEvent): void {
+		const gesture = this.gesture;
+		const renderer = this.getRenderer();
+		this.endGesture();
+		if (!gesture || !renderer) return;
+
+		gesture.current = this.toPagePoint(gesture.element, event.clientX, event.clientY);
+
+		if (gesture.mode === "draw") {
+			this.finishDrawing(renderer, gesture);
+			return;
+		}
+
+		const id = gesture.original?.id;
+		const draft = this.transformDraft(gesture);
+		if (id && draft && this.hasMoved(gesture)) {
+			renderer.updateAnnotation(id, draft);
+		} else {
+			// Bring back the annotation hidden while it was dragged
+			renderer.renderPageAnnotations(gesture.page);
+		}
+	}
+
+	private finishDrawing(renderer: BaseRenderer, gesture: Gesture): void {
+		if (this.tool === "note") {
+			const anchor = renderer.getPointAnchor(gesture.page, gesture.start);
+			const id = renderer.addAnnotation({
+				type: "note",
+				page: gesture.page,
+				position: gesture.start,
+				...(anchor && { anchor })
+			});
+			renderer.selectAnnotation(id);
+			this.openPopover(id);
+			return;
+		}
+
+		if (this.tool === "highlight" && this.highlightSelectedText(renderer)) {
+			return;
+		}
+
+		const draft = this.createDraft(gesture);
+		if (draft) {
+			renderer.addAnnotation(draft);
+		}
+	}
+
+	/**
+	 * Annotation the current drag would create, null while it is too small
+	 */
+	private createDraft(gesture: Gesture): AnnotationInput | null {
+		const { page, start, current } = gesture;
+		const box = AnnotationEditor.toRect(start, current);
+		const hasArea = box.width >= MIN_SIZE && box.height >= MIN_SIZE;
+
+		switch (this.tool) {
+			case "highlight":
+				return hasArea ? { type: "highlight", page, rects: [box] } : null;
+			case "rectangle":
+			case "ellipse":
+				return hasArea ? { type: this.tool, page, position: box } : null;
+			case "arrow":
+				return Math.hypot(current.x - start.x, current.y - start.y) >= MIN_SIZE
+					? { type: "arrow", page, start, end: current }
+					: null;
+			case "ink":
+				return gesture.points.length > 1
+					? { type: "ink", page, paths: [[...gesture.points]] }
+					: null;
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Moved or resized copy of the annotation being dragged
+	 */
+	private transformDraft(gesture: Gesture): Annotation | null {
+		const { original, bounds, start, current, handle } = gesture;
+		if (!original || !bounds) return null;
+
+		if (gesture.mode === "move") {
+			return AnnotationLayer.transform(original, bounds, {
+				...bounds,
+				x: bounds.x + current.x - start.x,
+				y: bounds.y + current.y - start.y
+			});
+		}
+
+		// The corner opposite the dragged handle stays in place
+		const anchor = {
+			x: handle?.includes("w") ? bounds.x + bounds.width : bounds.x,
+			y: handle?.includes("n") ? bounds.y + bounds.height : bounds.y
+		};
+		const to = AnnotationEditor.toRect(anchor, current);
+		if (to.width < MIN_SIZE || to.height < MIN_SIZE) return null;
+		return AnnotationLayer.transform(original, bounds, to);
+	}
+
+	private hasMoved(gesture: Gesture): boolean {
+		return gesture.current.x !== gesture.start.x || gesture.current.y !== gesture.start.y;
+	}
+
+	/**
+	 * Highlight the text selected on each page, true when anything was
+	 * highlighted
+	 */
+	private highlightSelectedText(renderer: BaseRenderer): boolean {
+		const selection = document.getSelection();
+		if (!selection || selection.isCollapsed || selection.rangeCount === 0) return false;
+
+		const range = selection.getRangeAt(0);
+		if (typeof range.getClientRects !== "function") return false;
+
+		const clientRects = Array.from(range.getClientRects()).filter(
+			(rect) => rect.width > 0 && rect.height > 0
+		);
+		const text = selection.toString().trim();
+		let highlighted = false;
+
+		for (let page = 1; page <= renderer.totalPages; page++) {
+			const element = renderer.getAnnotationPageElement(page);
+			if (!element) continue;
+
+			const pageRect = element.getBoundingClientRect();
+			const rects = clientRects
+				.filter(
+					(rect) =>
+						rect.right > pageRect.left &&
+						rect.left < pageRect.right &&
+						rect.bottom > pageRect.top &&
+						rect.top < pageRect.bottom
+				)
+				.map((rect) =>
+					AnnotationEditor.toRect(
+						this.toPagePoint(element, rect.left, rect.top),
+						this.toPagePoint(element, rect.right, rect.bottom)
+					)
+				);
+
+			if (rects.length > 0) {
+				const anchor = renderer.getTextAnchor(range, page);
+				renderer.addAnnotation({
+					type: "highlight",
+					page,
+					rects,
+					text: anchor?.quote ?? text,
+					...(anchor && { anchor })
+				});
+				highlighted = true;
+			}
+		}
+
+		selection.removeAllRanges();
+		return highlighted;
+	}
+
+	private showPreview(gesture: Gesture): void {
+		const renderer = this.getRenderer();
+		const layout = renderer?.getAnnotationLayout(gesture.page);
+		if (!layout || !gesture.draft) return;
+
+		if (!this.preview) {
+			this.preview = document.createElement("div");
+			this.preview.className = "buka-annotation-preview";
+			this.preview.style.cssText = `
+				position: absolute;
+				top: 0;
+				left: 0;
+				pointer-events: none;
+				z-index: 11;
+			`;
+		}
+		if (this.preview.parentElement !== gesture.element) {
+			gesture.element.appendChild(this.preview);
+		}
+
+		// Hide the annotation being dragged, the preview stands in for it
+		if (gesture.original?.id) {
+			this.getAnnotationElements(gesture.original.id).forEach((element) => {
+				element.style.visibility = "hidden";
+			});
+		}
+
+		AnnotationLayer.render(this.preview, [gesture.draft as Annotation], layout);
+	}
+
+	handleDoubleClick(event: MouseEvent): void {
+		const renderer = this.getRenderer();
+		if (this.tool !== "select" || !renderer) return;
+
+		const id = (event.target as Element)
+			.closest("[data-annotation-id]")
+			?.getAttribute("data-annotation-id");
+		if (id && renderer.annotations.has(id)) {
+			renderer.selectAnnotation(id);
+			this.openPopover(id);
+		}
+	}
+
+	handleKeyDown(event: KeyboardEvent): void {
+		const renderer = this.getRenderer();
+		const target = event.target as HTMLElement | null;
+		if (!renderer || !this.container.contains(document.activeElement)) return;
+		if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+		const selectedId = renderer.selectedAnnotationId;
+		if ((event.key === "Delete" || event.key === "Backspace") && selectedId) {
+			event.preventDefault();
+			this.closePopover();
+			renderer.removeAnnotation(selectedId);
+		} else if (event.key === "Escape") {
+			this.reset();
+			renderer.selectAnnotation(null);
+		}
+	}
+
+	/**
+	 * Show the comment editor of an annotation below it
+	 */
+	openPopover(id: string): void {
+		const renderer = this.getRenderer();
+		const annotation = renderer?.annotations.get(id);
+		if (!renderer || !annotation) return;
+
+		this.closePopover();
+
+		const popover = document.createElement("div");
+		popover.className = "buka-annotation-popover";
+		popover.setAttribute("role", "dialog");
+		popover.setAttribute("aria-label", "Edit comment");
+
+		const anchor = this.getAnnotationElements(id)[0]?.getBoundingClientRect();
+		popover.style.cssText = `
+			position: fixed;
+			left: ${anchor?.left ?? 0}px;
+			top: ${(anchor?.bottom ?? 0) + 6}px;
+			z-index: 1000;
+		`;
+
+		if (annotation.author) {
+			const author = document.createElement("div");
+			author.className = "buka-annotation-popover-author";
+			author.textContent = annotation.author;
+			popover.appendChild(author);
+		}
+
+		const input = document.createElement("textarea");
+		input.className = "buka-annotation-popover-input";
+		input.rows = 3;
+		input.placeholder = "Add a comment…";
+		input.value = annotation.content ?? "";
+
+		const save = () => {
+			if (input.value !== (annotation.content ?? "")) {
+				renderer.updateAnnotation(id, { content: input.value });
+			}
+			this.closePopover();
+		};
+
+		input.addEventListener("keydown", (event) => {
+			if (event.key === "Escape") {
+				this.closePopover();
+			} else if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+				save();
+			}
+		});
+
+		const actions = document.createElement("div");
+		actions.className = "buka-annotation-popover-actions";
+		const buttons: Array<[string, () => void]> = [
+			["Save", save],
+			[
+				"Delete",
+				() => {
+					this.closePopover();
+					renderer.removeAnnotation(id);
+				}
+			],
+			["Cancel", () => this.closePopover()]
+		];
+		buttons.forEach(([label, action]) => {
+			const button = document.createElement("button");
+			button.type = "button";
+			button.className = "buka-btn";
+			button.textContent = label;
+			button.dataset.action = label.toLowerCase();
+			button.addEventListener("click", action);
+			actions.appendChild(button);
+		});
+
+		popover.append(input, actions);
+		this.container.appendChild(popover);
+		this.popover = popover;
+		input.focus();
+	}
+
+	closePopover(): void {
+		const hadFocus = this.popover?.contains(document.activeElement);
+		this.popover?.remove();
+		this.popover = null;
+
+		// Keep keyboard shortcuts working for the viewer
+		if (hadFocus) {
+			this.container.focus({ preventScroll: true });
+		}
+	}
+
+	/**
+	 * Drop any drag in progress and close the comment editor
+	 */
+	reset(): void {
+		this.endGesture();
+		this.closePopover();
+	}
+
+	private endGesture(): void {
+		this.gesture = null;
+		this.preview?.remove();
+		this.preview = null;
+		document.removeEventListener("mousemove", this.handleMouseMove);
+		document.removeEventListener("mouseup", this.handleMouseUp);
+	}
+
+	/**
+	 * Displayed page under a viewport position
+	 */
+	private getPageAt(renderer: BaseRenderer, clientX: number, clientY: number): PageHit | null {
+		for (let page = 1; page <= renderer.totalPages; page++) {
+			const element = renderer.getAnnotationPageElement(page);
+			if (!element) continue;
+
+			const rect = element.getBoundingClientRect();
+			if (
+				clientX >= rect.left &&
+				clientX <= rect.right &&
+				clientY >= rect.top &&
+				clientY <= rect.bottom
+			) {
+				return { page, element, point: this.toPagePoint(element, clientX, clientY) };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Viewport position as a point on the page, kept inside the page
+	 */
+	private toPagePoint(element: HTMLElement, clientX: number, clientY: number): AnnotationPoint {
+		const rect = element.getBoundingClientRect();
+		const clamp = (value: number) => Math.min(1, Math.max(0, value));
+		return {
+			x: rect.width ? clamp((clientX - rect.left) / rect.width) : 0,
+			y: rect.height ? clamp((clientY - rect.top) / rect.height) : 0
+		};
+	}
+
+	private getAnnotationElements(id: string): Array<HTMLElement | SVGElement> {
+		return Array.from(
+			this.container.querySelectorAll<HTMLElement | SVGElement>(
+				".buka-annotation-layer [data-annotation-id]"
+			)
+		).filter(
+			(element) =>
+				element.getAttribute("data-annotation-id") === id &&
+				!element.closest(".buka-annotation-preview")
+		);
+	}
+
+	static toRect(from: AnnotationPoint, to: AnnotationPoint): AnnotationRect {
+		return {
+			x: Math.min(from.x, to.x),
+			y: Math.min(from.y, to.y),
+			width: Math.abs(to.x - from.x),
+			height: Math.abs(to.y - from.y)
+		};
+	}
+
+	destroy(): void {
+		this.reset();
+		this.container.removeEventListener("mousedown", this.handleMouseDown, true);
+		this.container.removeEventListener("dblclick", this.handleDoubleClick);
+		document.removeEventListener("keydown", this.handleKeyDown);
+		delete this.container.dataset.annotationTool;
+	}
+}
@@ -0,0 +1,601 @@
+import type {
+	Annotation,
+	AnnotationBase,
+	AnnotationLayout,
+	AnnotationPoint,
+	AnnotationRect,
+	ArrowAnnotation,
+	InkAnnotation,
+	ShapeAnnotation,
+	StampAnnotation,
+	TextMarkupAnnotation
+} from "../types";
+import { ANNOTATION_DEFAULTS } from "./config";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Size of the sticky note icon in pixels, kept constant at every zoom
+const NOTE_ICON_SIZE = 22;
+
+// Size of the corner badge marking a commented spreadsheet cell
+const BADGE_SIZE = 10;
+
+const HANDLES = ["nw", "ne", "sw", "se"] as const;
+const HANDLE_SIZE = 8;
+
+/**
+ * Annotation Layer
+ * Draws annotations over a page element. Geometry is stored relative to
+ * the page, so drawing the layer again with a new layout re-lays it out
+ * for the current zoom.
+ */
+export class AnnotationLayer {
+	/**
+	 * Replace the annotation layer of a page with one drawing the given
+	 * annotations, framing the selected one, and return it
+	 */
+	static render(
+		pageElement: HTMLElement,
+		annotations: Annotation[],
+		layout: AnnotationLayout,
+		selectedId: string | null = null
+	): HTMLElement {
+		let layer = AnnotationLayer.find(pageElement);
+		if (!layer) {
+			layer = document.createElement("div");
+			layer.className = "buka-annotation-layer";
+			pageElement.appendChild(layer);
+		}
+		layer.style.cssText = `
+			position: absolute;
+			top: 0;
+			left: 0;
+			width: ${layout.width}px;
+			height: ${layout.height}px;
+			pointer-events: none;
+			z-index: 10;
+		`;
+
+		const svg = document.createElementNS(SVG_NS, "svg");
+		svg.setAttribute("width", `${layout.width}`);
+		svg.setAttribute("height", `${layout.height}`);
+		svg.setAttribute("viewBox", `0 0 ${layout.width} ${layout.height}`);
+		svg.style.cssText = "position: absolute; top: 0; left: 0; overflow: visible;";
+		layer.replaceChildren(svg);
+
+		annotations.forEach((annotation) => {
+			const element = AnnotationLayer.createElement(annotation, layout);
+			if (!element) return;
+
+			element.classList.add("buka-annotation", `buka-annotation-${annotation.type}`);
+			element.setAttribute("data-annotation-id", annotation.id ?? "");
+			element.style.opacity = `${AnnotationLayer.getOpacity(annotation)}`;
+			element.style.pointerEvents = "auto";
+			if (annotation.content) {
+				AnnotationLayer.setLabel(element, annotation);
+				element.addEventListener("pointerenter", () =>
+					AnnotationLayer.showTooltip(layer, annotation, layout)
+				);
+				element.addEventListener("pointerleave", () => AnnotationLayer.hideTooltip(layer));
+			}
+
+			if (element instanceof SVGElement) {
+				svg.appendChild(element);
+			} else {
+				layer.appendChild(element);
+			}
+
+			if (annotation.id !== undefined && annotation.id === selectedId) {
+				element.classList.add("buka-annotation-selected");
+				const selection = AnnotationLayer.createSelection(annotation, layout);
+				if (selection) layer.appendChild(selection);
+			}
+		});
+
+		return layer;
+	}
+
+	/**
+	 * Frame around the selected annotation, with corner handles when it
+	 * can be resized
+	 */
+	static createSelection(annotation: Annotation, layout: AnnotationLayout): HTMLElement | null {
+		const bounds = AnnotationLayer.getBounds(annotation);
+		if (!bounds) return null;
+
+		const box = AnnotationLayer.toPixels(bounds, layout);
+		const resizable = AnnotationLayer.isResizable(annotation);
+		const selection = document.createElement("div");
+		selection.className = "buka-annotation-selection";
+		selection.style.cssText = `
+			position: absolute;
+			left: ${box.x}px;
+			top: ${box.y}px;
+			width: ${resizable ? box.width : Math.max(box.width, NOTE_ICON_SIZE)}px;
+			height: ${resizable ? box.height : Math.max(box.height, NOTE_ICON_SIZE)}px;
+			box-sizing: border-box;
+			outline: 1px dashed #1e88e5;
+			outline-offset: 2px;
+			pointer-events: none;
+		`;
+
+		if (resizable) {
+			HANDLES.forEach((handle) => {
+				const element = document.createElement("div");
+				element.className = "buka-annotation-handle";
+				element.dataset.handle = handle;
+				element.style.cssText = `
+					position: absolute;
+					${handle.includes("n") ? "top" : "bottom"}: -${HANDLE_SIZE / 2 + 2}px;
+					${handle.includes("w") ? "left" : "right"}: -${HANDLE_SIZE / 2 + 2}px;
+					width: ${HANDLE_SIZE}px;
+					height: ${HANDLE_SIZE}px;
+					box-sizing: border-box;
+					background: white;
+					border: 1px solid #1e88e5;
+					cursor: ${handle}-resize;
+					pointer-events: auto;
+				`;
+				selection.appendChild(element);
+			});
+		}
+
+		return selection;
+	}
+
+	/**
+	 * Author and comment of an annotation, shown under it while hovered
+	 */
+	static showTooltip(
+		layer: HTMLElement,
+		annotation: Annotation,
+		layout: AnnotationLayout
+	): HTMLElement | null {
+		AnnotationLayer.hideTooltip(layer);
+		const bounds = AnnotationLayer.getBounds(annotation);
+		if (!bounds) return null;
+
+		const box = AnnotationLayer.toPixels(bounds, layout);
+		const tooltip = document.createElement("div");
+		tooltip.className = "buka-annotation-tooltip";
+		tooltip.setAttribute("role", "tooltip");
+		tooltip.style.cssText = `
+			position: absolute;
+			left: ${box.x}px;
+			top: ${box.y + (annotation.type === "note" ? Math.max(box.height, NOTE_ICON_SIZE) : box.height) + 4}px;
+			max-width: 240px;
+			padding: 6px 8px;
+			background: #333;
+			color: white;
+			border-radius: 4px;
+			box-shadow: 0 2px 6px rgba(0, 0, 0, 0.3);
+			font: 12px/1.4 sans-serif;
+			white-space: pre-wrap;
+			pointer-events: none;
+			z-index: 1;
+		`;
+
+		if (annotation.author) {
+			const author = document.createElement("strong");
+			author.textContent = annotation.author;
+			tooltip.append(author, "\n");
+		}
+		tooltip.append(annotation.content ?? "");
+		layer.appendChild(tooltip);
+		return tooltip;
+	}
+
+	static hideTooltip(layer: HTMLElement): void {
+		layer.querySelector(":scope > .buka-annotation-tooltip")?.remove();
+	}
+
+	static find(pageElement: HTMLElement): HTMLElement | null {
+		return pageElement.querySelector(":scope > .buka-annotation-layer");
+	}
+
+	static clear(pageElement: HTMLElement): void {
+		AnnotationLayer.find(pageElement)?.remove();
+	}
+
+	static getColor(annotation: Annotation): string {
+		return annotation.color ?? ANNOTATION_DEFAULTS[annotation.type]?.color ?? "#e53935";
+	}
+
+	/**
+	 * Apply the annotation color to one style property. The value is never
+	 * spliced into cssText, so a color that is not one is simply ignored.
+	 */
+	static setColor(element: HTMLElement, property: string, annotation: Annotation): void {
+		element.style.setProperty(property, AnnotationLayer.getColor(annotation));
+	}
+
+	static getOpacity(annotation: Annotation): number {
+		return annotation.opacity ?? ANNOTATION_DEFAULTS[annotation.type]?.opacity ?? 1;
+	}
+
+	/**
+	 * Page-relative box an annotation covers, null when it has no geometry
+	 */
+	static getBounds(annotation: Annotation): AnnotationRect | null {
+		const points: AnnotationPoint[] = [];
+
+		if (annotation.type === "ink") {
+			annotation.paths.forEach((path) => points.push(...path));
+		} else if (annotation.type === "arrow") {
+			points.push(annotation.start, annotation.end);
+		} else if (
+			(annotation.type === "highlight" ||
+				annotation.type === "underline" ||
+				annotation.type === "strikeout") &&
+			annotation.rects?.length
+		) {
+			annotation.rects.forEach((rect) =>
+				points.push(rect, { x: rect.x + rect.width, y: rect.y + rect.height })
+			);
+		} else if (annotation.position) {
+			const { x, y, width = 0, height = 0 } = annotation.position;
+			points.push({ x, y }, { x: x + width, y: y + height });
+		}
+
+		if (points.length === 0) return null;
+
+		const xs = points.map((point) => point.x);
+		const ys = points.map((point) => point.y);
+		const x = Math.min(...xs);
+		const y = Math.min(...ys);
+		return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+	}
+
+	/**
+	 * Whether an annotation covers an area that can be stretched. Notes keep
+	 * their icon size and zero-width shapes cannot be scaled.
+	 */
+	static isResizable(annotation: Annotation): boolean {
+		const bounds = AnnotationLayer.getBounds(annotation);
+		return annotation.type !== "note" && !!bounds && bounds.width > 0 && bounds.height > 0;
+	}
+
+	/**
+	 * Copy of an annotation with its geometry mapped from one box onto
+	 * another, which moves it when both have the same size
+	 */
+	static transform(annotation: Annotation, from: AnnotationRect, to: AnnotationRect): Annotation {
+		const scaleX = from.width ? to.width / from.width : 1;
+		const scaleY = from.height ? to.height / from.height : 1;
+		const mapPoint = (point: AnnotationPoint): AnnotationPoint => ({
+			x: to.x + (point.x - from.x) * scaleX,
+			y: to.y + (point.y - from.y) * scaleY
+		});
+		const mapRect = (rect: AnnotationRect): AnnotationRect => ({
+			...mapPoint(rect),
+			width: rect.width * scaleX,
+			height: rect.height * scaleY
+		});
+
+		const moved = { ...annotation };
+		if (annotation.position) {
+			const { width, height } = annotation.position;
+			(moved as AnnotationBase).position = {
+				...mapPoint(annotation.position),
+				...(width !== undefined && { width: width * scaleX }),
+				...(height !== undefined && { height: height * scaleY })
+			};
+		}
+
+		if (
+			(moved.type === "highlight" ||
+				moved.type === "underline" ||
+				moved.type === "strikeout") &&
+			moved.rects
+		) {
+			moved.rects = moved.rects.map(mapRect);
+		} else if (moved.type === "ink") {
+			moved.paths = moved.paths.map((path) => path.map(mapPoint));
+		} else if (moved.type === "arrow") {
+			moved.start = mapPoint(moved.start);
+			moved.end = mapPoint(moved.end);
+		}
+
+		return moved;
+	}
+
+	static createElement(
+		annotation: Annotation,
+		layout: AnnotationLayout
+	): SVGElement | HTMLElement | null {
+		switch (annotation.type) {
+			case "highlight":
+			case "underline":
+			case "strikeout":
+				return AnnotationLayer.createTextMarkup(annotation, layout);
+			case "ink":
+				return AnnotationLayer.createInk(annotation, layout);
+			case "rectangle":
+			case "ellipse":
+				return AnnotationLayer.createShape(annotation, layout);
+			case "arrow":
+				return AnnotationLayer.createArrow(annotation, layout);
+			case "stamp":
+				return AnnotationLayer.createStamp(annotation, layout);
+			case "note":
+				return AnnotationLayer.createNote(annotation, layout);
+			case "text":
+				return AnnotationLayer.createFreeText(annotation, layout);
+			default:
+				return null;
+		}
+	}
+
+	static createTextMarkup(
+		annotation: TextMarkupAnnotation,
+		layout: AnnotationLayout
+	): SVGElement | null {
+		const rects = annotation.rects?.length
+			? annotation.rects
+			: AnnotationLayer.toRects(annotation.position);
+		if (rects.length === 0) return null;
+
+		const color = AnnotationLayer.getColor(annotation);
+		const group = document.createElementNS(SVG_NS, "g");
+
+		rects.forEach((rect) => {
+			const box = AnnotationLayer.toPixels(rect, layout);
+
+			if (annotation.type === "highlight") {
+				const mark = AnnotationLayer.createSvg("rect", {
+					x: box.x,
+					y: box.y,
+					width: box.width,
+					height: box.height,
+					fill: color
+				});
+				// Multiply keeps the text under the highlight readable
+				mark.style.mixBlendMode = "multiply";
+				group.appendChild(mark);
+				return;
+			}
+
+			const thickness = Math.max(1, box.height * 0.08);
+			const lineY =
+				annotation.type === "underline"
+					? box.y + box.height - thickness / 2
+					: box.y + box.height / 2;
+			group.appendChild(
+				AnnotationLayer.createSvg("line", {
+					x1: box.x,
+					y1: lineY,
+					x2: box.x + box.width,
+					y2: lineY,
+					stroke: color,
+					"stroke-width": thickness
+				})
+			);
+		});
+
+		return group;
+	}
+
+	static createInk(annotation: InkAnnotation, layout: AnnotationLayout): SVGElement | null {
+		if (!annotation.paths?.length) return null;
+
+		const group = document.createElementNS(SVG_NS, "g");
+		annotation.paths.forEach((path) => {
+			const points = path
+				.map((point) => `${point.x * layout.width},${point.y * layout.height}`)
+				.join(" ");
+			group.appendChild(
+				AnnotationLayer.createSvg("polyline", {
+					points,
+					fill: "none",
+					stroke: AnnotationLayer.getColor(annotation),
+					"stroke-width": (annotation.strokeWidth ?? 2) * layout.scale,
+					"stroke-linecap": "round",
+					"stroke-linejoin": "round"
+				})
+			);
+		});
+		return group;
+	}
+
+	static createShape(annotation: ShapeAnnotation, layout: AnnotationLayout): SVGElement | null {
+		if (!annotation.position) return null;
+
+		const box = AnnotationLayer.toPixels(annotation.position, layout);
+		const style = {
+			fill: annotation.fillColor ?? "none",
+			stroke: AnnotationLayer.getColor(annotation),
+			"stroke-width": (annotation.strokeWidth ?? 2) * layout.scale
+		};
+
+		if (annotation.type === "ellipse") {
+			return AnnotationLayer.createSvg("ellipse", {
+				cx: box.x + box.width / 2,
+				cy: box.y + box.height / 2,
+				rx: box.width / 2,
+				ry: box.height / 2,
+				...style
+			});
+		}
+		return AnnotationLayer.createSvg("rect", {
+			x: box.x,
+			y: box.y,
+			width: box.width,
+			height: box.height,
+			...style
+		});
+	}
+
+	static createArrow(annotation: ArrowAnnotation, layout: AnnotationLayout): SVGElement | null {
+		if (!annotation.start || !annotation.end) return null;
+
+		const color = AnnotationLayer.getColor(annotation);
+		const strokeWidth = (annotation.strokeWidth ?? 2) * layout.scale;
+		const x1 = annotation.start.x * layout.width;
+		const y1 = annotation.start.y * layout.height;
+		const x2 = annotation.end.x * layout.width;
+		const y2 = annotation.end.y * layout.height;
+
+		// Head drawn as its own triangle so no shared <marker> ids are needed
+		const angle = Math.atan2(y2 - y1, x2 - x1);
+		const headLength = Math.max(8, strokeWidth * 4);
+		const corner = (offset: number) =>
+			`${x2 - headLength * Math.cos(angle + offset)},${y2 - headLength * Math.sin(angle + offset)}`;
+
+		const group = document.createElementNS(SVG_NS, "g");
+		group.appendChild(
+			AnnotationLayer.createSvg("line", {
+				x1,
+				y1,
+				x2,
+				y2,
+				stroke: color,
+				"stroke-width": strokeWidth,
+				"stroke-linecap": "round"
+			})
+		);
+		group.appendChild(
+			AnnotationLayer.createSvg("polygon", {
+				points: `${x2},${y2} ${corner(Math.PI / 7)} ${corner(-Math.PI / 7)}`,
+				fill: color
+			})
+		);
+		return group;
+	}
+
+	static createStamp(annotation: StampAnnotation, layout: AnnotationLayout): HTMLElement | null {
+		if (!annotation.position) return null;
+
+		const box = AnnotationLayer.toPixels(annotation.position, layout);
+		const stamp = document.createElement("div");
+		stamp.textContent = annotation.label ?? "";
+		stamp.style.cssText = `
+			position: absolute;
+			left: ${box.x}px;
+			top: ${box.y}px;
+			width: ${box.width}px;
+			height: ${box.height}px;
+			box-sizing: border-box;
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			border: ${Math.max(2, 3 * layout.scale)}px solid;
+			border-radius: 6px;
+			font: bold ${box.height * 0.45}px sans-serif;
+			text-transform: uppercase;
+			white-space: nowrap;
+			overflow: hidden;
+		`;
+		// The border takes the text color
+		AnnotationLayer.setColor(stamp, "color", annotation);
+		return stamp;
+	}
+
+	static createNote(
+		annotation: Annotation & { type: "note" },
+		layout: AnnotationLayout
+	): HTMLElement | null {
+		if (!annotation.position) return null;
+		if (annotation.anchor?.type === "cell") {
+			return AnnotationLayer.createBadge(annotation, layout);
+		}
+
+		const note = document.createElement("div");
+		note.textContent = "📝";
+		note.setAttribute("role", "note");
+		note.setAttribute("aria-label", annotation.content ?? "Note");
+		note.style.cssText = `
+			position: absolute;
+			left: ${annotation.position.x * layout.width}px;
+			top: ${annotation.position.y * layout.height}px;
+			width: ${NOTE_ICON_SIZE}px;
+			height: ${NOTE_ICON_SIZE}px;
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			border-radius: 50%;
+			box-shadow: 0 1px 3px rgba(0, 0, 0, 0.3);
+			font-size: 12px;
+			cursor: pointer;
+		`;
+		AnnotationLayer.setColor(note, "background-color", annotation);
+		return note;
+	}
+
+	/**
+	 * Triangle in the top right corner of a commented spreadsheet cell
+	 */
+	static createBadge(annotation: Annotation, layout: AnnotationLayout): HTMLElement | null {
+		if (!annotation.position) return null;
+
+		const { x, y, width = 0 } = annotation.position;
+		const badge = document.createElement("div");
+		badge.setAttribute("role", "note");
+		badge.style.cssText = `
+			position: absolute;
+			left: ${(x + width) * layout.width - BADGE_SIZE}px;
+			top: ${y * layout.height}px;
+			width: 0;
+			height: 0;
+			border-top: ${BADGE_SIZE}px solid;
+			border-left: ${BADGE_SIZE}px solid transparent;
+			cursor: pointer;
+		`;
+		AnnotationLayer.setColor(badge, "border-top-color", annotation);
+		return badge;
+	}
+
+	static createFreeText(
+		annotation: Annotation & { type: "text" },
+		layout: AnnotationLayout
+	): HTMLElement | null {
+		if (!annotation.position) return null;
+
+		const { x, y, width = 0, height = 0 } = annotation.position;
+		const text = document.createElement("div");
+		text.textContent = annotation.content ?? "";
+		text.style.cssText = `
+			position: absolute;
+			left: ${x * layout.width}px;
+			top: ${y * layout.height}px;
+			${width ? `width: ${width * layout.width}px;` : ""}
+			${height ? `min-height: ${height * layout.height}px;` : ""}
+			font: ${(annotation.fontSize ?? 12) * layout.scale}px sans-serif;
+			line-height: 1.2;
+			white-space: pre-wrap;
+		`;
+		AnnotationLayer.setColor(text, "color", annotation);
+		return text;
+	}
+
+	static toPixels(rect: AnnotationRect, layout: AnnotationLayout): AnnotationRect {
+		return {
+			x: rect.x * layout.width,
+			y: rect.y * layout.height,
+			width: rect.width * layout.width,
+			height: rect.height * layout.height
+		};
+	}
+
+	static toRects(position: Annotation["position"]): AnnotationRect[] {
+		if (!position?.width || !position.height) return [];
+		return [{ x: position.x, y: position.y, width: position.width, height: position.height }];
+	}
+
+	static createSvg(tag: string, attributes: Record<string, string | number>): SVGElement {
+		const element = document.createElementNS(SVG_NS, tag);
+		Object.entries(attributes).forEach(([name, value]) => {
+			element.setAttribute(name, `${value}`);
+		});
+		return element;
+	}
+
+	// The comment is read out by assistive technology, the tooltip shows it
+	static setLabel(element: SVGElement | HTMLElement, annotation: Annotation): void {
+		element.setAttribute(
+			"aria-label",
+			annotation.author
+				? `${annotation.author}: ${annotation.content}`
+				: (annotation.content ?? "")
+		);
+	}
+}
@@ -0,0 +1,847 @@
+import type {
+	Annotation,
+	AnnotationExportOptions,
+	AnnotationFormat,
+	AnnotationPoint,
+	AnnotationRect,
+	AnnotationType,
+	AnnotationValidationError,
+	WebAnnotation,
+	WebAnnotationBody,
+	WebAnnotationSelector
+} from "../types";
+import { AnnotationLayer } from "./annotation-layer";
+
+const ANNOTATION_TYPES: readonly AnnotationType[] = [
+	"highlight",
+	"underline",
+	"strikeout",
+	"ink",
+	"rectangle",
+	"ellipse",
+	"arrow",
+	"stamp",
+	"note",
+	"text"
+];
+
+const MARKUP_TYPES: readonly AnnotationType[] = ["highlight", "underline", "strikeout"];
+
+const W3C_CONTEXT = "http://www.w3.org/ns/anno.jsonld";
+
+// Namespace of the properties that carry the viewer's own geometry
+const BUKA_NAMESPACE = "https://github.com/tumbati/bukajs/ns#";
+
+const BUKA_PROPERTY = "buka:annotation";
+
+// Annotation ids that are not IRIs are written as URNs under this prefix
+const ID_PREFIX = "urn:buka-annotation:";
+
+// Target source when the caller does not name the document
+const DEFAULT_SOURCE = "urn:buka:document";
+
+// RFC 3778 fragment identifiers for PDF, e.g. "page=2"
+const PDF_FRAGMENT = "http://tools.ietf.org/rfc/rfc3778";
+
+const MEDIA_FRAGMENT = "http://www.w3.org/TR/media-frags/";
+
+const XFDF_NAMESPACE = "http://ns.adobe.com/xfdf/";
+
+// Size of the sticky note icon in points
+const NOTE_SIZE = 20;
+
+const XFDF_ELEMENTS: Record<AnnotationType, string> = {
+	highlight: "highlight",
+	underline: "underline",
+	strikeout: "strikeout",
+	ink: "ink",
+	rectangle: "square",
+	ellipse: "circle",
+	arrow: "line",
+	stamp: "stamp",
+	note: "text",
+	text: "freetext"
+};
+
+/** Page size in PDF points, XFDF coordinates are absolute */
+export type PageSizeResolver = (page: number) => { width: number; height: number };
+
+/** Outcome of validating one imported item */
+export interface AnnotationValidation {
+	annotation: Annotation | null;
+	errors: AnnotationValidationError[];
+}
+
+/**
+ * Annotation Serializer
+ * Converts annotations to and from W3C Web Annotation JSON-LD and Adobe
+ * XFDF, and validates imported items so a bad entry is reported without
+ * rejecting the rest of the file
+ */
+export class AnnotationSerializer {
+	/**
+	 * Format of an import: XFDF for markup, W3C for Web Annotations and
+	 * annotation collections, the viewer's own JSON otherwise
+	 */
+	static detectFormat(input: unknown): AnnotationFormat {
+		if (typeof input === "string") {
+			const text = input.trim();
+			if (text.startsWith("<")) return "xfdf";
+			try {
+				return AnnotationSerializer.detectFormat(JSON.parse(text));
+			} catch {
+				return "json";
+			}
+		}
+
+		const first: unknown = Array.isArray(input) ? input[0] : input;
+		if (isObject(first) && ("@context" in first || hasType(first, "Annotation"))) {
+			return "w3c";
+		}
+		if (isObject(input) && hasType(input, "AnnotationCollection")) return "w3c";
+		return "json";
+	}
+
+	/**
+	 * Split an import into the candidate annotations it holds. Throws when
+	 * the input as a whole cannot be read.
+	 */
+	static parse(input: unknown, format: AnnotationFormat, pageSize: PageSizeResolver): unknown[] {
+		if (format === "xfdf") {
+			if (typeof input !== "string") throw new Error("XFDF must be passed as a string");
+			return AnnotationSerializer.fromXfdf(input, pageSize);
+		}
+
+		let value = input;
+		if (typeof value === "string") {
+			try {
+				value = JSON.parse(value);
+			} catch (error) {
+				throw new Error(`Invalid annotation JSON: ${(error as Error).message}`);
+			}
+		}
+
+		if (format === "w3c") {
+			// AnnotationCollection and AnnotationPage wrap the annotations in items
+			while (isObject(value) && !Array.isArray(value) && "first" in value) {
+				value = value.first;
+			}
+			if (isObject(value) && Array.isArray(value.items)) value = value.items;
+			const items = Array.isArray(value) ? value : [value];
+			return items.map((item) => AnnotationSerializer.fromWebAnnotation(item));
+		}
+
+		if (!Array.isArray(value)) throw new Error("Expected an array of annotations");
+		return value;
+	}
+
+	/**
+	 * Check an imported item against the annotation schema. Every problem
+	 * is reported with the path of the offending property.
+	 */
+	static validate(value: unknown): AnnotationValidation {
+		const errors: AnnotationValidationError[] = [];
+		const fail = (path: string, message: string) => errors.push({ path, message });
+
+		if (!isObject(value) || Array.isArray(value)) {
+			fail("", "Expected an annotation object");
+			return { annotation: null, errors };
+		}
+
+		const type = value.type;
+		if (!ANNOTATION_TYPES.includes(type as AnnotationType)) {
+			fail("type", `Unknown annotation type ${JSON.stringify(type)}`);
+			return { annotation: null, errors };
+		}
+
+		if (value.id !== undefined && (typeof value.id !== "string" || value.id === "")) {
+			fail("id", "Expected a non-empty string");
+		}
+		if (
+			value.page !== undefined &&
+			!(Number.isInteger(value.page) && (value.page as number) >= 1)
+		) {
+			fail("page", "Expected a page number from 1");
+		}
+		["content", "author", "color", "timestamp", "modified"].forEach((key) => {
+			if (value[key] !== undefined && typeof value[key] !== "string") {
+				fail(key, "Expected a string");
+			}
+		});
+		if (typeof value.color === "string" && !AnnotationSerializer.isColor(value.color)) {
+			fail("color", "Expected a CSS color");
+		}
+		if (
+			value.opacity !== undefined &&
+			!(isNumber(value.opacity) && value.opacity >= 0 && value.opacity <= 1)
+		) {
+			fail("opacity", "Expected a number from 0 to 1");
+		}
+
+		// Shapes and stamps are drawn inside their position, other types may omit it
+		const sized = ["rectangle", "ellipse", "stamp"].includes(type as string);
+		if (value.position !== undefined || sized) {
+			checkRect(value.position, "position", sized, fail);
+		}
+		if (value.anchor !== undefined) {
+			checkAnchor(value.anchor, "anchor", fail);
+		}
+
+		switch (type) {
+			case "highlight":
+			case "underline":
+			case "strikeout":
+				if (value.rects !== undefined) {
+					if (!Array.isArray(value.rects)) fail("rects", "Expected an array of boxes");
+					else
+						value.rects.forEach((rect, index) =>
+							checkRect(rect, `rects.${index}`, true, fail)
+						);
+				}
+				if (value.text !== undefined && typeof value.text !== "string") {
+					fail("text", "Expected a string");
+				}
+				break;
+			case "ink":
+				if (!Array.isArray(value.paths) || value.paths.length === 0) {
+					fail("paths", "Expected at least one stroke");
+				} else {
+					value.paths.forEach((path, index) => {
+						if (!Array.isArray(path) || path.length === 0) {
+							fail(`paths.${index}`, "Expected a list of points");
+						} else {
+							path.forEach((point, pointIndex) =>
+								checkPoint(point, `paths.${index}.${pointIndex}`, fail)
+							);
+						}
+					});
+				}
+				break;
+			case "arrow":
+				checkPoint(value.start, "start", fail);
+				checkPoint(value.end, "end", fail);
+				break;
+			case "stamp":
+				if (typeof value.label !== "string") fail("label", "Expected a string");
+				break;
+			case "rectangle":
+			case "ellipse":
+				if (value.fillColor !== undefined && typeof value.fillColor !== "string") {
+					fail("fillColor", "Expected a string");
+				}
+				break;
+			case "text":
+				if (
+					value.fontSize !== undefined &&
+					!(isNumber(value.fontSize) && value.fontSize > 0)
+				) {
+					fail("fontSize", "Expected a positive number");
+				}
+				break;
+		}
+
+		if (
+			value.strokeWidth !== undefined &&
+			!(isNumber(value.strokeWidth) && value.strokeWidth > 0)
+		) {
+			fail("strokeWidth", "Expected a positive number");
+		}
+
+		return {
+			annotation: errors.length === 0 ? (value as unknown as Annotation) : null,
+			errors
+		};
+	}
+
+	/**
+	 * W3C Web Annotation for an annotation. The page and box are written as
+	 * standard selectors, the rest of the geometry under buka:annotation so
+	 * the viewer reads back exactly what it wrote.
+	 */
+	static toWebAnnotation(
+		annotation: Annotation,
+		options: AnnotationExportOptions = {}
+	): WebAnnotation {
+		const { id, page = 1, content, author, timestamp, modified, ...shape } = annotation;
+		const bounds = AnnotationLayer.getBounds(annotation);
+
+		const selectors: WebAnnotationSelector[] = [
+			{
+				type: "FragmentSelector",
+				conformsTo: PDF_FRAGMENT,
+				value: `page=${page}`,
+				...(bounds && {
+					refinedBy: {
+						type: "FragmentSelector",
+						conformsTo: MEDIA_FRAGMENT,
+						value: `xywh=percent:${[bounds.x, bounds.y, bounds.width, bounds.height]
+							.map((value) => round(value * 100))
+							.join(",")}`
+					}
+				})
+			}
+		];
+		const anchor = annotation.anchor;
+		if (anchor?.type === "text") {
+			selectors.push(
+				{ type: "TextQuoteSelector", exact: anchor.quote },
+				{ type: "TextPositionSelector", start: anchor.start, end: anchor.end }
+			);
+		} else if ("text" in annotation && typeof annotation.text === "string" && annotation.text) {
+			selectors.push({ type: "TextQuoteSelector", exact: annotation.text });
+		}
+
+		const body: WebAnnotationBody[] = [];
+		if (content) body.push({ type: "TextualBody", value: content, format: "text/plain" });
+		if (annotation.type === "stamp") {
+			body.push({ type: "TextualBody", value: annotation.label, purpose: "tagging" });
+		}
+
+		return {
+			"@context": [W3C_CONTEXT, { buka: BUKA_NAMESPACE }],
+			...(id && { id: isIri(id) ? id : `${ID_PREFIX}${id}` }),
+			type: "Annotation",
+			motivation: MARKUP_TYPES.includes(annotation.type)
+				? "highlighting"
+				: annotation.type === "stamp"
+					? "tagging"
+					: "commenting",
+			...(timestamp && { created: timestamp }),
+			...(modified && { modified }),
+			...(author && { creator: { type: "Person", name: author } }),
+			...(body.length > 0 && { body: body.length === 1 ? body[0] : body }),
+			target: { source: options.source ?? DEFAULT_SOURCE, selector: selectors },
+			[BUKA_PROPERTY]: shape
+		};
+	}
+
+	/**
+	 * Candidate annotation for a W3C Web Annotation. Annotations written by
+	 * other tools become highlights when they quote text or cover an area
+	 * and notes otherwise.
+	 */
+	static fromWebAnnotation(item: unknown): unknown {
+		if (!isObject(item) || !hasType(item, "Annotation")) return item;
+
+		const bodies = toArray(item.body ?? item.bodyValue).map((body) =>
+			typeof body === "string" ? { type: "TextualBody", value: body } : body
+		);
+		const content = bodies
+			.filter(
+				(body): body is Record<string, unknown> =>
+					isObject(body) && typeof body.value === "string" && body.purpose !== "tagging"
+			)
+			.map((body) => body.value as string)
+			.join("\n");
+
+		const target = toArray(item.target)[0];
+		const selectors = flattenSelectors(isObject(target) ? target.selector : undefined);
+		let page: number | undefined;
+		let box: AnnotationRect | undefined;
+		let text: string | undefined;
+		let range: { start: number; end: number } | undefined;
+		selectors.forEach((selector) => {
+			if (selector.type === "TextQuoteSelector" && typeof selector.exact === "string") {
+				text = selector.exact;
+			}
+			if (
+				selector.type === "TextPositionSelector" &&
+				isNumber(selector.start) &&
+				isNumber(selector.end)
+			) {
+				range = { start: selector.start, end: selector.end };
+			}
+			if (selector.type !== "FragmentSelector" || typeof selector.value !== "string") return;
+
+			const pageMatch = /(?:^|&)page=(\d+)/.exec(selector.value);
+			if (pageMatch) page = Number(pageMatch[1]);
+			const frame = /xywh=(?:(pixel|percent):)?([\d.]+),([\d.]+),([\d.]+),([\d.]+)/.exec(
+				selector.value
+			);
+			// Pixel boxes need the page size to be placed, only percentages are read
+			if (frame && frame[1] === "percent") {
+				const [x, y, width, height] = frame.slice(2).map((value) => Number(value) / 100);
+				box = { x: x ?? 0, y: y ?? 0, width: width ?? 0, height: height ?? 0 };
+			}
+		});
+
+		const id = typeof item.id === "string" ? item.id : undefined;
+		const creator = toArray(item.creator)[0];
+		const author = isObject(creator)
+			? (creator.name ?? creator.nickname)
+			: typeof creator === "string"
+				? creator
+				: undefined;
+		const common = {
+			...(id && { id: id.startsWith(ID_PREFIX) ? id.slice(ID_PREFIX.length) : id }),
+			...(page !== undefined && { page }),
+			...(content && { content }),
+			...(author !== undefined && { author }),
+			...(item.created !== undefined && { timestamp: item.created }),
+			...(item.modified !== undefined && { modified: item.modified })
+		};
+
+		const shape = item[BUKA_PROPERTY];
+		if (isObject(shape)) return { ...shape, ...common };
+
+		const tag = bodies.find((body) => isObject(body) && body.purpose === "tagging");
+		if (hasMotivation(item, "tagging") && isObject(tag) && box && box.width > 0) {
+			return { type: "stamp", position: box, label: tag.value, ...common };
+		}
+		if (
+			box &&
+			box.width > 0 &&
+			box.height > 0 &&
+			(text || hasMotivation(item, "highlighting"))
+		) {
+			return { type: "highlight", rects: [box], ...(text && { text }), ...common };
+		}
+		if (range && text) {
+			// Quoted text without a box is anchored to the document text
+			return {
+				type: "highlight",
+				text,
+				anchor: { type: "text", ...range, quote: text },
+				...common
+			};
+		}
+		return {
+			type: "note",
+			position: box ? { x: box.x, y: box.y } : { x: 0, y: 0 },
+			...(text && !content && { content: text }),
+			...common
+		};
+	}
+
+	/**
+	 * XFDF document for annotations, in PDF points from the bottom-left
+	 * corner of each page
+	 */
+	static toXfdf(
+		annotations: Annotation[],
+		pageSize: PageSizeResolver,
+		options: AnnotationExportOptions = {}
+	): string {
+		const xml = document.implementation.createDocument(XFDF_NAMESPACE, "xfdf", null);
+		const root = xml.documentElement;
+		root.setAttribute("xml:space", "preserve");
+		const create = (name: string, parent: Element) =>
+			parent.appendChild(xml.createElementNS(XFDF_NAMESPACE, name));
+
+		const list = create("annots", root);
+		annotations.forEach((annotation) => {
+			const page = annotation.page ?? 1;
+			const { width, height } = pageSize(page);
+			const point = ({ x, y }: AnnotationPoint): [number, number] => [
+				round(x * width),
+				round(height - y * height)
+			];
+			const rect = (box: AnnotationRect) =>
+				[
+					...point({ x: box.x, y: box.y + box.height }),
+					...point({ x: box.x + box.width, y: box.y })
+				].join(",");
+
+			const element = create(XFDF_ELEMENTS[annotation.type], list);
+			element.setAttribute("page", String(page - 1));
+			if (annotation.id) element.setAttribute("name", annotation.id);
+			if (annotation.author) element.setAttribute("title", annotation.author);
+			const color = toHexColor(annotation.color);
+			if (color) element.setAttribute("color", color);
+			if (annotation.opacity !== undefined) {
+				element.setAttribute("opacity", String(annotation.opacity));
+			}
+			if (annotation.timestamp) {
+				element.setAttribute(
+					"creationdate",
+					AnnotationSerializer.formatPdfDate(annotation.timestamp)
+				);
+			}
+			element.setAttribute(
+				"date",
+				AnnotationSerializer.formatPdfDate(annotation.modified ?? annotation.timestamp)
+			);
+
+			const bounds = AnnotationLayer.getBounds(annotation) ?? {
+				x: 0,
+				y: 0,
+				width: 0,
+				height: 0
+			};
+			if (annotation.type === "note") {
+				const [x, y] = point(bounds);
+				element.setAttribute("rect", [x, y - NOTE_SIZE, x + NOTE_SIZE, y].join(","));
+				element.setAttribute("icon", "Comment");
+			} else {
+				element.setAttribute("rect", rect(bounds));
+			}
+
+			if ("strokeWidth" in annotation && annotation.strokeWidth !== undefined) {
+				element.setAttribute("width", String(annotation.strokeWidth));
+			}
+
+			switch (annotation.type) {
+				case "highlight":
+				case "underline":
+				case "strikeout": {
+					// Quadrilaterals run top-left, top-right, bottom-left, bottom-right
+					const coords = (annotation.rects ?? [bounds]).flatMap((box) => [
+						...point(box),
+						...point({ x: box.x + box.width, y: box.y }),
+						...point({ x: box.x, y: box.y + box.height }),
+						...point({ x: box.x + box.width, y: box.y + box.height })
+					]);
+					element.setAttribute("coords", coords.join(","));
+					break;
+				}
+				case "ink": {
+					const inkList = create("inklist", element);
+					annotation.paths.forEach((path) => {
+						create("gesture", inkList).textContent = path
+							.map((entry) => point(entry).join(","))
+							.join(";");
+					});
+					break;
+				}
+				case "arrow":
+					element.setAttribute("start", point(annotation.start).join(","));
+					element.setAttribute("end", point(annotation.end).join(","));
+					element.setAttribute("head", "None");
+					element.setAttribute("tail", "OpenArrow");
+					break;
+				case "rectangle":
+				case "ellipse": {
+					const fill = toHexColor(annotation.fillColor);
+					if (fill) element.setAttribute("interior-color", fill);
+					break;
+				}
+				case "stamp":
+					element.setAttribute("icon", annotation.label);
+					break;
+				case "text":
+					create("defaultappearance", element).textContent = `/Helv ${
+						annotation.fontSize ?? 12
+					} Tf`;
+					break;
+			}
+
+			if (annotation.content) create("contents", element).textContent = annotation.content;
+		});
+
+		if (options.source) create("f", root).setAttribute("href", options.source);
+
+		return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(xml)}`;
+	}
+
+	/**
+	 * Candidate annotations for the annotations of an XFDF document.
+	 * Throws when the document is not well-formed XFDF.
+	 */
+	static fromXfdf(source: string, pageSize: PageSizeResolver): unknown[] {
+		const xml = new DOMParser().parseFromString(source, "application/xml");
+		const root = xml.documentElement;
+		if (xml.getElementsByTagName("parsererror").length > 0 || root.localName !== "xfdf") {
+			throw new Error("Invalid XFDF document");
+		}
+
+		const list = Array.from(root.children).find((child) => child.localName === "annots");
+		return Array.from(list?.children ?? []).map((element) => {
+			const type = (Object.keys(XFDF_ELEMENTS) as AnnotationType[]).find(
+				(key) => XFDF_ELEMENTS[key] === element.localName
+			);
+			const pageIndex = Number(element.getAttribute("page"));
+			const page = Number.isInteger(pageIndex) && pageIndex >= 0 ? pageIndex + 1 : 1;
+			const { width, height } = pageSize(page);
+			const numbers = (value: string | null) =>
+				(value ?? "")
+					.split(/[\s,;]+/)
+					.filter(Boolean)
+					.map(Number);
+			const point = (x = 0, y = 0): AnnotationPoint => ({
+				x: round(x / width, 6),
+				y: round((height - y) / height, 6)
+			});
+			const toRect = (points: AnnotationPoint[]): AnnotationRect => {
+				const xs = points.map((entry) => entry.x);
+				const ys = points.map((entry) => entry.y);
+				const x = Math.min(...xs);
+				const y = Math.min(...ys);
+				return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+			};
+			const child = (name: string) =>
+				Array.from(element.children).find((entry) => entry.localName === name);
+
+			const [x1, y1, x2, y2] = numbers(element.getAttribute("rect"));
+			const bounds = toRect([point(x1, y1), point(x2, y2)]);
+			const color = element.getAttribute("color");
+			const opacity = element.getAttribute("opacity");
+			const strokeWidth = element.getAttribute("width");
+			const author = element.getAttribute("title");
+			const content = child("contents")?.textContent;
+			const created = AnnotationSerializer.parsePdfDate(element.getAttribute("creationdate"));
+			const modified = AnnotationSerializer.parsePdfDate(element.getAttribute("date"));
+
+			const base = {
+				// Unsupported elements keep their name so validation can report them
+				type: type ?? element.localName,
+				page,
+				...(element.getAttribute("name") && { id: element.getAttribute("name") }),
+				...(author && { author }),
+				...(content && { content }),
+				...(color && { color }),
+				...(opacity !== null && { opacity: Number(opacity) }),
+				...((created ?? modified) && { timestamp: created ?? modified }),
+				...(modified && { modified })
+			};
+			const stroke = strokeWidth !== null && { strokeWidth: Number(strokeWidth) };
+
+			switch (type) {
+				case "highlight":
+				case "underline":
+				case "strikeout": {
+					const coords = numbers(element.getAttribute("coords"));
+					const rects: AnnotationRect[] = [];
+					for (let index = 0; index + 8 <= coords.length; index += 8) {
+						const quad = coords.slice(index, index + 8);
+						rects.push(
+							toRect(
+								[0, 2, 4, 6].map((offset) => point(quad[offset], quad[offset + 1]))
+							)
+						);
+					}
+					return { ...base, rects: rects.length > 0 ? rects : [bounds] };
+				}
+				case "ink": {
+					const gestures = Array.from(child("inklist")?.children ?? []);
+					const paths = gestures.map((gesture) =>
+						(gesture.textContent ?? "")
+							.split(";")
+							.filter((entry) => entry.trim())
+							.map((entry) => {
+								const [x, y] = numbers(entry);
+								return point(x, y);
+							})
+					);
+					return { ...base, paths, ...stroke };
+				}
+				case "arrow": {
+					const [startX, startY] = numbers(element.getAttribute("start"));
+					const [endX, endY] = numbers(element.getAttribute("end"));
+					return {
+						...base,
+						start: point(startX, startY),
+						end: point(endX, endY),
+						...stroke
+					};
+				}
+				case "rectangle":
+				case "ellipse": {
+					const fill = element.getAttribute("interior-color");
+					return {
+						...base,
+						position: bounds,
+						...stroke,
+						...(fill && { fillColor: fill })
+					};
+				}
+				case "stamp":
+					return { ...base, position: bounds, label: element.getAttribute("icon") ?? "" };
+				case "note":
+					return { ...base, position: { x: bounds.x, y: bounds.y } };
+				case "text": {
+					const size = /([\d.]+)\s+Tf/.exec(
+						child("defaultappearance")?.textContent ?? ""
+					);
+					return {
+						...base,
+						position: bounds,
+						...(size && { fontSize: Number(size[1]) })
+					};
+				}
+				default:
+					return base;
+			}
+		});
+	}
+
+	/**
+	 * ISO 8601 string for a PDF date such as "D:20240131120000+01'00'"
+	 */
+	static parsePdfDate(value: unknown): string | null {
+		if (typeof value !== "string") return null;
+
+		const match =
+			/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(
+				value
+			);
+		if (!match) return null;
+
+		const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00"] = match;
+		const sign = match[7] === "-" ? -1 : 1;
+		const offset =
+			match[7] && match[7].toUpperCase() !== "Z"
+				? sign * (Number(match[8] ?? 0) * 60 + Number(match[9] ?? 0))
+				: 0;
+		const time = Date.UTC(
+			Number(year),
+			Number(month) - 1,
+			Number(day),
+			Number(hour),
+			Number(minute),
+			Number(second)
+		);
+		return Number.isNaN(time) ? null : new Date(time - offset * 60000).toISOString();
+	}
+
+	static formatPdfDate(value: string | undefined): string {
+		const date = value ? new Date(value) : new Date();
+		const time = Number.isNaN(date.getTime()) ? new Date() : date;
+		return `D:${time.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+	}
+
+	/**
+	 * Whether a string is one CSS color value and nothing else
+	 */
+	static isColor(color: string): boolean {
+		if (typeof CSS !== "undefined" && typeof CSS.supports === "function") {
+			return CSS.supports("color", color);
+		}
+		// Without CSS.supports accept hex colors, color functions and keywords
+		return /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%/+-]+\)|[a-z]+)$/i.test(color.trim());
+	}
+
+	/**
+	 * RGB channels (0-255) of a CSS color, null when it cannot be read
+	 */
+	static toRgb(color: string): number[] | null {
+		let value = color.trim();
+		if (!/^#|^rgba?\(/i.test(value) && typeof document !== "undefined") {
+			// Let the browser resolve named colors
+			const context = document.createElement("canvas").getContext("2d");
+			if (context) {
+				context.fillStyle = value;
+				value = String(context.fillStyle);
+			}
+		}
+
+		const hex = /^#([0-9a-f]{3,8})$/i.exec(value)?.[1];
+		if (hex) {
+			const digits = hex.length < 6 ? hex.replace(/./g, "$&$&") : hex;
+			return [0, 2, 4].map((start) => parseInt(digits.slice(start, start + 2), 16));
+		}
+
+		const channels = /^rgba?\(([^)]+)\)/i
+			.exec(value)?.[1]
+			?.split(/[\s,/]+/)
+			.slice(0, 3);
+		if (channels?.length === 3) {
+			return channels.map(
+				(channel) =>
+					Math.round(
+						Math.min(
+							255,
+							channel.endsWith("%")
+								? (parseFloat(channel) / 100) * 255
+								: parseFloat(channel)
+						)
+					) || 0
+			);
+		}
+		return null;
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+function isNumber(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value);
+}
+
+function hasType(value: Record<string, unknown>, type: string): boolean {
+	return toArray(value.type).includes(type);
+}
+
+function hasMotivation(value: Record<string, unknown>, motivation: string): boolean {
+	return toArray(value.motivation).includes(motivation);
+}
+
+function toArray(value: unknown): unknown[] {
+	if (value === undefined || value === null) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+function isIri(value: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:/i.test(value);
+}
+
+function round(value: number, digits = 2): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
+
+function toHexColor(color: string | undefined): string | null {
+	const rgb = color ? AnnotationSerializer.toRgb(color) : null;
+	return rgb && `#${rgb.map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Selectors of a target with the selectors they are refined by
+ */
+function flattenSelectors(value: unknown): Record<string, unknown>[] {
+	return toArray(value).flatMap((selector) =>
+		isObject(selector) ? [selector, ...flattenSelectors(selector.refinedBy)] : []
+	);
+}
+
+function checkPoint(
+	value: unknown,
+	path: string,
+	fail: (path: string, message: string) => void
+): void {
+	if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) {
+		fail(path, "Expected a point with numeric x and y");
+	}
+}
+
+function checkRect(
+	value: unknown,
+	path: string,
+	sized: boolean,
+	fail: (path: string, message: string) => void
+): void {
+	if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) {
+		fail(path, "Expected a box with numeric x and y");
+		return;
+	}
+	["width", "height"].forEach((key) => {
+		if (value[key] === undefined ? sized : !(isNumber(value[key]) && value[key] >= 0)) {
+			fail(`${path}.${key}`, "Expected a number of at least 0");
+		}
+	});
+}
+
+function checkAnchor(
+	value: unknown,
+	path: string,
+	fail: (path: string, message: string) => void
+): void {
+	if (!isObject(value)) {
+		fail(path, "Expected an anchor object");
+	} else if (value.type === "text") {
+		["start", "end"].forEach((key) => {
+			if (!(Number.isInteger(value[key]) && (value[key] as number) >= 0)) {
+				fail(`${path}.${key}`, "Expected a text offset from 0");
+			}
+		});
+		if (typeof value.quote !== "string") fail(`${path}.quote`, "Expected a string");
+	} else if (value.type === "cell") {
+		if (typeof value.sheet !== "string") fail(`${path}.sheet`, "Expected a string");
+		if (typeof value.address !== "string" || !/^[A-Z]+[1-9]\d*$/i.test(value.address)) {
+			fail(`${path}.address`, "Expected an A1-style cell address");
+		}
+	} else {
+		fail(`${path}.type`, `Unknown anchor type ${JSON.stringify(value.type)}`);
+	}
+}
@@ -0,0 +1,146 @@
+import type { Annotation, AnnotationStore } from "../types";
+
+/**
+ * Local Storage Annotation Store
+ * Keeps each document's annotations as JSON in localStorage, which holds
+ * a few megabytes per origin. Use the IndexedDB store for many documents
+ * or large ink drawings.
+ */
+export class LocalStorageAnnotationStore implements AnnotationStore {
+	readonly prefix: string;
+
+	constructor(prefix = "buka-annotations:") {
+		this.prefix = prefix;
+	}
+
+	async load(documentId: string): Promise<Annotation[] | null> {
+		const value = this.read(documentId);
+		const annotations = Array.isArray(value)
+			? value
+			: (value as { annotations?: unknown } | null)?.annotations;
+		return Array.isArray(annotations) ? (annotations as Annotation[]) : null;
+	}
+
+	async loadRemoved(documentId: string): Promise<string[]> {
+		const removed = (this.read(documentId) as { removed?: unknown } | null)?.removed;
+		return Array.isArray(removed) ? (removed as string[]) : [];
+	}
+
+	async save(
+		documentId: string,
+		annotations: Annotation[],
+		removed: string[] = []
+	): Promise<void> {
+		// Documents without removed file annotations keep the plain array format
+		const record = removed.length > 0 ? { annotations, removed } : annotations;
+		localStorage.setItem(this.prefix + documentId, JSON.stringify(record));
+	}
+
+	async remove(documentId: string): Promise<void> {
+		localStorage.removeItem(this.prefix + documentId);
+	}
+
+	private read(documentId: string): unknown {
+		const value = localStorage.getItem(this.prefix + documentId);
+		if (value === null) return null;
+
+		try {
+			return JSON.parse(value);
+		} catch {
+			// Entries written by something else count as having no annotations
+			return null;
+		}
+	}
+}
+
+/**
+ * IndexedDB Annotation Store
+ * Keeps each document's annotations as a record of an IndexedDB object
+ * store, keyed by document id. The database is opened on first use.
+ */
+export class IndexedDBAnnotationStore implements AnnotationStore {
+	readonly databaseName: string;
+	readonly storeName: string;
+	private database: Promise<IDBDatabase> | null;
+
+	constructor(databaseName = "buka-annotations", storeName = "annotations") {
+		this.databaseName = databaseName;
+		this.storeName = storeName;
+		this.database = null;
+	}
+
+	async load(documentId: string): Promise<Annotation[] | null> {
+		const record = await this.request("readonly", (store) => store.get(documentId));
+		const annotations = (record as { annotations?: unknown } | undefined)?.annotations;
+		return Array.isArray(annotations) ? (annotations as Annotation[]) : null;
+	}
+
+	async loadRemoved(documentId: string): Promise<string[]> {
+		const record = await this.request("readonly", (store) => store.get(documentId));
+		const removed = (record as { removed?: unknown } | undefined)?.removed;
+		return Array.isArray(removed) ? (removed as string[]) : [];
+	}
+
+	async save(
+		documentId: string,
+		annotations: Annotation[],
+		removed: string[] = []
+	): Promise<void> {
+		await this.request("readwrite", (store) =>
+			store.put({ annotations, removed, savedAt: new Date().toISOString() }, documentId)
+		);
+	}
+
+	async remove(documentId: string): Promise<void> {
+		await this.request("readwrite", (store) => store.delete(documentId));
+	}
+
+	/**
+	 * Close the database, it is opened again by the next call
+	 */
+	async close(): Promise<void> {
+		const database = this.database;
+		this.database = null;
+		(await database)?.close();
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.database) {
+			this.database = new Promise((resolve, reject) => {
+				if (typeof indexedDB === "undefined") {
+					reject(new Error("IndexedDB is not available"));
+					return;
+				}
+
+				const request = indexedDB.open(this.databaseName, 1);
+				request.onupgradeneeded = () => {
+					if (!request.result.objectStoreNames.contains(this.storeName)) {
+						request.result.createObjectStore(this.storeName);
+					}
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+			// Let a later call retry after a failed open
+			this.database.catch(() => {
+				this.database = null;
+			});
+		}
+		return this.database;
+	}
+
+	private async request(
+		mode: "readonly" | "readwrite",
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<unknown> {
+		const database = await this.open();
+		return new Promise((resolve, reject) => {
+			const transaction = database.transaction(this.storeName, mode);
+			const request = operation(transaction.objectStore(this.storeName));
+			transaction.oncomplete = () => resolve(request.result);
+			transaction.onerror = () => reject(transaction.error ?? request.error);
+			transaction.onabort = () =>
+				reject(transaction.error ?? new Error("Transaction aborted"));
+		});
+	}
+}
@@ -0,0 +1,381 @@
+import type {
+	Annotation,
+	AnnotationImportResult,
+	AnnotationOperation,
+	AnnotationPoint,
+	EventCallback,
+	PresenceState,
+	SyncAdapter,
+	SyncClock,
+	SyncMessage,
+	SyncOptions
+} from "../types";
+import { AnnotationSerializer } from "./annotation-serializer";
+import type { BaseRenderer } from "./base-renderer";
+import { EVENTS } from "./config";
+import { PresenceLayer } from "./presence-layer";
+
+// Presence is sent again this often so peers can drop viewers that vanished
+const HEARTBEAT_INTERVAL = 10000;
+
+// Peers not heard from for this long are considered gone
+const PRESENCE_TIMEOUT = 30000;
+
+const PRESENCE_COLORS = ["#e53935", "#8e24aa", "#1e88e5", "#00897b", "#f4511e", "#6d4c41"];
+
+interface FieldState {
+	value: unknown;
+	clock: SyncClock;
+}
+
+interface EntryState {
+	fields: Map<string, FieldState>;
+	removed: SyncClock | null;
+}
+
+export interface AnnotationSyncOptions extends SyncOptions {
+	/** Called with the other collaborators whenever one joins, moves or leaves */
+	onPresenceChange?: (peers: PresenceState[]) => void;
+}
+
+/**
+ * Annotation Sync
+ * Shares the annotations of a renderer with collaborators through a sync
+ * adapter. Every field of an annotation is a last-writer-wins register
+ * ordered by Lamport clocks and deletions are kept as tombstones, so
+ * operations can arrive in any order, twice, or from several peers at once
+ * and every replica still settles on the same annotations.
+ */
+export class AnnotationSync {
+	readonly replica: string;
+	private adapter: SyncAdapter;
+	private counter: number;
+	private entries: Map<string, EntryState>;
+	private renderer: BaseRenderer | null;
+	private listeners: Array<[string, EventCallback]>;
+	private applying: boolean;
+	private presence: PresenceState;
+	private peers: Map<string, { state: PresenceState; seen: number }>;
+	private presencePages: Set<number>;
+	private heartbeat: ReturnType<typeof setInterval> | null;
+	private onPresenceChange: ((peers: PresenceState[]) => void) | undefined;
+
+	constructor(adapter: SyncAdapter, options: AnnotationSyncOptions = {}) {
+		this.adapter = adapter;
+		this.replica = options.replica ?? `replica_${Math.random().toString(36).substr(2, 9)}`;
+		this.counter = 0;
+		this.entries = new Map();
+		this.renderer = null;
+		this.listeners = [];
+		this.applying = false;
+		this.presence = {
+			replica: this.replica,
+			name: options.name ?? "Anonymous",
+			color: options.color ?? AnnotationSync.pickColor(this.replica),
+			page: 1,
+			cursor: null
+		};
+		this.peers = new Map();
+		this.presencePages = new Set();
+		this.heartbeat = null;
+		this.onPresenceChange = options.onPresenceChange;
+	}
+
+	/**
+	 * Order of two clocks, negative when a happened before b
+	 */
+	static compareClocks(a: SyncClock, b: SyncClock): number {
+		if (a.counter !== b.counter) return a.counter - b.counter;
+		return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+	}
+
+	/**
+	 * Stable color for a replica id
+	 */
+	static pickColor(replica: string): string {
+		let hash = 0;
+		for (let index = 0; index < replica.length; index++) {
+			hash = (hash * 31 + replica.charCodeAt(index)) | 0;
+		}
+		return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length] ?? "#1e88e5";
+	}
+
+	async connect(): Promise<void> {
+		await this.adapter.connect((message) => this.receive(message));
+		this.adapter.push({ type: "hello", replica: this.replica });
+		// Changes made before connecting or while offline
+		const ops = this.getSnapshot();
+		if (ops.length > 0) this.adapter.push({ type: "ops", replica: this.replica, ops });
+		this.pushPresence();
+		this.heartbeat = setInterval(() => {
+			this.pushPresence();
+			this.dropStalePeers();
+		}, HEARTBEAT_INTERVAL);
+	}
+
+	disconnect(): void {
+		if (this.heartbeat) clearInterval(this.heartbeat);
+		this.heartbeat = null;
+		this.adapter.push({ type: "leave", replica: this.replica });
+		this.adapter.disconnect();
+		this.peers.clear();
+		this.renderPresence();
+		this.detach();
+	}
+
+	/**
+	 * Share the annotations of a renderer. Annotations the session already
+	 * holds are applied to it, its own annotations are sent to the peers.
+	 */
+	attach(renderer: BaseRenderer): void {
+		this.detach();
+		this.renderer = renderer;
+
+		const listen = (event: string, callback: EventCallback) => {
+			renderer.on(event, callback);
+			this.listeners.push([event, callback]);
+		};
+		listen(EVENTS.ANNOTATION_ADDED, (annotation: Annotation) => this.recordLocal(annotation));
+		listen(EVENTS.ANNOTATION_UPDATED, (annotation: Annotation) => this.recordLocal(annotation));
+		listen(EVENTS.ANNOTATION_REMOVED, (annotation: Annotation) => {
+			if (annotation.id) this.recordLocal(annotation, true);
+		});
+		listen(EVENTS.ANNOTATIONS_IMPORTED, (result: AnnotationImportResult) =>
+			result.imported.forEach((annotation) => this.recordLocal(annotation))
+		);
+
+		const local = renderer
+			.getAnnotations()
+			.filter((annotation) => annotation.id && !this.entries.has(annotation.id));
+		this.entries.forEach((_, id) => this.applyToRenderer(id));
+		local.forEach((annotation) => this.recordLocal(annotation));
+		this.renderPresence();
+	}
+
+	detach(): void {
+		if (this.renderer) {
+			this.presencePages.forEach((page) => {
+				const pageElement = this.renderer?.getAnnotationPageElement(page);
+				if (pageElement) PresenceLayer.clear(pageElement);
+			});
+			this.listeners.forEach(([event, callback]) => this.renderer?.off(event, callback));
+		}
+		this.presencePages.clear();
+		this.listeners = [];
+		this.renderer = null;
+	}
+
+	/**
+	 * Tell the peers which page this viewer is on and where its pointer is
+	 */
+	updatePresence(changes: { page?: number; cursor?: AnnotationPoint | null }): void {
+		const next = { ...this.presence, ...changes };
+		if (
+			next.page === this.presence.page &&
+			next.cursor?.x === this.presence.cursor?.x &&
+			next.cursor?.y === this.presence.cursor?.y
+		) {
+			return;
+		}
+		this.presence = next;
+		this.pushPresence();
+	}
+
+	getPeers(): PresenceState[] {
+		return Array.from(this.peers.values()).map(({ state }) => state);
+	}
+
+	/**
+	 * Operations that rebuild every annotation the session knows of,
+	 * tombstones included
+	 */
+	getSnapshot(): AnnotationOperation[] {
+		const ops: AnnotationOperation[] = [];
+		this.entries.forEach((entry, id) => {
+			const byClock = new Map<string, AnnotationOperation>();
+			entry.fields.forEach(({ value, clock }, key) => {
+				const tag = `${clock.counter}:${clock.replica}`;
+				const op = byClock.get(tag) ?? { id, clock, set: {} };
+				op.set = { ...op.set, [key]: value };
+				byClock.set(tag, op);
+			});
+			ops.push(...byClock.values());
+			if (entry.removed) ops.push({ id, clock: entry.removed, remove: true });
+		});
+		return ops;
+	}
+
+	/**
+	 * Merge operations from a peer and apply the annotations they changed
+	 */
+	applyOperations(ops: AnnotationOperation[]): void {
+		const changed = new Set<string>();
+		ops.forEach((op) => {
+			this.counter = Math.max(this.counter, op.clock.counter);
+			if (this.merge(op)) changed.add(op.id);
+		});
+		changed.forEach((id) => this.applyToRenderer(id));
+	}
+
+	receive(message: SyncMessage): void {
+		if (message.replica === this.replica) return;
+
+		switch (message.type) {
+			case "ops":
+				this.applyOperations(message.ops);
+				break;
+			case "hello": {
+				const ops = this.getSnapshot();
+				if (ops.length > 0) this.adapter.push({ type: "ops", replica: this.replica, ops });
+				this.pushPresence();
+				break;
+			}
+			case "presence":
+				this.peers.set(message.replica, { state: message.presence, seen: Date.now() });
+				this.renderPresence();
+				break;
+			case "leave":
+				if (this.peers.delete(message.replica)) this.renderPresence();
+				break;
+		}
+	}
+
+	/**
+	 * Turn a change made in this viewer into an operation for the peers
+	 */
+	private recordLocal(annotation: Annotation, removed = false): void {
+		const id = annotation.id;
+		if (this.applying || !id) return;
+
+		const clock = { counter: ++this.counter, replica: this.replica };
+		let op: AnnotationOperation;
+		if (removed) {
+			op = { id, clock, remove: true };
+		} else {
+			const current = this.entries.has(id) ? this.materialize(id) : null;
+			const fields = this.entries.get(id)?.fields ?? new Map<string, FieldState>();
+			const set: Record<string, unknown> = {};
+			const values: Record<string, unknown> = { ...annotation };
+			delete values.id;
+			Object.entries(values).forEach(([key, value]) => {
+				// A deleted annotation that comes back needs all of its fields
+				if (!current || JSON.stringify(fields.get(key)?.value) !== JSON.stringify(value)) {
+					set[key] = value === undefined ? null : value;
+				}
+			});
+			fields.forEach((field, key) => {
+				if (!(key in values) && field.value !== null) set[key] = null;
+			});
+			if (current && Object.keys(set).length === 0) return;
+			op = { id, clock, set };
+		}
+
+		this.merge(op);
+		this.adapter.push({ type: "ops", replica: this.replica, ops: [op] });
+	}
+
+	/**
+	 * Fold an operation into the session state, true when it won anything
+	 */
+	private merge(op: AnnotationOperation): boolean {
+		let entry = this.entries.get(op.id);
+		if (!entry) {
+			entry = { fields: new Map(), removed: null };
+			this.entries.set(op.id, entry);
+		}
+
+		let changed = false;
+		if (
+			op.remove &&
+			(!entry.removed || AnnotationSync.compareClocks(op.clock, entry.removed) > 0)
+		) {
+			entry.removed = op.clock;
+			changed = true;
+		}
+		Object.entries(op.set ?? {}).forEach(([key, value]) => {
+			const field = entry?.fields.get(key);
+			if (!field || AnnotationSync.compareClocks(op.clock, field.clock) > 0) {
+				entry?.fields.set(key, { value, clock: op.clock });
+				changed = true;
+			}
+		});
+		return changed;
+	}
+
+	/**
+	 * Current annotation of an entry, null while it is deleted or while
+	 * too few of its fields have arrived to form a valid annotation
+	 */
+	private materialize(id: string): Annotation | null {
+		const entry = this.entries.get(id);
+		if (!entry) return null;
+
+		let latest: SyncClock | null = null;
+		const annotation: Record<string, unknown> = { id };
+		entry.fields.forEach(({ value, clock }, key) => {
+			if (value !== null) annotation[key] = value;
+			if (!latest || AnnotationSync.compareClocks(clock, latest) > 0) latest = clock;
+		});
+		// A write after the deletion brings the annotation back
+		if (!latest || (entry.removed && AnnotationSync.compareClocks(entry.removed, latest) > 0)) {
+			return null;
+		}
+		return AnnotationSerializer.validate(annotation).annotation;
+	}
+
+	private applyToRenderer(id: string): void {
+		if (!this.renderer) return;
+
+		const annotation = this.materialize(id);
+		const current = this.renderer.annotations.get(id);
+		if (!annotation && !current) return;
+		if (annotation && current && JSON.stringify(annotation) === JSON.stringify(current)) return;
+
+		this.applying = true;
+		try {
+			this.renderer.syncAnnotation(id, annotation);
+		} finally {
+			this.applying = false;
+		}
+	}
+
+	private pushPresence(): void {
+		this.adapter.push({ type: "presence", replica: this.replica, presence: this.presence });
+	}
+
+	private dropStalePeers(): void {
+		const now = Date.now();
+		let dropped = false;
+		this.peers.forEach(({ seen }, replica) => {
+			if (now - seen > PRESENCE_TIMEOUT) dropped = this.peers.delete(replica);
+		});
+		if (dropped) this.renderPresence();
+	}
+
+	/**
+	 * Draw the peers' cursors on their pages and report the change
+	 */
+	private renderPresence(): void {
+		const peers = this.getPeers();
+		const renderer = this.renderer;
+		if (renderer) {
+			const pages = new Set(peers.filter((peer) => peer.cursor).map((peer) => peer.page));
+			new Set([...this.presencePages, ...pages]).forEach((page) => {
+				const pageElement = renderer.getAnnotationPageElement(page);
+				const layout = renderer.getAnnotationLayout(page);
+				if (!pageElement) return;
+				if (layout && pages.has(page)) {
+					PresenceLayer.render(
+						pageElement,
+						peers.filter((peer) => peer.page === page),
+						layout
+					);
+				} else {
+					PresenceLayer.clear(pageElement);
+				}
+			});
+			this.presencePages = pages;
+		}
+		this.onPresenceChange?.(peers);
+	}
+}
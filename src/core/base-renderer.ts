@@ -1,5 +1,38 @@
-import type { Annotation, EventCallback, SearchResult, ViewerOptions } from "../types";
-import { EVENTS } from "./config";
+import type {
+	Annotation,
+	AnnotationAnchor,
+	AnnotationChanges,
+	AnnotationExportOptions,
+	AnnotationExports,
+	AnnotationFormat,
+	AnnotationImportOptions,
+	AnnotationImportResult,
+	AnnotationInput,
+	AnnotationLayout,
+	AnnotationPoint,
+	DocumentInput,
+	EventCallback,
+	PageTextContent,
+	SearchOptions,
+	SearchResult,
+	TextAnchor,
+	TextExtractionOptions,
+	ViewerOptions
+} from "../types";
+import { AnnotationLayer } from "./annotation-layer";
+import { AnnotationSerializer } from "./annotation-serializer";
+import { ANNOTATION_DEFAULTS, EVENTS } from "./config";
+import { HistoryStack } from "./history";
+import { SourceLoader } from "./source-loader";
+
+// Page size in points assumed for pages that have not been laid out
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 };
+
+// Longest side in CSS pixels of thumbnails requested without a size
+const DEFAULT_THUMBNAIL_SIZE = 120;
+
+// Parts of a page snapshot that belong to the viewer rather than the document
+const THUMBNAIL_EXCLUDED_SELECTOR = ".buka-annotation-layer, .buka-presence-layer";
 
 /**
  * Base Document Renderer Interface
@@ -12,6 +45,8 @@ export abstract class BaseRenderer {
 	public totalPages: number;
 	public zoomFactor: number;
 	public annotations: Map<string, Annotation>;
+	public selectedAnnotationId: string | null;
+	public history: HistoryStack;
 	public eventListeners: Map<string, Set<EventCallback>>;
 	public searchResults: SearchResult[];
 	public currentSearchIndex: number;
@@ -23,15 +58,30 @@ export abstract class BaseRenderer {
 		this.totalPages = 1;
 		this.zoomFactor = 1.0;
 		this.annotations = new Map();
+		this.selectedAnnotationId = null;
 		this.eventListeners = new Map();
+		this.history = new HistoryStack({
+			onChange: (state) => this.emit(EVENTS.HISTORY_CHANGED, state)
+		});
 		this.searchResults = [];
 		this.currentSearchIndex = 0;
 	}
 
-	abstract load(source: string | File | Blob): Promise<void>;
+	abstract load(source: DocumentInput): Promise<void>;
 
 	abstract render(): Promise<void>;
 
+	/**
+	 * Read the document bytes through the shared source loader
+	 */
+	protected async readSource(source: DocumentInput): Promise<ArrayBuffer> {
+		const loaded = await SourceLoader.load(
+			source,
+			SourceLoader.fromViewerOptions(this.options)
+		);
+		return loaded.data;
+	}
+
 	async goto(page: number): Promise<boolean> {
 		if (page < 1 || page > this.totalPages) return false;
 		this.currentPage = page;
@@ -46,40 +96,496 @@ export abstract class BaseRenderer {
 		this.emit(EVENTS.ZOOM_CHANGED, { zoom: this.zoomFactor });
 	}
 
-	abstract search(query: string): Promise<SearchResult[]>;
+	abstract search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+
+	nextSearchResult(): void {
+		if (this.searchResults.length > 0) {
+			this.currentSearchIndex = (this.currentSearchIndex + 1) % this.searchResults.length;
+			this.showSearchResult(this.currentSearchIndex);
+		}
+	}
+
+	previousSearchResult(): void {
+		if (this.searchResults.length > 0) {
+			this.currentSearchIndex =
+				(this.currentSearchIndex - 1 + this.searchResults.length) %
+				this.searchResults.length;
+			this.showSearchResult(this.currentSearchIndex);
+		}
+	}
+
+	/**
+	 * Bring a search result into view. Renderers that highlight hits
+	 * in place override this to mark and scroll to the exact match.
+	 */
+	async showSearchResult(index: number): Promise<void> {
+		this.currentSearchIndex = index;
+		const page = this.searchResults[index]?.page;
+		if (page) {
+			await this.goto(page);
+		}
+	}
+
+	/**
+	 * Plain text of the document, one entry per page, slide or sheet.
+	 * Renderers without a text model return no pages.
+	 */
+	async getText(_options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		return [];
+	}
+
+	/**
+	 * Page numbers a text extraction covers, none when the requested page
+	 * does not exist
+	 */
+	protected getTextPages(options: TextExtractionOptions): number[] {
+		if (options.page !== undefined) {
+			return options.page >= 1 && options.page <= this.totalPages ? [options.page] : [];
+		}
+		return Array.from({ length: this.totalPages }, (_, index) => index + 1);
+	}
+
+	/**
+	 * Preview of a page, slide or sheet that fits in a square of `size`
+	 * CSS pixels. Null when the page does not exist or the renderer has
+	 * nothing to draw a preview from.
+	 */
+	async getThumbnail(
+		page: number,
+		size: number = DEFAULT_THUMBNAIL_SIZE
+	): Promise<HTMLElement | null> {
+		if (page < 1 || page > this.totalPages || size <= 0) return null;
+		return this.createThumbnail(page, size);
+	}
+
+	/**
+	 * Identifier stored in the loaded document, such as the PDF file ID.
+	 * Null when the format has none.
+	 */
+	getFingerprint(): string | null {
+		return null;
+	}
+
+	/**
+	 * Draw the thumbnail of an existing page. Renderers that can preview
+	 * their pages override this.
+	 */
+	protected async createThumbnail(_page: number, _size: number): Promise<HTMLElement | null> {
+		return null;
+	}
+
+	/**
+	 * Scale that fits a width by height page in a square of `size` pixels
+	 */
+	protected getThumbnailScale(width: number, height: number, size: number): number {
+		const longest = Math.max(width, height);
+		return longest > 0 ? size / longest : 0;
+	}
 
-	addAnnotation(annotation: Omit<Annotation, "id" | "page" | "timestamp">): string {
-		const id = `ann_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+	/**
+	 * Thumbnail showing a copy of rendered content laid out in a width by
+	 * height pixel box, scaled down to fit in `size` pixels. The copy drops
+	 * ids and the annotation and presence layers, and ignores the pointer.
+	 */
+	protected createThumbnailFrame(
+		content: HTMLElement,
+		width: number,
+		height: number,
+		size: number
+	): HTMLElement {
+		const scale = this.getThumbnailScale(width, height, size);
+		const snapshot = content.cloneNode(true) as HTMLElement;
+		snapshot.querySelectorAll(THUMBNAIL_EXCLUDED_SELECTOR).forEach((layer) => layer.remove());
+		snapshot.removeAttribute("id");
+		snapshot.querySelectorAll("[id]").forEach((element) => element.removeAttribute("id"));
+		snapshot.style.position = "absolute";
+		snapshot.style.top = "0";
+		snapshot.style.left = "0";
+		snapshot.style.boxSizing = "border-box";
+		snapshot.style.width = `${width}px`;
+		snapshot.style.maxWidth = "none";
+		snapshot.style.height = `${height}px`;
+		snapshot.style.margin = "0";
+		snapshot.style.transform = `scale(${scale})`;
+		snapshot.style.transformOrigin = "0 0";
+
+		const frame = document.createElement("div");
+		frame.className = "buka-thumbnail-frame";
+		frame.setAttribute("aria-hidden", "true");
+		frame.style.cssText = `
+			position: relative;
+			width: ${Math.round(width * scale)}px;
+			height: ${Math.round(height * scale)}px;
+			overflow: hidden;
+			pointer-events: none;
+		`;
+		frame.appendChild(snapshot);
+		return frame;
+	}
+
+	/**
+	 * Store an annotation on the current page unless it names its own page
+	 * or has an anchor. Color, opacity and author fall back to the type defaults and the
+	 * viewer's annotationAuthor option
+	 */
+	addAnnotation(annotation: AnnotationInput): string {
+		const id = this.createAnnotationId();
+		const timestamp = new Date().toISOString();
+		const defaults = ANNOTATION_DEFAULTS[annotation.type];
 		const fullAnnotation = {
 			id,
 			page: this.currentPage,
-			timestamp: new Date().toISOString(),
+			timestamp,
+			modified: timestamp,
+			...(this.options.annotationAuthor !== undefined && {
+				author: this.options.annotationAuthor
+			}),
+			...(defaults && { color: defaults.color, opacity: defaults.opacity }),
 			...annotation
-		};
-		this.annotations.set(id, fullAnnotation);
-		this.emit(EVENTS.ANNOTATION_ADDED, fullAnnotation);
+		} as Annotation;
+		this.insertAnnotation(fullAnnotation);
+		this.history.push({
+			label: `Add ${fullAnnotation.type}`,
+			undo: () => this.removeAnnotation(id),
+			redo: () => this.insertAnnotation(fullAnnotation)
+		});
 		return id;
 	}
 
+	/**
+	 * Apply changes to a stored annotation and stamp its modified time
+	 */
+	updateAnnotation(id: string, changes: AnnotationChanges): boolean {
+		const annotation = this.annotations.get(id);
+		if (!annotation) return false;
+
+		const updated = {
+			...annotation,
+			...changes,
+			id,
+			modified: new Date().toISOString()
+		} as Annotation;
+		this.replaceAnnotation(updated);
+		this.history.push({
+			label: `Edit ${updated.type}`,
+			undo: () => this.replaceAnnotation(annotation),
+			redo: () => this.replaceAnnotation(updated)
+		});
+		return true;
+	}
+
+	/**
+	 * Annotations in insertion order, optionally only those of one page
+	 */
+	getAnnotations(page?: number): Annotation[] {
+		const annotations = Array.from(this.annotations.values());
+		return page === undefined
+			? annotations
+			: annotations.filter((annotation) => annotation.page === page);
+	}
+
 	removeAnnotation(id: string): boolean {
+		const index = Array.from(this.annotations.keys()).indexOf(id);
+		const annotation = this.deleteAnnotation(id);
+		if (!annotation) return false;
+
+		this.history.push({
+			label: `Delete ${annotation.type}`,
+			undo: () => this.insertAnnotation(annotation, index),
+			redo: () => this.removeAnnotation(id)
+		});
+		return true;
+	}
+
+	/**
+	 * Store, replace or remove (with null) an annotation without recording
+	 * an undo step, for changes made elsewhere such as by collaborators
+	 */
+	syncAnnotation(id: string, annotation: Annotation | null): void {
+		if (!annotation) {
+			this.deleteAnnotation(id);
+		} else if (this.annotations.has(id)) {
+			this.replaceAnnotation({ ...annotation, id });
+		} else {
+			this.insertAnnotation({ ...annotation, id });
+		}
+	}
+
+	/**
+	 * Ids of annotations read from the document file that were deleted.
+	 * Saved with the annotations so the file does not bring them back.
+	 * Renderers that read annotations from the file override this.
+	 */
+	getRemovedFileAnnotations(): string[] {
+		return [];
+	}
+
+	/**
+	 * Leave out annotations of the document file deleted in an earlier
+	 * session, including those already read
+	 */
+	setRemovedFileAnnotations(_ids: string[]): void {}
+
+	/**
+	 * Store a new or restored annotation, at index to put a deleted one
+	 * back where it was
+	 */
+	protected insertAnnotation(stored: Annotation, index = this.annotations.size): void {
+		const annotation = this.placeAnnotation(stored);
+		if (!annotation.id) return;
+
+		const entries = Array.from(this.annotations);
+		entries.splice(index, 0, [annotation.id, annotation]);
+		this.annotations.clear();
+		entries.forEach(([id, entry]) => this.annotations.set(id, entry));
+
+		this.renderAnnotationPages([annotation]);
+		this.emit(EVENTS.ANNOTATION_ADDED, annotation);
+	}
+
+	protected deleteAnnotation(id: string): Annotation | null {
 		const annotation = this.annotations.get(id);
-		if (annotation) {
-			this.annotations.delete(id);
-			this.emit(EVENTS.ANNOTATION_REMOVED, annotation);
-			return true;
+		if (!annotation) return null;
+
+		this.annotations.delete(id);
+		if (this.selectedAnnotationId === id) {
+			this.selectedAnnotationId = null;
 		}
-		return false;
+		this.renderAnnotationPages([annotation]);
+		this.emit(EVENTS.ANNOTATION_REMOVED, annotation);
+		return annotation;
+	}
+
+	protected replaceAnnotation(stored: Annotation): void {
+		const annotation = this.placeAnnotation(stored);
+		const previous = annotation.id ? this.annotations.get(annotation.id) : undefined;
+		if (!annotation.id || !previous) return;
+
+		this.annotations.set(annotation.id, annotation);
+		this.renderAnnotationPages([previous, annotation]);
+		this.emit(EVENTS.ANNOTATION_UPDATED, annotation);
 	}
 
-	exportAnnotations(): Annotation[] {
-		return Array.from(this.annotations.values());
+	/**
+	 * Mark an annotation as selected, or clear the selection with null
+	 */
+	selectAnnotation(id: string | null): void {
+		const previous = this.selectedAnnotationId;
+		const next = id !== null && this.annotations.has(id) ? id : null;
+		if (previous === next) return;
+
+		this.selectedAnnotationId = next;
+		this.renderAnnotationPages(
+			[previous, next].flatMap((selected) => {
+				const annotation = selected === null ? undefined : this.annotations.get(selected);
+				return annotation ? [annotation] : [];
+			})
+		);
+	}
+
+	/**
+	 * All annotations as the viewer's own JSON, W3C Web Annotations or an
+	 * XFDF document
+	 */
+	exportAnnotations<F extends AnnotationFormat = "json">(
+		format?: F,
+		options: AnnotationExportOptions = {}
+	): AnnotationExports[F] {
+		const annotations = Array.from(this.annotations.values());
+		const exports = {
+			json: () => annotations,
+			w3c: () =>
+				annotations.map((annotation) =>
+					AnnotationSerializer.toWebAnnotation(annotation, options)
+				),
+			xfdf: () =>
+				AnnotationSerializer.toXfdf(
+					annotations,
+					(page) => this.getAnnotationPageSize(page),
+					options
+				)
+		};
+		return exports[format ?? "json"]() as AnnotationExports[F];
 	}
 
-	importAnnotations(annotations: Annotation[]): void {
-		annotations.forEach((ann) => {
-			if (ann.id) {
-				this.annotations.set(ann.id, ann);
+	/**
+	 * Merge annotations from any export format into the current set. Items
+	 * that fail validation are skipped and reported, ids already in use are
+	 * resolved with options.onConflict. Throws when the input as a whole
+	 * cannot be read.
+	 */
+	importAnnotations(
+		input: unknown,
+		options: AnnotationImportOptions = {}
+	): AnnotationImportResult {
+		const format = options.format ?? AnnotationSerializer.detectFormat(input);
+		const onConflict = options.onConflict ?? "replace";
+		const items = AnnotationSerializer.parse(input, format, (page) =>
+			this.getAnnotationPageSize(page)
+		);
+		const result: AnnotationImportResult = { imported: [], errors: [], conflicts: [] };
+		const replaced: Annotation[] = [];
+
+		items.forEach((item, index) => {
+			const { annotation, errors } = AnnotationSerializer.validate(item);
+			if (!annotation) {
+				const id = (item as { id?: unknown } | null)?.id;
+				errors.forEach((error) =>
+					result.errors.push({ index, ...(typeof id === "string" && { id }), ...error })
+				);
+				return;
+			}
+
+			const timestamp = annotation.timestamp ?? new Date().toISOString();
+			let stored = this.placeAnnotation({
+				...annotation,
+				id: annotation.id ?? this.createAnnotationId(),
+				page: annotation.page ?? 1,
+				timestamp
+			} as Annotation & { id: string });
+
+			const existing = this.annotations.get(stored.id);
+			if (existing) {
+				const newer =
+					Date.parse(stored.modified ?? timestamp) >
+					Date.parse(existing.modified ?? existing.timestamp ?? "");
+				if (onConflict === "keep" || (onConflict === "newest" && !newer)) {
+					result.conflicts.push({ id: stored.id, resolution: "kept" });
+					return;
+				}
+				if (onConflict === "rename") {
+					const newId = this.createAnnotationId();
+					result.conflicts.push({ id: stored.id, resolution: "renamed", newId });
+					stored = { ...stored, id: newId };
+				} else {
+					result.conflicts.push({ id: stored.id, resolution: "replaced" });
+					replaced.push(existing);
+				}
 			}
+
+			this.annotations.set(stored.id, stored);
+			result.imported.push(stored);
+		});
+
+		this.renderAnnotationPages([...replaced, ...result.imported]);
+		if (result.imported.length > 0) this.emit(EVENTS.ANNOTATIONS_IMPORTED, result);
+		return result;
+	}
+
+	/**
+	 * Size of a page in points (pixels for images) at 100% zoom, US Letter
+	 * while the page has not been laid out
+	 */
+	getAnnotationPageSize(page: number): { width: number; height: number } {
+		const layout = this.getAnnotationLayout(page);
+		if (!layout || !layout.scale) return { ...DEFAULT_PAGE_SIZE };
+		return { width: layout.width / layout.scale, height: layout.height / layout.scale };
+	}
+
+	protected createAnnotationId(): string {
+		return `ann_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+	}
+
+	undo(): boolean {
+		return this.history.undo();
+	}
+
+	redo(): boolean {
+		return this.history.redo();
+	}
+
+	canUndo(): boolean {
+		return this.history.canUndo();
+	}
+
+	canRedo(): boolean {
+		return this.history.canRedo();
+	}
+
+	/**
+	 * Element the annotations of a page are drawn in. Renderers that show
+	 * annotations return it while the page is displayed.
+	 */
+	getAnnotationPageElement(_page: number): HTMLElement | null {
+		return null;
+	}
+
+	/**
+	 * Pixel size of a page at the current zoom
+	 */
+	getAnnotationLayout(_page: number): AnnotationLayout | null {
+		return null;
+	}
+
+	/**
+	 * Anchor for the part of a text selection on a page. Renderers whose
+	 * text reflows across pages anchor text markup to it.
+	 */
+	getTextAnchor(_range: Range, _page: number): TextAnchor | null {
+		return null;
+	}
+
+	/**
+	 * Anchor for a point on a page, such as the spreadsheet cell under it
+	 */
+	getPointAnchor(_page: number, _point: AnnotationPoint): AnnotationAnchor | null {
+		return null;
+	}
+
+	/**
+	 * Page an anchor is on in the current layout, null when it cannot be found
+	 */
+	protected getAnchorPage(_anchor: AnnotationAnchor): number | null {
+		return null;
+	}
+
+	/**
+	 * Copy of an anchored annotation with the geometry its anchor covers on
+	 * the displayed page, null while the anchor is not laid out
+	 */
+	protected anchorAnnotation(annotation: Annotation): Annotation | null {
+		return annotation;
+	}
+
+	/**
+	 * Move anchored annotations to the pages their anchors are on after the
+	 * document was laid out again, and redraw every page. Pages follow the
+	 * layout, so the move is not an undo step.
+	 */
+	reanchorAnnotations(): void {
+		this.annotations.forEach((annotation, id) => {
+			this.annotations.set(id, this.placeAnnotation(annotation));
+		});
+		for (let page = 1; page <= this.totalPages; page++) {
+			this.renderPageAnnotations(page);
+		}
+	}
+
+	// Keep the page of an anchored annotation in step with its anchor
+	private placeAnnotation<T extends Annotation>(annotation: T): T {
+		const page = annotation.anchor ? this.getAnchorPage(annotation.anchor) : null;
+		return page === null || page === annotation.page ? annotation : { ...annotation, page };
+	}
+
+	renderPageAnnotations(page: number): void {
+		const pageElement = this.getAnnotationPageElement(page);
+		const layout = this.getAnnotationLayout(page);
+		if (!pageElement || !layout) return;
+
+		const annotations = this.getAnnotations(page).flatMap((annotation) => {
+			const drawn = annotation.anchor ? this.anchorAnnotation(annotation) : annotation;
+			return drawn ? [drawn] : [];
+		});
+		if (annotations.length === 0) {
+			AnnotationLayer.clear(pageElement);
+			return;
+		}
+		AnnotationLayer.render(pageElement, annotations, layout, this.selectedAnnotationId);
+	}
+
+	protected renderAnnotationPages(annotations: Annotation[]): void {
+		new Set(annotations.map((annotation) => annotation.page)).forEach((page) => {
+			if (page !== undefined) this.renderPageAnnotations(page);
 		});
 	}
 
@@ -118,6 +624,8 @@ export abstract class BaseRenderer {
 	destroy(): void {
 		this.eventListeners.clear();
 		this.annotations.clear();
+		this.selectedAnnotationId = null;
+		this.history.clear();
 		if (this.container) {
 			this.container.innerHTML = "";
 		}
@@ -0,0 +1,25 @@
+/**
+ * Little-endian integer readers shared by the container formats
+ */
+export function readUint16(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] ?? 0) | ((bytes[offset + 1] ?? 0) << 8);
+}
+
+export function readUint32(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] ?? 0) |
+			((bytes[offset + 1] ?? 0) << 8) |
+			((bytes[offset + 2] ?? 0) << 16) |
+			((bytes[offset + 3] ?? 0) << 24)) >>>
+		0
+	);
+}
+
+export function readInt16(bytes: Uint8Array, offset: number): number {
+	const value = readUint16(bytes, offset);
+	return value & 0x8000 ? value - 0x10000 : value;
+}
+
+export function readInt32(bytes: Uint8Array, offset: number): number {
+	return readUint32(bytes, offset) | 0;
+}
@@ -1,10 +1,78 @@
-import type { EventCallback, ThumbnailData, ViewerOptions } from "../types";
+import type {
+	Annotation,
+	AnnotationChanges,
+	AnnotationExportOptions,
+	AnnotationExports,
+	AnnotationFormat,
+	AnnotationImportOptions,
+	AnnotationImportResult,
+	AnnotationInput,
+	AnnotationTool,
+	DocumentInput,
+	EventCallback,
+	HistoryState,
+	LoadedSource,
+	LoadOptions,
+	LoadProgressEvent,
+	PageTextContent,
+	PasswordRequest,
+	PresenceState,
+	SearchOptions,
+	SearchProgressEvent,
+	SearchResult,
+	SearchResultEvent,
+	TextExtractionOptions,
+	SyncAdapter,
+	SyncOptions,
+	ThumbnailData,
+	ViewerOptions
+} from "../types";
+import { AnnotationEditor } from "./annotation-editor";
+import { AnnotationSerializer } from "./annotation-serializer";
+import { AnnotationSync } from "./annotation-sync";
 import type { BaseRenderer } from "./base-renderer";
-import { EVENTS } from "./config";
+import { EVENTS, SUPPORTED_FORMATS } from "./config";
 import { DocumentDetector } from "./document-detector";
 import { RendererFactory } from "./render-factory";
+import { SourceLoader } from "./source-loader";
 import { styleManager } from "../styles";
 
+const SEARCH_TOGGLES: Array<{ option: keyof SearchOptions; label: string; title: string }> = [
+	{ option: "caseSensitive", label: "Aa", title: "Match case" },
+	{ option: "wholeWords", label: "ab", title: "Match whole words" },
+	{ option: "regex", label: ".*", title: "Use regular expression" },
+	{ option: "ignoreDiacritics", label: "é=e", title: "Ignore accents" }
+];
+
+// Default wait after the last annotation change before it is saved, in ms
+const AUTOSAVE_DELAY = 1000;
+
+// Thumbnails within one sidebar height above or below the visible area are drawn
+const THUMBNAIL_BUFFER_MARGIN = "100% 0px";
+
+// Pointer positions are shared with collaborators at most this often, in ms
+const PRESENCE_THROTTLE = 50;
+
+/** Hits of the search shown in the panel, kept to append the next progress event */
+interface SearchPanelState {
+	/** Query and options of the search */
+	key: string;
+	renderer: BaseRenderer | null;
+	rendered: number;
+	/** Group element of each page, slide or sheet with hits */
+	groups: Map<string, { element: HTMLElement; title: HTMLElement; count: number }>;
+}
+
+const ANNOTATION_TOOLS: Array<{ tool: AnnotationTool; label: string; title: string }> = [
+	{ tool: "select", label: "↖", title: "Select, move and resize" },
+	{ tool: "highlight", label: "🖍", title: "Highlight text" },
+	{ tool: "note", label: "📝", title: "Add note" },
+	{ tool: "ink", label: "✏️", title: "Draw" },
+	{ tool: "rectangle", label: "▭", title: "Rectangle" },
+	{ tool: "ellipse", label: "◯", title: "Ellipse" },
+	{ tool: "arrow", label: "↗", title: "Arrow" }
+];
+
 /**
  * Main BukaJS Document Viewer Class
  */
@@ -14,8 +82,18 @@ export class BukaViewer {
 	private currentRenderer: BaseRenderer | null;
 	private ui: any;
 	private thumbnails: ThumbnailData[];
-	private currentThumbnailPage: number;
+	private thumbnailObserver: IntersectionObserver | null;
 	private eventListeners?: Map<string, Set<EventCallback>>;
+	private loadController: AbortController | null;
+	/** Settles once the UI the renderers draw into exists */
+	private ready: Promise<void>;
+	private searchOptions: SearchOptions;
+	private annotationEditor: AnnotationEditor | null;
+	private annotationSync: AnnotationSync | null;
+	private lastPresenceUpdate: number;
+	private documentId: string | null;
+	private autosaveTimer: ReturnType<typeof setTimeout> | null;
+	private searchPanel: SearchPanelState | null;
 
 	constructor(container: HTMLElement | string, options: ViewerOptions = {}) {
 		this.container =
@@ -40,10 +118,18 @@ export class BukaViewer {
 		this.currentRenderer = null;
 		this.ui = null;
 		this.thumbnails = [];
-		this.currentThumbnailPage = 0;
+		this.thumbnailObserver = null;
 		this.eventListeners = new Map();
+		this.loadController = null;
+		this.searchOptions = { ...this.options.search };
+		this.annotationEditor = null;
+		this.annotationSync = null;
+		this.lastPresenceUpdate = 0;
+		this.documentId = null;
+		this.autosaveTimer = null;
+		this.searchPanel = null;
 
-		this.init();
+		this.ready = this.init();
 
 		this.on("document:loaded", (data) => {
 			const pageTotal = this.container.querySelector("#pageTotal") as HTMLElement;
@@ -56,7 +142,23 @@ export class BukaViewer {
 			const pageInput = this.container.querySelector("#pageInput") as HTMLInputElement;
 			if (pageInput) pageInput.value = data.page.toString();
 			this.updateActiveThumbnail(data.page);
+			this.annotationSync?.updatePresence({ page: data.page });
 		});
+
+		this.on(EVENTS.SEARCH_PROGRESS, (data: SearchProgressEvent) =>
+			this.renderSearchResults(data)
+		);
+		this.on(EVENTS.SEARCH_RESULT, (data: SearchResultEvent) => this.renderSearchResults(data));
+		this.on(EVENTS.HISTORY_CHANGED, (state: HistoryState) => this.updateHistoryButtons(state));
+		[
+			EVENTS.ANNOTATION_ADDED,
+			EVENTS.ANNOTATION_UPDATED,
+			EVENTS.ANNOTATION_REMOVED,
+			EVENTS.ANNOTATIONS_IMPORTED
+		].forEach((event) => this.on(event, () => this.scheduleAutosave()));
+
+		this.handleKeyDown = this.handleKeyDown.bind(this);
+		document.addEventListener("keydown", this.handleKeyDown);
 	}
 
 	async init(): Promise<void> {
@@ -120,6 +222,14 @@ export class BukaViewer {
 
 	createUIStructure(): void {
 		const classes = this.getThemeClasses();
+		const searchToggles = SEARCH_TOGGLES.map(
+			({ option, label, title }) =>
+				`<button class="${classes.btn} buka-search-toggle" data-search-option="${option}" aria-pressed="${Boolean(this.searchOptions[option])}" title="${title}">${label}</button>`
+		).join("");
+		const annotationTools = ANNOTATION_TOOLS.map(
+			({ tool, label, title }) =>
+				`<button class="${classes.btn} buka-annotation-tool" data-annotation-tool="${tool}" aria-pressed="false" title="${title}">${label}</button>`
+		).join("");
 
 		this.container.innerHTML = `
 			<div class="${classes.toolbar}" style="display: ${this.options.enableToolbar ? "flex" : "none"}">
@@ -140,9 +250,18 @@ export class BukaViewer {
 
 				<div class="${classes.toolbarSection}" style="display: ${this.options.enableSearch ? "flex" : "none"}">
 					<input id="searchInput" class="${classes.searchInput}" type="text" placeholder="Search..." />
+					${searchToggles}
 					<button id="searchBtn" class="${classes.btn}">🔍</button>
 					<button id="searchPrev" class="${classes.btn}">⌃</button>
 					<button id="searchNext" class="${classes.btn}">⌄</button>
+					<span class="buka-search-count" aria-live="polite"></span>
+				</div>
+
+				<div class="${classes.toolbarSection} buka-annotation-toolbar" style="display: ${this.options.enableAnnotations ? "flex" : "none"}">
+					<button id="toggleAnnotations" class="${classes.btn}" aria-pressed="false" title="Annotate">✎</button>
+					<div class="buka-annotation-tools" style="display: none;">${annotationTools}</div>
+					<button id="undo" class="${classes.btn}" title="Undo (Ctrl+Z)" disabled>↶</button>
+					<button id="redo" class="${classes.btn}" title="Redo (Ctrl+Shift+Z)" disabled>↷</button>
 				</div>
 
 				<div class="${classes.toolbarSection}">
@@ -161,10 +280,30 @@ export class BukaViewer {
 						<!-- Document content will be rendered here -->
 					</div>
 				</div>
+
+				<div id="searchPanel" class="buka-search-panel" style="display: none;">
+					<div class="buka-search-panel-header">
+						<span class="buka-search-count"></span>
+						<button id="closeSearchPanel" class="${classes.btn}" title="Close search results">✕</button>
+					</div>
+					<div id="searchPanelResults" class="buka-search-panel-results"></div>
+				</div>
 			</div>
 		`;
 
 		this.attachEventHandlers();
+
+		if (this.options.enableAnnotations) {
+			const documentContainer = this.container.querySelector<HTMLElement>(
+				".buka-document-container"
+			);
+			if (documentContainer) {
+				this.annotationEditor = new AnnotationEditor(
+					documentContainer,
+					() => this.currentRenderer
+				);
+			}
+		}
 	}
 
 	attachEventHandlers(): void {
@@ -201,6 +340,16 @@ export class BukaViewer {
 			.querySelector("#searchBtn")
 			?.addEventListener("click", () => this.performSearch());
 
+		this.container.querySelectorAll<HTMLElement>("[data-search-option]").forEach((button) => {
+			button.addEventListener("click", () =>
+				this.toggleSearchOption(button.dataset.searchOption as keyof SearchOptions)
+			);
+		});
+
+		this.container
+			.querySelector("#closeSearchPanel")
+			?.addEventListener("click", () => this.hideSearchPanel());
+
 		this.container
 			.querySelector("#searchPrev")
 			?.addEventListener("click", () => this.previousSearchResult());
@@ -208,6 +357,31 @@ export class BukaViewer {
 			.querySelector("#searchNext")
 			?.addEventListener("click", () => this.nextSearchResult());
 
+		// Annotation tools
+		this.container
+			.querySelector("#toggleAnnotations")
+			?.addEventListener("click", () =>
+				this.setAnnotationTool(this.getAnnotationTool() ? null : "select")
+			);
+		this.container.querySelectorAll<HTMLElement>(".buka-annotation-tool").forEach((button) => {
+			button.addEventListener("click", () =>
+				this.setAnnotationTool(button.dataset.annotationTool as AnnotationTool)
+			);
+		});
+
+		// Collaborator cursors
+		const documentContainer = this.container.querySelector(".buka-document-container");
+		documentContainer?.addEventListener("pointermove", (e) =>
+			this.updatePointerPresence(e as PointerEvent)
+		);
+		documentContainer?.addEventListener("pointerleave", () =>
+			this.annotationSync?.updatePresence({ cursor: null })
+		);
+
+		// History
+		this.container.querySelector("#undo")?.addEventListener("click", () => this.undo());
+		this.container.querySelector("#redo")?.addEventListener("click", () => this.redo());
+
 		// Thumbnail toggle
 		this.container
 			.querySelector("#toggleThumbnails")
@@ -219,23 +393,71 @@ export class BukaViewer {
 			?.addEventListener("click", () => this.toggleFullscreen());
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput, options: LoadOptions = {}): Promise<void> {
+		// Clean up previous document, cancelling any load still in flight
+		this.cleanup();
+
+		const controller = new AbortController();
+		this.loadController = controller;
+		const { signal: callerSignal, documentId, ...requestOptions } = options;
+		const abort = () => controller.abort();
+		if (callerSignal?.aborted) abort();
+		callerSignal?.addEventListener("abort", abort);
+
 		try {
-			// Clean up previous document
-			this.cleanup();
+			await this.ready;
+			SourceLoader.throwIfAborted(controller.signal);
 
 			// Show loading indicator
 			this.showLoading("Loading document...");
 
-			const mimeType = await DocumentDetector.detectType(source);
+			// PDF URLs are streamed by PDF.js, anything else is downloaded first
+			const streamingUrl = this.getStreamingUrl(source, options);
+			let loaded: LoadedSource | null = null;
+			let mimeType: string = SUPPORTED_FORMATS.PDF;
+			let input: DocumentInput | null = streamingUrl;
+
+			if (!input) {
+				loaded = await SourceLoader.load(
+					source,
+					SourceLoader.fromViewerOptions(this.options, {
+						...requestOptions,
+						signal: controller.signal,
+						onProgress: (progress) => {
+							this.updateLoadingProgress(progress);
+							this.emit(EVENTS.LOAD_PROGRESS, progress);
+						}
+					})
+				);
+
+				const detection = await DocumentDetector.detect(SourceLoader.toFile(loaded), {
+					mimeType: loaded.mimeType ?? null,
+					contentType: loaded.contentType,
+					filename: loaded.filename
+				});
+				SourceLoader.throwIfAborted(controller.signal);
+				mimeType = detection.mimeType;
+				// Renderers read the already loaded bytes, nothing is fetched twice
+				input = SourceLoader.toFile(loaded, mimeType);
+			}
+
 			const documentContainer = this.container.querySelector(
 				".buka-document-container"
 			) as HTMLElement;
 
+			let rendererOptions = this.options;
+			if (streamingUrl) {
+				// Every range request of the streamed PDF carries the request options of this load
+				rendererOptions = {
+					...this.options,
+					request: SourceLoader.mergeRequestOptions(this.options.request, requestOptions)
+				};
+			}
+
 			this.currentRenderer = RendererFactory.create(
 				mimeType,
 				documentContainer,
-				this.options
+				rendererOptions
 			);
 
 			// Forward renderer events to viewer
@@ -248,12 +470,54 @@ export class BukaViewer {
 			this.currentRenderer.on(EVENTS.ZOOM_CHANGED, (data) =>
 				this.emit(EVENTS.ZOOM_CHANGED, data)
 			);
+			this.currentRenderer.on(EVENTS.SEARCH_PROGRESS, (data) =>
+				this.emit(EVENTS.SEARCH_PROGRESS, data)
+			);
 			this.currentRenderer.on(EVENTS.SEARCH_RESULT, (data) =>
 				this.emit(EVENTS.SEARCH_RESULT, data)
 			);
+			this.currentRenderer.on(EVENTS.ANNOTATION_ADDED, (data) =>
+				this.emit(EVENTS.ANNOTATION_ADDED, data)
+			);
+			this.currentRenderer.on(EVENTS.ANNOTATION_REMOVED, (data) =>
+				this.emit(EVENTS.ANNOTATION_REMOVED, data)
+			);
+			this.currentRenderer.on(EVENTS.ANNOTATION_UPDATED, (data) =>
+				this.emit(EVENTS.ANNOTATION_UPDATED, data)
+			);
+			this.currentRenderer.on(EVENTS.ANNOTATIONS_IMPORTED, (data) =>
+				this.emit(EVENTS.ANNOTATIONS_IMPORTED, data)
+			);
+			this.currentRenderer.on(EVENTS.HISTORY_CHANGED, (data) =>
+				this.emit(EVENTS.HISTORY_CHANGED, data)
+			);
+			this.currentRenderer.on(EVENTS.DOCUMENT_DEGRADED, (data) =>
+				this.emit(EVENTS.DOCUMENT_DEGRADED, data)
+			);
+			this.currentRenderer.on(EVENTS.ERROR, (data) => this.emit(EVENTS.ERROR, data));
+			this.currentRenderer.on(EVENTS.PASSWORD_REQUIRED, (request: PasswordRequest) => {
+				this.emit(EVENTS.PASSWORD_REQUIRED, request);
+				// A configured onPassword callback replaces the built-in prompt
+				if (!this.options.onPassword) {
+					this.showPasswordDialog(request);
+				}
+			});
 
-			await this.currentRenderer.load(source);
+			await this.currentRenderer.load(input);
+			SourceLoader.throwIfAborted(controller.signal);
 			await this.currentRenderer.render();
+			SourceLoader.throwIfAborted(controller.signal);
+
+			if (this.options.annotationStore) {
+				this.documentId =
+					documentId ??
+					(loaded
+						? await SourceLoader.fingerprint(loaded.data)
+						: (this.currentRenderer.getFingerprint() ?? streamingUrl));
+				await this.restoreAnnotations();
+				SourceLoader.throwIfAborted(controller.signal);
+			}
+			this.annotationSync?.attach(this.currentRenderer);
 
 			// Hide loading indicator immediately after render
 			this.hideLoading();
@@ -269,12 +533,46 @@ export class BukaViewer {
 				totalPages: this.currentRenderer.totalPages
 			});
 		} catch (error) {
+			// Destroying the renderer also cancels a pending password prompt
+			if (SourceLoader.isAbortError(error) || controller.signal.aborted) {
+				// A newer load or destroy() already reset the viewer state
+				if (this.loadController === controller) {
+					this.cleanup();
+				}
+				throw error;
+			}
+
 			this.hideLoading();
+			this.hidePasswordDialog();
 			this.emit(EVENTS.ERROR, error);
 			throw error;
+		} finally {
+			callerSignal?.removeEventListener("abort", abort);
+			if (this.loadController === controller) {
+				this.loadController = null;
+			}
 		}
 	}
 
+	/**
+	 * URL of a PDF that PDF.js can open with range requests, known to be a
+	 * PDF from the load options or the URL. Null when the document has to be
+	 * downloaded to find out its type.
+	 */
+	private getStreamingUrl(source: DocumentInput, options: LoadOptions): string | null {
+		const documentSource = SourceLoader.isDocumentSource(source) ? source : null;
+		const url = typeof source === "string" ? source : documentSource?.url;
+		if (!url) return null;
+
+		const mimeType = options.mimeType ?? documentSource?.mimeType;
+		const filename =
+			options.filename ?? documentSource?.filename ?? SourceLoader.getUrlFilename(url);
+		const [candidate] = mimeType
+			? DocumentDetector.detectFromContentType(mimeType)
+			: DocumentDetector.detectFromFilename(filename);
+		return candidate?.mimeType === SUPPORTED_FORMATS.PDF ? url : null;
+	}
+
 	// Event handling methods
 	on(event: string, callback: EventCallback): void {
 		if (!this.eventListeners) return;
@@ -360,16 +658,286 @@ export class BukaViewer {
 		return this.currentRenderer?.zoom ?? 1.0;
 	}
 
+	async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		return this.currentRenderer?.getText(options) ?? [];
+	}
+
 	// Annotation methods
-	addAnnotation(annotation: any): string | undefined {
+	addAnnotation(annotation: AnnotationInput): string | undefined {
 		return this.currentRenderer?.addAnnotation(annotation);
 	}
 
-	exportAnnotations(): any[] {
-		return this.currentRenderer?.exportAnnotations() ?? [];
+	updateAnnotation(id: string, changes: AnnotationChanges): boolean {
+		return this.currentRenderer?.updateAnnotation(id, changes) ?? false;
+	}
+
+	removeAnnotation(id: string): boolean {
+		return this.currentRenderer?.removeAnnotation(id) ?? false;
+	}
+
+	getAnnotations(page?: number): Annotation[] {
+		return this.currentRenderer?.getAnnotations(page) ?? [];
+	}
+
+	exportAnnotations<F extends AnnotationFormat = "json">(
+		format?: F,
+		options: AnnotationExportOptions = {}
+	): AnnotationExports[F] {
+		if (this.currentRenderer) return this.currentRenderer.exportAnnotations(format, options);
+
+		// No pages to size, an empty document is written
+		return (
+			format === "xfdf"
+				? AnnotationSerializer.toXfdf([], () => ({ width: 0, height: 0 }), options)
+				: []
+		) as AnnotationExports[F];
+	}
+
+	importAnnotations(
+		input: unknown,
+		options: AnnotationImportOptions = {}
+	): AnnotationImportResult {
+		return (
+			this.currentRenderer?.importAnnotations(input, options) ?? {
+				imported: [],
+				errors: [],
+				conflicts: []
+			}
+		);
+	}
+
+	/**
+	 * Key the annotation store keeps the current document's annotations
+	 * under, null without an annotationStore option
+	 */
+	getDocumentId(): string | null {
+		return this.documentId;
+	}
+
+	/**
+	 * Write the current annotations to the annotation store now instead of
+	 * after the autosave delay
+	 */
+	async saveAnnotations(): Promise<void> {
+		this.cancelAutosave();
+		const store = this.options.annotationStore;
+		const documentId = this.documentId;
+		if (!store || !documentId || !this.currentRenderer) return;
+
+		// Taken before waiting, the renderer may be gone once the store is done
+		const annotations = this.currentRenderer.exportAnnotations();
+		const removed = this.currentRenderer.getRemovedFileAnnotations();
+		try {
+			await store.save(documentId, annotations, removed);
+		} catch (error) {
+			this.emit(EVENTS.ERROR, error);
+		}
+	}
+
+	scheduleAutosave(): void {
+		if (!this.options.annotationStore || !this.documentId) return;
+
+		this.cancelAutosave();
+		this.autosaveTimer = setTimeout(
+			() => this.saveAnnotations(),
+			this.options.autosaveDelay ?? AUTOSAVE_DELAY
+		);
+	}
+
+	cancelAutosave(): void {
+		if (this.autosaveTimer) clearTimeout(this.autosaveTimer);
+		this.autosaveTimer = null;
+	}
+
+	/**
+	 * Bring back the annotations saved for the current document, leaving
+	 * out the ones of the file deleted before. A store that cannot be read
+	 * leaves the document without them, invalid entries are skipped and
+	 * reported as an error.
+	 */
+	async restoreAnnotations(): Promise<void> {
+		const store = this.options.annotationStore;
+		const documentId = this.documentId;
+		if (!store || !documentId || !this.currentRenderer) return;
+
+		try {
+			const [saved, removed] = await Promise.all([
+				store.load(documentId),
+				store.loadRemoved?.(documentId)
+			]);
+			if (!this.currentRenderer) return;
+
+			if (removed?.length) this.currentRenderer.setRemovedFileAnnotations(removed);
+			if (!saved) return;
+
+			const result = this.currentRenderer.importAnnotations(saved);
+			const skipped = new Set(result.errors.map((error) => error.index)).size;
+			if (skipped > 0) {
+				this.emit(EVENTS.ERROR, new Error(`Skipped ${skipped} invalid saved annotations`));
+			}
+			// What was just restored is already saved
+			this.cancelAutosave();
+		} catch (error) {
+			this.emit(EVENTS.ERROR, error);
+		}
+	}
+
+	/**
+	 * Share annotations and cursors with the other viewers connected to the
+	 * adapter's session. Replaces an earlier connection.
+	 */
+	async connectSync(adapter: SyncAdapter, options: SyncOptions = {}): Promise<void> {
+		this.disconnectSync();
+
+		const sync = new AnnotationSync(adapter, {
+			...(this.options.annotationAuthor !== undefined && {
+				name: this.options.annotationAuthor
+			}),
+			...options,
+			onPresenceChange: (peers) => this.emit(EVENTS.PRESENCE_CHANGED, peers)
+		});
+		this.annotationSync = sync;
+		if (this.currentRenderer) {
+			sync.attach(this.currentRenderer);
+			sync.updatePresence({ page: this.currentRenderer.currentPage });
+		}
+		await sync.connect();
+	}
+
+	disconnectSync(): void {
+		this.annotationSync?.disconnect();
+		this.annotationSync = null;
+	}
+
+	/**
+	 * The other viewers of the sync session
+	 */
+	getPeers(): PresenceState[] {
+		return this.annotationSync?.getPeers() ?? [];
+	}
+
+	/**
+	 * Share where the pointer is on a page, at most every PRESENCE_THROTTLE ms
+	 */
+	updatePointerPresence(event: PointerEvent): void {
+		const renderer = this.currentRenderer;
+		if (!this.annotationSync || !renderer) return;
+
+		const now = Date.now();
+		if (now - this.lastPresenceUpdate < PRESENCE_THROTTLE) return;
+		this.lastPresenceUpdate = now;
+
+		for (let page = 1; page <= renderer.totalPages; page++) {
+			const pageElement = renderer.getAnnotationPageElement(page);
+			if (!pageElement?.contains(event.target as Node)) continue;
+
+			const bounds = pageElement.getBoundingClientRect();
+			if (!bounds.width || !bounds.height) break;
+			this.annotationSync.updatePresence({
+				page,
+				cursor: {
+					x: (event.clientX - bounds.left) / bounds.width,
+					y: (event.clientY - bounds.top) / bounds.height
+				}
+			});
+			return;
+		}
+		this.annotationSync.updatePresence({ cursor: null });
+	}
+
+	/**
+	 * The loaded PDF with its annotations written into the file
+	 */
+	async exportPDF(): Promise<Blob> {
+		const renderer = this.currentRenderer as { exportPDF?: () => Promise<Blob> } | null;
+		if (!renderer?.exportPDF) {
+			throw new Error("Annotations can only be written into PDF documents");
+		}
+		return renderer.exportPDF();
+	}
+
+	/**
+	 * Pick a toolbar annotation tool, or leave annotation mode with null
+	 */
+	setAnnotationTool(tool: AnnotationTool | null): void {
+		if (!this.annotationEditor) return;
+
+		this.annotationEditor.setTool(tool);
+
+		const toggle = this.container.querySelector("#toggleAnnotations");
+		toggle?.setAttribute("aria-pressed", String(tool !== null));
+		const tools = this.container.querySelector<HTMLElement>(".buka-annotation-tools");
+		if (tools) tools.style.display = tool ? "flex" : "none";
+
+		this.container.querySelectorAll<HTMLElement>(".buka-annotation-tool").forEach((button) => {
+			button.setAttribute("aria-pressed", String(button.dataset.annotationTool === tool));
+		});
+	}
+
+	getAnnotationTool(): AnnotationTool | null {
+		return this.annotationEditor?.tool ?? null;
+	}
+
+	// History methods
+	undo(): boolean {
+		return this.currentRenderer?.undo() ?? false;
+	}
+
+	redo(): boolean {
+		return this.currentRenderer?.redo() ?? false;
+	}
+
+	canUndo(): boolean {
+		return this.currentRenderer?.canUndo() ?? false;
+	}
+
+	canRedo(): boolean {
+		return this.currentRenderer?.canRedo() ?? false;
+	}
+
+	updateHistoryButtons(state: HistoryState): void {
+		const undo = this.container.querySelector<HTMLButtonElement>("#undo");
+		const redo = this.container.querySelector<HTMLButtonElement>("#redo");
+		if (undo) {
+			undo.disabled = !state.canUndo;
+			undo.title = state.undoLabel ? `Undo ${state.undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)";
+		}
+		if (redo) {
+			redo.disabled = !state.canRedo;
+			redo.title = state.redoLabel
+				? `Redo ${state.redoLabel} (Ctrl+Shift+Z)`
+				: "Redo (Ctrl+Shift+Z)";
+		}
+	}
+
+	/**
+	 * Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes while the viewer has
+	 * focus, text fields keep their own undo
+	 */
+	handleKeyDown(event: KeyboardEvent): void {
+		if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+		if (!this.container.contains(document.activeElement)) return;
+
+		const target = event.target as HTMLElement | null;
+		if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+		const key = event.key.toLowerCase();
+		const handled =
+			key === "z" && !event.shiftKey
+				? this.undo()
+				: (key === "z" && event.shiftKey) || key === "y"
+					? this.redo()
+					: null;
+		if (handled !== null) {
+			event.preventDefault();
+		}
 	}
 
 	// Thumbnail methods
+	/**
+	 * Lay out a placeholder for every page, each is drawn by the renderer
+	 * as it comes near the visible part of the sidebar
+	 */
 	async generateThumbnails(): Promise<void> {
 		if (!this.currentRenderer) return;
 
@@ -379,92 +947,89 @@ export class BukaViewer {
 		if (!thumbnailContainer) return;
 
 		// Clear existing thumbnails
+		this.thumbnailObserver?.disconnect();
+		this.thumbnailObserver = null;
 		thumbnailContainer.innerHTML = "";
 
-		try {
-			// Generate thumbnails for each page
-			for (let pageNum = 1; pageNum <= this.currentRenderer.totalPages; pageNum++) {
-				const thumbnail = await this.generatePageThumbnail(pageNum);
-				if (thumbnail) {
-					thumbnailContainer.appendChild(thumbnail);
-				}
+		this.thumbnails = [];
+		for (let pageNum = 1; pageNum <= this.currentRenderer.totalPages; pageNum++) {
+			const element = this.createThumbnail(pageNum);
+			this.thumbnails.push({ page: pageNum, element, rendered: false });
+			thumbnailContainer.appendChild(element);
+		}
+		this.updateActiveThumbnail(this.currentRenderer.currentPage);
+
+		if (typeof IntersectionObserver === "undefined") {
+			// Without observer support draw every thumbnail in turn
+			for (const thumbnail of this.thumbnails) {
+				await this.renderThumbnail(thumbnail);
 			}
-		} catch (error) {
-			console.warn("Failed to generate thumbnails:", error);
+			return;
 		}
+
+		this.thumbnailObserver = new IntersectionObserver(
+			(entries) => this.handleThumbnailIntersections(entries),
+			{
+				root: this.container.querySelector("#sidebar"),
+				rootMargin: THUMBNAIL_BUFFER_MARGIN
+			}
+		);
+		this.thumbnails.forEach((thumbnail) => this.thumbnailObserver?.observe(thumbnail.element));
 	}
 
-	async generatePageThumbnail(pageNum: number): Promise<HTMLElement | null> {
-		if (!this.currentRenderer) return null;
+	createThumbnail(pageNum: number): HTMLElement {
+		const thumbnailDiv = document.createElement("div");
+		thumbnailDiv.className = "buka-thumbnail";
+		thumbnailDiv.dataset.page = pageNum.toString();
+		thumbnailDiv.innerHTML = `<div class="buka-thumbnail-placeholder">Page ${pageNum}</div>`;
 
-		try {
-			const thumbnailDiv = document.createElement("div");
-			thumbnailDiv.className = "buka-thumbnail";
-			thumbnailDiv.dataset.page = pageNum.toString();
-
-			// Create thumbnail for PDF
-			if (this.currentRenderer.constructor.name === "PDFRenderer") {
-				const thumbnail = await this.generatePDFThumbnail(pageNum);
-				if (thumbnail) {
-					thumbnailDiv.appendChild(thumbnail);
-				}
-			} else {
-				// Fallback for other renderers
-				thumbnailDiv.innerHTML = `<div class="buka-thumbnail-placeholder">Page ${pageNum}</div>`;
+		// Add click handler
+		thumbnailDiv.addEventListener("click", () => {
+			if (this.currentRenderer) {
+				this.currentRenderer.goto(pageNum);
 			}
+		});
 
-			// Add click handler
-			thumbnailDiv.addEventListener("click", () => {
-				if (this.currentRenderer) {
-					this.currentRenderer.goto(pageNum);
-				}
-			});
-
-			// Add page label
-			const label = document.createElement("div");
-			label.className = "buka-thumbnail-label";
-			label.textContent = pageNum.toString();
-			thumbnailDiv.appendChild(label);
+		// Add page label
+		const label = document.createElement("div");
+		label.className = "buka-thumbnail-label";
+		label.textContent = pageNum.toString();
+		thumbnailDiv.appendChild(label);
 
-			return thumbnailDiv;
-		} catch (error) {
-			console.warn(`Failed to generate thumbnail for page ${pageNum}:`, error);
-			return null;
-		}
+		return thumbnailDiv;
 	}
 
-	async generatePDFThumbnail(pageNum: number): Promise<HTMLCanvasElement | null> {
-		const renderer = this.currentRenderer as any; // Cast to access PDF-specific properties
+	handleThumbnailIntersections(entries: IntersectionObserverEntry[]): void {
+		entries.forEach((entry) => {
+			if (!entry.isIntersecting) return;
 
-		if (!renderer.pdfDocument) {
-			return null;
-		}
+			const page = Number((entry.target as HTMLElement).dataset.page);
+			const thumbnail = this.thumbnails.find((candidate) => candidate.page === page);
+			if (thumbnail) {
+				this.thumbnailObserver?.unobserve(thumbnail.element);
+				this.renderThumbnail(thumbnail);
+			}
+		});
+	}
+
+	/**
+	 * Replace the placeholder of a thumbnail with the renderer's preview
+	 * of its page. Pages without a preview keep the placeholder.
+	 */
+	async renderThumbnail(thumbnail: ThumbnailData): Promise<void> {
+		const renderer = this.currentRenderer;
+		if (!renderer || thumbnail.rendered) return;
+		thumbnail.rendered = true;
 
 		try {
-			const page = await renderer.pdfDocument.getPage(pageNum);
-			const canvas = document.createElement("canvas");
-			const context = canvas.getContext("2d");
-			if (!context) return null;
-
-			// Set thumbnail size
-			const thumbnailScale = 0.2;
-			const viewport = page.getViewport({ scale: thumbnailScale });
-
-			canvas.width = viewport.width;
-			canvas.height = viewport.height;
-			canvas.style.width = "100%";
-			canvas.style.height = "auto";
-
-			const renderContext = {
-				canvasContext: context,
-				viewport: viewport
-			};
+			const preview = await renderer.getThumbnail(thumbnail.page, this.options.thumbnailSize);
+			// The document may have been closed while the preview was drawn
+			if (!preview || renderer !== this.currentRenderer) return;
 
-			await page.render(renderContext).promise;
-			return canvas;
+			preview.classList.add("buka-thumbnail-image");
+			thumbnail.element.querySelector(".buka-thumbnail-placeholder")?.replaceWith(preview);
 		} catch (error) {
-			console.warn(`Failed to generate PDF thumbnail for page ${pageNum}:`, error);
-			return null;
+			console.warn(`Failed to generate thumbnail for page ${thumbnail.page}:`, error);
 		}
 	}
 
@@ -511,52 +1076,193 @@ export class BukaViewer {
 		if (searchInput && this.currentRenderer) {
 			const query = searchInput.value.trim();
 			if (query) {
-				this.currentRenderer.search(query);
+				this.currentRenderer.search(query, this.searchOptions).catch((error) => {
+					// A newer search replaced this one
+					if (!SourceLoader.isAbortError(error)) {
+						this.emit(EVENTS.ERROR, error);
+					}
+				});
 			}
 		}
 	}
 
+	getSearchOptions(): SearchOptions {
+		return { ...this.searchOptions };
+	}
+
+	/**
+	 * Flip one search option, sync its toolbar toggle and repeat the
+	 * current search with the new setting
+	 */
+	toggleSearchOption(option: keyof SearchOptions): void {
+		this.searchOptions[option] = !this.searchOptions[option];
+
+		this.container
+			.querySelector(`[data-search-option="${option}"]`)
+			?.setAttribute("aria-pressed", `${this.searchOptions[option]}`);
+
+		this.performSearch();
+	}
+
 	clearSearch(): void {
 		const searchInput = this.container.querySelector("#searchInput") as HTMLInputElement;
 		if (searchInput) {
 			searchInput.value = "";
 		}
+		this.resetSearchPanel();
 	}
 
 	nextSearchResult(): void {
-		if (
-			this.currentRenderer &&
-			this.currentRenderer.searchResults &&
-			this.currentRenderer.searchResults.length > 0
-		) {
-			this.currentRenderer.currentSearchIndex =
-				(this.currentRenderer.currentSearchIndex + 1) %
-				this.currentRenderer.searchResults.length;
-			const result =
-				this.currentRenderer.searchResults[this.currentRenderer.currentSearchIndex];
-			if (result && result.page) {
-				this.currentRenderer.goto(result.page);
-			}
-		}
+		this.currentRenderer?.nextSearchResult();
+		this.updateSearchPosition();
 	}
 
 	previousSearchResult(): void {
+		this.currentRenderer?.previousSearchResult();
+		this.updateSearchPosition();
+	}
+
+	async showSearchResult(index: number): Promise<void> {
+		if (!this.currentRenderer) return;
+
+		const navigation = this.currentRenderer.showSearchResult(index);
+		this.updateSearchPosition();
+		await navigation;
+	}
+
+	/**
+	 * Fill the search panel with every hit of a search:result event,
+	 * grouped by the page, slide or sheet it was found in. Progress events
+	 * of the same search only append their new hits, so the scroll position
+	 * and focus in the panel are kept while a long search runs.
+	 */
+	renderSearchResults(event: SearchResultEvent | SearchProgressEvent): void {
+		const panel = this.container.querySelector("#searchPanel") as HTMLElement;
+		const list = this.container.querySelector("#searchPanelResults") as HTMLElement;
+		if (!panel || !list) return;
+
+		if (!event.query) {
+			this.resetSearchPanel();
+			return;
+		}
+
+		const key = JSON.stringify({ query: event.query, options: event.options ?? {} });
+		let state = this.searchPanel;
 		if (
-			this.currentRenderer &&
-			this.currentRenderer.searchResults &&
-			this.currentRenderer.searchResults.length > 0
+			!state ||
+			state.key !== key ||
+			state.renderer !== this.currentRenderer ||
+			event.results.length < state.rendered
 		) {
-			this.currentRenderer.currentSearchIndex =
-				(this.currentRenderer.currentSearchIndex -
-					1 +
-					this.currentRenderer.searchResults.length) %
-				this.currentRenderer.searchResults.length;
-			const result =
-				this.currentRenderer.searchResults[this.currentRenderer.currentSearchIndex];
-			if (result && result.page) {
-				this.currentRenderer.goto(result.page);
+			list.innerHTML = "";
+			state = { key, renderer: this.currentRenderer, rendered: 0, groups: new Map() };
+			this.searchPanel = state;
+		}
+		list.querySelector(".buka-search-result-empty")?.remove();
+
+		event.results.slice(state.rendered).forEach((result, offset) => {
+			const section = this.getSearchResultSection(result);
+			let group = state.groups.get(section);
+			if (!group) {
+				const element = document.createElement("div");
+				element.className = "buka-search-result-group";
+
+				const title = document.createElement("div");
+				title.className = "buka-search-result-group-title";
+				element.appendChild(title);
+				list.appendChild(element);
+
+				group = { element, title, count: 0 };
+				state.groups.set(section, group);
 			}
+
+			group.element.appendChild(this.createSearchResultItem(result, state.rendered + offset));
+			group.count++;
+			group.title.textContent = `${section} (${group.count})`;
+		});
+		state.rendered = event.results.length;
+
+		const inProgress = "pagesSearched" in event;
+		if (event.results.length === 0 && !inProgress) {
+			const empty = document.createElement("div");
+			empty.className = "buka-search-result-empty";
+			empty.textContent = `No results for "${event.query}"`;
+			list.appendChild(empty);
+		}
+
+		panel.style.display = "flex";
+		this.updateSearchPosition();
+
+		if (inProgress && event.pagesSearched < event.totalPages) {
+			this.container.querySelectorAll(".buka-search-count").forEach((count) => {
+				count.textContent = `${event.results.length} found, searching page ${event.pagesSearched} of ${event.totalPages}…`;
+			});
+		}
+	}
+
+	createSearchResultItem(result: SearchResult, index: number): HTMLElement {
+		const item = document.createElement("button");
+		item.type = "button";
+		item.className = "buka-search-result-item";
+		item.dataset.resultIndex = index.toString();
+
+		const context = result.context ?? { before: "", match: result.match, after: "" };
+		const match = document.createElement("mark");
+		match.textContent = context.match;
+		item.append(
+			context.before ? `…${context.before}` : "",
+			match,
+			context.after ? `${context.after}…` : ""
+		);
+		if (result.address) {
+			item.title = result.address;
+		}
+
+		item.addEventListener("click", () => this.showSearchResult(index));
+		return item;
+	}
+
+	getSearchResultSection(result: SearchResult): string {
+		if (result.section) return result.section;
+		return result.page ? `Page ${result.page}` : "Document";
+	}
+
+	/**
+	 * Show "3 of 41" and mark the current hit in the search panel
+	 */
+	updateSearchPosition(): void {
+		const total = this.currentRenderer?.searchResults.length ?? 0;
+		const current = this.currentRenderer?.currentSearchIndex ?? 0;
+
+		this.container.querySelectorAll(".buka-search-count").forEach((count) => {
+			count.textContent = total > 0 ? `${current + 1} of ${total}` : "No results";
+		});
+		this.container.querySelectorAll(".buka-search-result-item").forEach((item) => {
+			item.classList.toggle(
+				"active",
+				(item as HTMLElement).dataset.resultIndex === current.toString()
+			);
+		});
+	}
+
+	hideSearchPanel(): void {
+		const panel = this.container.querySelector("#searchPanel") as HTMLElement;
+		if (panel) {
+			panel.style.display = "none";
+		}
+	}
+
+	resetSearchPanel(): void {
+		this.hideSearchPanel();
+		this.searchPanel = null;
+
+		const list = this.container.querySelector("#searchPanelResults");
+		if (list) {
+			list.innerHTML = "";
 		}
+		this.container.querySelectorAll(".buka-search-count").forEach((count) => {
+			count.textContent = "";
+		});
 	}
 
 	// Fullscreen
@@ -577,12 +1283,84 @@ export class BukaViewer {
 			documentContainer.innerHTML = `
 				<div class="buka-loading">
 					<div class="buka-spinner"></div>
-					<div style="margin-top: 10px;">${message}</div>
+					<div class="buka-loading-message" style="margin-top: 10px;">${message}</div>
 				</div>
 			`;
 		}
 	}
 
+	updateLoadingProgress(progress: LoadProgressEvent): void {
+		const message = this.container.querySelector(".buka-loading-message");
+		if (message && progress.percent !== null) {
+			message.textContent = `Loading document... ${progress.percent}%`;
+		}
+	}
+
+	showPasswordDialog(request: PasswordRequest): void {
+		const documentContainer = this.container.querySelector(
+			".buka-document-container"
+		) as HTMLElement;
+		if (!documentContainer) {
+			request.cancel();
+			return;
+		}
+
+		this.hidePasswordDialog();
+
+		const dialog = document.createElement("form");
+		dialog.className = "buka-password-dialog";
+		dialog.setAttribute("role", "dialog");
+		dialog.setAttribute("aria-label", "Password required");
+		dialog.style.cssText = `
+			display: flex;
+			flex-direction: column;
+			gap: 10px;
+			max-width: 320px;
+			margin: 60px auto;
+			padding: 20px;
+			background: #fff;
+			border: 1px solid #ddd;
+			border-radius: 6px;
+			box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+			font-size: 14px;
+		`;
+		dialog.innerHTML = `
+			<label for="bukaPasswordInput">This document is password protected.</label>
+			<input id="bukaPasswordInput" class="buka-password-input" type="password" autocomplete="off"
+				style="padding: 6px; border: 1px solid #ccc; border-radius: 3px;" />
+			<div class="buka-password-error" role="alert" style="color: #c0392b; font-size: 13px;"></div>
+			<div style="display: flex; justify-content: flex-end; gap: 8px;">
+				<button type="button" class="buka-btn buka-password-cancel">Cancel</button>
+				<button type="submit" class="buka-btn primary buka-password-submit">Open</button>
+			</div>
+		`;
+
+		const error = dialog.querySelector(".buka-password-error") as HTMLElement;
+		if (request.reason === "incorrect") {
+			error.textContent = "Incorrect password, please try again.";
+		}
+
+		const input = dialog.querySelector(".buka-password-input") as HTMLInputElement;
+		dialog.addEventListener("submit", (event) => {
+			event.preventDefault();
+			dialog.remove();
+			request.submit(input.value);
+		});
+		dialog.querySelector(".buka-password-cancel")?.addEventListener("click", () => {
+			dialog.remove();
+			request.cancel();
+		});
+
+		// Replace the loading indicator while waiting for input
+		this.hideLoading();
+		documentContainer.prepend(dialog);
+		input.focus();
+	}
+
+	hidePasswordDialog(): void {
+		this.container.querySelector(".buka-password-dialog")?.remove();
+	}
+
 	hideLoading(): void {
 		const documentContainer = this.container.querySelector(
 			".buka-document-container"
@@ -598,9 +1376,16 @@ export class BukaViewer {
 
 	// Cleanup methods
 	cleanup(): void {
+		// Cancel a load still in progress
+		if (this.loadController) {
+			this.loadController.abort();
+			this.loadController = null;
+		}
+
 		// Clear thumbnails
+		this.thumbnailObserver?.disconnect();
+		this.thumbnailObserver = null;
 		this.thumbnails = [];
-		this.currentThumbnailPage = 0;
 
 		// Clear thumbnail container
 		const thumbnailContainer = this.container.querySelector("#thumbnailContainer");
@@ -626,6 +1411,22 @@ export class BukaViewer {
 		if (pageTotal) pageTotal.textContent = "/ 1";
 		if (pageInput) pageInput.value = "1";
 
+		// Drop drags and comment editing on the old document
+		this.annotationEditor?.reset();
+		this.updateHistoryButtons({
+			canUndo: false,
+			canRedo: false,
+			undoLabel: null,
+			redoLabel: null
+		});
+
+		// Save changes still waiting for the autosave delay
+		if (this.autosaveTimer) void this.saveAnnotations();
+		this.documentId = null;
+
+		// Keep the sync session for the next document
+		this.annotationSync?.detach();
+
 		// Destroy current renderer
 		if (this.currentRenderer) {
 			this.currentRenderer.destroy();
@@ -634,7 +1435,11 @@ export class BukaViewer {
 	}
 
 	destroy(): void {
+		this.disconnectSync();
 		this.cleanup();
+		this.annotationEditor?.destroy();
+		this.annotationEditor = null;
+		document.removeEventListener("keydown", this.handleKeyDown);
 		this.eventListeners?.clear();
 		this.container.innerHTML = "";
 	}
@@ -0,0 +1,195 @@
+import { readUint16, readUint32 } from "./binary";
+
+/**
+ * Compound File Binary reader
+ * Reads streams from the OLE2 container used by legacy Office formats (PPT, DOC, XLS)
+ */
+export interface CompoundFileEntry {
+	name: string;
+	type: "storage" | "stream" | "root";
+	startSector: number;
+	size: number;
+}
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const HEADER_SIZE = 512;
+const DIRECTORY_ENTRY_SIZE = 128;
+const HEADER_DIFAT_ENTRIES = 109;
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+
+const ENTRY_TYPES: Record<number, CompoundFileEntry["type"]> = {
+	1: "storage",
+	2: "stream",
+	5: "root"
+};
+
+export class CompoundFile {
+	readonly entries: CompoundFileEntry[];
+	private bytes: Uint8Array;
+	private sectorSize: number;
+	private miniSectorSize: number;
+	private miniStreamCutoff: number;
+	private fat: number[];
+	private miniFat: number[];
+	private miniStream: Uint8Array;
+
+	constructor(data: ArrayBuffer | Uint8Array) {
+		this.bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+		if (!CompoundFile.isCompoundFile(this.bytes) || this.bytes.length < HEADER_SIZE) {
+			throw new Error("Not a compound file");
+		}
+
+		this.sectorSize = 1 << readUint16(this.bytes, 0x1e);
+		this.miniSectorSize = 1 << readUint16(this.bytes, 0x20);
+		this.miniStreamCutoff = readUint32(this.bytes, 0x38);
+
+		this.fat = this.readFat();
+		this.miniFat = this.toUint32Array(this.readChain(readUint32(this.bytes, 0x3c)));
+		this.entries = this.readDirectory(readUint32(this.bytes, 0x30));
+
+		const root = this.entries.find((entry) => entry.type === "root");
+		this.miniStream = root
+			? this.readChain(root.startSector).subarray(0, root.size)
+			: new Uint8Array(0);
+	}
+
+	static isCompoundFile(bytes: Uint8Array): boolean {
+		return SIGNATURE.every((byte, index) => bytes[index] === byte);
+	}
+
+	/**
+	 * Contents of the first stream with the given name. Storages are not
+	 * distinguished, which is enough for the flat layout of Office files.
+	 */
+	getStream(name: string): Uint8Array | null {
+		const entry = this.entries.find(
+			(candidate) => candidate.type === "stream" && candidate.name === name
+		);
+		if (!entry) return null;
+
+		if (entry.size < this.miniStreamCutoff) {
+			return this.readMiniChain(entry.startSector).subarray(0, entry.size);
+		}
+		return this.readChain(entry.startSector).subarray(0, entry.size);
+	}
+
+	private readFat(): number[] {
+		const fatSectors: number[] = [];
+		const fatSectorCount = readUint32(this.bytes, 0x2c);
+
+		for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; i++) {
+			fatSectors.push(readUint32(this.bytes, 0x4c + i * 4));
+		}
+
+		// Large files continue the sector list in DIFAT sectors
+		const entriesPerSector = this.sectorSize / 4 - 1;
+		let difatSector = readUint32(this.bytes, 0x44);
+		const visited = new Set<number>();
+		while (
+			fatSectors.length < fatSectorCount &&
+			difatSector !== END_OF_CHAIN &&
+			difatSector !== FREE_SECTOR &&
+			!visited.has(difatSector)
+		) {
+			visited.add(difatSector);
+			const offset = this.sectorOffset(difatSector);
+			for (let i = 0; i < entriesPerSector && fatSectors.length < fatSectorCount; i++) {
+				fatSectors.push(readUint32(this.bytes, offset + i * 4));
+			}
+			difatSector = readUint32(this.bytes, offset + entriesPerSector * 4);
+		}
+
+		const fat: number[] = [];
+		fatSectors.forEach((sector) => {
+			const offset = this.sectorOffset(sector);
+			for (let i = 0; i < this.sectorSize / 4; i++) {
+				fat.push(readUint32(this.bytes, offset + i * 4));
+			}
+		});
+		return fat;
+	}
+
+	private readDirectory(startSector: number): CompoundFileEntry[] {
+		const directory = this.readChain(startSector);
+		const entries: CompoundFileEntry[] = [];
+
+		for (
+			let offset = 0;
+			offset + DIRECTORY_ENTRY_SIZE <= directory.length;
+			offset += DIRECTORY_ENTRY_SIZE
+		) {
+			const type = ENTRY_TYPES[directory[offset + 0x42] ?? 0];
+			if (!type) continue;
+
+			const nameLength = Math.max(0, Math.min(64, readUint16(directory, offset + 0x40)) - 2);
+			let name = "";
+			for (let i = 0; i < nameLength; i += 2) {
+				name += String.fromCharCode(readUint16(directory, offset + i));
+			}
+
+			entries.push({
+				name,
+				type,
+				startSector: readUint32(directory, offset + 0x74),
+				size: readUint32(directory, offset + 0x78)
+			});
+		}
+
+		return entries;
+	}
+
+	private readChain(startSector: number): Uint8Array {
+		const sectors = this.followChain(this.fat, startSector);
+		const data = new Uint8Array(sectors.length * this.sectorSize);
+		sectors.forEach((sector, index) => {
+			const offset = this.sectorOffset(sector);
+			data.set(
+				this.bytes.subarray(offset, offset + this.sectorSize),
+				index * this.sectorSize
+			);
+		});
+		return data;
+	}
+
+	private readMiniChain(startSector: number): Uint8Array {
+		const sectors = this.followChain(this.miniFat, startSector);
+		const data = new Uint8Array(sectors.length * this.miniSectorSize);
+		sectors.forEach((sector, index) => {
+			const offset = sector * this.miniSectorSize;
+			data.set(
+				this.miniStream.subarray(offset, offset + this.miniSectorSize),
+				index * this.miniSectorSize
+			);
+		});
+		return data;
+	}
+
+	private followChain(table: number[], startSector: number): number[] {
+		const sectors: number[] = [];
+		const visited = new Set<number>();
+		let sector = startSector;
+
+		// Corrupt files can contain cycles, stop at the first repeated sector
+		while (sector < table.length && !visited.has(sector)) {
+			visited.add(sector);
+			sectors.push(sector);
+			sector = table[sector] ?? END_OF_CHAIN;
+		}
+
+		return sectors;
+	}
+
+	private sectorOffset(sector: number): number {
+		return (sector + 1) * this.sectorSize;
+	}
+
+	private toUint32Array(bytes: Uint8Array): number[] {
+		const values: number[] = [];
+		for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+			values.push(readUint32(bytes, offset));
+		}
+		return values;
+	}
+}
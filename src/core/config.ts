@@ -4,6 +4,8 @@ export const SUPPORTED_FORMATS = {
 	IMAGE_PNG: "image/png",
 	IMAGE_JPEG: "image/jpeg",
 	IMAGE_SVG: "image/svg+xml",
+	IMAGE_GIF: "image/gif",
+	IMAGE_WEBP: "image/webp",
 	XLSX: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
 	CSV: "text/csv",
 	PPTX: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
@@ -15,11 +17,33 @@ export const EVENTS = {
 	PAGE_CHANGED: "page:changed",
 	ZOOM_CHANGED: "zoom:changed",
 	SEARCH_RESULT: "search:result",
+	SEARCH_PROGRESS: "search:progress",
+	LOAD_PROGRESS: "load:progress",
+	DOCUMENT_DEGRADED: "document:degraded",
+	PASSWORD_REQUIRED: "password:required",
 	ANNOTATION_ADDED: "annotation:added",
 	ANNOTATION_REMOVED: "annotation:removed",
+	ANNOTATION_UPDATED: "annotation:updated",
+	ANNOTATIONS_IMPORTED: "annotations:imported",
+	HISTORY_CHANGED: "history:changed",
+	PRESENCE_CHANGED: "presence:changed",
 	ERROR: "error"
 } as const;
 
+// Look of annotations that do not set their own color or opacity
+export const ANNOTATION_DEFAULTS = {
+	highlight: { color: "#ffeb3b", opacity: 0.4 },
+	underline: { color: "#e53935", opacity: 1 },
+	strikeout: { color: "#e53935", opacity: 1 },
+	ink: { color: "#1e88e5", opacity: 1 },
+	rectangle: { color: "#e53935", opacity: 1 },
+	ellipse: { color: "#e53935", opacity: 1 },
+	arrow: { color: "#e53935", opacity: 1 },
+	stamp: { color: "#2e7d32", opacity: 0.9 },
+	note: { color: "#fbc02d", opacity: 1 },
+	text: { color: "#212121", opacity: 1 }
+} as const;
+
 export const DEFAULT_STYLES = `
 .buka-viewer {
   display: flex;
@@ -49,6 +73,11 @@ export const DEFAULT_STYLES = `
   background: #e9e9e9;
 }
 
+.buka-btn[aria-pressed="true"] {
+  background: #dbe9f7;
+  border-color: #3498db;
+}
+
 .buka-main {
   display: flex;
   flex: 1;
@@ -160,6 +189,68 @@ export const DEFAULT_STYLES = `
   box-shadow: 0 2px 4px rgba(0,0,0,0.2);
 }
 
+.buka-thumbnail-image {
+  display: block;
+  margin: 0 auto;
+}
+
+/* Search results panel */
+.buka-search-panel {
+  flex-direction: column;
+  width: 280px;
+  border-left: 1px solid #ddd;
+  background: #fafafa;
+  overflow: hidden;
+}
+
+.buka-search-panel-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 8px 10px;
+  border-bottom: 1px solid #ddd;
+  font-size: 13px;
+}
+
+.buka-search-panel-results {
+  flex: 1;
+  overflow-y: auto;
+}
+
+.buka-search-result-group-title {
+  padding: 6px 10px;
+  background: #f0f0f0;
+  font-size: 12px;
+  font-weight: 600;
+  color: #555;
+}
+
+.buka-search-result-item {
+  display: block;
+  width: 100%;
+  padding: 6px 10px;
+  border: none;
+  border-bottom: 1px solid #eee;
+  background: none;
+  text-align: left;
+  font-size: 13px;
+  cursor: pointer;
+}
+
+.buka-search-result-item:hover {
+  background: #e9e9e9;
+}
+
+.buka-search-result-item.active {
+  background: #dbe9f7;
+}
+
+.buka-search-result-empty {
+  padding: 10px;
+  color: #666;
+  font-size: 13px;
+}
+
 .buka-thumbnail-label {
   text-align: center;
   padding: 4px;
@@ -0,0 +1,143 @@
+import type { DependencyName, DependencyOptions, ScriptSource } from "../types";
+
+/**
+ * Dependency Loader
+ * Resolves the third-party libraries renderers need (PDF.js, mammoth,
+ * SheetJS) from a page global, the npm package or a script tag, with one
+ * policy for CDN use, integrity hashes and CSP nonces
+ */
+
+interface DependencySources {
+	/** Dynamic import of the npm package, tried before any script tag */
+	importModule?: () => Promise<unknown>;
+	/** Self-hosted script derived from other settings, e.g. the PDF.js asset base URL */
+	url?: string;
+}
+
+// PDF.js build loaded from the CDN, also used for its worker, cMaps and fonts
+export const PDFJS_VERSION = "3.11.174";
+
+// Integrity hashes pin the exact CDN files, update them together with the versions
+const DEPENDENCIES: Record<DependencyName, { global: string; script: ScriptSource }> = {
+	pdfjs: {
+		global: "pdfjsLib",
+		script: {
+			url: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/build/pdf.min.js`,
+			integrity: "sha384-/1qUCSGwTur9vjf/z9lmu/eCUYbpOTgSjmpbMQZ1/CtX2v/WcAIKqRv+U1DUCG6e"
+		}
+	},
+	mammoth: {
+		global: "mammoth",
+		script: {
+			url: "https://cdn.jsdelivr.net/npm/mammoth@1.6.0/mammoth.browser.min.js",
+			integrity: "sha384-nFoSjZIoH3CCp8W639jJyQkuPHinJ2NHe7on1xvlUA7SuGfJAfvMldrsoAVm6ECz"
+		}
+	},
+	xlsx: {
+		global: "XLSX",
+		script: { url: "https://cdn.sheetjs.com/xlsx-0.20.1/package/dist/xlsx.full.min.js" }
+	}
+};
+
+/**
+ * Library a script tag or an earlier load left on the page
+ */
+function getGlobal(name: string): unknown {
+	return (window as unknown as Record<string, unknown>)[name];
+}
+
+export class DependencyLoader {
+	// Shared by every viewer on the page so a script is only injected once
+	private static scripts = new Map<string, Promise<unknown>>();
+
+	static async load(
+		name: DependencyName,
+		options: DependencyOptions = {},
+		sources: DependencySources = {}
+	): Promise<unknown> {
+		const { global } = DEPENDENCIES[name];
+		const existing = getGlobal(global);
+		if (typeof existing !== "undefined") {
+			return existing;
+		}
+
+		if (sources.importModule) {
+			try {
+				const module = await sources.importModule();
+				// CommonJS packages arrive wrapped in a default export
+				if (typeof module === "object" && module !== null && "default" in module) {
+					return module.default || module;
+				}
+				return module;
+			} catch {
+				// Package not installed, fall back to a script tag
+			}
+		}
+
+		const script = DependencyLoader.resolveScript(name, options, sources);
+		let loading = DependencyLoader.scripts.get(script.url);
+		if (!loading) {
+			loading = DependencyLoader.loadScript(script, options).then(() => {
+				const loaded = getGlobal(global);
+				if (typeof loaded === "undefined") {
+					throw new Error(`${script.url} did not define window.${global}`);
+				}
+				return loaded;
+			});
+
+			// Forget failed loads so a later viewer can retry
+			loading.catch(() => DependencyLoader.scripts.delete(script.url));
+			DependencyLoader.scripts.set(script.url, loading);
+		}
+		return loading;
+	}
+
+	/**
+	 * Pick the script for a dependency: an explicit override, then a
+	 * self-hosted location, then the pinned CDN build unless remote scripts
+	 * are disabled
+	 */
+	static resolveScript(
+		name: DependencyName,
+		options: DependencyOptions = {},
+		sources: DependencySources = {}
+	): ScriptSource {
+		const override = options.scripts?.[name];
+		if (typeof override === "string") return { url: override };
+		if (override) return override;
+		if (sources.url) return { url: sources.url };
+
+		if (options.disableRemoteScripts) {
+			throw new Error(
+				`Cannot load ${name}: remote scripts are disabled and no self-hosted URL is configured`
+			);
+		}
+		return DEPENDENCIES[name].script;
+	}
+
+	static loadScript(source: ScriptSource, options: DependencyOptions = {}): Promise<void> {
+		const script = document.createElement("script");
+		script.src = source.url;
+		script.async = true;
+
+		if (source.integrity) {
+			script.integrity = source.integrity;
+			// Integrity checks on cross-origin scripts require a CORS request
+			script.crossOrigin = options.crossOrigin ?? "anonymous";
+		} else if (options.crossOrigin) {
+			script.crossOrigin = options.crossOrigin;
+		}
+		if (options.nonce) {
+			script.nonce = options.nonce;
+		}
+
+		return new Promise((resolve, reject) => {
+			script.onload = () => resolve();
+			script.onerror = () => {
+				script.remove();
+				reject(new Error(`Failed to load script ${source.url}`));
+			};
+			document.head.appendChild(script);
+		});
+	}
+}
@@ -1,39 +1,332 @@
+import type {
+	DetectionCandidate,
+	DetectionHints,
+	DetectionResult,
+	LoadedSource,
+	SourceLoadOptions
+} from "../types";
 import { SUPPORTED_FORMATS } from "./config";
+import { SourceLoader } from "./source-loader";
+import { ZIP_TAIL_SIZE, ZipArchive } from "./zip-archive";
+
+const SNIFF_LENGTH = 4096;
+
+const CONFIDENCE = {
+	EXPLICIT: 1,
+	SIGNATURE: 0.95,
+	CONTAINER: 0.9,
+	MARKUP: 0.85,
+	CONTENT_TYPE: 0.7,
+	FILENAME: 0.6,
+	LEGACY_CONTAINER: 0.55,
+	TEXT_HEURISTIC: 0.5
+} as const;
+
+const EXTENSION_TYPES: Record<string, string> = {
+	pdf: SUPPORTED_FORMATS.PDF,
+	docx: SUPPORTED_FORMATS.DOCX,
+	xlsx: SUPPORTED_FORMATS.XLSX,
+	png: SUPPORTED_FORMATS.IMAGE_PNG,
+	jpg: SUPPORTED_FORMATS.IMAGE_JPEG,
+	jpeg: SUPPORTED_FORMATS.IMAGE_JPEG,
+	svg: SUPPORTED_FORMATS.IMAGE_SVG,
+	gif: SUPPORTED_FORMATS.IMAGE_GIF,
+	webp: SUPPORTED_FORMATS.IMAGE_WEBP,
+	csv: SUPPORTED_FORMATS.CSV,
+	pptx: SUPPORTED_FORMATS.PPTX,
+	ppt: SUPPORTED_FORMATS.PPT
+};
+
+// Non-canonical MIME types seen in the wild, mapped to the supported ones
+const MIME_ALIASES: Record<string, string> = {
+	"application/x-pdf": SUPPORTED_FORMATS.PDF,
+	"image/jpg": SUPPORTED_FORMATS.IMAGE_JPEG,
+	"image/pjpeg": SUPPORTED_FORMATS.IMAGE_JPEG,
+	"application/csv": SUPPORTED_FORMATS.CSV,
+	"text/comma-separated-values": SUPPORTED_FORMATS.CSV,
+	"application/mspowerpoint": SUPPORTED_FORMATS.PPT
+};
+
+// ZIP entry prefixes that identify the OOXML package type
+const OOXML_PREFIXES: Array<[string, string]> = [
+	["word/", SUPPORTED_FORMATS.DOCX],
+	["xl/", SUPPORTED_FORMATS.XLSX],
+	["ppt/", SUPPORTED_FORMATS.PPTX]
+];
 
 /**
  * Document Type Detector
+ * Combines magic-byte sniffing with HTTP headers and filenames and ranks the
+ * resulting candidates by confidence
  */
 export class DocumentDetector {
-	static async detectType(source: string | File | Blob): Promise<string> {
+	static async detectType(
+		source: string | File | Blob,
+		loadOptions: SourceLoadOptions = {}
+	): Promise<string> {
+		const result = await this.detect(source, {}, loadOptions);
+		return result.mimeType;
+	}
+
+	/**
+	 * URLs that cannot be typed from their name are fetched with `loadOptions`,
+	 * so the fetcher, headers and credentials of the viewer apply
+	 */
+	static async detect(
+		source: string | File | Blob,
+		hints: DetectionHints = {},
+		loadOptions: SourceLoadOptions = {}
+	): Promise<DetectionResult> {
+		const candidates = this.detectFromHints(hints);
+
 		if (typeof source === "string") {
-			const extension = source.split(".").pop()?.toLowerCase();
-			switch (extension) {
-				case "pdf":
-					return SUPPORTED_FORMATS.PDF;
-				case "docx":
-					return SUPPORTED_FORMATS.DOCX;
-				case "xlsx":
-					return SUPPORTED_FORMATS.XLSX;
-				case "png":
-					return SUPPORTED_FORMATS.IMAGE_PNG;
-				case "jpg":
-				case "jpeg":
-					return SUPPORTED_FORMATS.IMAGE_JPEG;
-				case "svg":
-					return SUPPORTED_FORMATS.IMAGE_SVG;
-				case "csv":
-					return SUPPORTED_FORMATS.CSV;
-				case "pptx":
-					return SUPPORTED_FORMATS.PPTX;
-				case "ppt":
-					return SUPPORTED_FORMATS.PPT;
-				default:
-					break;
+			const filename = this.getUrlFilename(source);
+			candidates.push(...this.detectFromFilename(filename));
+
+			// URLs without a usable extension are resolved by fetching the content
+			if (candidates.length === 0) {
+				return this.detectRemote(source, loadOptions);
 			}
-		} else if (source instanceof File || source instanceof Blob) {
-			return source.type;
+
+			return this.rank(candidates);
+		}
+
+		if (source instanceof File || source instanceof Blob) {
+			const head = await this.readBlobRange(source, 0, SNIFF_LENGTH);
+			let entryNames: string[] | undefined;
+
+			if (ZipArchive.isZip(head)) {
+				const tailStart = Math.max(0, source.size - ZIP_TAIL_SIZE);
+				const tail = await this.readBlobRange(source, tailStart, source.size);
+				entryNames = ZipArchive.readEntries(tail, tailStart)?.map((entry) => entry.name);
+			}
+
+			candidates.push(...this.detectFromBytes(head, entryNames));
+			candidates.push(...this.detectFromContentType(source.type, "blob-type"));
+
+			if (source instanceof File) {
+				candidates.push(...this.detectFromFilename(source.name));
+			}
+
+			return this.rank(candidates);
 		}
 
 		throw new Error("Unable to detect document type");
 	}
+
+	/**
+	 * Identify a document from its leading bytes. ZIP containers are resolved
+	 * from `entryNames` when given, otherwise from the local headers in `bytes`.
+	 */
+	static detectFromBytes(bytes: Uint8Array, entryNames?: string[]): DetectionCandidate[] {
+		const candidates: DetectionCandidate[] = [];
+		const signature = (mimeType: string, confidence: number = CONFIDENCE.SIGNATURE) =>
+			candidates.push({ mimeType, confidence, method: "signature" });
+
+		if (indexOfAscii(bytes, "%PDF-", 1024) >= 0) {
+			signature(SUPPORTED_FORMATS.PDF);
+		} else if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+			signature(SUPPORTED_FORMATS.IMAGE_PNG);
+		} else if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+			signature(SUPPORTED_FORMATS.IMAGE_JPEG);
+		} else if (
+			indexOfAscii(bytes, "GIF87a", 6) === 0 ||
+			indexOfAscii(bytes, "GIF89a", 6) === 0
+		) {
+			signature(SUPPORTED_FORMATS.IMAGE_GIF);
+		} else if (
+			indexOfAscii(bytes, "RIFF", 4) === 0 &&
+			indexOfAscii(bytes.subarray(8), "WEBP", 4) === 0
+		) {
+			signature(SUPPORTED_FORMATS.IMAGE_WEBP);
+		} else if (ZipArchive.isZip(bytes)) {
+			const names = entryNames ?? ZipArchive.scanEntryNames(bytes);
+			for (const [prefix, mimeType] of OOXML_PREFIXES) {
+				if (names.some((name) => name.startsWith(prefix))) {
+					signature(mimeType, CONFIDENCE.CONTAINER);
+					break;
+				}
+			}
+		} else if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+			// Compound File Binary is shared by all legacy Office formats
+			signature(SUPPORTED_FORMATS.PPT, CONFIDENCE.LEGACY_CONTAINER);
+		} else {
+			candidates.push(...this.detectFromText(bytes));
+		}
+
+		return candidates;
+	}
+
+	static detectFromContentType(
+		contentType: string | null | undefined,
+		method: "content-type" | "blob-type" = "content-type"
+	): DetectionCandidate[] {
+		const mimeType = this.resolveMimeType(contentType);
+		if (!mimeType) return [];
+
+		return [{ mimeType, confidence: CONFIDENCE.CONTENT_TYPE, method }];
+	}
+
+	static detectFromFilename(filename: string | null | undefined): DetectionCandidate[] {
+		if (!filename || !filename.includes(".")) return [];
+
+		const extension = filename.split(".").pop()?.toLowerCase();
+		const mimeType = extension ? EXTENSION_TYPES[extension] : undefined;
+		if (!mimeType) return [];
+
+		return [{ mimeType, confidence: CONFIDENCE.FILENAME, method: "filename" }];
+	}
+
+	static parseContentDisposition(header: string | null | undefined): string | null {
+		return SourceLoader.parseContentDisposition(header);
+	}
+
+	static getUrlFilename(url: string): string {
+		return SourceLoader.getUrlFilename(url);
+	}
+
+	/**
+	 * Supported MIME type named by a header or hint, after parameters and
+	 * aliases are stripped; null when no renderer handles it
+	 */
+	private static resolveMimeType(value: string | null | undefined): string | null {
+		const mimeType = value?.split(";")[0]?.trim().toLowerCase();
+		if (!mimeType) return null;
+
+		const resolved = MIME_ALIASES[mimeType] ?? mimeType;
+		const supported = Object.values(SUPPORTED_FORMATS) as string[];
+		return supported.includes(resolved) ? resolved : null;
+	}
+
+	private static detectFromHints(hints: DetectionHints): DetectionCandidate[] {
+		const candidates: DetectionCandidate[] = [];
+		// An unsupported explicit type is ignored so the content can still be sniffed
+		const explicit = this.resolveMimeType(hints.mimeType);
+		if (explicit) {
+			candidates.push({
+				mimeType: explicit,
+				confidence: CONFIDENCE.EXPLICIT,
+				method: "explicit"
+			});
+		}
+
+		return [
+			...candidates,
+			...this.detectFromContentType(hints.contentType),
+			...this.detectFromFilename(hints.filename)
+		];
+	}
+
+	private static detectFromText(bytes: Uint8Array): DetectionCandidate[] {
+		if (bytes.length === 0 || bytes.includes(0)) return [];
+
+		const text = new TextDecoder().decode(bytes);
+		const trimmed = text.trimStart();
+
+		if (trimmed.startsWith("<")) {
+			if (/<svg[\s>]/i.test(trimmed)) {
+				return [
+					{
+						mimeType: SUPPORTED_FORMATS.IMAGE_SVG,
+						confidence: CONFIDENCE.MARKUP,
+						method: "content"
+					}
+				];
+			}
+			return [];
+		}
+
+		if (!this.looksLikeCsv(text, bytes.length >= SNIFF_LENGTH)) return [];
+
+		return [
+			{
+				mimeType: SUPPORTED_FORMATS.CSV,
+				confidence: CONFIDENCE.TEXT_HEURISTIC,
+				method: "content"
+			}
+		];
+	}
+
+	private static looksLikeCsv(text: string, truncated: boolean): boolean {
+		const lines = text.split(/\r?\n/);
+		// The last line may have been cut off by the sniff window
+		if (truncated) lines.pop();
+
+		const sample = lines.filter((line) => line.trim().length > 0).slice(0, 10);
+		if (sample.length < 2) return false;
+
+		return [",", ";", "\t"].some((delimiter) => {
+			const counts = sample.map((line) => line.split(delimiter).length - 1);
+			const expected = counts[0] ?? 0;
+			return expected > 0 && counts.every((count) => count === expected);
+		});
+	}
+
+	private static async detectRemote(
+		url: string,
+		loadOptions: SourceLoadOptions
+	): Promise<DetectionResult> {
+		let loaded: LoadedSource;
+		try {
+			loaded = await SourceLoader.load(url, loadOptions);
+		} catch {
+			throw new Error("Unable to detect document type");
+		}
+
+		const result = await this.detect(SourceLoader.toFile(loaded), {
+			contentType: loaded.contentType,
+			filename: loaded.filename
+		});
+
+		return {
+			...result,
+			filename: loaded.filename,
+			resolvedSource: SourceLoader.toFile(loaded, result.mimeType)
+		};
+	}
+
+	private static rank(candidates: DetectionCandidate[]): DetectionResult {
+		const best = new Map<string, DetectionCandidate>();
+		candidates.forEach((candidate) => {
+			const existing = best.get(candidate.mimeType);
+			if (!existing || candidate.confidence > existing.confidence) {
+				best.set(candidate.mimeType, candidate);
+			}
+		});
+
+		const ranked = Array.from(best.values()).sort((a, b) => b.confidence - a.confidence);
+		const [top] = ranked;
+		if (!top) {
+			throw new Error("Unable to detect document type");
+		}
+
+		return { ...top, candidates: ranked };
+	}
+
+	private static async readBlobRange(
+		blob: Blob,
+		start: number,
+		end: number
+	): Promise<Uint8Array> {
+		return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+	}
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+	return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function indexOfAscii(bytes: Uint8Array, needle: string, searchLength: number): number {
+	const limit = Math.min(bytes.length, searchLength) - needle.length;
+	for (let offset = 0; offset <= limit; offset++) {
+		let matched = true;
+		for (let i = 0; i < needle.length; i++) {
+			if (bytes[offset + i] !== needle.charCodeAt(i)) {
+				matched = false;
+				break;
+			}
+		}
+		if (matched) return offset;
+	}
+	return -1;
 }
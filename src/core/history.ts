@@ -0,0 +1,116 @@
+import type { HistoryCommand, HistoryState } from "../types";
+
+// Oldest steps are dropped past this many
+const DEFAULT_LIMIT = 100;
+
+// Oldest steps are also dropped once their sizes add up past this many bytes
+const DEFAULT_MAX_SIZE = 256 * 1024 * 1024;
+
+export interface HistoryStackOptions {
+	limit?: number;
+	maxSize?: number;
+	onChange?: (state: HistoryState) => void;
+}
+
+/**
+ * History Stack
+ * Undo and redo of recorded commands. Commands pushed while a step is
+ * being undone or redone are ignored, so operations can record themselves
+ * without checking how they were called.
+ */
+export class HistoryStack {
+	private done: HistoryCommand[];
+	private undone: HistoryCommand[];
+	private limit: number;
+	private maxSize: number;
+	private onChange: ((state: HistoryState) => void) | undefined;
+	private replaying: boolean;
+
+	constructor(options: HistoryStackOptions = {}) {
+		this.done = [];
+		this.undone = [];
+		this.limit = options.limit ?? DEFAULT_LIMIT;
+		this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+		this.onChange = options.onChange;
+		this.replaying = false;
+	}
+
+	get isReplaying(): boolean {
+		return this.replaying;
+	}
+
+	/**
+	 * Record a command that has just been carried out. The newest step is
+	 * always kept, even when it is larger than the size budget on its own.
+	 */
+	push(command: HistoryCommand): void {
+		if (this.replaying) return;
+
+		this.done.push(command);
+		this.undone = [];
+
+		let size = this.done.reduce((total, step) => total + (step.size ?? 0), 0);
+		while (this.done.length > 1 && (this.done.length > this.limit || size > this.maxSize)) {
+			size -= this.done.shift()?.size ?? 0;
+		}
+		this.notify();
+	}
+
+	undo(): boolean {
+		const command = this.done.pop();
+		if (!command) return false;
+
+		this.replay(() => command.undo());
+		this.undone.push(command);
+		this.notify();
+		return true;
+	}
+
+	redo(): boolean {
+		const command = this.undone.pop();
+		if (!command) return false;
+
+		this.replay(() => command.redo());
+		this.done.push(command);
+		this.notify();
+		return true;
+	}
+
+	canUndo(): boolean {
+		return this.done.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.undone.length > 0;
+	}
+
+	getState(): HistoryState {
+		return {
+			canUndo: this.canUndo(),
+			canRedo: this.canRedo(),
+			undoLabel: this.done[this.done.length - 1]?.label ?? null,
+			redoLabel: this.undone[this.undone.length - 1]?.label ?? null
+		};
+	}
+
+	clear(): void {
+		if (this.done.length === 0 && this.undone.length === 0) return;
+
+		this.done = [];
+		this.undone = [];
+		this.notify();
+	}
+
+	private replay(step: () => void): void {
+		this.replaying = true;
+		try {
+			step();
+		} finally {
+			this.replaying = false;
+		}
+	}
+
+	private notify(): void {
+		this.onChange?.(this.getState());
+	}
+}
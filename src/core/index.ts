@@ -1,5 +1,24 @@
+export { AnnotationEditor } from "./annotation-editor";
+export { AnnotationLayer } from "./annotation-layer";
+export { AnnotationSerializer } from "./annotation-serializer";
+export type { AnnotationValidation, PageSizeResolver } from "./annotation-serializer";
+export { IndexedDBAnnotationStore, LocalStorageAnnotationStore } from "./annotation-stores";
+export { AnnotationSync } from "./annotation-sync";
+export type { AnnotationSyncOptions } from "./annotation-sync";
 export { BaseRenderer } from "./base-renderer";
 export { BukaViewer } from "./buka-viewer";
-export { DEFAULT_STYLES, EVENTS, SUPPORTED_FORMATS } from "./config";
+export { ANNOTATION_DEFAULTS, DEFAULT_STYLES, EVENTS, SUPPORTED_FORMATS } from "./config";
+export { DependencyLoader } from "./dependency-loader";
 export { DocumentDetector } from "./document-detector";
+export { HistoryStack } from "./history";
+export type { HistoryStackOptions } from "./history";
+export { LocalSyncAdapter } from "./local-sync-adapter";
+export type { LocalSyncAdapterOptions } from "./local-sync-adapter";
+export { PresenceLayer } from "./presence-layer";
 export { RendererFactory } from "./render-factory";
+export { SourceLoader } from "./source-loader";
+export { TextSearch } from "./text-search";
+export { ZipArchive } from "./zip-archive";
+export type { ZipEntry } from "./zip-archive";
+export { CompoundFile } from "./compound-file";
+export type { CompoundFileEntry } from "./compound-file";
@@ -0,0 +1,76 @@
+import type { SyncAdapter, SyncMessage } from "../types";
+
+// Connected memory adapters of each channel in this window
+const rooms = new Map<string, Set<LocalSyncAdapter>>();
+
+export interface LocalSyncAdapterOptions {
+	/**
+	 * "broadcast" reaches viewers in other tabs of the same origin through
+	 * BroadcastChannel, "memory" only viewers in this window. Defaults to
+	 * "broadcast" where BroadcastChannel exists.
+	 */
+	transport?: "broadcast" | "memory";
+}
+
+/**
+ * Local Sync Adapter
+ * Reference sync adapter that connects viewers sharing a channel name in
+ * the same browser, across tabs or within one page. Memory delivery is
+ * synchronous, which keeps tests free of timing.
+ */
+export class LocalSyncAdapter implements SyncAdapter {
+	readonly channelName: string;
+	private transport: "broadcast" | "memory";
+	private channel: BroadcastChannel | null;
+	private receive: ((message: SyncMessage) => void) | null;
+
+	constructor(channelName = "buka-sync", options: LocalSyncAdapterOptions = {}) {
+		this.channelName = channelName;
+		this.transport =
+			options.transport ?? (typeof BroadcastChannel === "undefined" ? "memory" : "broadcast");
+		this.channel = null;
+		this.receive = null;
+	}
+
+	connect(receive: (message: SyncMessage) => void): void {
+		this.disconnect();
+		this.receive = receive;
+
+		if (this.transport === "broadcast") {
+			this.channel = new BroadcastChannel(this.channelName);
+			this.channel.onmessage = (event: MessageEvent<SyncMessage>) =>
+				this.receive?.(event.data);
+			return;
+		}
+
+		let room = rooms.get(this.channelName);
+		if (!room) {
+			room = new Set();
+			rooms.set(this.channelName, room);
+		}
+		room.add(this);
+	}
+
+	push(message: SyncMessage): void {
+		if (!this.receive) return;
+		if (this.channel) {
+			this.channel.postMessage(message);
+			return;
+		}
+
+		// Copy the message as a real transport would, peers must not share objects
+		const data = JSON.stringify(message);
+		rooms.get(this.channelName)?.forEach((peer) => {
+			if (peer !== this) peer.receive?.(JSON.parse(data));
+		});
+	}
+
+	disconnect(): void {
+		this.channel?.close();
+		this.channel = null;
+
+		const room = rooms.get(this.channelName);
+		if (room?.delete(this) && room.size === 0) rooms.delete(this.channelName);
+		this.receive = null;
+	}
+}
@@ -0,0 +1,91 @@
+import type { AnnotationLayout, PresenceState } from "../types";
+
+/**
+ * Presence Layer
+ * Draws the cursors of collaborators over a page element, each a colored
+ * pointer with the collaborator's name
+ */
+export class PresenceLayer {
+	/**
+	 * Replace the presence layer of a page with the cursors of the given
+	 * collaborators, or remove it when none of them points at the page
+	 */
+	static render(
+		pageElement: HTMLElement,
+		peers: PresenceState[],
+		layout: AnnotationLayout
+	): HTMLElement | null {
+		const pointing = peers.filter((peer) => peer.cursor);
+		if (pointing.length === 0) {
+			PresenceLayer.clear(pageElement);
+			return null;
+		}
+
+		let layer = PresenceLayer.find(pageElement);
+		if (!layer) {
+			layer = document.createElement("div");
+			layer.className = "buka-presence-layer";
+			pageElement.appendChild(layer);
+		}
+		layer.style.cssText = `
+			position: absolute;
+			top: 0;
+			left: 0;
+			width: ${layout.width}px;
+			height: ${layout.height}px;
+			pointer-events: none;
+			z-index: 30;
+		`;
+
+		layer.replaceChildren(
+			...pointing.map((peer) => {
+				const cursor = document.createElement("div");
+				cursor.className = "buka-presence-cursor";
+				cursor.setAttribute("data-replica", peer.replica);
+				cursor.style.cssText = `
+					position: absolute;
+					left: ${(peer.cursor?.x ?? 0) * layout.width}px;
+					top: ${(peer.cursor?.y ?? 0) * layout.height}px;
+					transition: left 0.1s linear, top 0.1s linear;
+				`;
+
+				const pointer = document.createElement("div");
+				pointer.style.cssText = `
+					width: 0;
+					height: 0;
+					border: 6px solid transparent;
+				`;
+				// Colors come from other peers, set them without touching the other declarations
+				pointer.style.setProperty("border-left-color", peer.color);
+				pointer.style.setProperty("border-top-color", peer.color);
+
+				const label = document.createElement("span");
+				label.className = "buka-presence-name";
+				label.textContent = peer.name;
+				label.style.cssText = `
+					position: absolute;
+					left: 10px;
+					top: 10px;
+					padding: 1px 6px;
+					border-radius: 3px;
+					color: #fff;
+					font: 11px/1.5 sans-serif;
+					white-space: nowrap;
+				`;
+				label.style.setProperty("background-color", peer.color);
+
+				cursor.append(pointer, label);
+				return cursor;
+			})
+		);
+		return layer;
+	}
+
+	static find(pageElement: HTMLElement): HTMLElement | null {
+		return pageElement.querySelector(":scope > .buka-presence-layer");
+	}
+
+	static clear(pageElement: HTMLElement): void {
+		PresenceLayer.find(pageElement)?.remove();
+	}
+}
@@ -0,0 +1,346 @@
+import type {
+	DocumentInput,
+	DocumentSource,
+	LoadedSource,
+	LoadOptions,
+	LoadProgressEvent,
+	RequestOptions,
+	SourceLoadOptions,
+	ViewerOptions
+} from "../types";
+
+/**
+ * Source Loader
+ * Single place where document bytes are fetched or read, with progress
+ * reporting, cancellation and request options for authenticated endpoints
+ */
+export class SourceLoader {
+	static async load(
+		source: DocumentInput,
+		options: SourceLoadOptions = {}
+	): Promise<LoadedSource> {
+		this.throwIfAborted(options.signal);
+
+		const loaded = await this.loadSource(source, options);
+		if (options.filename) loaded.filename = options.filename;
+		if (options.mimeType) loaded.mimeType = options.mimeType;
+		return loaded;
+	}
+
+	static isDocumentSource(source: unknown): source is DocumentSource {
+		if (!source || typeof source !== "object") return false;
+		return ["url", "file", "arrayBuffer", "data"].some((key) => key in source);
+	}
+
+	/**
+	 * Wrap loaded bytes in a File so renderers can read them without refetching
+	 */
+	static toFile(loaded: LoadedSource, mimeType?: string): File {
+		return new File([loaded.data], loaded.filename, {
+			type: mimeType ?? loaded.mimeType ?? loaded.contentType ?? ""
+		});
+	}
+
+	/**
+	 * Identity of document bytes that stays the same wherever they are
+	 * loaded from: a SHA-256 hex digest, or an FNV-1a hash with the size
+	 * where Web Crypto is unavailable
+	 */
+	static async fingerprint(data: ArrayBuffer): Promise<string> {
+		try {
+			const digest = await crypto.subtle.digest("SHA-256", data);
+			return Array.from(new Uint8Array(digest), (byte) =>
+				byte.toString(16).padStart(2, "0")
+			).join("");
+		} catch {
+			// Insecure contexts have no crypto.subtle
+			let hash = 0x811c9dc5;
+			new Uint8Array(data).forEach((byte) => {
+				hash = Math.imul(hash ^ byte, 0x01000193);
+			});
+			return `fnv1a-${(hash >>> 0).toString(16).padStart(8, "0")}-${data.byteLength}`;
+		}
+	}
+
+	/**
+	 * Collect the loading options configured on a viewer or renderer
+	 */
+	static fromViewerOptions(
+		options: ViewerOptions,
+		overrides: SourceLoadOptions = {}
+	): SourceLoadOptions {
+		const loadOptions: SourceLoadOptions = {
+			...overrides,
+			...this.mergeRequestOptions(options.request, overrides)
+		};
+		if (options.fetcher && !overrides.fetcher) loadOptions.fetcher = options.fetcher;
+		if (options.onAuthError && !overrides.onAuthError) {
+			loadOptions.onAuthError = options.onAuthError;
+		}
+		return loadOptions;
+	}
+
+	/**
+	 * Perform a request through the configured fetcher. A 401 or 403 response
+	 * is retried once with the request returned by `onAuthError`.
+	 */
+	static async fetch(url: string, options: SourceLoadOptions = {}): Promise<Response> {
+		const fetcher =
+			options.fetcher ?? ((input: string, init: LoadOptions) => fetch(input, init));
+		const response = await fetcher(url, this.buildRequestInit(options));
+
+		if ((response.status !== 401 && response.status !== 403) || !options.onAuthError) {
+			return response;
+		}
+
+		const retry = await options.onAuthError({ url, response });
+		this.throwIfAborted(options.signal);
+		if (!retry) return response;
+
+		const { url: retryUrl, ...retryOptions } = retry;
+		return fetcher(
+			retryUrl ?? url,
+			this.buildRequestInit({
+				...options,
+				...this.mergeRequestOptions(options, retryOptions)
+			})
+		);
+	}
+
+	static buildRequestInit(options: LoadOptions): LoadOptions {
+		const init: LoadOptions = {};
+		if (options.headers) init.headers = options.headers;
+		if (options.credentials) init.credentials = options.credentials;
+		if (options.mode) init.mode = options.mode;
+		if (options.signal) init.signal = options.signal;
+		return init;
+	}
+
+	static mergeRequestOptions(...sources: Array<RequestOptions | undefined>): RequestOptions {
+		const merged: RequestOptions = {};
+		const headers = new Headers();
+		let hasHeaders = false;
+
+		sources.forEach((options) => {
+			if (!options) return;
+			if (options.headers) {
+				new Headers(options.headers).forEach((value, key) => headers.set(key, value));
+				hasHeaders = true;
+			}
+			if (options.credentials) merged.credentials = options.credentials;
+			if (options.mode) merged.mode = options.mode;
+		});
+
+		if (hasHeaders) merged.headers = headers;
+		return merged;
+	}
+
+	/**
+	 * Extract the filename from a Content-Disposition header value
+	 */
+	static parseContentDisposition(header: string | null | undefined): string | null {
+		if (!header) return null;
+
+		const extended = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+		if (extended?.[1]) {
+			try {
+				return decodeURIComponent(extended[1].trim());
+			} catch {
+				// Fall through to the plain filename parameter
+			}
+		}
+
+		const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(header);
+		const filename = (plain?.[1] ?? plain?.[2])?.trim();
+		return filename || null;
+	}
+
+	/**
+	 * Last path segment of a URL, without query string or fragment
+	 */
+	static getUrlFilename(url: string): string {
+		const path = url.split("#")[0]?.split("?")[0] ?? "";
+		const segment = path.split("/").pop() ?? "";
+
+		try {
+			return decodeURIComponent(segment);
+		} catch {
+			return segment;
+		}
+	}
+
+	static isAbortError(error: unknown): boolean {
+		// DOMException does not extend Error in every environment
+		return (error as { name?: string } | null)?.name === "AbortError";
+	}
+
+	static throwIfAborted(signal: AbortSignal | undefined): void {
+		if (signal?.aborted) {
+			throw new DOMException("Document loading was aborted", "AbortError");
+		}
+	}
+
+	private static async loadSource(
+		source: DocumentInput,
+		options: SourceLoadOptions
+	): Promise<LoadedSource> {
+		if (typeof source === "string") {
+			return this.loadUrl(source, options);
+		}
+
+		if (source instanceof File || source instanceof Blob) {
+			const data = await source.arrayBuffer();
+			this.throwIfAborted(options.signal);
+			this.reportProgress(options, data.byteLength, data.byteLength);
+
+			return this.fromBytes(data, {
+				filename: source instanceof File ? source.name : "document",
+				contentType: source.type || null
+			});
+		}
+
+		if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+			const data = this.toArrayBuffer(source);
+			this.reportProgress(options, data.byteLength, data.byteLength);
+			return this.fromBytes(data);
+		}
+
+		if (typeof Response !== "undefined" && source instanceof Response) {
+			return this.loadResponse(source, source.url, options);
+		}
+
+		if (typeof ReadableStream !== "undefined" && source instanceof ReadableStream) {
+			return this.fromBytes(await this.readStream(source, null, options));
+		}
+
+		if (this.isDocumentSource(source)) {
+			const inner = source.url ?? source.file ?? source.arrayBuffer ?? source.data;
+			if (inner === undefined) throw new Error("Unsupported source type");
+
+			const loaded = await this.loadSource(inner, options);
+			if (source.filename) loaded.filename = source.filename;
+			if (source.mimeType) loaded.mimeType = source.mimeType;
+			return loaded;
+		}
+
+		throw new Error("Unsupported source type");
+	}
+
+	private static async loadUrl(url: string, options: SourceLoadOptions): Promise<LoadedSource> {
+		const response = await this.fetch(url, options);
+		return this.loadResponse(response, url, options);
+	}
+
+	private static async loadResponse(
+		response: Response,
+		url: string,
+		options: SourceLoadOptions
+	): Promise<LoadedSource> {
+		if (!response.ok) {
+			throw new Error(`Failed to fetch document: ${response.status} ${response.statusText}`);
+		}
+
+		const lengthHeader = response.headers.get("Content-Length");
+		const total = lengthHeader ? parseInt(lengthHeader, 10) || null : null;
+		const data = await this.readBody(response, total, options);
+
+		return {
+			data,
+			filename: this.getFilename(url, response),
+			contentType: response.headers.get("Content-Type"),
+			contentDisposition: response.headers.get("Content-Disposition"),
+			size: data.byteLength,
+			...(url ? { url } : {})
+		};
+	}
+
+	private static async readBody(
+		response: Response,
+		total: number | null,
+		options: SourceLoadOptions
+	): Promise<ArrayBuffer> {
+		if (!response.body) {
+			const data = await response.arrayBuffer();
+			this.throwIfAborted(options.signal);
+			this.reportProgress(options, data.byteLength, total ?? data.byteLength);
+			return data;
+		}
+
+		return this.readStream(response.body, total, options);
+	}
+
+	private static async readStream(
+		stream: ReadableStream<Uint8Array>,
+		total: number | null,
+		options: SourceLoadOptions
+	): Promise<ArrayBuffer> {
+		const reader = stream.getReader();
+		const chunks: Uint8Array[] = [];
+		let loaded = 0;
+
+		try {
+			for (;;) {
+				this.throwIfAborted(options.signal);
+				const { done, value } = await reader.read();
+				if (done) break;
+
+				chunks.push(value);
+				loaded += value.byteLength;
+				this.reportProgress(options, loaded, total);
+			}
+		} catch (error) {
+			reader.cancel().catch(() => undefined);
+			throw error;
+		}
+
+		const data = new Uint8Array(loaded);
+		let offset = 0;
+		chunks.forEach((chunk) => {
+			data.set(chunk, offset);
+			offset += chunk.byteLength;
+		});
+
+		return data.buffer;
+	}
+
+	private static fromBytes(
+		data: ArrayBuffer,
+		details: Partial<Pick<LoadedSource, "filename" | "contentType">> = {}
+	): LoadedSource {
+		return {
+			data,
+			filename: details.filename ?? "document",
+			contentType: details.contentType ?? null,
+			contentDisposition: null,
+			size: data.byteLength
+		};
+	}
+
+	private static toArrayBuffer(bytes: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+		if (bytes instanceof ArrayBuffer) return bytes;
+		// Copy only the viewed range, the underlying buffer may be shared
+		return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength).slice().buffer;
+	}
+
+	private static reportProgress(
+		options: SourceLoadOptions,
+		loaded: number,
+		total: number | null
+	): void {
+		if (!options.onProgress) return;
+
+		const progress: LoadProgressEvent = {
+			loaded,
+			total,
+			percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null
+		};
+		options.onProgress(progress);
+	}
+
+	private static getFilename(url: string, response: Response): string {
+		return (
+			this.parseContentDisposition(response.headers.get("Content-Disposition")) ??
+			(this.getUrlFilename(url) || "document")
+		);
+	}
+}
@@ -0,0 +1,159 @@
+import type { SearchOptions, TextMatch } from "../types";
+
+// Combining marks left behind by NFD decomposition, e.g. the accent of "é"
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Text Search
+ * Turns a query and search options into matches against plain text or
+ * DOM text nodes, so every renderer searches the same way
+ */
+export class TextSearch {
+	/**
+	 * Build the global regular expression for a query. Throws when
+	 * `options.regex` is set and the query is not a valid pattern.
+	 */
+	static createPattern(query: string, options: SearchOptions = {}): RegExp {
+		let source = options.ignoreDiacritics ? TextSearch.fold(query).text : query;
+
+		if (!options.regex) {
+			// Any run of whitespace matches any other, text extracted from documents
+			// rarely preserves the exact spacing or line breaks
+			source = source
+				.trim()
+				.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+				.replace(/\s+/g, "\\s+");
+		}
+
+		let flags = options.caseSensitive ? "g" : "gi";
+		if (options.wholeWords) {
+			// \b only knows ASCII letters, which breaks on accented words
+			source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+			flags += "u";
+		}
+
+		try {
+			return new RegExp(source, flags);
+		} catch (error) {
+			throw new Error(`Invalid search pattern: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Strip diacritics, keeping for every character of the folded text the
+	 * offset of the character it came from in the original
+	 */
+	static fold(text: string): { text: string; offsets: number[] } {
+		let folded = "";
+		const offsets: number[] = [];
+
+		for (let i = 0; i < text.length; i++) {
+			const base = (text[i] ?? "").normalize("NFD").replace(COMBINING_MARKS, "");
+			for (let j = 0; j < base.length; j++) {
+				offsets.push(i);
+			}
+			folded += base;
+		}
+		return { text: folded, offsets };
+	}
+
+	static find(text: string, query: string, options: SearchOptions = {}): TextMatch[] {
+		if (!query.trim()) return [];
+
+		const regex = TextSearch.createPattern(query, options);
+		const folded = options.ignoreDiacritics ? TextSearch.fold(text) : null;
+		const haystack = folded ? folded.text : text;
+		const matches: TextMatch[] = [];
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(haystack)) !== null) {
+			if (match[0].length === 0) {
+				// Empty regex matches would otherwise never advance
+				regex.lastIndex += 1;
+				continue;
+			}
+
+			let index = match.index;
+			let end = match.index + match[0].length;
+			if (folded) {
+				// Map back to the original text, keeping trailing combining marks
+				index = folded.offsets[index] ?? text.length;
+				end = folded.offsets[end] ?? text.length;
+			}
+			matches.push({ index, length: end - index, match: text.slice(index, end) });
+		}
+		return matches;
+	}
+
+	/**
+	 * Text around a match for result listings, whitespace collapsed so
+	 * line breaks from the source document do not break the snippet
+	 */
+	static getContext(
+		text: string,
+		index: number,
+		length: number,
+		contextLength = 40
+	): { before: string; match: string; after: string } {
+		const collapse = (value: string) => value.replace(/\s+/g, " ");
+		const start = Math.max(0, index - contextLength);
+		const end = Math.min(text.length, index + length + contextLength);
+
+		return {
+			before: collapse(text.substring(start, index)).trimStart(),
+			match: collapse(text.substring(index, index + length)),
+			after: collapse(text.substring(index + length, end)).trimEnd()
+		};
+	}
+
+	/**
+	 * Wrap every match inside the text nodes under root in a
+	 * `<mark class="buka-search-highlight">` and return the marks in
+	 * document order. Text inside elements matching `exclude` is left alone.
+	 */
+	static highlight(
+		root: Node,
+		query: string,
+		options: SearchOptions = {},
+		decorate?: (mark: HTMLElement) => void,
+		exclude?: string
+	): HTMLElement[] {
+		const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+			acceptNode: (node) =>
+				exclude && node.parentElement?.closest(exclude)
+					? NodeFilter.FILTER_REJECT
+					: NodeFilter.FILTER_ACCEPT
+		});
+		const textNodes: Text[] = [];
+		let node;
+		while ((node = walker.nextNode())) {
+			textNodes.push(node as Text);
+		}
+
+		const marks: HTMLElement[] = [];
+		textNodes.forEach((textNode) => {
+			const text = textNode.textContent ?? "";
+			const matches = TextSearch.find(text, query, options);
+			if (matches.length === 0) return;
+
+			const fragment = document.createDocumentFragment();
+			let offset = 0;
+			matches.forEach(({ index, length }) => {
+				fragment.appendChild(document.createTextNode(text.slice(offset, index)));
+
+				const mark = document.createElement("mark");
+				mark.className = "buka-search-highlight";
+				mark.textContent = text.slice(index, index + length);
+				decorate?.(mark);
+				fragment.appendChild(mark);
+				marks.push(mark);
+
+				offset = index + length;
+			});
+			fragment.appendChild(document.createTextNode(text.slice(offset)));
+
+			textNode.parentNode?.replaceChild(fragment, textNode);
+		});
+		return marks;
+	}
+}
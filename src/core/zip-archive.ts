@@ -0,0 +1,141 @@
+import { readUint16, readUint32 } from "./binary";
+
+/**
+ * Minimal ZIP container reader
+ * Reads the central directory and entries of ZIP-based formats (DOCX, XLSX, PPTX)
+ */
+export interface ZipEntry {
+	name: string;
+	compressionMethod: number;
+	compressedSize: number;
+	uncompressedSize: number;
+	localHeaderOffset: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// End of central directory record (22 bytes) plus the maximum comment length
+export const ZIP_TAIL_SIZE = 22 + 0xffff;
+
+export class ZipArchive {
+	static isZip(bytes: Uint8Array): boolean {
+		return bytes.length >= 4 && readUint32(bytes, 0) === LOCAL_FILE_HEADER;
+	}
+
+	/**
+	 * Read the central directory entries from the end of an archive.
+	 * `tail` holds the last bytes of the archive and `tailOffset` is the
+	 * position of its first byte in the whole file. Returns null when the
+	 * central directory is not fully contained in `tail`.
+	 */
+	static readEntries(tail: Uint8Array, tailOffset: number = 0): ZipEntry[] | null {
+		const eocd = this.findEndOfCentralDirectory(tail);
+		if (eocd < 0) return null;
+
+		const entryCount = readUint16(tail, eocd + 10);
+		const directoryOffset = readUint32(tail, eocd + 16) - tailOffset;
+		if (directoryOffset < 0) return null;
+
+		const decoder = new TextDecoder();
+		const entries: ZipEntry[] = [];
+		let offset = directoryOffset;
+
+		for (let i = 0; i < entryCount; i++) {
+			if (
+				offset + 46 > tail.length ||
+				readUint32(tail, offset) !== CENTRAL_DIRECTORY_HEADER
+			) {
+				return null;
+			}
+
+			const nameLength = readUint16(tail, offset + 28);
+			const extraLength = readUint16(tail, offset + 30);
+			const commentLength = readUint16(tail, offset + 32);
+
+			entries.push({
+				name: decoder.decode(tail.subarray(offset + 46, offset + 46 + nameLength)),
+				compressionMethod: readUint16(tail, offset + 10),
+				compressedSize: readUint32(tail, offset + 20),
+				uncompressedSize: readUint32(tail, offset + 24),
+				localHeaderOffset: readUint32(tail, offset + 42)
+			});
+
+			offset += 46 + nameLength + extraLength + commentLength;
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Collect entry names from the local file headers found in a leading
+	 * chunk of the archive. Used when the central directory is not available.
+	 */
+	static scanEntryNames(head: Uint8Array): string[] {
+		const decoder = new TextDecoder();
+		const names: string[] = [];
+
+		for (let offset = 0; offset + 30 <= head.length; offset++) {
+			if (readUint32(head, offset) !== LOCAL_FILE_HEADER) continue;
+
+			const nameLength = readUint16(head, offset + 26);
+			const nameEnd = offset + 30 + nameLength;
+			if (nameEnd > head.length) break;
+
+			names.push(decoder.decode(head.subarray(offset + 30, nameEnd)));
+			offset = nameEnd - 1;
+		}
+
+		return names;
+	}
+
+	/**
+	 * Extract the uncompressed contents of an entry. `archive` must hold the
+	 * whole file. Deflated entries are inflated with DecompressionStream.
+	 */
+	static async extract(archive: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+		const offset = entry.localHeaderOffset;
+		if (readUint32(archive, offset) !== LOCAL_FILE_HEADER) {
+			throw new Error(`Invalid ZIP entry: ${entry.name}`);
+		}
+
+		// Sizes in the local header may be deferred to a data descriptor, so
+		// only the name and extra field lengths are read from it
+		const dataStart =
+			offset + 30 + readUint16(archive, offset + 26) + readUint16(archive, offset + 28);
+		const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+		switch (entry.compressionMethod) {
+			case STORED:
+				return data;
+			case DEFLATED:
+				return this.inflate(data);
+			default:
+				throw new Error(
+					`Unsupported ZIP compression method ${entry.compressionMethod}: ${entry.name}`
+				);
+		}
+	}
+
+	private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+		const decompressor = new DecompressionStream("deflate-raw");
+		const writer = decompressor.writable.getWriter();
+		// Corrupt data surfaces as an error on the readable side
+		writer.write(data.slice()).catch(() => undefined);
+		writer.close().catch(() => undefined);
+		return new Uint8Array(await new Response(decompressor.readable).arrayBuffer());
+	}
+
+	private static findEndOfCentralDirectory(bytes: Uint8Array): number {
+		for (let offset = bytes.length - 22; offset >= 0; offset--) {
+			if (readUint32(bytes, offset) === END_OF_CENTRAL_DIRECTORY) {
+				return offset;
+			}
+		}
+		return -1;
+	}
+}
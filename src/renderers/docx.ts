@@ -1,5 +1,45 @@
-import { BaseRenderer, EVENTS, RendererFactory, SUPPORTED_FORMATS } from "../core";
-import type { SearchResult } from "../types";
+import {
+	BaseRenderer,
+	DependencyLoader,
+	EVENTS,
+	RendererFactory,
+	SourceLoader,
+	SUPPORTED_FORMATS,
+	TextSearch
+} from "../core";
+import type {
+	Annotation,
+	AnnotationAnchor,
+	AnnotationLayout,
+	AnnotationRect,
+	DocumentInput,
+	PageTextContent,
+	SearchOptions,
+	SearchResult,
+	TextBlock,
+	TextAnchor,
+	TextBlockType,
+	TextExtractionOptions
+} from "../types";
+
+// Elements that hold a run of document text, the innermost one wins
+const TEXT_BLOCK_SELECTOR = "h1, h2, h3, h4, h5, h6, p, pre, li, td, th";
+
+// Text on a page that is not document text, which anchors do not count
+const NON_DOCUMENT_TEXT_SELECTOR =
+	"style, .buka-docx-page-number, .buka-annotation-layer, .buka-presence-layer";
+
+const MARKUP_TYPES = ["highlight", "underline", "strikeout"];
+
+// Size of a page box that has not been laid out, from its width, padding and min-height
+const PAGE_BOX_SIZE = { width: 944, height: 1244 };
+
+/** Text node of the document with its page and its offset in the document text */
+interface TextPosition {
+	node: Text;
+	page: number;
+	start: number;
+}
 
 /**
  * DOCX Renderer using Mammoth.js
@@ -64,23 +104,11 @@ export class DocxRenderer extends BaseRenderer {
 		this.container.appendChild(this.scrollContainer);
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput): Promise<void> {
 		try {
 			this.mammothLib = await this.loadMammoth();
 
-			let arrayBuffer;
-
-			if (typeof source === "string") {
-				const response = await fetch(source);
-				if (!response.ok) {
-					throw new Error(`Failed to fetch DOCX: ${response.statusText}`);
-				}
-				arrayBuffer = await response.arrayBuffer();
-			} else if (source instanceof File || source instanceof Blob) {
-				arrayBuffer = await source.arrayBuffer();
-			} else {
-				throw new Error("Unsupported source type");
-			}
+			const arrayBuffer = await this.readSource(source);
 
 			const result = await this.mammothLib.convertToHtml(
 				{ arrayBuffer },
@@ -133,29 +161,9 @@ export class DocxRenderer extends BaseRenderer {
 	}
 
 	async loadMammoth(): Promise<any> {
-		if (typeof (window as any).mammoth !== "undefined") {
-			return (window as any).mammoth;
-		}
-
-		try {
-			const mammothModule = await import("mammoth");
-			return mammothModule.default || mammothModule;
-		} catch (error) {
-			const script = document.createElement("script");
-			script.src = "https://cdn.jsdelivr.net/npm/mammoth@1.6.0/mammoth.browser.min.js";
-			document.head.appendChild(script);
-
-			return new Promise((resolve, reject) => {
-				script.onload = () => {
-					if ((window as any).mammoth) {
-						resolve((window as any).mammoth);
-					} else {
-						reject(new Error("Failed to load mammoth.js"));
-					}
-				};
-				script.onerror = () => reject(new Error("Failed to load mammoth.js from CDN"));
-			});
-		}
+		return DependencyLoader.load("mammoth", this.options.dependencies, {
+			importModule: () => import("mammoth")
+		});
 	}
 
 	transformDocument(document: any): any {
@@ -381,6 +389,9 @@ export class DocxRenderer extends BaseRenderer {
 
 		// Process all page content
 		this.postProcessContent();
+
+		// Text may have moved to other pages
+		this.reanchorAnnotations();
 	}
 
 	handleScroll(): void {
@@ -606,6 +617,9 @@ export class DocxRenderer extends BaseRenderer {
 			pageElement.style.marginBottom = `${20 * scale}px`;
 		});
 
+		// The font size changes with the zoom, so lines wrap differently
+		this.reanchorAnnotations();
+
 		this.emit(EVENTS.ZOOM_CHANGED, { zoom: this.zoomFactor });
 	}
 
@@ -631,7 +645,7 @@ export class DocxRenderer extends BaseRenderer {
 		return false;
 	}
 
-	async search(query: string): Promise<SearchResult[]> {
+	async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
 		if (!query.trim()) {
 			this.searchResults = [];
 			this.currentSearchIndex = 0;
@@ -642,27 +656,32 @@ export class DocxRenderer extends BaseRenderer {
 		this.clearSearchHighlights();
 		this.searchResults = [];
 
-		const regex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
-		let match;
-
-		while ((match = regex.exec(this.searchableText)) !== null) {
+		// Search the text shown on the pages, so every hit has a page and a highlight
+		const { positions, text } = this.getTextPositions();
+		let position = 0;
+		TextSearch.find(text, query, options).forEach(({ index, length, match }) => {
+			while ((positions[position + 1]?.start ?? Infinity) <= index) {
+				position++;
+			}
 			this.searchResults.push({
-				match: match[0],
-				text: match[0],
-				index: match.index,
-				length: match[0].length,
-				context: this.getSearchContext(match.index, match[0].length)
+				match,
+				text: match,
+				page: positions[position]?.page ?? 1,
+				index,
+				length,
+				context: this.getSearchContext(text, index, length)
 			});
-		}
+		});
 
 		if (this.searchResults.length > 0) {
-			this.highlightSearchMatches(query);
+			this.highlightSearchMatches(query, options);
 			this.currentSearchIndex = 0;
 			this.scrollToCurrentMatch();
 		}
 
 		this.emit(EVENTS.SEARCH_RESULT, {
 			query,
+			options,
 			results: this.searchResults,
 			currentIndex: this.currentSearchIndex
 		});
@@ -670,42 +689,18 @@ export class DocxRenderer extends BaseRenderer {
 		return this.searchResults;
 	}
 
-	highlightSearchMatches(query: string): void {
+	highlightSearchMatches(query: string, options: SearchOptions = {}): void {
 		if (!this.documentContainer) return;
 
 		// Highlight matches in all pages
 		this.pageElements.forEach((pageElement) => {
-			const walker = document.createTreeWalker(pageElement, NodeFilter.SHOW_TEXT, null);
-
-			const textNodes: Node[] = [];
-			let node;
-			while ((node = walker.nextNode())) {
-				textNodes.push(node);
-			}
-
-			const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
-
-			textNodes.forEach((textNode) => {
-				const text = textNode.textContent;
-				if (text && regex.test(text)) {
-					const highlightedText = text.replace(
-						regex,
-						`
-							<mark class="buka-search-highlight">$1</mark>
-						`
-					);
-
-					const wrapper = document.createElement("div");
-					wrapper.innerHTML = highlightedText;
-
-					const fragment = document.createDocumentFragment();
-					while (wrapper.firstChild) {
-						fragment.appendChild(wrapper.firstChild);
-					}
-
-					textNode.parentNode?.replaceChild(fragment, textNode);
-				}
-			});
+			TextSearch.highlight(
+				pageElement,
+				query,
+				options,
+				undefined,
+				NON_DOCUMENT_TEXT_SELECTOR
+			);
 		});
 	}
 
@@ -739,16 +734,12 @@ export class DocxRenderer extends BaseRenderer {
 		}
 	}
 
-	getSearchContext(index: number, length: number): any {
-		const contextLength = 50;
-		const start = Math.max(0, index - contextLength);
-		const end = Math.min(this.searchableText.length, index + length + contextLength);
-
-		return {
-			before: this.searchableText.substring(start, index),
-			match: this.searchableText.substring(index, index + length),
-			after: this.searchableText.substring(index + length, end)
-		};
+	getSearchContext(
+		text: string,
+		index: number,
+		length: number
+	): NonNullable<SearchResult["context"]> {
+		return TextSearch.getContext(text, index, length, 50);
 	}
 
 	extractText(html: string): string {
@@ -757,7 +748,254 @@ export class DocxRenderer extends BaseRenderer {
 		return temp.textContent || temp.innerText || "";
 	}
 
-	getDocumentTitle(source: string | File | Blob): string {
+	override async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		return this.getTextPages(options).flatMap((pageNum) => {
+			const pageElement = this.pageElements[pageNum - 1];
+			if (!pageElement) return [];
+
+			const blocks = this.getTextBlocks(pageElement);
+			const content: PageTextContent = {
+				page: pageNum,
+				label: `Page ${pageNum}`,
+				text: blocks.map((block) => block.text).join("\n")
+			};
+			if (options.structured) {
+				content.blocks = blocks;
+			}
+			return [content];
+		});
+	}
+
+	/**
+	 * Paragraphs, headings, list items and table cells of a page, positioned
+	 * relative to the page once it has been laid out
+	 */
+	getTextBlocks(pageElement: HTMLElement): TextBlock[] {
+		const pageRect = pageElement.getBoundingClientRect();
+		const elements = Array.from(
+			pageElement.querySelectorAll<HTMLElement>(TEXT_BLOCK_SELECTOR)
+		).filter((element) => !element.querySelector(TEXT_BLOCK_SELECTOR));
+
+		return elements.flatMap((element) => {
+			const type = this.getTextBlockType(element);
+			const raw = element.textContent ?? "";
+			const text = type === "code" ? raw.trim() : raw.replace(/\s+/g, " ").trim();
+			if (!text) return [];
+
+			const block: TextBlock = { text, type };
+			if (pageRect.width > 0 && pageRect.height > 0) {
+				const rect = element.getBoundingClientRect();
+				block.x = (rect.left - pageRect.left) / pageRect.width;
+				block.y = (rect.top - pageRect.top) / pageRect.height;
+				block.width = rect.width / pageRect.width;
+				block.height = rect.height / pageRect.height;
+			}
+			return [block];
+		});
+	}
+
+	getTextBlockType(element: HTMLElement): TextBlockType {
+		if (/^H[1-6]$/.test(element.tagName)) return "heading";
+		if (element.tagName === "PRE") return "code";
+		if (element.closest("td, th")) return "cell";
+		if (element.closest("li")) return "list-item";
+		return "paragraph";
+	}
+
+	override getAnnotationPageElement(page: number): HTMLElement | null {
+		return this.pageElements[page - 1] ?? null;
+	}
+
+	override getAnnotationLayout(page: number): AnnotationLayout | null {
+		const pageElement = this.pageElements[page - 1];
+		if (!pageElement?.offsetWidth) return null;
+
+		// Zoom scales the page with a transform, which scales its annotations too
+		return { width: pageElement.offsetWidth, height: pageElement.offsetHeight, scale: 1 };
+	}
+
+	/**
+	 * Scaled copy of a page as it is laid out
+	 */
+	protected override async createThumbnail(
+		page: number,
+		size: number
+	): Promise<HTMLElement | null> {
+		const pageElement = this.pageElements[page - 1];
+		if (!pageElement) return null;
+
+		return this.createThumbnailFrame(
+			pageElement,
+			pageElement.offsetWidth || PAGE_BOX_SIZE.width,
+			pageElement.offsetHeight || PAGE_BOX_SIZE.height,
+			size
+		);
+	}
+
+	/**
+	 * Anchor for an occurrence of text in the document, counted from 0
+	 */
+	findTextAnchor(quote: string, occurrence = 0): TextAnchor | null {
+		if (!quote) return null;
+
+		const { text } = this.getTextPositions();
+		let start = text.indexOf(quote);
+		for (let skipped = 0; skipped < occurrence && start !== -1; skipped++) {
+			start = text.indexOf(quote, start + 1);
+		}
+		return start === -1 ? null : { type: "text", start, end: start + quote.length, quote };
+	}
+
+	override getTextAnchor(range: Range, page: number): TextAnchor | null {
+		const { positions, text } = this.getTextPositions();
+		const selected = positions.filter(
+			(position) => position.page === page && range.intersectsNode(position.node)
+		);
+		const first = selected[0];
+		const last = selected[selected.length - 1];
+		if (!first || !last) return null;
+
+		const start = first.start + (first.node === range.startContainer ? range.startOffset : 0);
+		const end =
+			last.start +
+			(last.node === range.endContainer ? range.endOffset : last.node.data.length);
+		const quote = text.slice(start, end);
+		return quote.trim() ? { type: "text", start, end, quote } : null;
+	}
+
+	protected override getAnchorPage(anchor: AnnotationAnchor): number | null {
+		if (anchor.type !== "text") return null;
+
+		const { positions, text } = this.getTextPositions();
+		const range = this.findAnchoredText(anchor, text);
+		return range ? (this.locateText(positions, range.start)?.page ?? null) : null;
+	}
+
+	protected override anchorAnnotation(annotation: Annotation): Annotation | null {
+		const anchor = annotation.anchor;
+		if (anchor?.type !== "text") return annotation;
+
+		const { positions, text } = this.getTextPositions();
+		const found = this.findAnchoredText(anchor, text);
+		const first = found && this.locateText(positions, found.start);
+		const last = found && this.locateText(positions, found.end, true);
+		const pageElement = first && this.pageElements[first.page - 1];
+		if (!found || !first || !last || !pageElement) return null;
+
+		const range = document.createRange();
+		range.setStart(first.node, found.start - first.start);
+		range.setEnd(last.node, found.end - last.start);
+		const rects = this.getPageRects(range, pageElement);
+		const lastRect = rects[rects.length - 1];
+		if (!lastRect) return null;
+
+		if (MARKUP_TYPES.includes(annotation.type)) {
+			return { ...annotation, page: first.page, rects } as Annotation;
+		}
+		if (annotation.type === "note") {
+			// The note icon follows the end of the text
+			return {
+				...annotation,
+				page: first.page,
+				position: { x: lastRect.x + lastRect.width, y: lastRect.y }
+			};
+		}
+
+		const x = Math.min(...rects.map((rect) => rect.x));
+		const y = Math.min(...rects.map((rect) => rect.y));
+		const width = Math.max(...rects.map((rect) => rect.x + rect.width)) - x;
+		const height = Math.max(...rects.map((rect) => rect.y + rect.height)) - y;
+		return { ...annotation, page: first.page, position: { x, y, width, height } } as Annotation;
+	}
+
+	/**
+	 * Text nodes of every page in reading order, with the text of the whole
+	 * document that anchor offsets count into
+	 */
+	getTextPositions(): { positions: TextPosition[]; text: string } {
+		const positions: TextPosition[] = [];
+		let text = "";
+
+		this.pageElements.forEach((pageElement, index) => {
+			const walker = document.createTreeWalker(pageElement, NodeFilter.SHOW_TEXT, {
+				acceptNode: (node) =>
+					node.parentElement?.closest(NON_DOCUMENT_TEXT_SELECTOR)
+						? NodeFilter.FILTER_REJECT
+						: NodeFilter.FILTER_ACCEPT
+			});
+			let node;
+			while ((node = walker.nextNode() as Text | null)) {
+				positions.push({ node, page: index + 1, start: text.length });
+				text += node.data;
+			}
+		});
+
+		return { positions, text };
+	}
+
+	/**
+	 * Range of the document text an anchor covers. When the text at its
+	 * offsets changed, the occurrence of the quote nearest to them is used.
+	 */
+	findAnchoredText(anchor: TextAnchor, text: string): { start: number; end: number } | null {
+		if (text.slice(anchor.start, anchor.end) === anchor.quote) return anchor;
+		if (!anchor.quote) return null;
+
+		let nearest = -1;
+		let index = text.indexOf(anchor.quote);
+		while (index !== -1) {
+			if (
+				nearest === -1 ||
+				Math.abs(index - anchor.start) < Math.abs(nearest - anchor.start)
+			) {
+				nearest = index;
+			}
+			index = text.indexOf(anchor.quote, index + 1);
+		}
+		return nearest === -1 ? null : { start: nearest, end: nearest + anchor.quote.length };
+	}
+
+	/**
+	 * Text node holding an offset, the one it ends when atEnd is set
+	 */
+	locateText(positions: TextPosition[], offset: number, atEnd = false): TextPosition | null {
+		return (
+			positions.find((position) => {
+				const end = position.start + position.node.data.length;
+				return atEnd
+					? offset > position.start && offset <= end
+					: offset >= position.start && offset < end;
+			}) ?? null
+		);
+	}
+
+	/**
+	 * Line boxes of a range on a page, as fractions of the page. Lines that
+	 * continue on the next page are left out.
+	 */
+	getPageRects(range: Range, pageElement: HTMLElement): AnnotationRect[] {
+		if (typeof range.getClientRects !== "function") return [];
+
+		const pageRect = pageElement.getBoundingClientRect();
+		if (!pageRect.width || !pageRect.height) return [];
+
+		return Array.from(range.getClientRects())
+			.filter(
+				(rect) =>
+					rect.width > 0 &&
+					rect.height > 0 &&
+					rect.top >= pageRect.top &&
+					rect.bottom <= pageRect.bottom
+			)
+			.map((rect) => ({
+				x: (rect.left - pageRect.left) / pageRect.width,
+				y: (rect.top - pageRect.top) / pageRect.height,
+				width: rect.width / pageRect.width,
+				height: rect.height / pageRect.height
+			}));
+	}
+
+	getDocumentTitle(source: DocumentInput): string {
 		if (typeof source === "string") {
 			return (
 				source
@@ -767,6 +1005,8 @@ export class DocxRenderer extends BaseRenderer {
 			);
 		} else if (source instanceof File) {
 			return source.name.replace(/\.[^/.]+$/, "");
+		} else if (SourceLoader.isDocumentSource(source) && source.filename) {
+			return source.filename.replace(/\.[^/.]+$/, "");
 		}
 		return "DOCX Document";
 	}
@@ -775,20 +1015,9 @@ export class DocxRenderer extends BaseRenderer {
 		return this.searchableText.split(/\s+/).filter((word) => word.length > 0).length;
 	}
 
-	nextSearchResult(): void {
-		if (this.searchResults.length > 0) {
-			this.currentSearchIndex = (this.currentSearchIndex + 1) % this.searchResults.length;
-			this.scrollToCurrentMatch();
-		}
-	}
-
-	previousSearchResult(): void {
-		if (this.searchResults.length > 0) {
-			this.currentSearchIndex =
-				(this.currentSearchIndex - 1 + this.searchResults.length) %
-				this.searchResults.length;
-			this.scrollToCurrentMatch();
-		}
+	override async showSearchResult(index: number): Promise<void> {
+		this.currentSearchIndex = index;
+		this.scrollToCurrentMatch();
 	}
 
 	getOutline(): any[] {
@@ -1,5 +1,12 @@
-import { BaseRenderer, EVENTS, RendererFactory, SUPPORTED_FORMATS } from "../core";
-import type { SearchResult } from "../types";
+import { BaseRenderer, EVENTS, RendererFactory, SourceLoader, SUPPORTED_FORMATS } from "../core";
+import type {
+	AnnotationLayout,
+	DocumentInput,
+	PageTextContent,
+	SearchResult,
+	TextBlock,
+	TextExtractionOptions
+} from "../types";
 
 /**
  * Image Renderer for PNG, JPEG, SVG
@@ -35,6 +42,16 @@ export interface AspectRatioConstraint {
 	label: string;
 }
 
+/** Image edits at one point in the undo history */
+export interface ImageEditState {
+	filters: ImageFilterState;
+	dimensions: { width: number; height: number };
+	isFiltered: boolean;
+	isCropped: boolean;
+	/** Copy of the cropped canvas, other states are redrawn from the source image */
+	pixels: HTMLCanvasElement | null;
+}
+
 export class ImageRenderer extends BaseRenderer {
 	public imageElement: HTMLImageElement | null;
 	public canvasElement: HTMLCanvasElement | null;
@@ -50,6 +67,8 @@ export class ImageRenderer extends BaseRenderer {
 	public cropArea: CropArea | null;
 	public isCropping: boolean;
 	public cropOverlay: HTMLElement | null;
+	/** Box over the image, at its natural size, that annotations are drawn in */
+	public annotationPage: HTMLElement | null;
 	public originalImageData: ImageData | null;
 	public isFiltered: boolean;
 	public cropStartPoint: { x: number; y: number } | null;
@@ -59,6 +78,11 @@ export class ImageRenderer extends BaseRenderer {
 	public activeHandle: string | null;
 	public aspectRatio: number | null;
 	public cropDragOffset: { x: number; y: number };
+	private editDepth: number;
+	/** Whether the canvas holds a crop that cannot be redrawn from the source image */
+	private isCropped: boolean;
+	/** State after the newest recorded edit, reused as the next edit's starting point */
+	private lastEditState: ImageEditState | null;
 
 	// Getter for consistent API with other renderers
 	override get zoom(): number {
@@ -66,6 +90,9 @@ export class ImageRenderer extends BaseRenderer {
 	}
 	public resizeObserver: ResizeObserver | null;
 	public objectUrl: string | null;
+	public source: DocumentInput | null;
+	/** Parsed markup of an SVG image, null for other images, read on first use */
+	public svgDocument: Document | null | undefined;
 
 	constructor(container: HTMLElement, options = {}) {
 		super(container, options);
@@ -82,6 +109,8 @@ export class ImageRenderer extends BaseRenderer {
 		this.fitMode = "fit-width";
 		this.resizeObserver = null;
 		this.objectUrl = null;
+		this.source = null;
+		this.svgDocument = undefined;
 		this.filters = {
 			brightness: 100,
 			contrast: 100,
@@ -94,6 +123,7 @@ export class ImageRenderer extends BaseRenderer {
 		this.cropArea = null;
 		this.isCropping = false;
 		this.cropOverlay = null;
+		this.annotationPage = null;
 		this.originalImageData = null;
 		this.isFiltered = false;
 		this.cropStartPoint = null;
@@ -103,6 +133,9 @@ export class ImageRenderer extends BaseRenderer {
 		this.activeHandle = null;
 		this.aspectRatio = null;
 		this.cropDragOffset = { x: 0, y: 0 };
+		this.editDepth = 0;
+		this.isCropped = false;
+		this.lastEditState = null;
 
 		this.totalPages = 1;
 		this.currentPage = 1;
@@ -157,6 +190,14 @@ export class ImageRenderer extends BaseRenderer {
       pointer-events: none;
     `;
 
+		this.annotationPage = document.createElement("div");
+		this.annotationPage.className = "buka-image-annotations";
+		this.annotationPage.style.cssText = `
+      position: absolute;
+      transition: transform 0.2s ease;
+      pointer-events: none;
+    `;
+
 		this.cropOverlay = document.createElement("div");
 		this.cropOverlay.className = "buka-crop-overlay";
 		this.cropOverlay.style.cssText = `
@@ -180,6 +221,7 @@ export class ImageRenderer extends BaseRenderer {
 
 		this.imageWrapper.appendChild(this.canvasElement);
 		this.imageWrapper.appendChild(this.imageElement);
+		this.imageWrapper.appendChild(this.annotationPage);
 		this.imageWrapper.appendChild(this.cropOverlay);
 		this.container.appendChild(this.imageWrapper);
 	}
@@ -216,7 +258,7 @@ export class ImageRenderer extends BaseRenderer {
 		document.addEventListener("keydown", this.handleKeyDown.bind(this));
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput): Promise<void> {
 		try {
 			let imageUrl;
 
@@ -225,14 +267,23 @@ export class ImageRenderer extends BaseRenderer {
 			} else if (source instanceof File || source instanceof Blob) {
 				imageUrl = URL.createObjectURL(source);
 			} else {
-				throw new Error("Unsupported source type");
+				const loaded = await SourceLoader.load(
+					source,
+					SourceLoader.fromViewerOptions(this.options)
+				);
+				imageUrl = URL.createObjectURL(SourceLoader.toFile(loaded));
 			}
 
 			await this.loadImage(imageUrl);
 
-			if (source instanceof File || source instanceof Blob) {
+			if (typeof source !== "string") {
 				this.objectUrl = imageUrl;
 			}
+			this.source = source;
+			this.svgDocument = undefined;
+			// Earlier edits belong to the previous image
+			this.history.clear();
+			this.lastEditState = null;
 
 			this.emit(EVENTS.DOCUMENT_LOADED, {
 				totalPages: this.totalPages,
@@ -258,6 +309,7 @@ export class ImageRenderer extends BaseRenderer {
 
 						this.updateContainerDimensions();
 						this.applyFitMode();
+						this.renderPageAnnotations(1);
 						resolve();
 					}
 				};
@@ -296,6 +348,24 @@ export class ImageRenderer extends BaseRenderer {
       translate(${this.panState.x}px, ${this.panState.y}px) 
       scale(${scaleX}, ${scaleY})
     `;
+
+		// Annotations follow the image as it is panned and zoomed
+		if (this.annotationPage) {
+			this.annotationPage.style.width = `${this.originalDimensions.width}px`;
+			this.annotationPage.style.height = `${this.originalDimensions.height}px`;
+			this.annotationPage.style.transform = activeElement.style.transform;
+		}
+	}
+
+	override getAnnotationPageElement(page: number): HTMLElement | null {
+		return page === 1 && this.originalDimensions.width ? this.annotationPage : null;
+	}
+
+	override getAnnotationLayout(page: number): AnnotationLayout | null {
+		if (page !== 1 || !this.originalDimensions.width) return null;
+
+		// The page is scaled with the image, so it is laid out at natural size
+		return { ...this.originalDimensions, scale: 1 };
 	}
 
 	override async setZoom(factor: number): Promise<void> {
@@ -331,6 +401,83 @@ export class ImageRenderer extends BaseRenderer {
 		return [];
 	}
 
+	/**
+	 * Text drawn by an SVG image; other images have a single page without text
+	 */
+	override async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		if (!this.source || !this.getTextPages(options).length) return [];
+
+		const svg = await this.loadSvgDocument();
+		const blocks = svg ? this.getSvgTextBlocks(svg) : [];
+		const content: PageTextContent = {
+			page: 1,
+			label: this.getImageTitle(this.source),
+			text: blocks.map((block) => block.text).join("\n")
+		};
+		if (options.structured) {
+			content.blocks = blocks;
+		}
+		return [content];
+	}
+
+	async loadSvgDocument(): Promise<Document | null> {
+		if (this.svgDocument !== undefined) return this.svgDocument;
+		if (!this.source) return null;
+
+		const data = await this.readSource(this.source);
+		// Only markup can be an SVG, skip decoding binary images
+		const head = new TextDecoder().decode(data.slice(0, 256)).replace(/^\uFEFF/, "");
+		if (!head.trimStart().startsWith("<")) {
+			this.svgDocument = null;
+			return null;
+		}
+
+		const svg = new DOMParser().parseFromString(
+			new TextDecoder().decode(data),
+			"image/svg+xml"
+		);
+		const valid = svg.documentElement.localName === "svg" && !svg.querySelector("parsererror");
+		this.svgDocument = valid ? svg : null;
+		return this.svgDocument;
+	}
+
+	/**
+	 * `<text>` elements positioned at their anchor point (the start of the
+	 * baseline) relative to the SVG viewport
+	 */
+	getSvgTextBlocks(svg: Document): TextBlock[] {
+		const root = svg.documentElement;
+		const viewBox = (root.getAttribute("viewBox") ?? "")
+			.split(/[\s,]+/)
+			.filter(Boolean)
+			.map(Number);
+		const size = [root.getAttribute("width"), root.getAttribute("height")].map((value) =>
+			parseFloat(value ?? "")
+		);
+		const [minX, minY, width, height] = viewBox.length === 4 ? viewBox : [0, 0, ...size];
+
+		const coordinate = (element: Element, name: string) =>
+			parseFloat(element.getAttribute(name)?.split(/[\s,]+/)[0] ?? "");
+
+		return Array.from(root.getElementsByTagName("text")).flatMap((element) => {
+			const text = (element.textContent ?? "").replace(/\s+/g, " ").trim();
+			if (!text) return [];
+
+			const block: TextBlock = { text, type: "text" };
+			// Text often carries its position on the first tspan
+			const positioned = element.hasAttribute("x")
+				? element
+				: (element.querySelector("tspan[x]") ?? element);
+			const x = coordinate(positioned, "x");
+			const y = coordinate(positioned, "y");
+			if (width && height && !isNaN(x) && !isNaN(y)) {
+				block.x = (x - (minX ?? 0)) / width;
+				block.y = (y - (minY ?? 0)) / height;
+			}
+			return [block];
+		});
+	}
+
 	handleMouseDown(event: MouseEvent): void {
 		if (event.button === 0) {
 			if (this.isCropping) {
@@ -514,11 +661,13 @@ export class ImageRenderer extends BaseRenderer {
 		this.setFitMode("fit-page");
 	}
 
-	getImageTitle(source: string | File | Blob): string {
+	getImageTitle(source: DocumentInput): string {
 		if (typeof source === "string") {
 			return source.split("/").pop() || "Image";
 		} else if (source instanceof File) {
 			return source.name;
+		} else if (SourceLoader.isDocumentSource(source) && source.filename) {
+			return source.filename;
 		}
 		return "Image";
 	}
@@ -538,53 +687,184 @@ export class ImageRenderer extends BaseRenderer {
 	}
 
 	brighten(amount: number = 10): void {
-		this.setFilter("brightness", Math.min(200, this.filters.brightness + amount));
-		this.applyFilters();
+		this.adjustFilter(
+			"Brighten",
+			"brightness",
+			Math.min(200, this.filters.brightness + amount)
+		);
 	}
 
 	darken(amount: number = 10): void {
-		this.setFilter("brightness", Math.max(0, this.filters.brightness - amount));
-		this.applyFilters();
+		this.adjustFilter("Darken", "brightness", Math.max(0, this.filters.brightness - amount));
 	}
 
 	increaseContrast(amount: number = 10): void {
-		this.setFilter("contrast", Math.min(200, this.filters.contrast + amount));
-		this.applyFilters();
+		this.adjustFilter(
+			"Increase contrast",
+			"contrast",
+			Math.min(200, this.filters.contrast + amount)
+		);
 	}
 
 	decreaseContrast(amount: number = 10): void {
-		this.setFilter("contrast", Math.max(0, this.filters.contrast - amount));
-		this.applyFilters();
+		this.adjustFilter(
+			"Decrease contrast",
+			"contrast",
+			Math.max(0, this.filters.contrast - amount)
+		);
 	}
 
 	saturate(amount: number = 10): void {
-		this.setFilter("saturation", Math.min(200, this.filters.saturation + amount));
-		this.applyFilters();
+		this.adjustFilter(
+			"Saturate",
+			"saturation",
+			Math.min(200, this.filters.saturation + amount)
+		);
 	}
 
 	desaturate(amount: number = 10): void {
-		this.setFilter("saturation", Math.max(0, this.filters.saturation - amount));
-		this.applyFilters();
+		this.adjustFilter(
+			"Desaturate",
+			"saturation",
+			Math.max(0, this.filters.saturation - amount)
+		);
 	}
 
 	rotateHue(degrees: number = 30): void {
-		this.setFilter("hue", (this.filters.hue + degrees) % 360);
-		this.applyFilters();
+		this.adjustFilter("Rotate hue", "hue", (this.filters.hue + degrees) % 360);
 	}
 
 	addBlur(amount: number = 1): void {
-		this.setFilter("blur", Math.min(20, this.filters.blur + amount));
-		this.applyFilters();
+		this.adjustFilter("Blur", "blur", Math.min(20, this.filters.blur + amount));
 	}
 
 	toGrayscale(): void {
-		this.setFilter("grayscale", 100);
-		this.applyFilters();
+		this.adjustFilter("Grayscale", "grayscale", 100);
 	}
 
 	toSepia(): void {
-		this.setFilter("sepia", 100);
-		this.applyFilters();
+		this.adjustFilter("Sepia", "sepia", 100);
+	}
+
+	/**
+	 * Change one filter and redraw the image, as a single undo step
+	 */
+	adjustFilter(label: string, filterType: keyof ImageFilterState, value: number): void {
+		this.recordImageEdit(label, () => {
+			this.setFilter(filterType, value);
+			this.applyFilters();
+		});
+	}
+
+	/**
+	 * Run an image edit and record it in the undo history. Edits made by
+	 * another edit are part of the outer step.
+	 */
+	recordImageEdit(label: string, edit: () => void): void {
+		if (this.editDepth > 0 || this.history.isReplaying) {
+			edit();
+			return;
+		}
+
+		const previous = this.lastEditState;
+		const shared = previous !== null && this.isCurrentEditState(previous);
+		const before = shared ? previous : this.captureEditState();
+		this.editDepth++;
+		try {
+			edit();
+		} finally {
+			this.editDepth--;
+		}
+		const after = this.captureEditState();
+
+		// Every edit changes the filters, the size or whether the canvas is shown
+		const unchanged =
+			JSON.stringify({ ...before, pixels: null }) ===
+			JSON.stringify({ ...after, pixels: null });
+		if (unchanged) return;
+
+		this.lastEditState = after;
+		this.history.push({
+			label,
+			undo: () => this.restoreEditState(before),
+			redo: () => this.restoreEditState(after),
+			size: (shared ? 0 : this.getEditStateSize(before)) + this.getEditStateSize(after)
+		});
+	}
+
+	captureEditState(): ImageEditState {
+		let pixels: HTMLCanvasElement | null = null;
+
+		// Filters are redrawn from the source image, only crops need the pixels
+		if (this.isCropped && this.isFiltered && this.canvasElement) {
+			pixels = document.createElement("canvas");
+			pixels.width = this.canvasElement.width;
+			pixels.height = this.canvasElement.height;
+			pixels.getContext("2d")?.drawImage(this.canvasElement, 0, 0);
+		}
+
+		return {
+			filters: { ...this.filters },
+			dimensions: { ...this.originalDimensions },
+			isFiltered: this.isFiltered,
+			isCropped: this.isCropped,
+			pixels
+		};
+	}
+
+	/**
+	 * Whether a recorded state still describes the image, so the next edit
+	 * can start from it instead of copying the canvas again
+	 */
+	isCurrentEditState(state: ImageEditState): boolean {
+		const { filters, dimensions, isFiltered, isCropped } = state;
+		return (
+			JSON.stringify({ filters, dimensions, isFiltered, isCropped }) ===
+			JSON.stringify({
+				filters: this.filters,
+				dimensions: this.originalDimensions,
+				isFiltered: this.isFiltered,
+				isCropped: this.isCropped
+			})
+		);
+	}
+
+	getEditStateSize(state: ImageEditState): number {
+		// Canvas pixels take four bytes each
+		return state.pixels ? state.pixels.width * state.pixels.height * 4 : 0;
+	}
+
+	restoreEditState(state: ImageEditState): void {
+		if (!this.imageElement || !this.canvasElement || !this.canvasContext) return;
+
+		const resized =
+			state.dimensions.width !== this.originalDimensions.width ||
+			state.dimensions.height !== this.originalDimensions.height;
+		this.filters = { ...state.filters };
+		this.originalDimensions = { ...state.dimensions };
+		this.isFiltered = state.isFiltered;
+		this.isCropped = state.isCropped;
+		this.lastEditState = state;
+
+		if (state.pixels) {
+			this.canvasElement.width = state.pixels.width;
+			this.canvasElement.height = state.pixels.height;
+			this.canvasContext.filter = "none";
+			this.canvasContext.drawImage(state.pixels, 0, 0);
+			this.imageElement.style.display = "none";
+			this.canvasElement.style.display = "block";
+		} else if (state.isFiltered) {
+			this.applyFilters();
+		} else {
+			this.imageElement.style.display = "block";
+			this.canvasElement.style.display = "none";
+		}
+
+		if (resized) {
+			this.applyFitMode();
+		}
+		this.updateImageTransform();
+		this.renderPageAnnotations(1);
 	}
 
 	getFilters(): ImageFilterState {
@@ -873,44 +1153,44 @@ export class ImageRenderer extends BaseRenderer {
 	}
 
 	applyCrop(): void {
-		if (!this.cropArea || !this.canvasElement || !this.canvasContext || !this.imageElement) {
+		const { cropArea, canvasElement: canvas, canvasContext: ctx, imageElement } = this;
+		if (!cropArea || !canvas || !ctx || !imageElement) {
 			return;
 		}
 
-		const canvas = this.canvasElement;
-		const ctx = this.canvasContext;
-
-		const scaleX = this.originalDimensions.width / (this.imageElement.width * this.zoomFactor);
-		const scaleY =
-			this.originalDimensions.height / (this.imageElement.height * this.zoomFactor);
-
-		const cropX = this.cropArea.x * scaleX;
-		const cropY = this.cropArea.y * scaleY;
-		const cropWidth = this.cropArea.width * scaleX;
-		const cropHeight = this.cropArea.height * scaleY;
-
-		canvas.width = cropWidth;
-		canvas.height = cropHeight;
-
-		ctx.drawImage(
-			this.imageElement,
-			cropX,
-			cropY,
-			cropWidth,
-			cropHeight,
-			0,
-			0,
-			cropWidth,
-			cropHeight
-		);
+		this.recordImageEdit("Crop", () => {
+			const scaleX = this.originalDimensions.width / (imageElement.width * this.zoomFactor);
+			const scaleY = this.originalDimensions.height / (imageElement.height * this.zoomFactor);
+
+			const cropX = cropArea.x * scaleX;
+			const cropY = cropArea.y * scaleY;
+			const cropWidth = cropArea.width * scaleX;
+			const cropHeight = cropArea.height * scaleY;
+
+			canvas.width = cropWidth;
+			canvas.height = cropHeight;
+
+			ctx.drawImage(
+				imageElement,
+				cropX,
+				cropY,
+				cropWidth,
+				cropHeight,
+				0,
+				0,
+				cropWidth,
+				cropHeight
+			);
 
-		this.originalDimensions = { width: cropWidth, height: cropHeight };
-		this.imageElement.style.display = "none";
-		canvas.style.display = "block";
-		this.isFiltered = true;
+			this.originalDimensions = { width: cropWidth, height: cropHeight };
+			imageElement.style.display = "none";
+			canvas.style.display = "block";
+			this.isFiltered = true;
+			this.isCropped = true;
 
-		this.stopCropping();
-		this.applyFitMode();
+			this.stopCropping();
+			this.applyFitMode();
+		});
 	}
 
 	updateCropOverlay(startX: number, startY: number, currentX: number, currentY: number): void {
@@ -960,6 +1240,11 @@ export class ImageRenderer extends BaseRenderer {
 		const canvas = this.canvasElement;
 		const ctx = this.canvasContext;
 
+		// Redrawing outside a recorded edit replaces pixels the last state may hold
+		if (this.editDepth === 0 && !this.history.isReplaying) {
+			this.lastEditState = null;
+		}
+
 		canvas.width = this.originalDimensions.width;
 		canvas.height = this.originalDimensions.height;
 
@@ -1004,36 +1289,43 @@ export class ImageRenderer extends BaseRenderer {
 	}
 
 	setFilter(filterType: keyof ImageFilterState, value: number): void {
-		this.filters[filterType] = value;
-		if (this.isFiltered) {
-			this.applyFilters();
-		}
+		this.recordImageEdit(`Set ${filterType}`, () => {
+			this.filters[filterType] = value;
+			if (this.isFiltered) {
+				this.applyFilters();
+			}
+		});
 	}
 
 	resetFilters(): void {
-		this.filters = {
-			brightness: 100,
-			contrast: 100,
-			saturation: 100,
-			hue: 0,
-			blur: 0,
-			sepia: 0,
-			grayscale: 0
-		};
+		this.recordImageEdit("Reset filters", () => {
+			this.filters = {
+				brightness: 100,
+				contrast: 100,
+				saturation: 100,
+				hue: 0,
+				blur: 0,
+				sepia: 0,
+				grayscale: 0
+			};
 
-		if (this.isFiltered) {
-			this.applyFilters();
-		}
+			if (this.isFiltered) {
+				this.applyFilters();
+			}
+		});
 	}
 
 	resetImage(): void {
-		if (this.imageElement && this.canvasElement) {
-			this.imageElement.style.display = "block";
-			this.canvasElement.style.display = "none";
-			this.isFiltered = false;
-		}
-		this.resetFilters();
-		this.stopCropping();
+		this.recordImageEdit("Reset image", () => {
+			if (this.imageElement && this.canvasElement) {
+				this.imageElement.style.display = "block";
+				this.canvasElement.style.display = "none";
+				this.isFiltered = false;
+				this.isCropped = false;
+			}
+			this.resetFilters();
+			this.stopCropping();
+		});
 	}
 
 	exportImage(format: "png" | "jpeg" | "webp" = "png", quality = 0.92): string | null {
@@ -1057,6 +1349,34 @@ export class ImageRenderer extends BaseRenderer {
 		return null;
 	}
 
+	/**
+	 * Downscaled copy of the image as currently edited
+	 */
+	protected override async createThumbnail(
+		_page: number,
+		size: number
+	): Promise<HTMLElement | null> {
+		// Edits are drawn on the canvas, which replaces the image element
+		const source = this.isFiltered ? this.canvasElement : this.imageElement;
+		if (!source) return null;
+
+		const { width, height } = source === this.canvasElement ? source : this.originalDimensions;
+		if (!width || !height) return null;
+
+		const scale = Math.min(1, this.getThumbnailScale(width, height, size));
+		const canvas = document.createElement("canvas");
+		canvas.className = "buka-image-thumbnail";
+		const context = canvas.getContext("2d");
+		if (!context) return null;
+
+		canvas.width = Math.max(1, Math.round(width * scale));
+		canvas.height = Math.max(1, Math.round(height * scale));
+		canvas.style.width = `${canvas.width}px`;
+		canvas.style.height = `${canvas.height}px`;
+		context.drawImage(source, 0, 0, canvas.width, canvas.height);
+		return canvas;
+	}
+
 	handleKeyDown(event: KeyboardEvent): void {
 		if (!this.container.contains(document.activeElement)) return;
 
@@ -1111,6 +1431,7 @@ export class ImageRenderer extends BaseRenderer {
 		this.canvasContext = null;
 		this.imageWrapper = null;
 		this.cropOverlay = null;
+		this.annotationPage = null;
 		this.isDragging = false;
 		this.isCropping = false;
 		this.isDraggingCrop = false;
@@ -1121,5 +1442,7 @@ export class ImageRenderer extends BaseRenderer {
 RendererFactory.register(SUPPORTED_FORMATS.IMAGE_PNG, ImageRenderer);
 RendererFactory.register(SUPPORTED_FORMATS.IMAGE_JPEG, ImageRenderer);
 RendererFactory.register(SUPPORTED_FORMATS.IMAGE_SVG, ImageRenderer);
+RendererFactory.register(SUPPORTED_FORMATS.IMAGE_GIF, ImageRenderer);
+RendererFactory.register(SUPPORTED_FORMATS.IMAGE_WEBP, ImageRenderer);
 
 export default ImageRenderer;
@@ -0,0 +1,578 @@
+import { AnnotationLayer, AnnotationSerializer } from "../core";
+import type { Annotation, AnnotationPoint, AnnotationRect } from "../types";
+import { PdfFile, PdfName, PdfRef, PdfStream, PdfString, toBytes } from "./pdf-file";
+import type { PdfDict, PdfObject } from "./pdf-file";
+
+/**
+ * PDF Annotations
+ * Converts between the viewer's annotations and standard PDF annotation
+ * objects: PDF.js annotation data is read when a document loads, and
+ * annotation dictionaries with appearance streams are written on export
+ */
+
+/** The parts of a PDF.js page viewport at scale 1 used to map coordinates */
+export interface PdfPageViewport {
+	width: number;
+	height: number;
+	convertToPdfPoint(x: number, y: number): number[];
+	convertToViewportPoint(x: number, y: number): number[];
+}
+
+/** Point list of PDF.js annotation data, as {x, y} objects or flat numbers */
+type PdfPointList = ArrayLike<number> | ArrayLike<{ x: number; y: number }>;
+
+/** The fields of PDF.js annotation data read into annotations */
+export interface PdfAnnotationData {
+	id: string;
+	subtype: string;
+	rect?: ArrayLike<number>;
+	creationDate?: string | null;
+	modificationDate?: string | null;
+	contents?: string;
+	contentsObj?: { str?: string };
+	title?: string;
+	titleObj?: { str?: string };
+	color?: ArrayLike<number> | null;
+	interiorColor?: ArrayLike<number> | null;
+	opacity?: number;
+	borderStyle?: { width?: number };
+	/** One point list per quad in PDF.js 3, flat numbers in later versions */
+	quadPoints?: ArrayLike<number | PdfPointList>;
+	inkLists?: ArrayLike<PdfPointList>;
+	lineCoordinates?: ArrayLike<number>;
+	textContent?: string[];
+	defaultAppearanceData?: { fontColor?: ArrayLike<number>; fontSize?: number };
+}
+
+// Size of the sticky note icon in points
+const NOTE_SIZE = 20;
+
+const LINE_HEIGHT = 1.2;
+
+// Average Helvetica glyph width as a fraction of the font size
+const GLYPH_WIDTH = 0.55;
+
+// Control points for a quarter ellipse drawn with one Bézier curve
+const KAPPA = 0.5523;
+
+const FONTS: Record<string, string> = {
+	Helv: "Helvetica",
+	HeBo: "Helvetica-Bold"
+};
+
+const MARKUP_SUBTYPES: Record<string, "highlight" | "underline" | "strikeout"> = {
+	Highlight: "highlight",
+	Underline: "underline",
+	StrikeOut: "strikeout"
+};
+
+type Point = [number, number];
+
+export class PdfAnnotations {
+	/**
+	 * Annotation for PDF.js annotation data, null for types the viewer
+	 * does not draw such as links, form fields and popups
+	 */
+	static read(
+		data: PdfAnnotationData,
+		viewport: PdfPageViewport,
+		page: number
+	): Annotation | null {
+		const toPoint = (x: number, y: number): AnnotationPoint => {
+			const [left = 0, top = 0] = viewport.convertToViewportPoint(x, y);
+			return { x: left / viewport.width, y: top / viewport.height };
+		};
+		const toRect = (points: AnnotationPoint[]): AnnotationRect => {
+			const xs = points.map((point) => point.x);
+			const ys = points.map((point) => point.y);
+			const x = Math.min(...xs);
+			const y = Math.min(...ys);
+			return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+		};
+
+		const [x1 = 0, y1 = 0, x2 = 0, y2 = 0] = Array.from(data.rect ?? []) as number[];
+		const rect = toRect([toPoint(x1, y1), toPoint(x2, y2)]);
+		const timestamp = AnnotationSerializer.parsePdfDate(
+			data.creationDate ?? data.modificationDate
+		);
+		const base = {
+			id: `pdf-${data.id}`,
+			page,
+			timestamp: timestamp ?? new Date().toISOString(),
+			...optional(
+				"modified",
+				AnnotationSerializer.parsePdfDate(data.modificationDate) ?? timestamp
+			),
+			...optional("content", data.contentsObj?.str || data.contents || null),
+			...optional("author", data.titleObj?.str || data.title || null),
+			...optional("color", PdfAnnotations.toCssColor(data.color)),
+			...optional("opacity", typeof data.opacity === "number" ? data.opacity : null)
+		};
+		const strokeWidth = data.borderStyle?.width;
+
+		const markup = MARKUP_SUBTYPES[data.subtype];
+		if (markup) {
+			// PDF.js 3 lists each quad as four points, later versions as flat numbers
+			const quads = Array.from(data.quadPoints ?? []).flatMap((quad) =>
+				typeof quad === "number" ? [] : [toPoints(quad)]
+			);
+			const flat = Array.from(data.quadPoints ?? []).filter(
+				(value): value is number => typeof value === "number"
+			);
+			for (let i = 0; i + 7 < flat.length; i += 8) {
+				quads.push(toPoints(flat.slice(i, i + 8)));
+			}
+			const rects = quads.map((quad) => toRect(quad.map(([x, y]) => toPoint(x, y))));
+			return { ...base, type: markup, rects: rects.length ? rects : [rect] };
+		}
+
+		switch (data.subtype) {
+			case "Text":
+				return { ...base, type: "note", position: { x: rect.x, y: rect.y } };
+			case "Ink":
+				return {
+					...base,
+					type: "ink",
+					paths: Array.from(data.inkLists ?? [], (path) =>
+						toPoints(path).map(([x, y]) => toPoint(x, y))
+					),
+					...optional("strokeWidth", strokeWidth || null)
+				};
+			case "Square":
+			case "Circle":
+				return {
+					...base,
+					type: data.subtype === "Square" ? "rectangle" : "ellipse",
+					position: rect,
+					...optional("strokeWidth", strokeWidth || null),
+					...optional("fillColor", PdfAnnotations.toCssColor(data.interiorColor))
+				};
+			case "Line": {
+				const [startX = 0, startY = 0, endX = 0, endY = 0] = Array.from(
+					data.lineCoordinates ?? []
+				) as number[];
+				return {
+					...base,
+					type: "arrow",
+					start: toPoint(startX, startY),
+					end: toPoint(endX, endY),
+					...optional("strokeWidth", strokeWidth || null)
+				};
+			}
+			case "FreeText": {
+				const appearance = data.defaultAppearanceData;
+				const text = Array.isArray(data.textContent) ? data.textContent.join("\n") : null;
+				return {
+					...base,
+					type: "text",
+					position: rect,
+					...optional("content", base.content ?? text),
+					...optional(
+						"color",
+						PdfAnnotations.toCssColor(appearance?.fontColor) ?? base.color
+					),
+					...optional("fontSize", appearance?.fontSize || null)
+				};
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Add an annotation and its appearance to the file, returns its
+	 * reference for the page's /Annots or null when it has no geometry
+	 */
+	static write(
+		annotation: Annotation,
+		viewport: PdfPageViewport,
+		file: PdfFile,
+		pageRef: PdfRef
+	): PdfRef | null {
+		const toPdf = (point: AnnotationPoint): Point => {
+			const [x = 0, y = 0] = viewport.convertToPdfPoint(
+				point.x * viewport.width,
+				point.y * viewport.height
+			);
+			return [round(x), round(y)];
+		};
+		const corners = (rect: AnnotationRect): Point[] => [
+			toPdf(rect),
+			toPdf({ x: rect.x + rect.width, y: rect.y }),
+			toPdf({ x: rect.x, y: rect.y + rect.height }),
+			toPdf({ x: rect.x + rect.width, y: rect.y + rect.height })
+		];
+
+		const color = PdfAnnotations.toPdfColor(AnnotationLayer.getColor(annotation));
+		const opacity = AnnotationLayer.getOpacity(annotation);
+		const strokeWidth =
+			"strokeWidth" in annotation && annotation.strokeWidth ? annotation.strokeWidth : 2;
+		const fonts = new Set<string>();
+		const entries: PdfDict = new Map();
+		let content = "";
+		let points: Point[] = [];
+		let margin = 0;
+
+		switch (annotation.type) {
+			case "highlight":
+			case "underline":
+			case "strikeout": {
+				const rects = annotation.rects?.length
+					? annotation.rects
+					: AnnotationLayer.toRects(annotation.position);
+				if (rects.length === 0) return null;
+
+				const quads = rects.map(corners).map(bounds);
+				entries.set("Subtype", new PdfName(SUBTYPES[annotation.type]));
+				entries.set(
+					"QuadPoints",
+					quads.flatMap(([left, bottom, right, top]) => [
+						left,
+						top,
+						right,
+						top,
+						left,
+						bottom,
+						right,
+						bottom
+					])
+				);
+				quads.forEach(([left, bottom, right, top]) => {
+					const height = top - bottom;
+					if (annotation.type === "highlight") {
+						content += `${rgb(color, "rg")} ${left} ${bottom} ${right - left} ${height} re f\n`;
+						return;
+					}
+					const thickness = round(Math.max(1, height * 0.08));
+					const y = round(
+						annotation.type === "underline"
+							? bottom + thickness / 2
+							: bottom + height / 2
+					);
+					content += `${rgb(color, "RG")} ${thickness} w ${left} ${y} m ${right} ${y} l S\n`;
+				});
+				points = quads.flatMap(([left, bottom, right, top]) => [
+					[left, bottom],
+					[right, top]
+				]);
+				break;
+			}
+			case "ink": {
+				const paths = annotation.paths.map((path) => path.map(toPdf));
+				if (paths.every((path) => path.length === 0)) return null;
+
+				entries.set("Subtype", new PdfName("Ink"));
+				entries.set(
+					"InkList",
+					paths.map((path) => path.flat())
+				);
+				content += `${rgb(color, "RG")} ${strokeWidth} w 1 J 1 j\n`;
+				paths.forEach((path) => {
+					content += `${path.map(([x, y], index) => `${x} ${y} ${index ? "l" : "m"}`).join(" ")} S\n`;
+				});
+				points = paths.flat();
+				margin = strokeWidth;
+				break;
+			}
+			case "rectangle":
+			case "ellipse": {
+				if (!annotation.position) return null;
+
+				const [left, bottom, right, top] = bounds(corners(annotation.position));
+				entries.set(
+					"Subtype",
+					new PdfName(annotation.type === "rectangle" ? "Square" : "Circle")
+				);
+				const fill = annotation.fillColor
+					? PdfAnnotations.toPdfColor(annotation.fillColor)
+					: null;
+				if (fill) entries.set("IC", fill);
+				content += `${rgb(color, "RG")} ${fill ? `${rgb(fill, "rg")} ` : ""}${strokeWidth} w\n`;
+				content +=
+					annotation.type === "rectangle"
+						? `${left} ${bottom} ${right - left} ${top - bottom} re`
+						: ellipse(left, bottom, right, top);
+				content += fill ? " B\n" : " S\n";
+				points = [
+					[left, bottom],
+					[right, top]
+				];
+				margin = strokeWidth / 2;
+				break;
+			}
+			case "arrow": {
+				if (!annotation.start || !annotation.end) return null;
+
+				const [x1, y1] = toPdf(annotation.start);
+				const [x2, y2] = toPdf(annotation.end);
+				const angle = Math.atan2(y2 - y1, x2 - x1);
+				const headLength = Math.max(8, strokeWidth * 4);
+				const corner = (offset: number): Point => [
+					round(x2 - headLength * Math.cos(angle + offset)),
+					round(y2 - headLength * Math.sin(angle + offset))
+				];
+				const [ax, ay] = corner(Math.PI / 7);
+				const [bx, by] = corner(-Math.PI / 7);
+
+				entries.set("Subtype", new PdfName("Line"));
+				entries.set("L", [x1, y1, x2, y2]);
+				entries.set("LE", [new PdfName("None"), new PdfName("ClosedArrow")]);
+				entries.set("IC", color);
+				content += `${rgb(color, "RG")} ${rgb(color, "rg")} ${strokeWidth} w 1 J\n`;
+				content += `${x1} ${y1} m ${x2} ${y2} l S\n`;
+				content += `${x2} ${y2} m ${ax} ${ay} l ${bx} ${by} l f\n`;
+				points = [
+					[x1, y1],
+					[x2, y2],
+					[ax, ay],
+					[bx, by]
+				];
+				margin = strokeWidth;
+				break;
+			}
+			case "stamp": {
+				if (!annotation.position) return null;
+
+				const [left, bottom, right, top] = bounds(corners(annotation.position));
+				const label = (annotation.label ?? "").toUpperCase();
+				const size = round((top - bottom) * 0.45);
+				const x = round(left + (right - left - textWidth(label, size)) / 2);
+				const y = round(bottom + (top - bottom - size * 0.7) / 2);
+				entries.set("Subtype", new PdfName("Stamp"));
+				entries.set("Name", new PdfName(label.replace(/\s+/g, "") || "Draft"));
+				fonts.add("HeBo");
+				content += `${rgb(color, "RG")} 3 w\n`;
+				content += `${round(left + 1.5)} ${round(bottom + 1.5)} ${round(right - left - 3)} ${round(top - bottom - 3)} re S\n`;
+				content += `BT /HeBo ${size} Tf ${rgb(color, "rg")} ${x} ${y} Td ${literal(label)} Tj ET\n`;
+				points = [
+					[left, bottom],
+					[right, top]
+				];
+				break;
+			}
+			case "note": {
+				if (!annotation.position) return null;
+
+				const [left, top] = toPdf(annotation.position);
+				const bottom = top - NOTE_SIZE;
+				const right = left + NOTE_SIZE;
+				entries.set("Subtype", new PdfName("Text"));
+				entries.set("Name", new PdfName("Comment"));
+				entries.set("Open", false);
+				content += `${rgb(color, "rg")} 0 G 0.5 w ${left} ${bottom} ${NOTE_SIZE} ${NOTE_SIZE} re B\n`;
+				[0.7, 0.5, 0.3].forEach((line) => {
+					const y = bottom + NOTE_SIZE * line;
+					content += `${left + 4} ${y} m ${right - 4} ${y} l S\n`;
+				});
+				points = [
+					[left, bottom],
+					[right, top]
+				];
+				break;
+			}
+			case "text": {
+				if (!annotation.position) return null;
+
+				const fontSize = annotation.fontSize ?? 12;
+				const lines = (annotation.content ?? "").split("\n");
+				const { x, y, width = 0, height = 0 } = annotation.position;
+				const [left, top] = toPdf({ x, y });
+				const right = round(
+					left +
+						Math.max(
+							width * viewport.width,
+							...lines.map((line) => textWidth(line, fontSize))
+						)
+				);
+				const bottom = round(
+					top - Math.max(height * viewport.height, lines.length * fontSize * LINE_HEIGHT)
+				);
+				entries.set("Subtype", new PdfName("FreeText"));
+				entries.set("DA", PdfString.text(`/Helv ${fontSize} Tf ${rgb(color, "rg")}`));
+				fonts.add("Helv");
+				content += `BT /Helv ${fontSize} Tf ${rgb(color, "rg")} ${round(fontSize * LINE_HEIGHT)} TL ${left} ${round(top - fontSize)} Td\n`;
+				content += lines.map((line) => `${literal(line)} Tj T*`).join(" ");
+				content += "\nET\n";
+				points = [
+					[left, bottom],
+					[right, top]
+				];
+				break;
+			}
+			default:
+				return null;
+		}
+
+		const [left, bottom, right, top] = bounds(points);
+		const rect = [left - margin, bottom - margin, right + margin, top + margin].map(round);
+
+		const resources: PdfDict = new Map();
+		const state: PdfDict = new Map<string, PdfObject>([
+			["CA", opacity],
+			["ca", opacity]
+		]);
+		if (annotation.type === "highlight") {
+			// Multiply keeps the text under the highlight readable
+			state.set("BM", new PdfName("Multiply"));
+		}
+		resources.set("ExtGState", new Map([["GS0", state]]));
+		if (fonts.size > 0) {
+			resources.set(
+				"Font",
+				new Map(
+					Array.from(fonts, (font) => [
+						font,
+						new Map<string, PdfObject>([
+							["Type", new PdfName("Font")],
+							["Subtype", new PdfName("Type1")],
+							["BaseFont", new PdfName(FONTS[font] ?? "Helvetica")],
+							["Encoding", new PdfName("WinAnsiEncoding")]
+						])
+					])
+				)
+			);
+		}
+
+		const appearance = file.add(
+			new PdfStream(
+				new Map<string, PdfObject>([
+					["Type", new PdfName("XObject")],
+					["Subtype", new PdfName("Form")],
+					["BBox", rect],
+					["Resources", resources]
+				]),
+				toBytes(`q /GS0 gs\n${content}Q\n`)
+			)
+		);
+
+		const dict: PdfDict = new Map<string, PdfObject>([
+			["Type", new PdfName("Annot")],
+			...entries,
+			["Rect", rect],
+			["P", pageRef],
+			// Print flag, so annotations are printed like they are shown
+			["F", 4],
+			["C", color],
+			["CA", opacity],
+			["AP", new Map([["N", appearance]])]
+		]);
+		if (annotation.id) dict.set("NM", PdfString.text(annotation.id));
+		if (annotation.author) dict.set("T", PdfString.text(annotation.author));
+		if (annotation.content) dict.set("Contents", PdfString.text(annotation.content));
+		if (annotation.timestamp) {
+			dict.set(
+				"CreationDate",
+				new PdfString(AnnotationSerializer.formatPdfDate(annotation.timestamp))
+			);
+		}
+		dict.set(
+			"M",
+			new PdfString(
+				AnnotationSerializer.formatPdfDate(annotation.modified ?? annotation.timestamp)
+			)
+		);
+		return file.add(dict);
+	}
+
+	/**
+	 * PDF.js id of the annotation at a reference, e.g. "12R" or "12R1"
+	 */
+	static refId(ref: PdfRef): string {
+		return ref.gen === 0 ? `${ref.num}R` : `${ref.num}R${ref.gen}`;
+	}
+
+	/**
+	 * CSS color for a PDF.js color, an RGB array of 0-255 values
+	 */
+	static toCssColor(color: unknown): string | null {
+		if (!color || typeof color !== "object" || !("length" in color)) return null;
+
+		const values = Array.from(color as ArrayLike<number>);
+		if (values.length !== 3) return null;
+		return `#${values.map((value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`;
+	}
+
+	/**
+	 * RGB array of 0-1 values for a CSS color, black when it cannot be read
+	 */
+	static toPdfColor(color: string): number[] {
+		const rgb = AnnotationSerializer.toRgb(color) ?? [0, 0, 0];
+		return rgb.map((value) => round(value / 255));
+	}
+}
+
+const SUBTYPES = {
+	highlight: "Highlight",
+	underline: "Underline",
+	strikeout: "StrikeOut"
+} as const;
+
+/**
+ * [left, bottom, right, top] of a set of points
+ */
+function bounds(points: Point[]): [number, number, number, number] {
+	const xs = points.map(([x]) => x);
+	const ys = points.map(([, y]) => y);
+	return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+function ellipse(left: number, bottom: number, right: number, top: number): string {
+	const cx = round((left + right) / 2);
+	const cy = round((bottom + top) / 2);
+	const kx = round(((right - left) / 2) * KAPPA);
+	const ky = round(((top - bottom) / 2) * KAPPA);
+	return [
+		`${cx} ${top} m`,
+		`${cx + kx} ${top} ${right} ${cy + ky} ${right} ${cy} c`,
+		`${right} ${cy - ky} ${cx + kx} ${bottom} ${cx} ${bottom} c`,
+		`${cx - kx} ${bottom} ${left} ${cy - ky} ${left} ${cy} c`,
+		`${left} ${cy + ky} ${cx - kx} ${top} ${cx} ${top} c h`
+	].join(" ");
+}
+
+function rgb(color: number[], operator: "rg" | "RG"): string {
+	return `${color.join(" ")} ${operator}`;
+}
+
+/**
+ * Literal string in WinAnsi encoding, characters outside it become "?"
+ */
+function literal(text: string): string {
+	const escaped = Array.from(text, (char) => {
+		const code = char.charCodeAt(0);
+		if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+		if (code < 0x20 || code > 0xff) return "?";
+		return code > 0x7e ? `\\${code.toString(8).padStart(3, "0")}` : char;
+	}).join("");
+	return `(${escaped})`;
+}
+
+function textWidth(text: string, fontSize: number): number {
+	return text.length * fontSize * GLYPH_WIDTH;
+}
+
+/**
+ * Point pairs from PDF.js point lists, given as {x, y} objects or flat numbers
+ */
+function toPoints(list: PdfPointList): Point[] {
+	const values = Array.from<number | { x: number; y: number }>(list);
+	if (values.every((value): value is number => typeof value === "number")) {
+		const points: Point[] = [];
+		for (let i = 0; i + 1 < values.length; i += 2) {
+			points.push([values[i] ?? 0, values[i + 1] ?? 0]);
+		}
+		return points;
+	}
+	return values.flatMap((point) => (typeof point === "number" ? [] : [[point.x, point.y]]));
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * `{ key: value }` when value is set, so optional properties stay absent
+ */
+function optional<K extends string, T>(key: K, value: T | null | undefined): { [P in K]?: T } {
+	return (value === null || value === undefined ? {} : { [key]: value }) as { [P in K]?: T };
+}
@@ -0,0 +1,769 @@
+/**
+ * PDF File
+ * Reads the cross-reference sections and objects of a PDF file and writes
+ * changed objects as an incremental update, appended after the original
+ * bytes so the rest of the file is left untouched
+ */
+
+export class PdfName {
+	constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+	constructor(
+		readonly num: number,
+		readonly gen: number
+	) {}
+}
+
+/** String as its raw bytes, one char code (0-255) per byte */
+export class PdfString {
+	constructor(readonly bytes: string) {}
+
+	/**
+	 * Text string, PDFDocEncoding for ASCII and UTF-16BE with a byte order
+	 * mark for anything else
+	 */
+	static text(value: string): PdfString {
+		if (/^[\x20-\x7e\r\n\t]*$/.test(value)) {
+			return new PdfString(value);
+		}
+		let bytes = "\xfe\xff";
+		for (let i = 0; i < value.length; i++) {
+			const code = value.charCodeAt(i);
+			bytes += String.fromCharCode(code >> 8, code & 0xff);
+		}
+		return new PdfString(bytes);
+	}
+}
+
+export class PdfStream {
+	constructor(
+		readonly dict: PdfDict,
+		readonly data: Uint8Array
+	) {}
+}
+
+export type PdfDict = Map<string, PdfObject>;
+
+export type PdfObject =
+	| null
+	| boolean
+	| number
+	| PdfName
+	| PdfString
+	| PdfRef
+	| PdfStream
+	| PdfDict
+	| PdfObject[];
+
+type XrefEntry =
+	| { type: "offset"; offset: number; gen: number }
+	| { type: "compressed"; stream: number; index: number }
+	| { type: "free" };
+
+// How far from the end of the file startxref is looked for
+const TAIL_SIZE = 1024;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const LITERAL_ESCAPES: Record<string, string> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	b: "\b",
+	f: "\f"
+};
+
+export class PdfFile {
+	readonly trailer: PdfDict;
+	private bytes: Uint8Array;
+	private entries: Map<number, XrefEntry>;
+	private startXref: number;
+	private usesXrefStream: boolean;
+	private size: number;
+	private updates: Map<number, PdfObject>;
+	private objectStreams: Map<number, Promise<{ offsets: Map<number, number>; data: Uint8Array }>>;
+
+	private constructor(
+		bytes: Uint8Array,
+		entries: Map<number, XrefEntry>,
+		trailer: PdfDict,
+		startXref: number,
+		usesXrefStream: boolean
+	) {
+		this.bytes = bytes;
+		this.entries = entries;
+		this.trailer = trailer;
+		this.startXref = startXref;
+		this.usesXrefStream = usesXrefStream;
+		this.size = Math.max(numberValue(trailer.get("Size")) ?? 0, ...entries.keys(), 0);
+		this.updates = new Map();
+		this.objectStreams = new Map();
+	}
+
+	/**
+	 * Read the cross-reference sections, newest first, following /Prev
+	 * links through classic tables, cross-reference streams and hybrid files
+	 */
+	static async open(bytes: Uint8Array): Promise<PdfFile> {
+		const startXref = PdfFile.findStartXref(bytes);
+		const entries = new Map<number, XrefEntry>();
+		const visited = new Set<number>();
+		let trailer: PdfDict | null = null;
+		let usesXrefStream = false;
+		let offset: number | null = startXref;
+
+		while (offset !== null && !visited.has(offset)) {
+			visited.add(offset);
+			const section = await PdfFile.readXrefSection(bytes, offset, entries);
+			if (!trailer) {
+				trailer = section.trailer;
+				usesXrefStream = section.stream;
+			}
+
+			// Hybrid files keep the entries of compressed objects in a stream
+			const xrefStream = numberValue(section.trailer.get("XRefStm"));
+			if (xrefStream !== null && !visited.has(xrefStream)) {
+				visited.add(xrefStream);
+				await PdfFile.readXrefSection(bytes, xrefStream, entries);
+			}
+			offset = numberValue(section.trailer.get("Prev"));
+		}
+
+		if (!trailer) {
+			throw new Error("Cannot read the PDF cross-reference table");
+		}
+		return new PdfFile(bytes, entries, trailer, startXref, usesXrefStream);
+	}
+
+	/**
+	 * Object by number, with the changes made by set() applied
+	 */
+	async getObject(num: number): Promise<PdfObject> {
+		if (this.updates.has(num)) {
+			return this.updates.get(num) ?? null;
+		}
+
+		const entry = this.entries.get(num);
+		if (!entry || entry.type === "free") return null;
+		if (entry.type === "offset") {
+			return readIndirectObject(this.bytes, entry.offset, this.entries);
+		}
+
+		const { offsets, data } = await this.getObjectStream(entry.stream);
+		const offset = offsets.get(num);
+		const value = offset === undefined ? null : new PdfParser(data, offset).readObject();
+		return typeof value === "string" ? null : value;
+	}
+
+	async resolve(value: PdfObject | undefined): Promise<PdfObject> {
+		return value instanceof PdfRef ? this.getObject(value.num) : (value ?? null);
+	}
+
+	set(ref: PdfRef, value: PdfObject): void {
+		this.updates.set(ref.num, value);
+	}
+
+	/**
+	 * Add a new object and return its reference
+	 */
+	add(value: PdfObject): PdfRef {
+		const ref = new PdfRef(this.size++, 0);
+		this.updates.set(ref.num, value);
+		return ref;
+	}
+
+	/**
+	 * The original file followed by an update section holding the changed
+	 * and added objects
+	 */
+	save(): Uint8Array<ArrayBuffer> {
+		const chunks: Uint8Array[] = [this.bytes];
+		let length = this.bytes.length;
+		const write = (chunk: string | Uint8Array) => {
+			const bytes = typeof chunk === "string" ? toBytes(chunk) : chunk;
+			chunks.push(bytes);
+			length += bytes.length;
+		};
+
+		const last = this.bytes[this.bytes.length - 1];
+		if (last !== 0x0a && last !== 0x0d) {
+			write("\n");
+		}
+
+		const offsets = new Map<number, { offset: number; gen: number }>();
+		Array.from(this.updates.keys())
+			.sort((a, b) => a - b)
+			.forEach((num) => {
+				const entry = this.entries.get(num);
+				const gen = entry?.type === "offset" ? entry.gen : 0;
+				offsets.set(num, { offset: length, gen });
+				write(`${num} ${gen} obj\n`);
+				writeObject(this.updates.get(num) ?? null, write);
+				write("\nendobj\n");
+			});
+
+		const trailer: PdfDict = new Map(
+			Array.from(this.trailer).filter(([key]) => TRAILER_KEYS.includes(key))
+		);
+		trailer.set("Prev", this.startXref);
+
+		const xrefOffset = length;
+		let size = this.size;
+		if (this.usesXrefStream) {
+			const num = size++;
+			offsets.set(num, { offset: xrefOffset, gen: 0 });
+			const rows = sortedEntries(offsets);
+			const data = new Uint8Array(rows.length * 7);
+			rows.forEach(([, { offset, gen }], row) => {
+				data.set(
+					[
+						1,
+						(offset >>> 24) & 0xff,
+						(offset >>> 16) & 0xff,
+						(offset >>> 8) & 0xff,
+						offset & 0xff,
+						(gen >> 8) & 0xff,
+						gen & 0xff
+					],
+					row * 7
+				);
+			});
+
+			trailer.set("Type", new PdfName("XRef"));
+			trailer.set("Size", size);
+			trailer.set("W", [1, 4, 2]);
+			trailer.set("Index", subsections(rows).flat());
+			write(`${num} 0 obj\n`);
+			writeObject(new PdfStream(trailer, data), write);
+			write("\nendobj\n");
+		} else {
+			const rows = sortedEntries(offsets);
+			write("xref\n");
+			subsections(rows).forEach(([start, count]) => {
+				write(`${start} ${count}\n`);
+				rows.filter(([num]) => num >= start && num < start + count).forEach(
+					([, { offset, gen }]) =>
+						write(
+							`${String(offset).padStart(10, "0")} ${String(gen).padStart(5, "0")} n\r\n`
+						)
+				);
+			});
+			trailer.set("Size", size);
+			write("trailer\n");
+			writeObject(trailer, write);
+			write("\n");
+		}
+		write(`startxref\n${xrefOffset}\n%%EOF\n`);
+
+		const output = new Uint8Array(length);
+		let position = 0;
+		chunks.forEach((chunk) => {
+			output.set(chunk, position);
+			position += chunk.length;
+		});
+		return output;
+	}
+
+	private getObjectStream(
+		num: number
+	): Promise<{ offsets: Map<number, number>; data: Uint8Array }> {
+		let stream = this.objectStreams.get(num);
+		if (!stream) {
+			stream = this.readObjectStream(num);
+			this.objectStreams.set(num, stream);
+		}
+		return stream;
+	}
+
+	private async readObjectStream(
+		num: number
+	): Promise<{ offsets: Map<number, number>; data: Uint8Array }> {
+		const stream = await this.getObject(num);
+		if (!(stream instanceof PdfStream)) {
+			throw new Error(`Object stream ${num} is missing`);
+		}
+
+		const data = await decodeStream(stream);
+		const count = numberValue(stream.dict.get("N")) ?? 0;
+		const first = numberValue(stream.dict.get("First")) ?? 0;
+		const parser = new PdfParser(data, 0);
+		const offsets = new Map<number, number>();
+		for (let i = 0; i < count; i++) {
+			const objectNum = parser.readObject();
+			const offset = parser.readObject();
+			if (typeof objectNum === "number" && typeof offset === "number") {
+				offsets.set(objectNum, first + offset);
+			}
+		}
+		return { offsets, data };
+	}
+
+	private static findStartXref(bytes: Uint8Array): number {
+		const tail = fromBytes(bytes.subarray(Math.max(0, bytes.length - TAIL_SIZE)));
+		const match = /startxref\s+(\d+)/g;
+		let offset: number | null = null;
+		for (let found = match.exec(tail); found; found = match.exec(tail)) {
+			offset = Number(found[1]);
+		}
+		if (offset === null) {
+			throw new Error("Not a PDF file: startxref is missing");
+		}
+		return offset;
+	}
+
+	private static async readXrefSection(
+		bytes: Uint8Array,
+		offset: number,
+		entries: Map<number, XrefEntry>
+	): Promise<{ trailer: PdfDict; stream: boolean }> {
+		const parser = new PdfParser(bytes, offset);
+		if (parser.readKeyword() === "xref") {
+			for (;;) {
+				const start = parser.readObject();
+				if (start === "trailer" || typeof start !== "number") break;
+				const count = parser.readObject() as number;
+				for (let i = 0; i < count; i++) {
+					const entryOffset = parser.readObject() as number;
+					const gen = parser.readObject() as number;
+					const kind = parser.readKeyword();
+					if (!entries.has(start + i)) {
+						entries.set(
+							start + i,
+							kind === "n"
+								? { type: "offset", offset: entryOffset, gen }
+								: { type: "free" }
+						);
+					}
+				}
+			}
+			const trailer = parser.readObject();
+			if (!(trailer instanceof Map)) {
+				throw new Error("Cannot read the PDF trailer");
+			}
+			return { trailer, stream: false };
+		}
+
+		const value = readIndirectObject(bytes, offset, entries);
+		if (!(value instanceof PdfStream)) {
+			throw new Error("Cannot read the PDF cross-reference table");
+		}
+
+		const { dict } = value;
+		const widths = (dict.get("W") as number[] | undefined) ?? [1, 2, 1];
+		const size = numberValue(dict.get("Size")) ?? 0;
+		const index = (dict.get("Index") as number[] | undefined) ?? [0, size];
+		const data = await decodeStream(value);
+		const rowLength = widths.reduce((sum, width) => sum + width, 0);
+		const field = (row: number, column: number, fallback: number) => {
+			const width = widths[column] ?? 0;
+			if (width === 0) return fallback;
+			let start = row * rowLength;
+			for (let i = 0; i < column; i++) start += widths[i] ?? 0;
+			let result = 0;
+			for (let i = 0; i < width; i++) result = result * 256 + (data[start + i] ?? 0);
+			return result;
+		};
+
+		let row = 0;
+		for (let i = 0; i + 1 < index.length; i += 2) {
+			const start = index[i] ?? 0;
+			const count = index[i + 1] ?? 0;
+			for (let j = 0; j < count; j++, row++) {
+				if (entries.has(start + j)) continue;
+				const type = field(row, 0, 1);
+				const second = field(row, 1, 0);
+				const third = field(row, 2, 0);
+				entries.set(
+					start + j,
+					type === 1
+						? { type: "offset", offset: second, gen: third }
+						: type === 2
+							? { type: "compressed", stream: second, index: third }
+							: { type: "free" }
+				);
+			}
+		}
+		return { trailer: dict, stream: true };
+	}
+}
+
+// Trailer entries carried into the update section
+const TRAILER_KEYS = ["Root", "Info", "ID", "Encrypt"];
+
+/**
+ * Tokenizer and object parser for the PDF syntax
+ */
+class PdfParser {
+	constructor(
+		private bytes: Uint8Array,
+		public offset: number
+	) {}
+
+	readObject(): PdfObject | string {
+		this.skipWhitespace();
+		const byte = this.bytes[this.offset];
+
+		if (byte === 0x3c && this.bytes[this.offset + 1] === 0x3c) {
+			this.offset += 2;
+			const dict: PdfDict = new Map();
+			for (;;) {
+				this.skipWhitespace();
+				if (this.bytes[this.offset] === 0x3e || this.offset >= this.bytes.length) {
+					this.offset += 2;
+					return dict;
+				}
+				const key = this.readObject();
+				const value = this.readObject();
+				if (key instanceof PdfName && typeof value !== "string") {
+					dict.set(key.name, value);
+				}
+			}
+		}
+		if (byte === 0x3c) return this.readHexString();
+		if (byte === 0x28) return this.readLiteralString();
+		if (byte === 0x2f) {
+			this.offset++;
+			return new PdfName(
+				this.readToken().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+					String.fromCharCode(parseInt(hex, 16))
+				)
+			);
+		}
+		if (byte === 0x5b) {
+			this.offset++;
+			const array: PdfObject[] = [];
+			for (;;) {
+				this.skipWhitespace();
+				if (this.bytes[this.offset] === 0x5d || this.offset >= this.bytes.length) {
+					this.offset++;
+					return array;
+				}
+				const value = this.readObject();
+				if (typeof value !== "string") array.push(value);
+			}
+		}
+
+		const token = this.readToken();
+		if (token === "true") return true;
+		if (token === "false") return false;
+		if (token === "null") return null;
+		if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+			// Keywords such as obj, stream, R and trailer
+			if (token === "" && this.offset < this.bytes.length) this.offset++;
+			return token;
+		}
+
+		const number = Number(token);
+		if (/^\d+$/.test(token)) {
+			// "num gen R" is a reference
+			const start = this.offset;
+			const gen = this.readToken(true);
+			const keyword = this.readToken(true);
+			if (/^\d+$/.test(gen) && keyword === "R") {
+				return new PdfRef(number, Number(gen));
+			}
+			this.offset = start;
+		}
+		return number;
+	}
+
+	readKeyword(): string {
+		const value = this.readObject();
+		return typeof value === "string" ? value : "";
+	}
+
+	skipWhitespace(): void {
+		while (this.offset < this.bytes.length) {
+			const byte = this.bytes[this.offset] ?? 0;
+			if (byte === 0x25) {
+				while (
+					this.offset < this.bytes.length &&
+					this.bytes[this.offset] !== 0x0a &&
+					this.bytes[this.offset] !== 0x0d
+				) {
+					this.offset++;
+				}
+			} else if (WHITESPACE.has(byte)) {
+				this.offset++;
+			} else {
+				return;
+			}
+		}
+	}
+
+	private readToken(skipWhitespace = false): string {
+		if (skipWhitespace) this.skipWhitespace();
+		const start = this.offset;
+		while (this.offset < this.bytes.length) {
+			const byte = this.bytes[this.offset] ?? 0;
+			if (WHITESPACE.has(byte) || DELIMITERS.has(byte)) break;
+			this.offset++;
+		}
+		return fromBytes(this.bytes.subarray(start, this.offset));
+	}
+
+	private readHexString(): PdfString {
+		const end = this.bytes.indexOf(0x3e, this.offset);
+		const hex = fromBytes(this.bytes.subarray(this.offset + 1, end < 0 ? undefined : end))
+			.replace(/[^0-9a-fA-F]/g, "")
+			.padEnd(2, "0");
+		this.offset = end < 0 ? this.bytes.length : end + 1;
+
+		let bytes = "";
+		for (let i = 0; i < hex.length; i += 2) {
+			bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+		}
+		return new PdfString(bytes);
+	}
+
+	private readLiteralString(): PdfString {
+		let depth = 0;
+		let bytes = "";
+		this.offset++;
+
+		while (this.offset < this.bytes.length) {
+			const char = String.fromCharCode(this.bytes[this.offset++] ?? 0);
+			if (char === "(") {
+				depth++;
+			} else if (char === ")") {
+				if (depth-- === 0) break;
+			} else if (char === "\\") {
+				const next = String.fromCharCode(this.bytes[this.offset++] ?? 0);
+				if (LITERAL_ESCAPES[next]) {
+					bytes += LITERAL_ESCAPES[next];
+				} else if (/[0-7]/.test(next)) {
+					let octal = next;
+					while (
+						octal.length < 3 &&
+						/[0-7]/.test(String.fromCharCode(this.bytes[this.offset] ?? 0))
+					) {
+						octal += String.fromCharCode(this.bytes[this.offset++] ?? 0);
+					}
+					bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+				} else if (next === "\r") {
+					// Line continuation
+					if (this.bytes[this.offset] === 0x0a) this.offset++;
+				} else if (next !== "\n") {
+					bytes += next;
+				}
+				continue;
+			}
+			bytes += char;
+		}
+		return new PdfString(bytes);
+	}
+}
+
+/**
+ * Parse "num gen obj" at offset, reading the data of stream objects
+ */
+function readIndirectObject(
+	bytes: Uint8Array,
+	offset: number,
+	entries: Map<number, XrefEntry>
+): PdfObject {
+	const parser = new PdfParser(bytes, offset);
+	parser.readObject();
+	parser.readObject();
+	if (parser.readKeyword() !== "obj") {
+		throw new Error(`No PDF object at offset ${offset}`);
+	}
+
+	const value = parser.readObject();
+	if (typeof value === "string") {
+		throw new Error(`Invalid PDF object at offset ${offset}`);
+	}
+	if (!(value instanceof Map)) return value;
+
+	const afterDict = parser.offset;
+	if (parser.readKeyword() !== "stream") {
+		parser.offset = afterDict;
+		return value;
+	}
+
+	// The keyword is followed by CRLF or LF before the data
+	let start = parser.offset;
+	if (bytes[start] === 0x0d) start++;
+	if (bytes[start] === 0x0a) start++;
+
+	let length = value.get("Length");
+	if (length instanceof PdfRef) {
+		const entry = entries.get(length.num);
+		length = entry?.type === "offset" ? readIndirectObject(bytes, entry.offset, entries) : null;
+	}
+
+	let end = typeof length === "number" ? start + length : -1;
+	const check = new PdfParser(bytes, end);
+	if (end < 0 || end > bytes.length || check.readKeyword() !== "endstream") {
+		// Wrong or missing /Length, fall back to the endstream keyword
+		end = indexOf(bytes, "endstream", start);
+		if (end < 0) throw new Error(`Unterminated PDF stream at offset ${offset}`);
+		while (end > start && (bytes[end - 1] === 0x0a || bytes[end - 1] === 0x0d)) end--;
+	}
+	return new PdfStream(value, bytes.subarray(start, end));
+}
+
+/**
+ * Stream data with its /FlateDecode filter and PNG predictor undone
+ */
+async function decodeStream(stream: PdfStream): Promise<Uint8Array> {
+	const filter = stream.dict.get("Filter");
+	const filters = (Array.isArray(filter) ? filter : [filter]).filter(
+		(name): name is PdfName => name instanceof PdfName
+	);
+	if (filters.length === 0) return stream.data;
+	if (filters.length > 1 || filters[0]?.name !== "FlateDecode") {
+		throw new Error(
+			`Unsupported PDF stream filter: ${filters.map(({ name }) => name).join(", ")}`
+		);
+	}
+
+	const decompressor = new DecompressionStream("deflate");
+	const writer = decompressor.writable.getWriter();
+	// Corrupt data surfaces as an error on the readable side
+	writer.write(stream.data.slice()).catch(() => undefined);
+	writer.close().catch(() => undefined);
+	const data = new Uint8Array(await new Response(decompressor.readable).arrayBuffer());
+
+	const params = stream.dict.get("DecodeParms");
+	const predictor = params instanceof Map ? (numberValue(params.get("Predictor")) ?? 1) : 1;
+	if (predictor < 10) return data;
+
+	const columns = params instanceof Map ? (numberValue(params.get("Columns")) ?? 1) : 1;
+	return undoPngPredictor(data, columns);
+}
+
+function undoPngPredictor(data: Uint8Array, columns: number): Uint8Array {
+	const rows = Math.floor(data.length / (columns + 1));
+	const output = new Uint8Array(rows * columns);
+	for (let row = 0; row < rows; row++) {
+		const type = data[row * (columns + 1)];
+		for (let column = 0; column < columns; column++) {
+			const raw = data[row * (columns + 1) + 1 + column] ?? 0;
+			const left = column > 0 ? (output[row * columns + column - 1] ?? 0) : 0;
+			const up = row > 0 ? (output[(row - 1) * columns + column] ?? 0) : 0;
+			const upLeft =
+				row > 0 && column > 0 ? (output[(row - 1) * columns + column - 1] ?? 0) : 0;
+			let value = raw;
+			if (type === 1) value = raw + left;
+			else if (type === 2) value = raw + up;
+			else if (type === 3) value = raw + Math.floor((left + up) / 2);
+			else if (type === 4) {
+				const estimate = left + up - upLeft;
+				const distances = [
+					Math.abs(estimate - left),
+					Math.abs(estimate - up),
+					Math.abs(estimate - upLeft)
+				];
+				const [toLeft = 0, toUp = 0, toUpLeft = 0] = distances;
+				value =
+					raw +
+					(toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft);
+			}
+			output[row * columns + column] = value & 0xff;
+		}
+	}
+	return output;
+}
+
+function writeObject(value: PdfObject, write: (chunk: string | Uint8Array) => void): void {
+	if (value instanceof PdfStream) {
+		const dict = new Map(value.dict);
+		dict.set("Length", value.data.length);
+		dict.delete("Filter");
+		dict.delete("DecodeParms");
+		writeObject(dict, write);
+		write("\nstream\n");
+		write(value.data);
+		write("\nendstream");
+	} else {
+		write(serialize(value));
+	}
+}
+
+/**
+ * PDF syntax for an object, streams are written by writeObject
+ */
+export function serialize(value: PdfObject): string {
+	if (value === null) return "null";
+	if (typeof value === "boolean") return String(value);
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+	}
+	if (value instanceof PdfName) {
+		return `/${value.name.replace(
+			/[^\x21-\x7e]|[#()<>[\]{}/%]/g,
+			(char) => `#${char.charCodeAt(0).toString(16).padStart(2, "0")}`
+		)}`;
+	}
+	if (value instanceof PdfRef) return `${value.num} ${value.gen} R`;
+	if (value instanceof PdfString) {
+		let hex = "";
+		for (let i = 0; i < value.bytes.length; i++) {
+			hex += value.bytes.charCodeAt(i).toString(16).padStart(2, "0");
+		}
+		return `<${hex}>`;
+	}
+	if (value instanceof PdfStream) {
+		throw new Error("Streams can only be written as indirect objects");
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(serialize).join(" ")}]`;
+	}
+	return `<<${Array.from(value, ([key, entry]) => `${serialize(new PdfName(key))} ${serialize(entry)}`).join(" ")}>>`;
+}
+
+function numberValue(value: PdfObject | undefined): number | null {
+	return typeof value === "number" ? value : null;
+}
+
+function sortedEntries<T>(map: Map<number, T>): Array<[number, T]> {
+	return Array.from(map).sort(([a], [b]) => a - b);
+}
+
+/**
+ * [start, count] runs of consecutive object numbers
+ */
+function subsections(rows: Array<[number, unknown]>): Array<[number, number]> {
+	const runs: Array<[number, number]> = [];
+	rows.forEach(([num]) => {
+		const run = runs[runs.length - 1];
+		if (run && run[0] + run[1] === num) {
+			run[1]++;
+		} else {
+			runs.push([num, 1]);
+		}
+	});
+	return runs;
+}
+
+function indexOf(bytes: Uint8Array, text: string, from: number): number {
+	const first = text.charCodeAt(0);
+	for (let i = bytes.indexOf(first, from); i >= 0; i = bytes.indexOf(first, i + 1)) {
+		let match = true;
+		for (let j = 1; j < text.length && match; j++) {
+			match = bytes[i + j] === text.charCodeAt(j);
+		}
+		if (match) return i;
+	}
+	return -1;
+}
+
+export function toBytes(text: string): Uint8Array {
+	const bytes = new Uint8Array(text.length);
+	for (let i = 0; i < text.length; i++) {
+		bytes[i] = text.charCodeAt(i) & 0xff;
+	}
+	return bytes;
+}
+
+function fromBytes(bytes: Uint8Array): string {
+	let text = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return text;
+}
@@ -1,11 +1,74 @@
-import { BaseRenderer, EVENTS, RendererFactory, SUPPORTED_FORMATS } from "../core";
-import type { Annotation, SearchResult } from "../types";
+import {
+	BaseRenderer,
+	DependencyLoader,
+	EVENTS,
+	RendererFactory,
+	SourceLoader,
+	SUPPORTED_FORMATS,
+	TextSearch
+} from "../core";
+import { PDFJS_VERSION } from "../core/dependency-loader";
+import type {
+	Annotation,
+	AnnotationLayout,
+	AssetOptions,
+	DocumentInput,
+	PageTextContent,
+	PasswordReason,
+	PasswordRequest,
+	SearchOptions,
+	SearchResult,
+	SearchTextRange,
+	SourceLoadOptions,
+	TextBlock,
+	TextExtractionOptions
+} from "../types";
+import type * as PdfjsModule from "pdfjs-dist";
+import type {
+	PageViewport,
+	PDFDocumentLoadingTask,
+	PDFDocumentProxy,
+	PDFPageProxy
+} from "pdfjs-dist";
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
+import { PdfAnnotations } from "./pdf-annotations";
+import type { PdfAnnotationData } from "./pdf-annotations";
+import { PdfFile, PdfRef } from "./pdf-file";
+
+const RANGE_CHUNK_SIZE = 65536;
+
+// Pages within one viewport height above or below the visible area are rendered
+const PAGE_BUFFER_MARGIN = "100% 0px";
+
+// Pages rendered up front when IntersectionObserver is unavailable
+const EAGER_PAGE_COUNT = 3;
+
+// Pages searched between search:progress events when no new hits turn up
+const SEARCH_PROGRESS_INTERVAL = 25;
+
+type PdfjsLib = typeof PdfjsModule;
+
+/** Item of a page's text content, marked content items carry no text */
+type PdfTextItem = TextItem | TextMarkedContent;
+
+interface PageText {
+	text: string;
+	/** Offset of each text item in text */
+	offsets: number[];
+	items: PdfTextItem[];
+}
+
+interface PageRenderJob {
+	cancelled: boolean;
+	task: { promise: Promise<void>; cancel?: () => void } | null;
+}
 
 /**
  * PDF Renderer using PDF.js
  * Handles PDF documents with canvas rendering and text layer
  */
 export class PDFRenderer extends BaseRenderer {
+	public pdfjsLib: any;
 	public pdfDocument: any;
 	public currentPageObject: any;
 	public canvas: HTMLCanvasElement | null;
@@ -14,13 +77,32 @@ export class PDFRenderer extends BaseRenderer {
 	public scrollContainer: HTMLElement | null;
 	public documentWrapper: HTMLElement | null;
 	public pageElements: HTMLElement[];
+	public visiblePages: Set<number>;
+	public renderedPages: Map<number, number>;
 	override searchResults: SearchResult[];
 	override currentSearchIndex: number;
 	private lastRenderedZoom: number;
 	private scrollHandler: (() => void) | null;
+	private pageObserver: IntersectionObserver | null;
+	private pageSizes: Array<{ width: number; height: number }>;
+	private renderJobs: Map<number, PageRenderJob>;
+	/** Thumbnails being drawn, cancelled when the document goes away */
+	private thumbnailJobs: Set<PageRenderJob>;
+	private pendingPassword: PasswordRequest | null;
+	private measureContext: CanvasRenderingContext2D | null | undefined;
+	private searchController: AbortController | null;
+	private pageTexts: Map<number, PageText>;
+	/** PDF.js ids of the annotations of each page that the annotations Map replaces */
+	private importedAnnotationIds: Map<number, string[]>;
+	private annotationImports: Map<number, Promise<void>>;
+	/** Annotations of the file deleted by the user, not imported again */
+	private removedFileAnnotations: Set<string>;
+	/** Rejects when a range request of the streamed document fails */
+	private rangeFailure: Promise<never> | null;
 
 	constructor(container: HTMLElement, options = {}) {
 		super(container, options);
+		this.pdfjsLib = null;
 		this.pdfDocument = null;
 		this.currentPageObject = null;
 		this.canvas = null;
@@ -29,6 +111,19 @@ export class PDFRenderer extends BaseRenderer {
 		this.scrollContainer = null;
 		this.documentWrapper = null;
 		this.pageElements = [];
+		this.visiblePages = new Set();
+		this.renderedPages = new Map();
+		this.pageObserver = null;
+		this.pageSizes = [];
+		this.renderJobs = new Map();
+		this.thumbnailJobs = new Set();
+		this.pendingPassword = null;
+		this.searchController = null;
+		this.pageTexts = new Map();
+		this.importedAnnotationIds = new Map();
+		this.annotationImports = new Map();
+		this.removedFileAnnotations = new Set();
+		this.rangeFailure = null;
 		this.searchResults = [];
 		this.currentSearchIndex = 0;
 		this.zoomFactor = 1.0;
@@ -84,61 +179,290 @@ export class PDFRenderer extends BaseRenderer {
 		`;
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput): Promise<void> {
 		try {
 			// Clean up any previous document
 			await this.cleanup();
 
 			const pdfjsLib = await this.loadPDFJS();
 
-			let typedArray: Uint8Array;
+			const loadingTask =
+				typeof source === "string"
+					? await this.createRangeLoadingTask(pdfjsLib, source)
+					: await this.createDataLoadingTask(pdfjsLib, source);
 
-			if (typeof source === "string") {
-				const response = await fetch(source);
-				typedArray = new Uint8Array(await response.arrayBuffer());
-			} else if (source instanceof File || source instanceof Blob) {
-				typedArray = new Uint8Array(await source.arrayBuffer());
-			} else {
-				throw new Error("Unsupported source type");
-			}
-
-			const loadingTask = pdfjsLib.getDocument({
-				data: typedArray,
-				cMapUrl: "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/cmaps/",
-				cMapPacked: true
-			});
-
-			this.pdfDocument = await loadingTask.promise;
+			this.pdfDocument = await this.openDocument(pdfjsLib, loadingTask);
 			this.totalPages = this.pdfDocument.numPages;
 
-			// Render all pages for continuous scrolling
+			// Lay out placeholders, pages render as they scroll into view
 			await this.renderAllPages();
 
 			this.emit(EVENTS.DOCUMENT_LOADED, {
 				totalPages: this.totalPages,
 				title: await this.getDocumentTitle()
 			});
+
+			// Pages that are never scrolled to still have their annotations listed
+			const pdfDocument = this.pdfDocument;
+			this.importPDFAnnotations().catch((error) => {
+				if (this.pdfDocument === pdfDocument) {
+					this.emit(EVENTS.ERROR, error);
+				}
+			});
 		} catch (error) {
 			console.error("PDF loading failed:", error);
+			if ((error as { name?: string } | null)?.name === "PasswordError") {
+				throw error;
+			}
 			throw new Error(`Failed to load PDF: ${error}`);
 		}
 	}
 
-	async loadPDFJS(): Promise<any> {
-		if (typeof (window as any).pdfjsLib !== "undefined") {
-			return (window as any).pdfjsLib;
-		}
+	/**
+	 * Wait for the loading task, asking for a password each time PDF.js
+	 * reports the document as encrypted or the last password as wrong
+	 */
+	openDocument(
+		pdfjsLib: PdfjsLib,
+		loadingTask: PDFDocumentLoadingTask
+	): Promise<PDFDocumentProxy> {
+		const incorrect = pdfjsLib.PasswordResponses?.INCORRECT_PASSWORD ?? 2;
+		let attempt = 0;
+
+		const cancelled = new Promise<never>((_, reject) => {
+			loadingTask.onPassword = (
+				updatePassword: (password: string) => void,
+				reason: number
+			) => {
+				attempt += 1;
+				this.requestPassword(reason === incorrect ? "incorrect" : "required", attempt)
+					.then((password) => {
+						if (password === null) {
+							loadingTask.destroy?.();
+							const error = new Error("A password is required to open this document");
+							error.name = "PasswordError";
+							reject(error);
+						} else {
+							updatePassword(password);
+						}
+					})
+					.catch(reject);
+			};
+		});
 
-		const script = document.createElement("script");
-		script.src = "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.min.js";
-		document.head.appendChild(script);
+		return Promise.race([
+			loadingTask.promise,
+			cancelled,
+			...(this.rangeFailure ? [this.rangeFailure] : [])
+		]);
+	}
 
+	/**
+	 * Ask `options.onPassword`, or the password:required listeners when no
+	 * callback is configured. Resolves null when the request is cancelled.
+	 */
+	requestPassword(reason: PasswordReason, attempt: number): Promise<string | null> {
 		return new Promise((resolve, reject) => {
-			script.onload = () => resolve((window as any).pdfjsLib);
-			script.onerror = () => reject(new Error("Failed to load PDF.js"));
+			let settled = false;
+			const settle = (password: string | null) => {
+				if (!settled) {
+					settled = true;
+					this.pendingPassword = null;
+					resolve(password);
+				}
+			};
+			const request: PasswordRequest = {
+				reason,
+				attempt,
+				submit: (password) => settle(password),
+				cancel: () => settle(null)
+			};
+			this.pendingPassword = request;
+
+			this.emit(EVENTS.PASSWORD_REQUIRED, request);
+
+			const { onPassword } = this.options;
+			if (onPassword) {
+				Promise.resolve(onPassword(request)).then((password) => {
+					// Nothing returned means the callback settles the request itself
+					if (typeof password === "string" || password === null) {
+						settle(password);
+					}
+				}, reject);
+			} else if (!this.eventListeners.get(EVENTS.PASSWORD_REQUIRED)?.size) {
+				settle(null);
+			}
 		});
 	}
 
+	getDocumentParams(): Record<string, unknown> {
+		const assets = this.getAssetOptions();
+		return {
+			cMapUrl: assets.cMapUrl ?? this.getAssetUrl("cmaps/"),
+			cMapPacked: true,
+			standardFontDataUrl: assets.standardFontDataUrl ?? this.getAssetUrl("standard_fonts/")
+		};
+	}
+
+	getAssetOptions(): AssetOptions {
+		return this.options.assets ?? {};
+	}
+
+	/**
+	 * Resolve a file of the pdfjs-dist package against the configured base
+	 * URL, or the CDN copy of the loaded PDF.js version
+	 */
+	getAssetUrl(path: string): string {
+		const baseUrl =
+			this.getAssetOptions().baseUrl ??
+			`https://cdn.jsdelivr.net/npm/pdfjs-dist@${this.pdfjsLib?.version ?? PDFJS_VERSION}`;
+		return `${baseUrl.replace(/\/+$/, "")}/${path}`;
+	}
+
+	async createDataLoadingTask(
+		pdfjsLib: PdfjsLib,
+		source: DocumentInput
+	): Promise<PDFDocumentLoadingTask> {
+		const data = new Uint8Array(await this.readSource(source));
+		return pdfjsLib.getDocument({ data, ...this.getDocumentParams() });
+	}
+
+	/**
+	 * Open a PDF by URL with PDF.js range requests routed through the
+	 * configured fetcher, so auth headers and signed URL refreshes apply to
+	 * every chunk. Falls back to a full download when ranges are unsupported.
+	 */
+	async createRangeLoadingTask(pdfjsLib: PdfjsLib, url: string): Promise<PDFDocumentLoadingTask> {
+		const loadOptions = SourceLoader.fromViewerOptions(this.options);
+		const probe = await this.fetchRange(url, 0, RANGE_CHUNK_SIZE, loadOptions);
+		if (!probe.ok) {
+			throw new Error(`Failed to fetch document: ${probe.status} ${probe.statusText}`);
+		}
+
+		const initialData = new Uint8Array(await probe.arrayBuffer());
+		const contentRange = probe.headers.get("Content-Range");
+		const total = contentRange ? parseInt(contentRange.split("/")[1] ?? "", 10) : NaN;
+
+		// Servers without range support answer the probe with the whole file
+		if (probe.status !== 206 || isNaN(total)) {
+			return pdfjsLib.getDocument({ data: initialData, ...this.getDocumentParams() });
+		}
+
+		let fail: (error: unknown) => void = () => {};
+		const failure = new Promise<never>((_, reject) => {
+			fail = reject;
+		});
+		// Failures after the document opened are reported through events instead
+		failure.catch(() => {});
+		this.rangeFailure = failure;
+
+		const transport = new pdfjsLib.PDFDataRangeTransport(total, initialData);
+		transport.requestDataRange = (begin: number, end: number) => {
+			this.fetchRange(url, begin, end, loadOptions)
+				.then((response) => {
+					if (!response.ok) {
+						throw new Error(
+							`PDF range request ${begin}-${end} failed: ${response.status} ${response.statusText}`
+						);
+					}
+					return response.arrayBuffer();
+				})
+				.then((data) => {
+					if (!loadingTask.destroyed) {
+						transport.onDataRange(begin, new Uint8Array(data));
+					}
+				})
+				.catch((error) => {
+					if (loadingTask.destroyed) return;
+					fail(error);
+					// PDF.js waits for a chunk forever, destroying the task rejects what needs it
+					loadingTask.destroy();
+					if (this.pdfDocument) {
+						this.emit(EVENTS.ERROR, error);
+					}
+				});
+		};
+
+		const loadingTask = pdfjsLib.getDocument({
+			range: transport,
+			rangeChunkSize: RANGE_CHUNK_SIZE,
+			disableAutoFetch: true,
+			...this.getDocumentParams()
+		});
+		return loadingTask;
+	}
+
+	fetchRange(
+		url: string,
+		begin: number,
+		end: number,
+		options: SourceLoadOptions
+	): Promise<Response> {
+		return SourceLoader.fetch(url, {
+			...options,
+			...SourceLoader.mergeRequestOptions(options, {
+				headers: { Range: `bytes=${begin}-${end - 1}` }
+			})
+		});
+	}
+
+	/**
+	 * Resolve PDF.js from, in order: the configured module, a global
+	 * pdfjsLib, the pdfjs-dist package, then a script tag served from the
+	 * asset base URL or the CDN
+	 */
+	async loadPDFJS(): Promise<PdfjsLib> {
+		if (!this.pdfjsLib) {
+			this.pdfjsLib = await this.importPDFJS();
+			this.configureWorker(this.pdfjsLib);
+		}
+		return this.pdfjsLib;
+	}
+
+	async importPDFJS(): Promise<PdfjsLib> {
+		const { pdfjs } = this.getAssetOptions();
+		if (pdfjs) {
+			const pdfjsModule = typeof pdfjs === "function" ? await pdfjs() : pdfjs;
+			return pdfjsModule.default || pdfjsModule;
+		}
+
+		const sources: { importModule: () => Promise<unknown>; url?: string } = {
+			importModule: () => import("pdfjs-dist")
+		};
+		if (this.getAssetOptions().baseUrl) {
+			sources.url = this.getAssetUrl("build/pdf.min.js");
+		}
+		return (await DependencyLoader.load(
+			"pdfjs",
+			this.options.dependencies,
+			sources
+		)) as PdfjsLib;
+	}
+
+	/**
+	 * Parse documents in a Web Worker. A configured worker port or URL wins
+	 * over one the host page already set on GlobalWorkerOptions.
+	 */
+	configureWorker(pdfjsLib: PdfjsLib): void {
+		const workerOptions = pdfjsLib?.GlobalWorkerOptions;
+		if (!workerOptions) return;
+
+		const { workerPort, workerUrl } = this.getAssetOptions();
+		if (workerPort) {
+			workerOptions.workerPort = workerPort;
+		} else if (workerUrl) {
+			workerOptions.workerSrc = workerUrl;
+		} else if (!workerOptions.workerSrc && !workerOptions.workerPort) {
+			// Without a self-hosted copy PDF.js derives the worker from its own script
+			if (
+				this.getAssetOptions().baseUrl ||
+				!this.options.dependencies?.disableRemoteScripts
+			) {
+				workerOptions.workerSrc = this.getAssetUrl("build/pdf.worker.min.js");
+			}
+		}
+	}
+
 	async loadPage(pageNumber: number): Promise<void> {
 		if (!this.pdfDocument || pageNumber < 1 || pageNumber > this.totalPages) {
 			return;
@@ -150,6 +474,11 @@ export class PDFRenderer extends BaseRenderer {
 		await this.render();
 	}
 
+	/**
+	 * Lay out a placeholder for every page and let the page observer render
+	 * only the ones near the viewport. Placeholders take the size of the
+	 * first page until their own page is measured in the background.
+	 */
 	async renderAllPages(): Promise<void> {
 		if (!this.pdfDocument || !this.documentWrapper) return;
 
@@ -157,14 +486,25 @@ export class PDFRenderer extends BaseRenderer {
 		if (this.pageElements.length === 0) {
 			this.documentWrapper.innerHTML = "";
 
+			const firstPage = await this.pdfDocument.getPage(1);
+			const { width, height } = firstPage.getViewport({ scale: 1 });
+			this.pageSizes = Array.from({ length: this.totalPages }, () => ({ width, height }));
+
 			for (let pageNum = 1; pageNum <= this.totalPages; pageNum++) {
-				const pageElement = await this.renderSinglePage(pageNum);
-				if (pageElement) {
-					this.documentWrapper.appendChild(pageElement);
-					this.pageElements.push(pageElement);
-				}
+				const pageElement = this.createPagePlaceholder(pageNum);
+				this.documentWrapper.appendChild(pageElement);
+				this.pageElements.push(pageElement);
 			}
 
+			this.observePages();
+
+			const pdfDocument = this.pdfDocument;
+			this.measurePages().catch((error) => {
+				if (this.pdfDocument === pdfDocument) {
+					this.emit(EVENTS.ERROR, error);
+				}
+			});
+
 			// Set up scroll listener to track current page
 			if (this.scrollContainer && !this.scrollHandler) {
 				this.scrollHandler = this.handleScroll.bind(this);
@@ -176,78 +516,184 @@ export class PDFRenderer extends BaseRenderer {
 		}
 	}
 
+	/**
+	 * Resize every placeholder for the new zoom, but only redraw the pages
+	 * currently in view. Off-screen pages render again when scrolled to.
+	 */
 	async reRenderExistingPages(): Promise<void> {
-		for (let pageNum = 1; pageNum <= this.totalPages; pageNum++) {
-			const pageElement = this.pageElements[pageNum - 1];
-			if (pageElement) {
-				// Clear the page content and re-render
-				const canvas = pageElement.querySelector("canvas");
-				const textLayer = pageElement.querySelector(".buka-pdf-page-text-layer");
-
-				if (canvas && textLayer) {
-					const page = await this.pdfDocument.getPage(pageNum);
-					const viewport = page.getViewport({ scale: this.zoomFactor });
-
-					// Update canvas
-					const context = canvas.getContext("2d");
-					if (context) {
-						canvas.width = viewport.width;
-						canvas.height = viewport.height;
-						canvas.style.width = `${viewport.width}px`;
-						canvas.style.height = `${viewport.height}px`;
-
-						const renderContext = {
-							canvasContext: context,
-							viewport: viewport
-						};
-						await page.render(renderContext).promise;
-					}
+		this.pageElements.forEach((pageElement, index) => {
+			const pageNum = index + 1;
+			this.cancelPageRender(pageNum);
+			if (!this.visiblePages.has(pageNum)) {
+				this.evictPage(pageNum);
+			}
+			this.sizePageElement(pageNum);
+		});
 
-					// Update text layer
-					textLayer.innerHTML = "";
-					(textLayer as HTMLElement).style.width = `${viewport.width}px`;
-					(textLayer as HTMLElement).style.height = `${viewport.height}px`;
-					await this.renderPageTextLayer(page, textLayer as HTMLElement, viewport);
-				}
+		await Promise.all(Array.from(this.visiblePages, (pageNum) => this.renderPage(pageNum)));
+	}
+
+	/**
+	 * Give every placeholder the size of its own page, in page order
+	 */
+	async measurePages(): Promise<void> {
+		const pdfDocument = this.pdfDocument;
+		if (!pdfDocument) return;
+
+		for (let pageNum = 2; pageNum <= this.totalPages; pageNum++) {
+			const page = await pdfDocument.getPage(pageNum);
+			// A newer document replaced this one
+			if (this.pdfDocument !== pdfDocument) return;
+
+			const { width, height } = page.getViewport({ scale: 1 });
+			this.resizePage(pageNum, { width, height });
+		}
+	}
+
+	/**
+	 * Record the size of a page and resize its placeholder. Content in view
+	 * stays in place when a page above it changes height.
+	 */
+	resizePage(pageNum: number, size: { width: number; height: number }): void {
+		const previous = this.pageSizes[pageNum - 1];
+		if (previous?.width === size.width && previous.height === size.height) return;
+
+		const pageElement = this.pageElements[pageNum - 1];
+		const container = this.scrollContainer;
+		const above =
+			!!pageElement &&
+			!!container &&
+			pageElement.getBoundingClientRect().bottom < container.getBoundingClientRect().top;
+
+		this.pageSizes[pageNum - 1] = size;
+		this.sizePageElement(pageNum);
+
+		if (above && previous && container) {
+			container.scrollTop += (size.height - previous.height) * this.zoomFactor;
+		}
+	}
+
+	createPagePlaceholder(pageNum: number): HTMLElement {
+		const pageContainer = document.createElement("div");
+		pageContainer.className = "buka-pdf-page-container";
+		pageContainer.dataset.pageNumber = pageNum.toString();
+		pageContainer.style.cssText = `
+			position: relative;
+			flex-shrink: 0;
+			background: white;
+			box-shadow: 0 4px 8px rgba(0,0,0,0.1);
+			margin-bottom: 20px;
+		`;
+		this.sizePageElement(pageNum, pageContainer);
+		return pageContainer;
+	}
+
+	sizePageElement(pageNum: number, pageElement = this.pageElements[pageNum - 1]): void {
+		const size = this.pageSizes[pageNum - 1];
+		if (!pageElement || !size) return;
+
+		pageElement.style.width = `${size.width * this.zoomFactor}px`;
+		pageElement.style.height = `${size.height * this.zoomFactor}px`;
+
+		// Stretch an outdated canvas until the page is redrawn at this zoom
+		const canvas = pageElement.querySelector("canvas");
+		if (canvas) {
+			canvas.style.width = pageElement.style.width;
+			canvas.style.height = pageElement.style.height;
+		}
+
+		// Annotations are vector drawings, so they re-lay out right away
+		if (this.renderedPages.has(pageNum)) {
+			this.renderPageAnnotations(pageNum);
+		}
+	}
+
+	/**
+	 * Render pages as they come within a viewport of the visible area and
+	 * release the canvases of pages that scroll further away
+	 */
+	observePages(): void {
+		if (typeof IntersectionObserver === "undefined") {
+			// Without observer support render a fixed window of pages
+			for (
+				let pageNum = 1;
+				pageNum <= Math.min(this.totalPages, EAGER_PAGE_COUNT);
+				pageNum++
+			) {
+				this.visiblePages.add(pageNum);
+				this.renderPage(pageNum);
 			}
+			return;
 		}
+
+		this.pageObserver = new IntersectionObserver(
+			(entries) => this.handlePageIntersections(entries),
+			{ root: this.scrollContainer, rootMargin: PAGE_BUFFER_MARGIN }
+		);
+		this.pageElements.forEach((pageElement) => this.pageObserver?.observe(pageElement));
 	}
 
-	async renderSinglePage(pageNum: number): Promise<HTMLElement | null> {
+	handlePageIntersections(entries: IntersectionObserverEntry[]): void {
+		entries.forEach((entry) => {
+			const pageNum = Number((entry.target as HTMLElement).dataset.pageNumber);
+			if (entry.isIntersecting) {
+				this.visiblePages.add(pageNum);
+				this.renderPage(pageNum);
+			} else {
+				this.visiblePages.delete(pageNum);
+				this.evictPage(pageNum);
+			}
+		});
+	}
+
+	/**
+	 * Draw one page at the current zoom. Calls for a page that is already
+	 * rendered or rendering are ignored, a pending render is dropped when
+	 * the page is evicted or the zoom changes before it completes.
+	 */
+	async renderPage(pageNum: number): Promise<void> {
+		const pageElement = this.pageElements[pageNum - 1];
+		if (!this.pdfDocument || !pageElement) return;
+		if (this.renderedPages.get(pageNum) === this.zoomFactor || this.renderJobs.has(pageNum)) {
+			return;
+		}
+
+		const job: PageRenderJob = { cancelled: false, task: null };
+		this.renderJobs.set(pageNum, job);
+
 		try {
 			const page = await this.pdfDocument.getPage(pageNum);
-			const viewport = page.getViewport({ scale: this.zoomFactor });
-
-			// Create page container
-			const pageContainer = document.createElement("div");
-			pageContainer.className = "buka-pdf-page-container";
-			pageContainer.dataset.pageNumber = pageNum.toString();
-			pageContainer.style.cssText = `
-				position: relative;
-				background: white;
-				box-shadow: 0 4px 8px rgba(0,0,0,0.1);
-				margin-bottom: 20px;
-			`;
+			if (job.cancelled) return;
+
+			// Before drawing, so the canvas skips the annotations the layer draws
+			await this.importPageAnnotations(pageNum, page);
+			if (job.cancelled) return;
+
+			const { width, height } = page.getViewport({ scale: 1 });
+			this.resizePage(pageNum, { width, height });
 
-			// Create canvas for this page
+			const zoom = this.zoomFactor;
+			const viewport = page.getViewport({ scale: zoom });
 			const canvas = document.createElement("canvas");
 			canvas.className = "buka-pdf-page-canvas";
 			const context = canvas.getContext("2d");
-			if (!context) return null;
+			if (!context) return;
 
 			canvas.width = viewport.width;
 			canvas.height = viewport.height;
 			canvas.style.width = `${viewport.width}px`;
 			canvas.style.height = `${viewport.height}px`;
 
-			// Render page
-			const renderContext = {
+			// Storage mode hides the imported annotations from the canvas
+			const annotationMode = this.pdfjsLib?.AnnotationMode?.ENABLE_STORAGE;
+			const task = page.render({
 				canvasContext: context,
-				viewport: viewport
-			};
-			await page.render(renderContext).promise;
+				viewport,
+				...(annotationMode === undefined ? {} : { annotationMode })
+			});
+			job.task = task;
+			await task.promise;
 
-			// Create text layer for this page
 			const textLayer = document.createElement("div");
 			textLayer.className = "buka-pdf-page-text-layer";
 			textLayer.style.cssText = `
@@ -260,23 +706,115 @@ export class PDFRenderer extends BaseRenderer {
 				opacity: 0.2;
 				line-height: 1.0;
 			`;
+			await this.renderPageTextLayer(page, textLayer, viewport, pageNum);
+			if (job.cancelled) return;
 
-			await this.renderPageTextLayer(page, textLayer, viewport);
+			this.releaseCanvas(pageElement);
+			pageElement.replaceChildren(canvas, textLayer);
+			this.renderedPages.set(pageNum, zoom);
+			this.renderPageAnnotations(pageNum);
 
-			pageContainer.appendChild(canvas);
-			pageContainer.appendChild(textLayer);
+			const pageResults = this.searchResults.filter((result) => result.page === pageNum);
+			if (pageResults.length > 0) {
+				await this.highlightPageSearchResults(pageNum, pageResults, "");
+			}
+		} catch (error) {
+			if (!job.cancelled) {
+				this.emit(EVENTS.ERROR, error);
+			}
+		} finally {
+			if (this.renderJobs.get(pageNum) === job) {
+				this.renderJobs.delete(pageNum);
+			}
+		}
+	}
+
+	cancelPageRender(pageNum: number): void {
+		const job = this.renderJobs.get(pageNum);
+		if (!job) return;
+
+		job.cancelled = true;
+		job.task?.cancel?.();
+		this.renderJobs.delete(pageNum);
+	}
+
+	/**
+	 * Drop a page's canvas and text layer, keeping its sized placeholder
+	 */
+	evictPage(pageNum: number): void {
+		this.cancelPageRender(pageNum);
+
+		const pageElement = this.pageElements[pageNum - 1];
+		if (!pageElement || !this.renderedPages.has(pageNum)) return;
 
-			return pageContainer;
+		this.releaseCanvas(pageElement);
+		pageElement.replaceChildren();
+		this.renderedPages.delete(pageNum);
+	}
+
+	releaseCanvas(pageElement: HTMLElement): void {
+		// Zero-sized canvases let browsers free the backing store right away
+		pageElement.querySelectorAll("canvas").forEach((canvas) => {
+			canvas.width = 0;
+			canvas.height = 0;
+		});
+	}
+
+	/**
+	 * Draw a page on its own canvas at thumbnail size, independently of
+	 * the pages rendered in the view
+	 */
+	protected override async createThumbnail(
+		page: number,
+		size: number
+	): Promise<HTMLElement | null> {
+		const pdfDocument = this.pdfDocument;
+		if (!pdfDocument) return null;
+
+		const pdfPage = await pdfDocument.getPage(page);
+		if (pdfDocument !== this.pdfDocument) return null;
+
+		const { width, height } = pdfPage.getViewport({ scale: 1 });
+		const scale = this.getThumbnailScale(width, height, size);
+		const viewport = pdfPage.getViewport({ scale });
+
+		const canvas = document.createElement("canvas");
+		canvas.className = "buka-pdf-thumbnail";
+		const context = canvas.getContext("2d");
+		if (!context) return null;
+
+		canvas.width = Math.round(viewport.width);
+		canvas.height = Math.round(viewport.height);
+		canvas.style.width = `${canvas.width}px`;
+		canvas.style.height = `${canvas.height}px`;
+
+		const job: PageRenderJob = {
+			cancelled: false,
+			task: pdfPage.render({ canvasContext: context, viewport })
+		};
+		this.thumbnailJobs.add(job);
+		try {
+			await job.task?.promise;
 		} catch (error) {
-			console.warn(`Failed to render page ${pageNum}:`, error);
-			return null;
+			if (job.cancelled) return null;
+			throw error;
+		} finally {
+			this.thumbnailJobs.delete(job);
 		}
+		return canvas;
 	}
 
-	async renderPageTextLayer(page: any, textLayer: HTMLElement, viewport: any): Promise<void> {
+	async renderPageTextLayer(
+		page: PDFPageProxy,
+		textLayer: HTMLElement,
+		viewport: PageViewport,
+		pageNum?: number
+	): Promise<void> {
 		try {
-			const textContent = await page.getTextContent();
-			const textItems = textContent.items;
+			// Share extracted text with search when the page number is known
+			const textItems = pageNum
+				? (await this.loadPageText(pageNum)).items
+				: (await page.getTextContent()).items;
 			const textDiv = document.createElement("div");
 			textDiv.style.cssText = `
 				position: absolute;
@@ -285,33 +823,54 @@ export class PDFRenderer extends BaseRenderer {
 				white-space: pre;
 			`;
 
-			textItems.forEach((item: any, index: number) => {
-				const tx = (window as any).pdfjsLib.Util.transform(
-					viewport.transform,
-					item.transform
-				);
-				const fontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
-
-				const span = document.createElement("span");
-				span.style.cssText = `
-					position: absolute;
-					left: ${tx[4]}px;
-					top: ${tx[5] - fontSize}px;
-					font-size: ${fontSize}px;
-					transform: scaleX(${tx[2] / fontSize});
-				`;
-				span.textContent = item.str;
-				span.dataset.textIndex = `${index}`;
-
-				textDiv.appendChild(span);
+			textItems.forEach((item: PdfTextItem, index: number) => {
+				if ("str" in item) textDiv.appendChild(this.createTextSpan(item, index, viewport));
 			});
 
 			textLayer.appendChild(textDiv);
 		} catch (error) {
-			console.warn("Text layer rendering failed:", error);
+			this.emit(EVENTS.ERROR, error);
 		}
 	}
 
+	/**
+	 * Position a text item over the canvas, stretched to the width PDF.js
+	 * reports so character offsets line up with the drawn glyphs
+	 */
+	createTextSpan(item: TextItem, index: number, viewport: PageViewport): HTMLSpanElement {
+		const tx = this.pdfjsLib.Util.transform(viewport.transform, item.transform);
+		const fontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
+		const width = (item.width ?? 0) * (viewport.scale ?? this.zoomFactor);
+		const measured = this.measureText(item.str, fontSize);
+		const scaleX = width > 0 && measured > 0 ? width / measured : tx[2] / fontSize;
+
+		const span = document.createElement("span");
+		span.style.cssText = `
+			position: absolute;
+			left: ${tx[4]}px;
+			top: ${tx[5] - fontSize}px;
+			font-size: ${fontSize}px;
+			transform: scaleX(${scaleX});
+			transform-origin: 0% 0%;
+		`;
+		span.textContent = item.str;
+		span.dataset.textIndex = `${index}`;
+		if (width > 0) {
+			span.dataset.width = `${width}`;
+		}
+		return span;
+	}
+
+	measureText(text: string, fontSize: number): number {
+		if (this.measureContext === undefined) {
+			this.measureContext = document.createElement("canvas").getContext("2d");
+		}
+		if (!this.measureContext) return 0;
+
+		this.measureContext.font = `${fontSize}px sans-serif`;
+		return this.measureContext.measureText(text).width;
+	}
+
 	handleScroll(): void {
 		if (!this.scrollContainer) return;
 
@@ -350,7 +909,7 @@ export class PDFRenderer extends BaseRenderer {
 		}
 	}
 
-	async renderTextLayer(viewport: any): Promise<void> {
+	async renderTextLayer(viewport: PageViewport): Promise<void> {
 		if (!this.textLayer) return;
 
 		this.textLayer.innerHTML = "";
@@ -369,30 +928,13 @@ export class PDFRenderer extends BaseRenderer {
 				white-space: pre;
 			`;
 
-			textItems.forEach((item: any, index: number) => {
-				const tx = (window as any).pdfjsLib.Util.transform(
-					viewport.transform,
-					item.transform
-				);
-				const fontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
-
-				const span = document.createElement("span");
-				span.style.cssText = `
-					position: absolute;
-					left: ${tx[4]}px;
-					top: ${tx[5] - fontSize}px;
-					font-size: ${fontSize}px;
-					transform: scaleX(${tx[2] / fontSize});
-				`;
-				span.textContent = item.str;
-				span.dataset.textIndex = `${index}`;
-
-				textDiv.appendChild(span);
+			textItems.forEach((item: PdfTextItem, index: number) => {
+				if ("str" in item) textDiv.appendChild(this.createTextSpan(item, index, viewport));
 			});
 
 			this.textLayer.appendChild(textDiv);
 		} catch (error) {
-			console.warn("Text layer rendering failed:", error);
+			this.emit(EVENTS.ERROR, error);
 		}
 	}
 
@@ -432,7 +974,9 @@ export class PDFRenderer extends BaseRenderer {
 		this.emit(EVENTS.ZOOM_CHANGED, { zoom: this.zoomFactor });
 	}
 
-	async search(query: string): Promise<SearchResult[]> {
+	async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+		this.cancelSearch();
+
 		if (!this.pdfDocument || !query.trim()) {
 			this.searchResults = [];
 			this.currentSearchIndex = 0;
@@ -440,52 +984,195 @@ export class PDFRenderer extends BaseRenderer {
 			return [];
 		}
 
-		this.searchResults = [];
-		this.clearSearchHighlights();
+		// Invalid regular expressions throw before any page is read
+		TextSearch.createPattern(query, options);
 
-		// Create search regex for highlighting later
-		// const searchRegex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+		const controller = new AbortController();
+		this.searchController = controller;
+		const results: SearchResult[] = [];
+		this.searchResults = results;
+		this.currentSearchIndex = 0;
+		this.clearSearchHighlights();
 
+		let reported = 0;
 		for (let pageNum = 1; pageNum <= this.totalPages; pageNum++) {
+			let pageText: PageText | null = null;
 			try {
-				const page = await this.pdfDocument.getPage(pageNum);
-				const textContent = await page.getTextContent();
-
-				// Search through individual text items for more precise highlighting
-				textContent.items.forEach((item: any, _itemIndex: number) => {
-					let match: RegExpExecArray | null;
-					const text = item.str;
-					const regex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
-
-					while ((match = regex.exec(text)) !== null) {
-						this.searchResults.push({
-							match: match[0],
-							page: pageNum,
-							text: match[0],
-							index: match.index,
-							length: match[0].length
-						} as SearchResult);
-					}
-				});
+				pageText = await this.loadPageText(pageNum);
 			} catch (error) {
-				console.warn(`Search failed on page ${pageNum}:`, error);
+				// The page is left out of the results
+				this.emit(EVENTS.ERROR, error);
 			}
-		}
+			this.throwIfSearchCancelled(controller.signal);
 
-		this.currentSearchIndex = 0;
-		await this.highlightSearchResults(query);
+			const pageResults = pageText ? this.findInPage(pageNum, pageText, query, options) : [];
+			if (pageResults.length > 0) {
+				results.push(...pageResults);
+				await this.highlightPageSearchResults(pageNum, pageResults, query);
+
+				// Jump to the first hit without waiting for the rest of the document
+				if (results.length === pageResults.length) {
+					await this.showSearchResult(0);
+				}
+				this.throwIfSearchCancelled(controller.signal);
+			}
 
+			if (
+				results.length > reported ||
+				pageNum % SEARCH_PROGRESS_INTERVAL === 0 ||
+				pageNum === this.totalPages
+			) {
+				reported = results.length;
+				this.emit(EVENTS.SEARCH_PROGRESS, {
+					query,
+					options,
+					results: results.slice(),
+					pagesSearched: pageNum,
+					totalPages: this.totalPages
+				});
+			}
+		}
+
+		this.searchController = null;
 		this.emit(EVENTS.SEARCH_RESULT, {
 			query,
-			results: this.searchResults,
+			options,
+			results,
 			currentIndex: this.currentSearchIndex
 		});
 
-		if (this.searchResults.length > 0) {
-			await this.goto(this.searchResults[0]?.page || 1);
+		return results;
+	}
+
+	/**
+	 * Stop a running search, its promise rejects with an AbortError
+	 */
+	cancelSearch(): void {
+		this.searchController?.abort();
+		this.searchController = null;
+	}
+
+	throwIfSearchCancelled(signal: AbortSignal): void {
+		if (signal.aborted) {
+			throw new DOMException("Search was cancelled", "AbortError");
 		}
+	}
+
+	/**
+	 * Text of a page with its items, extracted once per document so
+	 * repeated searches do not go through PDF.js again
+	 */
+	async loadPageText(pageNum: number): Promise<PageText> {
+		const cached = this.pageTexts.get(pageNum);
+		if (cached) return cached;
+
+		const page = await this.pdfDocument.getPage(pageNum);
+		const textContent = await page.getTextContent();
+		const pageText = { items: textContent.items, ...this.getPageText(textContent.items) };
+		this.pageTexts.set(pageNum, pageText);
+		return pageText;
+	}
 
-		return this.searchResults;
+	findInPage(
+		pageNum: number,
+		pageText: PageText,
+		query: string,
+		options: SearchOptions
+	): SearchResult[] {
+		const { text, offsets, items } = pageText;
+
+		// Match against the whole page so hits can span several text items
+		return TextSearch.find(text, query, options).map(({ index, length, match }) => ({
+			match,
+			page: pageNum,
+			text: match,
+			index,
+			length,
+			context: TextSearch.getContext(text, index, length),
+			section: `Page ${pageNum}`,
+			ranges: this.getMatchRanges(items, offsets, index, index + length)
+		}));
+	}
+
+	/**
+	 * Join a page's text items into one string, remembering where each
+	 * item starts so matches can be mapped back to text layer spans
+	 */
+	getPageText(items: PdfTextItem[]): { text: string; offsets: number[] } {
+		let text = "";
+		const offsets = items.map((item) => {
+			const offset = text.length;
+			if (!("str" in item)) return offset;
+
+			text += item.str;
+			if (item.hasEOL) {
+				text += " ";
+			}
+			return offset;
+		});
+		return { text, offsets };
+	}
+
+	getMatchRanges(
+		items: PdfTextItem[],
+		offsets: number[],
+		start: number,
+		end: number
+	): SearchTextRange[] {
+		const ranges: SearchTextRange[] = [];
+		offsets.forEach((offset, itemIndex) => {
+			const item = items[itemIndex];
+			const length = item && "str" in item ? item.str.length : 0;
+			const from = Math.max(start, offset);
+			const to = Math.min(end, offset + length);
+			if (from < to) {
+				ranges.push({ itemIndex, start: from - offset, end: to - offset });
+			}
+		});
+		return ranges;
+	}
+
+	override async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		if (!this.pdfDocument) return [];
+
+		const pages: PageTextContent[] = [];
+		for (const pageNum of this.getTextPages(options)) {
+			const { items } = await this.loadPageText(pageNum);
+			const content: PageTextContent = {
+				page: pageNum,
+				label: `Page ${pageNum}`,
+				text: items
+					.map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""))
+					.join("")
+					.trim()
+			};
+			if (options.structured) {
+				const page = await this.pdfDocument.getPage(pageNum);
+				content.blocks = this.getTextBlocks(items, page.getViewport({ scale: 1 }));
+			}
+			pages.push(content);
+		}
+		return pages;
+	}
+
+	/**
+	 * Text items of a page as blocks positioned relative to the page size
+	 */
+	getTextBlocks(items: PdfTextItem[], viewport: PageViewport): TextBlock[] {
+		return items
+			.filter((item): item is TextItem => "str" in item && item.str.trim() !== "")
+			.map((item) => {
+				const tx = this.pdfjsLib.Util.transform(viewport.transform, item.transform);
+				const fontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
+				return {
+					text: item.str,
+					type: "text",
+					x: tx[4] / viewport.width,
+					y: (tx[5] - fontSize) / viewport.height,
+					width: (item.width ?? 0) / viewport.width,
+					height: fontSize / viewport.height
+				};
+			});
 	}
 
 	async highlightSearchResults(query: string): Promise<void> {
@@ -493,8 +1180,8 @@ export class PDFRenderer extends BaseRenderer {
 
 		if (this.searchResults.length === 0 || !query) return;
 
-		// Highlight in all pages
-		for (let pageNum = 1; pageNum <= this.totalPages; pageNum++) {
+		// Pages that are not rendered yet are highlighted when they render
+		for (const pageNum of this.renderedPages.keys()) {
 			const pageResults = this.searchResults.filter((result) => result.page === pageNum);
 			if (pageResults.length > 0) {
 				await this.highlightPageSearchResults(pageNum, pageResults, query);
@@ -508,57 +1195,142 @@ export class PDFRenderer extends BaseRenderer {
 		_query: string
 	): Promise<void> {
 		const pageElement = this.pageElements[pageNum - 1];
-		if (!pageElement) return;
+		const textLayer = pageElement?.querySelector(".buka-pdf-page-text-layer");
+		if (!pageElement || !textLayer) return;
 
-		const textLayer = pageElement.querySelector(".buka-pdf-page-text-layer");
-		if (!textLayer) return;
+		pageElement.querySelectorAll(".buka-search-highlight").forEach((highlight) => {
+			highlight.remove();
+		});
 
-		// Text spans available for highlighting if needed
-		// const textSpans = textLayer.querySelectorAll("span[data-text-index]");
+		results.forEach((result) => {
+			const resultIndex = this.searchResults.indexOf(result);
 
-		results.forEach((result: any) => {
-			if (result.textItem && result.itemIndex !== undefined) {
-				// Find the corresponding span element
+			result.ranges?.forEach((range) => {
 				const span = textLayer.querySelector(
-					`span[data-text-index="${result.itemIndex}"]`
-				) as HTMLElement;
-				if (span && span.textContent) {
-					// Create highlight overlay
-					const highlight = document.createElement("div");
-					highlight.className = "buka-search-highlight";
-					highlight.style.cssText = `
-						position: absolute;
-						background: rgba(255, 255, 0, 0.4);
-						border: 1px solid rgba(255, 165, 0, 0.8);
-						pointer-events: none;
-						z-index: 15;
-						border-radius: 2px;
-					`;
-
-					// Copy span's position and size
-					const spanStyle = window.getComputedStyle(span);
-					highlight.style.left = spanStyle.left;
-					highlight.style.top = spanStyle.top;
-					highlight.style.fontSize = spanStyle.fontSize;
-					highlight.style.transform = spanStyle.transform;
-
-					// Calculate highlight width based on matched text
-					const canvas = document.createElement("canvas");
-					const ctx = canvas.getContext("2d");
-					if (ctx) {
-						ctx.font = spanStyle.fontSize + " " + spanStyle.fontFamily;
-						const textWidth = ctx.measureText(result.match).width;
-						highlight.style.width = `${textWidth}px`;
-					} else {
-						// Fallback: estimate width
-						highlight.style.width = `${result.match.length * 0.6}em`;
+					`span[data-text-index="${range.itemIndex}"]`
+				) as HTMLElement | null;
+				if (!span) return;
+
+				this.getTextRangeRects(pageElement, span, range.start, range.end).forEach(
+					(rect) => {
+						const highlight = document.createElement("div");
+						highlight.className = "buka-search-highlight";
+						highlight.dataset.resultIndex = `${resultIndex}`;
+						highlight.style.cssText = `
+							position: absolute;
+							left: ${rect.left}px;
+							top: ${rect.top}px;
+							width: ${rect.width}px;
+							height: ${rect.height}px;
+							pointer-events: none;
+							z-index: 15;
+							border-radius: 2px;
+						`;
+						this.styleSearchHighlight(
+							highlight,
+							resultIndex === this.currentSearchIndex
+						);
+						pageElement.appendChild(highlight);
 					}
-					highlight.style.height = spanStyle.fontSize;
+				);
+			});
+		});
+	}
 
-					textLayer.appendChild(highlight);
-				}
+	/**
+	 * Page-relative boxes around characters start to end of a text span.
+	 * Uses the laid out text layer when available, otherwise interpolates
+	 * along the item width reported by PDF.js.
+	 */
+	getTextRangeRects(
+		pageElement: HTMLElement,
+		span: HTMLElement,
+		start: number,
+		end: number
+	): Array<{ left: number; top: number; width: number; height: number }> {
+		const node = span.firstChild;
+		if (node && typeof document.createRange === "function") {
+			const range = document.createRange();
+			range.setStart(node, start);
+			range.setEnd(node, end);
+			const rects =
+				typeof range.getClientRects === "function"
+					? Array.from(range.getClientRects()).filter((rect) => rect.width > 0)
+					: [];
+
+			if (rects.length > 0) {
+				const origin = pageElement.getBoundingClientRect();
+				return rects.map((rect) => ({
+					left: rect.left - origin.left,
+					top: rect.top - origin.top,
+					width: rect.width,
+					height: rect.height
+				}));
+			}
+		}
+
+		const text = span.textContent ?? "";
+		const fontSize = parseFloat(span.style.fontSize) || 0;
+		const width = Number(span.dataset.width) || this.measureText(text, fontSize);
+		const fullWidth = this.measureText(text, fontSize);
+		const offsetAt = (index: number) => {
+			if (fullWidth > 0) {
+				return (this.measureText(text.slice(0, index), fontSize) / fullWidth) * width;
 			}
+			return text.length > 0 ? (index / text.length) * width : 0;
+		};
+
+		const left = parseFloat(span.style.left) || 0;
+		return [
+			{
+				left: left + offsetAt(start),
+				top: parseFloat(span.style.top) || 0,
+				width: offsetAt(end) - offsetAt(start),
+				height: fontSize
+			}
+		];
+	}
+
+	styleSearchHighlight(highlight: HTMLElement, current: boolean): void {
+		highlight.classList.toggle("buka-search-highlight-current", current);
+		highlight.style.background = current ? "rgba(255, 140, 0, 0.5)" : "rgba(255, 255, 0, 0.4)";
+		highlight.style.border = current
+			? "2px solid rgba(230, 100, 0, 0.9)"
+			: "1px solid rgba(255, 165, 0, 0.8)";
+	}
+
+	/**
+	 * Mark a search hit as current and scroll it into view, rendering its
+	 * page first when it is outside the render buffer
+	 */
+	override async showSearchResult(index: number): Promise<void> {
+		const page = this.searchResults[index]?.page;
+		const pageElement = page ? this.pageElements[page - 1] : undefined;
+		if (!page || !pageElement) return;
+
+		this.currentSearchIndex = index;
+		if (!this.renderedPages.has(page)) {
+			pageElement.scrollIntoView({ block: "start" });
+			await this.renderPage(page);
+		}
+
+		let current: HTMLElement | null = null;
+		this.pageElements.forEach((element) => {
+			element.querySelectorAll<HTMLElement>(".buka-search-highlight").forEach((highlight) => {
+				const isCurrent = Number(highlight.dataset.resultIndex) === index;
+				this.styleSearchHighlight(highlight, isCurrent);
+				if (isCurrent && !current) {
+					current = highlight;
+				}
+			});
 		});
+
+		(current ?? pageElement).scrollIntoView({ behavior: "smooth", block: "center" });
+
+		if (page !== this.currentPage) {
+			this.currentPage = page;
+			this.emit(EVENTS.PAGE_CHANGED, { page, totalPages: this.totalPages });
+		}
 	}
 
 	clearSearchHighlights(): void {
@@ -580,64 +1352,193 @@ export class PDFRenderer extends BaseRenderer {
 		}
 	}
 
-	override addAnnotation(annotation: Omit<Annotation, "id" | "page" | "timestamp">) {
-		const id = super.addAnnotation(annotation);
-		this.renderAnnotation(this.annotations.get(id));
-		return id;
-	}
-
-	renderAnnotation(annotation: any): void {
-		if (annotation.page !== this.currentPage) return;
-
-		const annotationElement = document.createElement("div");
-		annotationElement.className = "buka-annotation";
-		annotationElement.dataset.annotationId = annotation.id;
-
-		annotationElement.style.cssText = `
-      position: absolute;
-      pointer-events: auto;
-      cursor: pointer;
-    `;
-
-		switch (annotation.type) {
-			case "highlight":
-				annotationElement.style.cssText += `
-          background: rgba(255, 255, 0, 0.4);
-          border: 1px solid rgba(255, 165, 0, 0.6);
-        `;
-				break;
-			case "note":
-				annotationElement.innerHTML = "📝";
-				annotationElement.style.cssText += `
-          width: 20px;
-          height: 20px;
-          background: #ffeb3b;
-          border-radius: 50%;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          font-size: 12px;
-        `;
-				annotationElement.title = annotation.content || "";
-				break;
-		}
-
-		if (annotation.position) {
-			const viewport = this.currentPageObject.getViewport({ scale: this.zoomFactor });
-			annotationElement.style.left = `${viewport.width * annotation.position.x}px`;
-			annotationElement.style.top = `${viewport.height * annotation.position.y}px`;
-			annotationElement.style.width = `${
-				viewport.width * (annotation.position.width || 0.1)
-			}px`;
-			annotationElement.style.height = `${
-				viewport.height * (annotation.position.height || 0.05)
-			}px`;
-		}
-
-		this.textLayer?.appendChild(annotationElement);
+	override getRemovedFileAnnotations(): string[] {
+		// Undoing a deletion brings the annotation back
+		return Array.from(this.removedFileAnnotations).filter((id) => !this.annotations.has(id));
+	}
+
+	override setRemovedFileAnnotations(ids: string[]): void {
+		this.removedFileAnnotations = new Set(ids);
+		// Pages rendered before the store was read already imported them
+		const removed: Annotation[] = [];
+		ids.forEach((id) => {
+			const annotation = this.annotations.get(id);
+			if (annotation && this.annotations.delete(id)) removed.push(annotation);
+		});
+		this.renderAnnotationPages(removed);
+	}
+
+	protected override deleteAnnotation(id: string): Annotation | null {
+		const annotation = super.deleteAnnotation(id);
+		const fileId = id.replace(/^pdf-/, "");
+		if (
+			annotation &&
+			Array.from(this.importedAnnotationIds.values()).some((ids) => ids.includes(fileId))
+		) {
+			this.removedFileAnnotations.add(id);
+		}
+		return annotation;
+	}
+
+	override getFingerprint(): string | null {
+		return this.pdfDocument?.fingerprints?.[0] ?? null;
+	}
+
+	override getAnnotationPageElement(page: number): HTMLElement | null {
+		return this.renderedPages.has(page) ? (this.pageElements[page - 1] ?? null) : null;
+	}
+
+	override getAnnotationLayout(page: number): AnnotationLayout | null {
+		const size = this.pageSizes[page - 1];
+		if (!size) return null;
+
+		return {
+			width: size.width * this.zoomFactor,
+			height: size.height * this.zoomFactor,
+			scale: this.zoomFactor
+		};
+	}
+
+	/**
+	 * Read the annotations stored in every page of the PDF. Started in the
+	 * background once the document is loaded, resolves when all of them are
+	 * in the annotations Map.
+	 */
+	async importPDFAnnotations(): Promise<void> {
+		const pdfDocument = this.pdfDocument;
+		if (!pdfDocument) return;
+
+		for (let pageNum = 1; pageNum <= this.totalPages; pageNum++) {
+			// A newer document replaced this one
+			if (this.pdfDocument !== pdfDocument) return;
+			if (!this.annotationImports.has(pageNum)) {
+				await this.importPageAnnotations(pageNum, await pdfDocument.getPage(pageNum));
+			}
+		}
+		await Promise.all(this.annotationImports.values());
+	}
+
+	/**
+	 * Move the annotations stored in a page into the annotations Map so
+	 * they can be edited like the viewer's own. Links, form fields and
+	 * other types the viewer cannot draw stay part of the page.
+	 */
+	importPageAnnotations(pageNum: number, page: PDFPageProxy): Promise<void> {
+		let task = this.annotationImports.get(pageNum);
+		if (!task) {
+			task = this.readPageAnnotations(pageNum, page);
+			this.annotationImports.set(pageNum, task);
+		}
+		return task;
+	}
+
+	private async readPageAnnotations(pageNum: number, page: PDFPageProxy): Promise<void> {
+		const pdfDocument = this.pdfDocument;
+		try {
+			const items: Array<PdfAnnotationData & { parentId?: string }> =
+				(await page.getAnnotations?.()) ?? [];
+			if (this.pdfDocument !== pdfDocument) return;
+
+			const viewport = page.getViewport({ scale: 1 });
+			const imported: Annotation[] = [];
+			const ids: string[] = [];
+			items.forEach((item) => {
+				const annotation = PdfAnnotations.read(item, viewport, pageNum);
+				if (!annotation) return;
+				// Deleted ones are still replaced when the PDF is exported
+				if (!this.removedFileAnnotations.has(annotation.id ?? "")) {
+					imported.push(annotation);
+				}
+				ids.push(item.id);
+				// Storage mode rendering leaves it to the annotation layer
+				pdfDocument.annotationStorage?.setValue(item.id, { noView: true });
+			});
+
+			// Popups belong to the annotation they show the comment of
+			items
+				.filter(
+					(item) =>
+						item.subtype === "Popup" &&
+						item.parentId !== undefined &&
+						ids.includes(item.parentId)
+				)
+				.forEach((item) => ids.push(item.id));
+
+			if (ids.length > 0) {
+				this.importedAnnotationIds.set(pageNum, ids);
+				// Edited copies restored from an annotation store win over the file
+				this.importAnnotations(imported, { onConflict: "keep" });
+			}
+		} catch (error) {
+			if (this.pdfDocument === pdfDocument) {
+				this.emit(EVENTS.ERROR, error);
+			}
+		}
+	}
+
+	/**
+	 * A copy of the PDF with the current annotations written as standard
+	 * PDF annotations, appended as an incremental update. Annotations read
+	 * from the file are replaced, so edits and deletions carry over.
+	 */
+	async exportPDF(): Promise<Blob> {
+		if (!this.pdfDocument) {
+			throw new Error("No PDF document is loaded");
+		}
+		await this.importPDFAnnotations();
+
+		const file = await PdfFile.open(await this.pdfDocument.getData());
+		if (file.trailer.has("Encrypt")) {
+			throw new Error("Annotations cannot be written into an encrypted PDF");
+		}
+
+		const pages = new Set([
+			...this.importedAnnotationIds.keys(),
+			...Array.from(this.annotations.values(), (annotation) => annotation.page ?? 1)
+		]);
+		for (const pageNum of Array.from(pages).sort((a, b) => a - b)) {
+			if (pageNum < 1 || pageNum > this.totalPages) continue;
+
+			const page = await this.pdfDocument.getPage(pageNum);
+			const pageRef = new PdfRef(page.ref.num, page.ref.gen);
+			const pageDict = await file.getObject(pageRef.num);
+			if (!(pageDict instanceof Map)) continue;
+
+			const replaced = new Set(this.importedAnnotationIds.get(pageNum));
+			const existing = await file.resolve(pageDict.get("Annots"));
+			const kept = (Array.isArray(existing) ? existing : []).filter(
+				(item) => !(item instanceof PdfRef && replaced.has(PdfAnnotations.refId(item)))
+			);
+			const viewport = page.getViewport({ scale: 1 });
+			const added = this.getAnnotations(pageNum)
+				.map((annotation) => PdfAnnotations.write(annotation, viewport, file, pageRef))
+				.filter((ref): ref is PdfRef => ref !== null);
+
+			const updated = new Map(pageDict);
+			updated.set("Annots", [...kept, ...added]);
+			file.set(pageRef, updated);
+		}
+
+		return new Blob([file.save()], { type: "application/pdf" });
 	}
 
 	async cleanup(): Promise<void> {
+		// Abandon a load still waiting for a password
+		this.pendingPassword?.cancel();
+
+		// Stop searching the previous document and forget its text
+		this.cancelSearch();
+		this.pageTexts.clear();
+
+		// Drop the annotations read from the previous document
+		this.importedAnnotationIds.forEach((ids) =>
+			ids.forEach((id) => this.annotations.delete(`pdf-${id}`))
+		);
+		this.importedAnnotationIds.clear();
+		this.annotationImports.clear();
+		this.removedFileAnnotations.clear();
+		this.rangeFailure = null;
+
 		// Clear search highlights
 		this.clearSearchHighlights();
 
@@ -646,6 +1547,20 @@ export class PDFRenderer extends BaseRenderer {
 			this.documentWrapper.innerHTML = "";
 		}
 
+		// Stop observing and drop rendered pages
+		this.pageObserver?.disconnect();
+		this.pageObserver = null;
+		Array.from(this.renderJobs.keys()).forEach((pageNum) => this.cancelPageRender(pageNum));
+		this.thumbnailJobs.forEach((job) => {
+			job.cancelled = true;
+			job.task?.cancel?.();
+		});
+		this.thumbnailJobs.clear();
+		this.pageElements.forEach((pageElement) => this.releaseCanvas(pageElement));
+		this.visiblePages.clear();
+		this.renderedPages.clear();
+		this.pageSizes = [];
+
 		// Clear page elements array
 		this.pageElements = [];
 
@@ -0,0 +1,675 @@
+import { CompoundFile } from "../core";
+import { readInt16, readInt32, readUint16, readUint32 } from "../core/binary";
+import type { ParsedPresentation, PresentationSlide } from "../types";
+import { escapeHtml, formatPercent } from "./pptx-parser";
+
+/**
+ * PPT Parser
+ * Reads the binary PowerPoint 97-2003 format from its compound file and
+ * converts slide text, pictures and notes into positioned HTML. Fills,
+ * outlines and character formatting are not interpreted.
+ */
+
+// Binary slides are measured in master units, 576 per inch
+const EMU_PER_MASTER_UNIT = 1587.5;
+const MASTER_UNITS_PER_POINT = 8;
+
+// 4:3 on-screen show, used when the document atom is missing
+const DEFAULT_SLIDE_SIZE = { width: 5760, height: 4320 };
+
+const ENCRYPTED_HEADER_TOKEN = 0xf3d1c4df;
+
+const RECORD = {
+	DOCUMENT: 0x03e8,
+	DOCUMENT_ATOM: 0x03e9,
+	SLIDE: 0x03ee,
+	SLIDE_ATOM: 0x03ef,
+	NOTES: 0x03f0,
+	SLIDE_PERSIST_ATOM: 0x03f3,
+	MAIN_MASTER: 0x03f8,
+	DRAWING_GROUP: 0x040b,
+	DRAWING: 0x040c,
+	OUTLINE_TEXT_REF_ATOM: 0x0f9e,
+	TEXT_HEADER_ATOM: 0x0f9f,
+	TEXT_CHARS_ATOM: 0x0fa0,
+	TEXT_BYTES_ATOM: 0x0fa8,
+	SLIDE_LIST_WITH_TEXT: 0x0ff0,
+	USER_EDIT_ATOM: 0x0ff5,
+	PERSIST_DIRECTORY_ATOM: 0x1772,
+	DGG_CONTAINER: 0xf000,
+	BSTORE_CONTAINER: 0xf001,
+	DG_CONTAINER: 0xf002,
+	SPGR_CONTAINER: 0xf003,
+	SP_CONTAINER: 0xf004,
+	FBSE: 0xf007,
+	FSPGR: 0xf009,
+	FSP: 0xf00a,
+	FOPT: 0xf00b,
+	CLIENT_TEXTBOX: 0xf00d,
+	CHILD_ANCHOR: 0xf00f,
+	CLIENT_ANCHOR: 0xf010
+};
+
+const SLIDE_LIST_INSTANCE = { SLIDES: 0, NOTES: 2 };
+
+const TEXT_TYPE = { TITLE: 0, BODY: 1, NOTES: 2, CENTER_TITLE: 6 };
+
+// Default sizes in points, the binary format keeps real sizes in style atoms
+const FONT_SIZES: Record<number, number> = {
+	[TEXT_TYPE.TITLE]: 40,
+	[TEXT_TYPE.CENTER_TITLE]: 40,
+	[TEXT_TYPE.BODY]: 24
+};
+const DEFAULT_FONT_SIZE = 18;
+
+const BLIP_TYPES: Record<number, string> = {
+	0xf01d: "image/jpeg",
+	0xf01e: "image/png",
+	0xf02a: "image/jpeg"
+};
+
+const PROPERTY_BLIP_INDEX = 0x0104;
+const SHAPE_DELETED_FLAG = 0x0008;
+
+interface PptRecord {
+	type: number;
+	instance: number;
+	body: number;
+	length: number;
+}
+
+interface SlideText {
+	type: number;
+	text: string;
+}
+
+interface SlideEntry {
+	persistId: number;
+	slideId: number;
+	texts: SlideText[];
+}
+
+interface Rect {
+	x: number;
+	y: number;
+	cx: number;
+	cy: number;
+}
+
+type Transform = (rect: Rect) => Rect;
+
+interface Shape {
+	rect: Rect;
+	text: SlideText | null;
+	picture: number | null;
+}
+
+const identity: Transform = (rect) => rect;
+
+export class PptParser {
+	private file: CompoundFile;
+	private stream: Uint8Array = new Uint8Array(0);
+	private pictures: Uint8Array | null = null;
+	private persist = new Map<number, number>();
+	private blipOffsets: Array<{ offset: number; embedded: boolean }> = [];
+	private images = new Map<number, string | null>();
+	private resources: string[] = [];
+	private width = DEFAULT_SLIDE_SIZE.width;
+	private height = DEFAULT_SLIDE_SIZE.height;
+
+	constructor(data: ArrayBuffer) {
+		this.file = new CompoundFile(data);
+	}
+
+	static parse(data: ArrayBuffer): ParsedPresentation {
+		return new PptParser(data).parse();
+	}
+
+	/**
+	 * Whether the file is protected with a password, in which case slide
+	 * records are encrypted and nothing beyond the container can be read
+	 */
+	static isEncrypted(data: ArrayBuffer): boolean {
+		try {
+			return PptParser.isEncryptedFile(new CompoundFile(data));
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Best-effort text extraction that scans every text atom outside the
+	 * masters, for files whose slide structure cannot be followed
+	 */
+	static extractText(data: ArrayBuffer): string {
+		let document: Uint8Array | null;
+		try {
+			document = new CompoundFile(data).getStream("PowerPoint Document");
+		} catch {
+			return "";
+		}
+		if (!document) return "";
+
+		const stream = document;
+		const texts: string[] = [];
+		const visit = (start: number, end: number) => {
+			for (let record = readRecord(stream, start); record; ) {
+				if (isContainer(stream, record)) {
+					// Master placeholder prompts are not document content
+					if (record.type !== RECORD.MAIN_MASTER) {
+						visit(record.body, record.body + record.length);
+					}
+				} else {
+					const text = readTextAtom(stream, record);
+					if (text?.trim() && texts[texts.length - 1] !== text) texts.push(text);
+				}
+
+				const next = record.body + record.length;
+				record = next < end ? readRecord(stream, next) : null;
+			}
+		};
+		visit(0, stream.length);
+
+		return texts.map(normalizeText).join("\n");
+	}
+
+	parse(): ParsedPresentation {
+		if (PptParser.isEncryptedFile(this.file)) {
+			throw new Error("Presentation is encrypted");
+		}
+
+		const stream = this.file.getStream("PowerPoint Document");
+		if (!stream) {
+			throw new Error("Missing PowerPoint Document stream");
+		}
+		this.stream = stream;
+		this.pictures = this.file.getStream("Pictures");
+
+		const documentRef = this.readPersistDirectory();
+		const document = this.readPersistRecord(documentRef);
+		if (document?.type !== RECORD.DOCUMENT) {
+			throw new Error("Missing document container");
+		}
+
+		const documentAtom = this.child(document, RECORD.DOCUMENT_ATOM);
+		if (documentAtom) {
+			this.width = readInt32(this.stream, documentAtom.body) || this.width;
+			this.height = readInt32(this.stream, documentAtom.body + 4) || this.height;
+		}
+		this.readBlipStore(document);
+
+		const lists = this.children(document).filter(
+			(record) => record.type === RECORD.SLIDE_LIST_WITH_TEXT
+		);
+		const slideList = lists.find((list) => list.instance === SLIDE_LIST_INSTANCE.SLIDES);
+		const notesList = lists.find((list) => list.instance === SLIDE_LIST_INSTANCE.NOTES);
+
+		const notes = new Map<number, SlideEntry>();
+		this.readSlideList(notesList).forEach((entry) => notes.set(entry.slideId, entry));
+
+		const slides = this.readSlideList(slideList).map((entry, index) =>
+			this.parseSlide(entry, index + 1, notes)
+		);
+
+		const text = slides
+			.map((slide) => `${slide.title} ${slide.text ?? ""} ${slide.notes}`)
+			.join(" ");
+
+		return {
+			slides,
+			text,
+			width: this.width * EMU_PER_MASTER_UNIT,
+			height: this.height * EMU_PER_MASTER_UNIT,
+			resources: this.resources
+		};
+	}
+
+	private static isEncryptedFile(file: CompoundFile): boolean {
+		const currentUser = file.getStream("Current User");
+		return (
+			file.getStream("EncryptedSummary") !== null ||
+			(currentUser !== null && readUint32(currentUser, 12) === ENCRYPTED_HEADER_TOKEN)
+		);
+	}
+
+	/**
+	 * Walk the chain of user edits from the current one backwards, newer
+	 * edits take precedence over the persist offsets of older ones
+	 */
+	private readPersistDirectory(): number {
+		const currentUser = this.file.getStream("Current User");
+		if (!currentUser) {
+			throw new Error("Missing Current User stream");
+		}
+
+		let documentRef: number | null = null;
+		let offset = readUint32(currentUser, 16);
+		const visited = new Set<number>();
+
+		while (!visited.has(offset)) {
+			visited.add(offset);
+			const edit = readRecord(this.stream, offset);
+			if (edit?.type !== RECORD.USER_EDIT_ATOM) break;
+
+			documentRef ??= readUint32(this.stream, edit.body + 16);
+			const directory = readRecord(this.stream, readUint32(this.stream, edit.body + 12));
+			if (directory?.type === RECORD.PERSIST_DIRECTORY_ATOM) {
+				this.readPersistEntries(directory);
+			}
+
+			offset = readUint32(this.stream, edit.body + 8);
+			if (!offset) break;
+		}
+
+		if (documentRef === null) {
+			throw new Error("Missing user edit atom");
+		}
+		return documentRef;
+	}
+
+	private readPersistEntries(directory: PptRecord): void {
+		const end = directory.body + directory.length;
+		let offset = directory.body;
+
+		while (offset + 4 <= end) {
+			const header = readUint32(this.stream, offset);
+			const firstId = header & 0xfffff;
+			const count = header >>> 20;
+			offset += 4;
+
+			for (let i = 0; i < count && offset + 4 <= end; i++, offset += 4) {
+				if (!this.persist.has(firstId + i)) {
+					this.persist.set(firstId + i, readUint32(this.stream, offset));
+				}
+			}
+		}
+	}
+
+	private readPersistRecord(persistId: number): PptRecord | null {
+		const offset = this.persist.get(persistId);
+		return offset === undefined ? null : readRecord(this.stream, offset);
+	}
+
+	/**
+	 * Slides and notes are listed in order, each persist atom followed by
+	 * the outline text of its placeholders
+	 */
+	private readSlideList(list: PptRecord | undefined): SlideEntry[] {
+		const entries: SlideEntry[] = [];
+		let current: SlideEntry | null = null;
+
+		(list ? this.children(list) : []).forEach((record) => {
+			if (record.type === RECORD.SLIDE_PERSIST_ATOM) {
+				current = {
+					persistId: readUint32(this.stream, record.body),
+					slideId: readUint32(this.stream, record.body + 12),
+					texts: []
+				};
+				entries.push(current);
+			} else if (current) {
+				this.collectText(record, current.texts);
+			}
+		});
+
+		return entries;
+	}
+
+	private collectText(record: PptRecord, texts: SlideText[]): void {
+		if (record.type === RECORD.TEXT_HEADER_ATOM) {
+			texts.push({ type: readUint32(this.stream, record.body), text: "" });
+			return;
+		}
+
+		const text = readTextAtom(this.stream, record);
+		if (text === null) return;
+
+		const last = texts[texts.length - 1];
+		if (last && !last.text) last.text = text;
+		else texts.push({ type: TEXT_TYPE.BODY, text });
+	}
+
+	private parseSlide(
+		entry: SlideEntry,
+		index: number,
+		notes: Map<number, SlideEntry>
+	): PresentationSlide {
+		const slide = this.readPersistRecord(entry.persistId);
+		const shapes = slide?.type === RECORD.SLIDE ? this.readDrawing(slide, entry.texts) : [];
+		const texts = shapes.map((shape) => shape.text).filter(isText);
+		if (!texts.length) {
+			// Without a drawing, lay the outline text out as title and body
+			texts.push(...entry.texts.filter(isText));
+			shapes.push(...this.defaultLayout(entry.texts));
+		}
+
+		const title = texts.find(
+			(text) => text.type === TEXT_TYPE.TITLE || text.type === TEXT_TYPE.CENTER_TITLE
+		);
+
+		return {
+			id: index,
+			title: title ? normalizeText(title.text) : `Slide ${index}`,
+			content: `<div class="buka-slide-canvas" style="position: relative; width: 100%; height: 100%; overflow: hidden; container-type: inline-size;">${shapes.map((shape) => this.renderShape(shape)).join("")}</div>`,
+			notes: slide ? this.readNotes(slide, notes) : "",
+			layout: "ppt",
+			background: "#ffffff",
+			text: texts.map((text) => normalizeText(text.text)).join(" ")
+		};
+	}
+
+	private readNotes(slide: PptRecord, notes: Map<number, SlideEntry>): string {
+		const slideAtom = this.child(slide, RECORD.SLIDE_ATOM);
+		const entry = slideAtom ? notes.get(readUint32(this.stream, slideAtom.body + 16)) : null;
+		if (!entry) return "";
+
+		const container = this.readPersistRecord(entry.persistId);
+		const shapes =
+			container?.type === RECORD.NOTES ? this.readDrawing(container, entry.texts) : [];
+		return [...entry.texts, ...shapes.map((shape) => shape.text).filter(isText)]
+			.filter((text) => text.type === TEXT_TYPE.NOTES)
+			.map((text) => normalizeText(text.text))
+			.join("\n");
+	}
+
+	private readDrawing(container: PptRecord, outline: SlideText[]): Shape[] {
+		const drawing = this.child(
+			this.child(this.child(container, RECORD.DRAWING), RECORD.DG_CONTAINER),
+			RECORD.SPGR_CONTAINER
+		);
+		const shapes: Shape[] = [];
+		if (drawing) this.readGroup(drawing, identity, outline, shapes);
+		return shapes;
+	}
+
+	/**
+	 * The first shape of a group describes the group itself, its children
+	 * are positioned in the coordinate space it declares
+	 */
+	private readGroup(
+		group: PptRecord,
+		transform: Transform,
+		outline: SlideText[],
+		shapes: Shape[]
+	): void {
+		let childTransform = transform;
+
+		this.children(group).forEach((record, index) => {
+			if (record.type === RECORD.SPGR_CONTAINER) {
+				this.readGroup(record, childTransform, outline, shapes);
+			} else if (record.type === RECORD.SP_CONTAINER && index === 0) {
+				childTransform = this.composeGroupTransform(record, transform);
+			} else if (record.type === RECORD.SP_CONTAINER) {
+				const shape = this.readShape(record, childTransform, outline);
+				if (shape) shapes.push(shape);
+			}
+		});
+	}
+
+	private composeGroupTransform(group: PptRecord, parent: Transform): Transform {
+		const rect = this.readAnchor(group);
+		const space = this.child(group, RECORD.FSPGR);
+		if (!rect || !space) return parent;
+
+		const bounds = readBounds(this.stream, space.body);
+		const scaleX = bounds.cx ? rect.cx / bounds.cx : 1;
+		const scaleY = bounds.cy ? rect.cy / bounds.cy : 1;
+
+		return (box) =>
+			parent({
+				x: rect.x + (box.x - bounds.x) * scaleX,
+				y: rect.y + (box.y - bounds.y) * scaleY,
+				cx: box.cx * scaleX,
+				cy: box.cy * scaleY
+			});
+	}
+
+	private readShape(
+		container: PptRecord,
+		transform: Transform,
+		outline: SlideText[]
+	): Shape | null {
+		const shapeAtom = this.child(container, RECORD.FSP);
+		if (shapeAtom && readUint32(this.stream, shapeAtom.body + 4) & SHAPE_DELETED_FLAG) {
+			return null;
+		}
+
+		const rect = this.readAnchor(container);
+		if (!rect) return null;
+
+		let text: SlideText | null = null;
+		const textbox = this.child(container, RECORD.CLIENT_TEXTBOX);
+		if (textbox) {
+			const texts: SlideText[] = [];
+			this.children(textbox).forEach((record) => {
+				if (record.type === RECORD.OUTLINE_TEXT_REF_ATOM) {
+					const reference = outline[readInt32(this.stream, record.body)];
+					if (reference) texts.push(reference);
+				} else {
+					this.collectText(record, texts);
+				}
+			});
+			text = texts.find((candidate) => candidate.text) ?? null;
+		}
+
+		const picture = this.readProperty(container, PROPERTY_BLIP_INDEX);
+		if (!text && !picture) return null;
+
+		return { rect: transform(rect), text, picture };
+	}
+
+	private readAnchor(container: PptRecord): Rect | null {
+		const childAnchor = this.child(container, RECORD.CHILD_ANCHOR);
+		if (childAnchor) return readBounds(this.stream, childAnchor.body);
+
+		const anchor = this.child(container, RECORD.CLIENT_ANCHOR);
+		if (!anchor) return null;
+
+		// Client anchors are stored top, left, right, bottom
+		const read = anchor.length >= 16 ? readInt32 : readInt16;
+		const size = anchor.length >= 16 ? 4 : 2;
+		const top = read(this.stream, anchor.body);
+		const left = read(this.stream, anchor.body + size);
+		const right = read(this.stream, anchor.body + size * 2);
+		const bottom = read(this.stream, anchor.body + size * 3);
+		return { x: left, y: top, cx: right - left, cy: bottom - top };
+	}
+
+	private readProperty(container: PptRecord, id: number): number | null {
+		const options = this.child(container, RECORD.FOPT);
+		if (!options) return null;
+
+		for (let i = 0; i < options.instance; i++) {
+			const offset = options.body + i * 6;
+			if (offset + 6 > options.body + options.length) break;
+			if ((readUint16(this.stream, offset) & 0x3fff) === id) {
+				return readUint32(this.stream, offset + 2);
+			}
+		}
+		return null;
+	}
+
+	private readBlipStore(document: PptRecord): void {
+		const store = this.child(
+			this.child(this.child(document, RECORD.DRAWING_GROUP), RECORD.DGG_CONTAINER),
+			RECORD.BSTORE_CONTAINER
+		);
+
+		this.blipOffsets = (store ? this.children(store) : [])
+			.filter((record) => record.type === RECORD.FBSE)
+			.map((record) => {
+				// Blips live in the Pictures stream unless embedded after the entry name
+				const nameLength = this.stream[record.body + 33] ?? 0;
+				const embedded = record.length > 36 + nameLength;
+				return {
+					offset: embedded
+						? record.body + 36 + nameLength
+						: readUint32(this.stream, record.body + 28),
+					embedded
+				};
+			});
+	}
+
+	private getPictureUrl(index: number): string | null {
+		if (this.images.has(index)) return this.images.get(index) ?? null;
+
+		const location = this.blipOffsets[index - 1];
+		const bytes = location?.embedded ? this.stream : this.pictures;
+		let url: string | null = null;
+
+		const blip = location && bytes ? readRecord(bytes, location.offset) : null;
+		const mimeType = blip ? BLIP_TYPES[blip.type] : undefined;
+		if (bytes && blip && mimeType) {
+			// One or two 16 byte UIDs and a tag byte precede the image data
+			const header = (blip.instance & 1 ? 32 : 16) + 1;
+			const data = bytes.slice(blip.body + header, blip.body + blip.length);
+			url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+			this.resources.push(url);
+		}
+
+		this.images.set(index, url);
+		return url;
+	}
+
+	private defaultLayout(texts: SlideText[]): Shape[] {
+		let top = 0.05;
+		return texts
+			.filter((text) => text.text)
+			.map((text) => {
+				const isTitle =
+					text.type === TEXT_TYPE.TITLE || text.type === TEXT_TYPE.CENTER_TITLE;
+				const height = isTitle ? 0.2 : 0.65;
+				const rect = {
+					x: this.width * 0.05,
+					y: this.height * top,
+					cx: this.width * 0.9,
+					cy: this.height * height
+				};
+				top = Math.min(top + height + 0.03, 0.9);
+				return { rect, text, picture: null };
+			});
+	}
+
+	private renderShape(shape: Shape): string {
+		const position = [
+			"position: absolute",
+			`left: ${formatPercent(shape.rect.x / this.width)}%`,
+			`top: ${formatPercent(shape.rect.y / this.height)}%`,
+			`width: ${formatPercent(shape.rect.cx / this.width)}%`,
+			`height: ${formatPercent(shape.rect.cy / this.height)}%`,
+			"box-sizing: border-box"
+		].join("; ");
+
+		const url = shape.picture ? this.getPictureUrl(shape.picture) : null;
+		if (url && !shape.text) {
+			return `<img class="buka-slide-image" src="${escapeHtml(url)}" alt="" style="${position}; object-fit: fill" />`;
+		}
+		if (!shape.text) return "";
+
+		const type = shape.text.type;
+		const fontSize = (FONT_SIZES[type] ?? DEFAULT_FONT_SIZE) * MASTER_UNITS_PER_POINT;
+		const css = [
+			"display: flex",
+			"flex-direction: column",
+			`justify-content: ${type === TEXT_TYPE.BODY ? "flex-start" : "center"}`,
+			"width: 100%",
+			"height: 100%",
+			"box-sizing: border-box",
+			"padding: 0.8cqw 1.2cqw",
+			`font-size: ${formatPercent(fontSize / this.width, 4)}cqw`,
+			`text-align: ${type === TEXT_TYPE.CENTER_TITLE ? "center" : "left"}`,
+			"overflow-wrap: break-word"
+		];
+		if (type === TEXT_TYPE.TITLE || type === TEXT_TYPE.CENTER_TITLE) {
+			css.push("font-weight: bold");
+		}
+
+		// Paragraphs end with a carriage return, vertical tabs are line breaks
+		const paragraphs = shape.text.text
+			.split("\r")
+			.map(
+				(paragraph) =>
+					`<p style="margin: 0">${paragraph.split("\x0B").map(escapeHtml).join("<br>") || "<br>"}</p>`
+			)
+			.join("");
+
+		return `<div class="buka-slide-shape" style="${position}"><div class="buka-slide-text" style="${css.join("; ")}">${paragraphs}</div></div>`;
+	}
+
+	private child(record: PptRecord | null, type: number): PptRecord | null {
+		return record
+			? (this.children(record).find((candidate) => candidate.type === type) ?? null)
+			: null;
+	}
+
+	private children(record: PptRecord): PptRecord[] {
+		if (!isContainer(this.stream, record)) return [];
+
+		const records: PptRecord[] = [];
+		const end = record.body + record.length;
+		for (let child = readRecord(this.stream, record.body); child; ) {
+			records.push(child);
+			const next = child.body + child.length;
+			child = next < end ? readRecord(this.stream, next) : null;
+		}
+		return records;
+	}
+}
+
+/**
+ * Record header: version and instance, record type and body length
+ */
+function readRecord(bytes: Uint8Array, offset: number): PptRecord | null {
+	if (offset < 0 || offset + 8 > bytes.length) return null;
+
+	const versionAndInstance = readUint16(bytes, offset);
+	const body = offset + 8;
+	return {
+		type: readUint16(bytes, offset + 2),
+		instance: versionAndInstance >>> 4,
+		body,
+		length: Math.min(readUint32(bytes, offset + 4), bytes.length - body)
+	};
+}
+
+function isContainer(bytes: Uint8Array, record: PptRecord): boolean {
+	return ((bytes[record.body - 8] ?? 0) & 0x0f) === 0x0f;
+}
+
+function readTextAtom(bytes: Uint8Array, record: PptRecord): string | null {
+	let text = "";
+	if (record.type === RECORD.TEXT_CHARS_ATOM) {
+		for (let i = 0; i + 1 < record.length; i += 2) {
+			text += String.fromCharCode(readUint16(bytes, record.body + i));
+		}
+		return text;
+	}
+	if (record.type === RECORD.TEXT_BYTES_ATOM) {
+		for (let i = 0; i < record.length; i++) {
+			text += String.fromCharCode(bytes[record.body + i] ?? 0);
+		}
+		return text;
+	}
+	return null;
+}
+
+/**
+ * Bounds stored as left, top, right, bottom 32-bit integers
+ */
+function readBounds(bytes: Uint8Array, offset: number): Rect {
+	const left = readInt32(bytes, offset);
+	const top = readInt32(bytes, offset + 4);
+	return {
+		x: left,
+		y: top,
+		cx: readInt32(bytes, offset + 8) - left,
+		cy: readInt32(bytes, offset + 12) - top
+	};
+}
+
+function normalizeText(text: string): string {
+	return text.split("\x0B").join("\n").split("\r").join("\n").trim();
+}
+
+function isText(text: SlideText | null): text is SlideText {
+	return text !== null && text.text !== "";
+}
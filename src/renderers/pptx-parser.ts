@@ -0,0 +1,1306 @@
+import { ZipArchive } from "../core";
+import type { ZipEntry } from "../core";
+import type { ParsedPresentation, PresentationSlide } from "../types";
+
+/**
+ * PPTX Parser
+ * Reads an OOXML presentation package and converts every slide, including
+ * the shapes inherited from its layout and master, into positioned HTML
+ */
+
+const EMU_PER_POINT = 12700;
+
+// 16:9 widescreen, used when presentation.xml omits the slide size
+const DEFAULT_SLIDE_SIZE = { width: 12192000, height: 6858000 };
+
+const DEFAULT_FONT_SIZE = 1800;
+
+const DEFAULT_COLOR_MAP: Record<string, string> = {
+	bg1: "lt1",
+	tx1: "dk1",
+	bg2: "lt2",
+	tx2: "dk2"
+};
+
+const PRESET_COLORS: Record<string, string> = {
+	black: "000000",
+	white: "FFFFFF",
+	red: "FF0000",
+	green: "008000",
+	blue: "0000FF",
+	yellow: "FFFF00",
+	gray: "808080",
+	orange: "FFA500"
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	bmp: "image/bmp",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	tif: "image/tiff",
+	tiff: "image/tiff"
+};
+
+const BULLET_TYPES = ["buNone", "buChar", "buAutoNum", "buBlip"];
+
+const TEXT_ALIGN: Record<string, string> = {
+	l: "left",
+	ctr: "center",
+	r: "right",
+	just: "justify",
+	dist: "justify"
+};
+
+const VERTICAL_ANCHOR: Record<string, string> = {
+	t: "flex-start",
+	ctr: "center",
+	b: "flex-end"
+};
+
+interface Relationship {
+	type: string;
+	target: string;
+	external: boolean;
+}
+
+interface Part {
+	path: string;
+	xml: Document;
+	rels: Map<string, Relationship>;
+}
+
+interface Theme {
+	colors: Map<string, string>;
+	majorFont: string | null;
+	minorFont: string | null;
+}
+
+interface SlideContext {
+	layout: Part | null;
+	master: Part | null;
+	theme: Theme;
+	colorMap: Record<string, string>;
+}
+
+interface Rect {
+	x: number;
+	y: number;
+	cx: number;
+	cy: number;
+}
+
+type Transform = (rect: Rect) => Rect;
+
+interface TextStyles {
+	listStyles: Element[];
+	bodyProperties: Element[];
+	fontColor: string | null;
+}
+
+export class PptxParser {
+	private archive: Uint8Array;
+	private entries = new Map<string, ZipEntry>();
+	private parts = new Map<string, Promise<Part | null>>();
+	private themes = new Map<string, Promise<Theme>>();
+	private images = new Map<string, Promise<string | null>>();
+	private resources: string[] = [];
+	private width = DEFAULT_SLIDE_SIZE.width;
+	private height = DEFAULT_SLIDE_SIZE.height;
+	private defaultTextStyle: Element | null = null;
+
+	constructor(data: ArrayBuffer) {
+		this.archive = new Uint8Array(data);
+	}
+
+	static parse(data: ArrayBuffer): Promise<ParsedPresentation> {
+		return new PptxParser(data).parse();
+	}
+
+	async parse(): Promise<ParsedPresentation> {
+		const entries = ZipArchive.readEntries(this.archive);
+		if (!entries) {
+			throw new Error("Not a valid PPTX package");
+		}
+		entries.forEach((entry) => this.entries.set(entry.name, entry));
+
+		const presentation = await this.loadPart("ppt/presentation.xml");
+		if (!presentation) {
+			throw new Error("Missing ppt/presentation.xml");
+		}
+
+		const root = presentation.xml.documentElement;
+		const slideSize = child(root, "sldSz");
+		if (slideSize) {
+			this.width = intAttr(slideSize, "cx") ?? this.width;
+			this.height = intAttr(slideSize, "cy") ?? this.height;
+		}
+		this.defaultTextStyle = child(root, "defaultTextStyle");
+
+		const slideIds = children(child(root, "sldIdLst"), "sldId");
+		const slides: PresentationSlide[] = [];
+
+		for (const slideId of slideIds) {
+			const rel = presentation.rels.get(relAttr(slideId, "id") ?? "");
+			if (!rel) continue;
+
+			const part = await this.loadPart(rel.target);
+			if (part) {
+				slides.push(await this.parseSlide(part, slides.length + 1));
+			}
+		}
+
+		const text = slides
+			.map((slide) => `${slide.title} ${slide.text ?? ""} ${slide.notes}`)
+			.join(" ");
+
+		return {
+			slides,
+			text,
+			width: this.width,
+			height: this.height,
+			resources: this.resources
+		};
+	}
+
+	private async parseSlide(slide: Part, index: number): Promise<PresentationSlide> {
+		const layout = await this.loadRelatedPart(slide, "slideLayout");
+		const master = layout ? await this.loadRelatedPart(layout, "slideMaster") : null;
+		const context: SlideContext = {
+			layout,
+			master,
+			theme: await this.loadTheme(master),
+			colorMap: readColorMap(master)
+		};
+
+		const shapes: string[] = [];
+		const texts: string[] = [];
+		const slideRoot = slide.xml.documentElement;
+		const showMasterShapes =
+			slideRoot.getAttribute("showMasterSp") !== "0" &&
+			layout?.xml.documentElement.getAttribute("showMasterSp") !== "0";
+
+		if (master && showMasterShapes) {
+			shapes.push(await this.renderShapeTree(master, context, identity, false));
+		}
+		if (layout && slideRoot.getAttribute("showMasterSp") !== "0") {
+			shapes.push(await this.renderShapeTree(layout, context, identity, false));
+		}
+		shapes.push(await this.renderShapeTree(slide, context, identity, true, texts));
+
+		const notesPart = await this.loadRelatedPart(slide, "notesSlide");
+		const layoutName =
+			layout?.xml.documentElement.getAttribute("type") ??
+			child(layout?.xml.documentElement, "cSld")?.getAttribute("name") ??
+			"custom";
+
+		return {
+			id: index,
+			title: this.findTitle(slide) || `Slide ${index}`,
+			content: `<div class="buka-slide-canvas" style="position: relative; width: 100%; height: 100%; overflow: hidden; container-type: inline-size;">${shapes.join("")}</div>`,
+			notes: notesPart ? this.readNotes(notesPart) : "",
+			layout: layoutName,
+			background: await this.resolveBackground(slide, context),
+			text: texts.join(" ")
+		};
+	}
+
+	private async renderShapeTree(
+		part: Part,
+		context: SlideContext,
+		transform: Transform,
+		includePlaceholders: boolean,
+		texts: string[] = []
+	): Promise<string> {
+		const tree = child(child(part.xml.documentElement, "cSld"), "spTree");
+		return this.renderShapes(tree, part, context, transform, includePlaceholders, texts);
+	}
+
+	private async renderShapes(
+		tree: Element | null,
+		part: Part,
+		context: SlideContext,
+		transform: Transform,
+		includePlaceholders: boolean,
+		texts: string[]
+	): Promise<string> {
+		const html: string[] = [];
+
+		for (const element of elementChildren(tree)) {
+			switch (element.localName) {
+				case "sp":
+				case "cxnSp":
+					if (!includePlaceholders && getPlaceholder(element)) break;
+					html.push(await this.renderShape(element, part, context, transform, texts));
+					break;
+				case "pic":
+					html.push(await this.renderPicture(element, part, transform));
+					break;
+				case "grpSp":
+					html.push(
+						await this.renderShapes(
+							element,
+							part,
+							context,
+							composeGroupTransform(element, transform),
+							includePlaceholders,
+							texts
+						)
+					);
+					break;
+				case "graphicFrame":
+					html.push(this.renderGraphicFrame(element, context, transform, texts));
+					break;
+			}
+		}
+
+		return html.join("");
+	}
+
+	private async renderShape(
+		shape: Element,
+		part: Part,
+		context: SlideContext,
+		transform: Transform,
+		texts: string[]
+	): Promise<string> {
+		const placeholder = getPlaceholder(shape);
+		const inherited = placeholder ? this.findInheritedPlaceholders(placeholder, context) : [];
+		const shapeProperties = child(shape, "spPr");
+		const xfrm =
+			child(shapeProperties, "xfrm") ??
+			inherited.map((source) => child(child(source, "spPr"), "xfrm")).find(Boolean) ??
+			null;
+		const rect = readRect(xfrm);
+		if (!rect) return "";
+
+		const box = transform(rect);
+		const geometry = child(shapeProperties, "prstGeom")?.getAttribute("prst") ?? "rect";
+		const style = child(shape, "style");
+		const line = this.resolveLine(shapeProperties, style, context);
+
+		if (geometry === "line" || shape.localName === "cxnSp") {
+			return this.renderLine(box, xfrm, line);
+		}
+
+		const css = [this.positionStyle(box, xfrm)];
+		const fill = await this.resolveFill(shapeProperties, part, context, style);
+		if (fill) css.push(`background: ${fill}`);
+		if (line) css.push(`border: ${this.toCqw(line.width)} solid ${line.color}`);
+		if (geometry === "ellipse") css.push("border-radius: 50%");
+		if (geometry === "roundRect") {
+			css.push(`border-radius: ${this.toCqw(Math.min(box.cx, box.cy) * 0.1667)}`);
+		}
+
+		const textBody = child(shape, "txBody");
+		let text = "";
+		if (textBody) {
+			const styles = this.getTextStyles(shape, placeholder, inherited, context);
+			text = this.renderTextBody(textBody, styles, part, context);
+			texts.push(getText(textBody));
+		}
+
+		return `<div class="buka-slide-shape" style="${css.join("; ")}">${text}</div>`;
+	}
+
+	private renderLine(
+		box: Rect,
+		xfrm: Element | null,
+		line: { color: string; width: number } | null
+	): string {
+		if (!line) return "";
+
+		const flipH = xfrm?.getAttribute("flipH") === "1";
+		const flipV = xfrm?.getAttribute("flipV") === "1";
+		const [x1, x2] = flipH ? [box.cx, 0] : [0, box.cx];
+		const [y1, y2] = flipV ? [box.cy, 0] : [0, box.cy];
+
+		return `<svg class="buka-slide-shape" style="${this.positionStyle(box)}; overflow: visible" viewBox="0 0 ${Math.max(box.cx, 1)} ${Math.max(box.cy, 1)}" preserveAspectRatio="none"><line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${line.color}" stroke-width="${line.width}" /></svg>`;
+	}
+
+	private async renderPicture(
+		picture: Element,
+		part: Part,
+		transform: Transform
+	): Promise<string> {
+		const xfrm = child(child(picture, "spPr"), "xfrm");
+		const rect = readRect(xfrm);
+		const embed = relAttr(child(child(picture, "blipFill"), "blip"), "embed");
+		if (!rect || !embed) return "";
+
+		const url = await this.getImageUrl(part, embed);
+		if (!url) return "";
+
+		const description = child(child(picture, "nvPicPr"), "cNvPr")?.getAttribute("descr") ?? "";
+		return `<img class="buka-slide-image" src="${escapeHtml(url)}" alt="${escapeHtml(description)}" style="${this.positionStyle(transform(rect), xfrm)}; object-fit: fill" />`;
+	}
+
+	private renderGraphicFrame(
+		frame: Element,
+		context: SlideContext,
+		transform: Transform,
+		texts: string[]
+	): string {
+		const table = child(child(child(frame, "graphic"), "graphicData"), "tbl");
+		const xfrm = child(frame, "xfrm");
+		const rect = readRect(xfrm);
+		if (!table || !rect) return "";
+
+		const box = transform(rect);
+		const columns = children(child(table, "tblGrid"), "gridCol").map(
+			(column) => intAttr(column, "w") ?? 0
+		);
+		const tableWidth = columns.reduce((sum, width) => sum + width, 0) || rect.cx;
+		const colgroup = columns
+			.map((width) => `<col style="width: ${formatPercent(width / tableWidth)}%" />`)
+			.join("");
+
+		const rows = children(table, "tr").map((row) => {
+			const cells = children(row, "tc")
+				.filter(
+					(cell) =>
+						cell.getAttribute("hMerge") !== "1" && cell.getAttribute("vMerge") !== "1"
+				)
+				.map((cell) => {
+					const cellProperties = child(cell, "tcPr");
+					const css = ["vertical-align: top", "padding: 0.4cqw 0.6cqw"];
+					const fill = this.resolveSolidFill(cellProperties, context);
+					if (fill) css.push(`background: ${fill}`);
+
+					for (const [side, name] of [
+						["left", "lnL"],
+						["right", "lnR"],
+						["top", "lnT"],
+						["bottom", "lnB"]
+					] as const) {
+						const border = this.resolveLine(cellProperties, null, context, name);
+						if (border) {
+							css.push(
+								`border-${side}: ${this.toCqw(border.width)} solid ${border.color}`
+							);
+						}
+					}
+
+					const spans = [
+						cell.getAttribute("gridSpan")
+							? ` colspan="${intAttr(cell, "gridSpan")}"`
+							: "",
+						cell.getAttribute("rowSpan") ? ` rowspan="${intAttr(cell, "rowSpan")}"` : ""
+					].join("");
+
+					const textBody = child(cell, "txBody");
+					let text = "";
+					if (textBody) {
+						text = this.renderParagraphs(
+							textBody,
+							this.getTableTextStyles(textBody),
+							context
+						);
+						texts.push(getText(textBody));
+					}
+
+					return `<td${spans} style="${css.join("; ")}">${text}</td>`;
+				});
+
+			return `<tr>${cells.join("")}</tr>`;
+		});
+
+		return `<table class="buka-slide-table" style="${this.positionStyle(box)}; height: auto; border-collapse: collapse; table-layout: fixed"><colgroup>${colgroup}</colgroup>${rows.join("")}</table>`;
+	}
+
+	private renderTextBody(
+		textBody: Element,
+		styles: TextStyles,
+		part: Part,
+		context: SlideContext
+	): string {
+		const bodyProperties = [child(textBody, "bodyPr"), ...styles.bodyProperties].filter(
+			isElement
+		);
+		const anchor = firstAttr(bodyProperties, "anchor") ?? "t";
+		const insets = {
+			left: intAttr(firstWith(bodyProperties, "lIns"), "lIns") ?? 91440,
+			right: intAttr(firstWith(bodyProperties, "rIns"), "rIns") ?? 91440,
+			top: intAttr(firstWith(bodyProperties, "tIns"), "tIns") ?? 45720,
+			bottom: intAttr(firstWith(bodyProperties, "bIns"), "bIns") ?? 45720
+		};
+
+		const css = [
+			"display: flex",
+			"flex-direction: column",
+			`justify-content: ${VERTICAL_ANCHOR[anchor] ?? "flex-start"}`,
+			"width: 100%",
+			"height: 100%",
+			"box-sizing: border-box",
+			`padding: ${this.toCqw(insets.top)} ${this.toCqw(insets.right)} ${this.toCqw(insets.bottom)} ${this.toCqw(insets.left)}`,
+			"overflow-wrap: break-word"
+		];
+
+		return `<div class="buka-slide-text" style="${css.join("; ")}">${this.renderParagraphs(textBody, styles, context, part)}</div>`;
+	}
+
+	private renderParagraphs(
+		textBody: Element,
+		styles: TextStyles,
+		context: SlideContext,
+		part?: Part
+	): string {
+		const autofit = child(child(textBody, "bodyPr"), "normAutofit");
+		const fontScale = (intAttr(autofit, "fontScale") ?? 100000) / 100000;
+		const counters: number[] = [];
+
+		return children(textBody, "p")
+			.map((paragraph) => {
+				const paragraphProperties = child(paragraph, "pPr");
+				const level = intAttr(paragraphProperties, "lvl") ?? 0;
+				const levelProperties = styles.listStyles
+					.map((listStyle) => child(listStyle, `lvl${level + 1}pPr`))
+					.filter(isElement);
+				const sources = [paragraphProperties, ...levelProperties].filter(isElement);
+				const runDefaults = sources
+					.map((source) => child(source, "defRPr"))
+					.filter(isElement);
+
+				const css = ["margin: 0"];
+				const align = firstAttr(sources, "algn");
+				if (align && TEXT_ALIGN[align]) css.push(`text-align: ${TEXT_ALIGN[align]}`);
+
+				const marginLeft = intAttr(firstWith(sources, "marL"), "marL") ?? 0;
+				const indent = intAttr(firstWith(sources, "indent"), "indent") ?? 0;
+				if (marginLeft) css.push(`padding-left: ${this.toCqw(marginLeft)}`);
+				if (indent) css.push(`text-indent: ${this.toCqw(indent)}`);
+
+				const spaceBefore = readSpacing(sources, "spcBef");
+				const spaceAfter = readSpacing(sources, "spcAft");
+				if (spaceBefore) {
+					css.push(`margin-top: ${this.pointsToCqw(spaceBefore * fontScale)}`);
+				}
+				if (spaceAfter) {
+					css.push(`margin-bottom: ${this.pointsToCqw(spaceAfter * fontScale)}`);
+				}
+
+				const lineSpacing = intAttr(child(firstChild(sources, "lnSpc"), "spcPct"), "val");
+				if (lineSpacing) css.push(`line-height: ${(lineSpacing / 100000) * 1.2}`);
+
+				counters.length = level + 1;
+				const runs = this.renderRuns(
+					paragraph,
+					runDefaults,
+					styles,
+					context,
+					fontScale,
+					part
+				);
+				let bullet = "";
+				if (runs.text) {
+					bullet = this.renderBullet(
+						sources,
+						runDefaults,
+						level,
+						counters,
+						styles,
+						context,
+						fontScale
+					);
+				}
+				const endProperties = child(paragraph, "endParaRPr");
+				const emptyStyle = this.runStyle(
+					[endProperties, ...runDefaults].filter(isElement),
+					styles,
+					context,
+					fontScale
+				);
+
+				const content = runs.text ? runs.html : `<span style="${emptyStyle}">&nbsp;</span>`;
+				return `<p style="${css.join("; ")}">${bullet}${content}</p>`;
+			})
+			.join("");
+	}
+
+	private renderRuns(
+		paragraph: Element,
+		runDefaults: Element[],
+		styles: TextStyles,
+		context: SlideContext,
+		fontScale: number,
+		part?: Part
+	): { html: string; text: string } {
+		let html = "";
+		let text = "";
+
+		for (const element of elementChildren(paragraph)) {
+			if (element.localName === "br") {
+				html += "<br />";
+				continue;
+			}
+			if (element.localName !== "r" && element.localName !== "fld") continue;
+
+			const value = child(element, "t")?.textContent ?? "";
+			if (!value) continue;
+
+			const runProperties = child(element, "rPr");
+			const sources = [runProperties, ...runDefaults].filter(isElement);
+			let span = `<span style="${this.runStyle(sources, styles, context, fontScale)}">${escapeHtml(value)}</span>`;
+
+			const link = part ? this.getHyperlink(part, child(runProperties, "hlinkClick")) : null;
+			if (link) {
+				span = `<a href="${escapeHtml(link)}" target="_blank" rel="noopener noreferrer">${span}</a>`;
+			}
+
+			html += span;
+			text += value;
+		}
+
+		return { html, text };
+	}
+
+	private runStyle(
+		sources: Element[],
+		styles: TextStyles,
+		context: SlideContext,
+		fontScale: number
+	): string {
+		const css: string[] = [];
+		const size = intAttr(firstWith(sources, "sz"), "sz") ?? DEFAULT_FONT_SIZE;
+		css.push(`font-size: ${this.pointsToCqw((size / 100) * fontScale)}`);
+
+		if (firstAttr(sources, "b") === "1") css.push("font-weight: bold");
+		if (firstAttr(sources, "i") === "1") css.push("font-style: italic");
+
+		const decorations: string[] = [];
+		const underline = firstAttr(sources, "u");
+		if (underline && underline !== "none") decorations.push("underline");
+		const strike = firstAttr(sources, "strike");
+		if (strike && strike !== "noStrike") decorations.push("line-through");
+		if (decorations.length) css.push(`text-decoration: ${decorations.join(" ")}`);
+
+		const baseline = intAttr(firstWith(sources, "baseline"), "baseline") ?? 0;
+		if (baseline > 0) css.push("vertical-align: super");
+		if (baseline < 0) css.push("vertical-align: sub");
+
+		const color =
+			sources.map((source) => this.resolveSolidFill(source, context)).find(Boolean) ??
+			styles.fontColor;
+		if (color) css.push(`color: ${color}`);
+
+		const typeface = sources
+			.map((source) => child(source, "latin")?.getAttribute("typeface"))
+			.find(Boolean);
+		const font = this.resolveFont(typeface ?? "+mn-lt", context);
+		if (font) css.push(`font-family: '${font.replace(/['"\\]/g, "")}', sans-serif`);
+
+		return css.join("; ");
+	}
+
+	private renderBullet(
+		sources: Element[],
+		runDefaults: Element[],
+		level: number,
+		counters: number[],
+		styles: TextStyles,
+		context: SlideContext,
+		fontScale: number
+	): string {
+		const bullet = sources
+			.map((source) =>
+				elementChildren(source).find((element) => BULLET_TYPES.includes(element.localName))
+			)
+			.find(Boolean);
+		if (!bullet || bullet.localName === "buNone" || bullet.localName === "buBlip") return "";
+
+		let symbol: string;
+		if (bullet.localName === "buAutoNum") {
+			const start = intAttr(bullet, "startAt") ?? 1;
+			counters[level] = (counters[level] ?? start - 1) + 1;
+			symbol = formatAutoNumber(
+				bullet.getAttribute("type") ?? "arabicPeriod",
+				counters[level] ?? start
+			);
+		} else {
+			symbol = bullet.getAttribute("char") ?? "•";
+		}
+
+		const color = sources
+			.map((source) => child(source, "buClr"))
+			.map((bulletColor) => (bulletColor ? this.resolveColor(bulletColor, context) : null))
+			.find(Boolean);
+		const style = this.runStyle(runDefaults, styles, context, fontScale);
+		return `<span class="buka-slide-bullet" style="${style}${color ? `; color: ${color}` : ""}; display: inline-block; min-width: 1.2em; text-indent: 0">${escapeHtml(symbol)}</span>`;
+	}
+
+	private getTextStyles(
+		shape: Element,
+		placeholder: Element | null,
+		inherited: Element[],
+		context: SlideContext
+	): TextStyles {
+		const textBody = child(shape, "txBody");
+		const listStyles: Array<Element | null> = [child(textBody, "lstStyle")];
+		const bodyProperties: Array<Element | null> = [];
+
+		if (placeholder) {
+			inherited.forEach((source) => {
+				listStyles.push(child(child(source, "txBody"), "lstStyle"));
+				bodyProperties.push(child(child(source, "txBody"), "bodyPr"));
+			});
+
+			const type = placeholder.getAttribute("type");
+			const textStyles = child(context.master?.xml.documentElement, "txStyles");
+			listStyles.push(
+				child(
+					textStyles,
+					type === "title" || type === "ctrTitle" ? "titleStyle" : "bodyStyle"
+				)
+			);
+		} else {
+			listStyles.push(
+				child(child(context.master?.xml.documentElement, "txStyles"), "otherStyle")
+			);
+		}
+		listStyles.push(this.defaultTextStyle);
+
+		const fontReference = child(child(shape, "style"), "fontRef");
+
+		return {
+			listStyles: listStyles.filter(isElement),
+			bodyProperties: bodyProperties.filter(isElement),
+			fontColor: fontReference ? this.resolveColor(fontReference, context) : null
+		};
+	}
+
+	private getTableTextStyles(textBody: Element): TextStyles {
+		return {
+			listStyles: [child(textBody, "lstStyle"), this.defaultTextStyle].filter(isElement),
+			bodyProperties: [],
+			fontColor: null
+		};
+	}
+
+	/**
+	 * Matching placeholder shapes on the layout and master, closest first
+	 */
+	private findInheritedPlaceholders(placeholder: Element, context: SlideContext): Element[] {
+		const type = placeholder.getAttribute("type") ?? "body";
+		const index = placeholder.getAttribute("idx");
+		const matches: Element[] = [];
+
+		const layoutMatch = findPlaceholder(context.layout, (candidate) => {
+			if (index !== null && candidate.getAttribute("idx") === index) return true;
+			return (candidate.getAttribute("type") ?? "body") === type;
+		});
+		if (layoutMatch) matches.push(layoutMatch);
+
+		// Masters only carry the generic title, body and footer placeholders
+		const layoutType = layoutMatch ? getPlaceholder(layoutMatch)?.getAttribute("type") : null;
+		const masterType = normalizePlaceholderType(layoutType ?? type);
+		const masterMatch = findPlaceholder(
+			context.master,
+			(candidate) =>
+				normalizePlaceholderType(candidate.getAttribute("type") ?? "body") === masterType
+		);
+		if (masterMatch) matches.push(masterMatch);
+
+		return matches;
+	}
+
+	private findTitle(slide: Part): string {
+		const tree = child(child(slide.xml.documentElement, "cSld"), "spTree");
+		const title = Array.from(tree?.getElementsByTagNameNS("*", "sp") ?? []).find((shape) => {
+			const type = getPlaceholder(shape)?.getAttribute("type");
+			return type === "title" || type === "ctrTitle";
+		});
+		return title ? getText(child(title, "txBody")).trim() : "";
+	}
+
+	private readNotes(notes: Part): string {
+		const tree = child(child(notes.xml.documentElement, "cSld"), "spTree");
+		return Array.from(tree?.getElementsByTagNameNS("*", "sp") ?? [])
+			.filter((shape) => getPlaceholder(shape)?.getAttribute("type") === "body")
+			.map((shape) => getText(child(shape, "txBody"), "\n"))
+			.join("\n")
+			.trim();
+	}
+
+	private async resolveBackground(slide: Part, context: SlideContext): Promise<string> {
+		for (const part of [slide, context.layout, context.master]) {
+			const background = child(child(part?.xml.documentElement, "cSld"), "bg");
+			if (!part || !background) continue;
+
+			const properties = child(background, "bgPr");
+			if (properties) {
+				const fill = await this.resolveFill(properties, part, context, null);
+				if (fill) return fill;
+			}
+
+			const reference = child(background, "bgRef");
+			const color = reference ? this.resolveColor(reference, context) : null;
+			if (color) return color;
+		}
+
+		return "#ffffff";
+	}
+
+	private async resolveFill(
+		properties: Element | null,
+		part: Part,
+		context: SlideContext,
+		style: Element | null
+	): Promise<string | null> {
+		if (child(properties, "noFill")) return null;
+
+		const solid = this.resolveSolidFill(properties, context);
+		if (solid) return solid;
+
+		const gradient = child(properties, "gradFill");
+		if (gradient) {
+			const stops = children(child(gradient, "gsLst"), "gs")
+				.map((stop) => {
+					const color = this.resolveColor(stop, context);
+					const position = (intAttr(stop, "pos") ?? 0) / 1000;
+					return color ? `${color} ${position}%` : null;
+				})
+				.filter(Boolean);
+			const angle = (intAttr(child(gradient, "lin"), "ang") ?? 0) / 60000;
+			if (stops.length) return `linear-gradient(${angle + 90}deg, ${stops.join(", ")})`;
+		}
+
+		const blip = relAttr(child(child(properties, "blipFill"), "blip"), "embed");
+		if (blip) {
+			const url = await this.getImageUrl(part, blip);
+			// Single quotes keep the value usable inside a style attribute
+			if (url)
+				return `url('${escapeHtml(url.replace(/'/g, "%27"))}') center / cover no-repeat`;
+		}
+
+		// Shapes without explicit fill fall back to their theme style reference
+		const fillReference = child(style, "fillRef");
+		if (fillReference && fillReference.getAttribute("idx") !== "0") {
+			return this.resolveColor(fillReference, context);
+		}
+
+		return null;
+	}
+
+	private resolveSolidFill(properties: Element | null, context: SlideContext): string | null {
+		const fill = child(properties, "solidFill");
+		return fill ? this.resolveColor(fill, context) : null;
+	}
+
+	private resolveLine(
+		properties: Element | null,
+		style: Element | null,
+		context: SlideContext,
+		name: string = "ln"
+	): { color: string; width: number } | null {
+		const line = child(properties, name);
+		if (line && child(line, "noFill")) return null;
+
+		const width = intAttr(line, "w") ?? EMU_PER_POINT * 0.75;
+		const color = this.resolveSolidFill(line, context);
+		if (color) return { color, width };
+
+		const reference = child(style, "lnRef");
+		if (reference && reference.getAttribute("idx") !== "0") {
+			const referenceColor = this.resolveColor(reference, context);
+			if (referenceColor) return { color: referenceColor, width };
+		}
+
+		return null;
+	}
+
+	/**
+	 * Resolve the color element inside `container` to a CSS color
+	 */
+	private resolveColor(container: Element, context: SlideContext): string | null {
+		const element = elementChildren(container).find((candidate) =>
+			["srgbClr", "schemeClr", "sysClr", "prstClr", "scrgbClr"].includes(candidate.localName)
+		);
+		if (!element) return null;
+
+		let hex: string | null = null;
+		switch (element.localName) {
+			case "srgbClr":
+				hex = element.getAttribute("val");
+				break;
+			case "sysClr":
+				hex =
+					element.getAttribute("lastClr") ??
+					(element.getAttribute("val") === "window" ? "FFFFFF" : "000000");
+				break;
+			case "prstClr":
+				hex = PRESET_COLORS[element.getAttribute("val") ?? ""] ?? null;
+				break;
+			case "schemeClr": {
+				const name = element.getAttribute("val") ?? "";
+				hex = context.theme.colors.get(context.colorMap[name] ?? name) ?? null;
+				break;
+			}
+			case "scrgbClr":
+				hex = ["r", "g", "b"]
+					.map((channel) => Math.round(((intAttr(element, channel) ?? 0) / 100000) * 255))
+					.map((value) => value.toString(16).padStart(2, "0"))
+					.join("");
+				break;
+		}
+
+		return hex ? applyColorModifiers(hex, element) : null;
+	}
+
+	private resolveFont(typeface: string, context: SlideContext): string | null {
+		if (typeface === "+mj-lt") return context.theme.majorFont;
+		if (typeface === "+mn-lt") return context.theme.minorFont;
+		return typeface.startsWith("+") ? null : typeface;
+	}
+
+	private getHyperlink(part: Part, hyperlink: Element | null): string | null {
+		const rel = part.rels.get(relAttr(hyperlink, "id") ?? "");
+		if (!rel?.external) return null;
+		return /^(https?:|mailto:)/i.test(rel.target) ? rel.target : null;
+	}
+
+	private positionStyle(box: Rect, xfrm?: Element | null): string {
+		const css = [
+			"position: absolute",
+			`left: ${formatPercent(box.x / this.width)}%`,
+			`top: ${formatPercent(box.y / this.height)}%`,
+			`width: ${formatPercent(box.cx / this.width)}%`,
+			`height: ${formatPercent(box.cy / this.height)}%`,
+			"box-sizing: border-box"
+		];
+
+		const transforms: string[] = [];
+		const rotation = (intAttr(xfrm ?? null, "rot") ?? 0) / 60000;
+		if (rotation) transforms.push(`rotate(${rotation}deg)`);
+		if (xfrm?.getAttribute("flipH") === "1") transforms.push("scaleX(-1)");
+		if (xfrm?.getAttribute("flipV") === "1") transforms.push("scaleY(-1)");
+		if (transforms.length) css.push(`transform: ${transforms.join(" ")}`);
+
+		return css.join("; ");
+	}
+
+	/**
+	 * Convert EMUs to container query units so text scales with the slide
+	 */
+	private toCqw(emu: number): string {
+		return `${formatPercent(emu / this.width, 4)}cqw`;
+	}
+
+	private pointsToCqw(points: number): string {
+		return this.toCqw(points * EMU_PER_POINT);
+	}
+
+	private async getImageUrl(part: Part, id: string): Promise<string | null> {
+		const rel = part.rels.get(id);
+		if (!rel) return null;
+		if (rel.external) return /^https?:/i.test(rel.target) ? rel.target : null;
+
+		let url = this.images.get(rel.target);
+		if (!url) {
+			url = this.readImage(rel.target);
+			this.images.set(rel.target, url);
+		}
+		return url;
+	}
+
+	private async readImage(path: string): Promise<string | null> {
+		const data = await this.readEntry(path);
+		if (!data) return null;
+
+		const extension = path.split(".").pop()?.toLowerCase() ?? "";
+		const blob = new Blob([data.slice()], { type: IMAGE_TYPES[extension] ?? "" });
+		const url = URL.createObjectURL(blob);
+		this.resources.push(url);
+		return url;
+	}
+
+	private async loadRelatedPart(part: Part, type: string): Promise<Part | null> {
+		const rel = Array.from(part.rels.values()).find(
+			(candidate) => !candidate.external && candidate.type.endsWith(`/${type}`)
+		);
+		return rel ? this.loadPart(rel.target) : null;
+	}
+
+	private loadPart(path: string): Promise<Part | null> {
+		let part = this.parts.get(path);
+		if (!part) {
+			part = this.readPart(path);
+			this.parts.set(path, part);
+		}
+		return part;
+	}
+
+	private async readPart(path: string): Promise<Part | null> {
+		const xml = await this.readXml(path);
+		if (!xml) return null;
+
+		const separator = path.lastIndexOf("/");
+		const relsPath = `${path.slice(0, separator + 1)}_rels/${path.slice(separator + 1)}.rels`;
+		const relsXml = await this.readXml(relsPath);
+		const rels = new Map<string, Relationship>();
+
+		Array.from(relsXml?.getElementsByTagNameNS("*", "Relationship") ?? []).forEach((rel) => {
+			const id = rel.getAttribute("Id");
+			const target = rel.getAttribute("Target");
+			if (!id || !target) return;
+
+			const external = rel.getAttribute("TargetMode") === "External";
+			rels.set(id, {
+				type: rel.getAttribute("Type") ?? "",
+				target: external ? target : resolvePath(path, target),
+				external
+			});
+		});
+
+		return { path, xml, rels };
+	}
+
+	private loadTheme(master: Part | null): Promise<Theme> {
+		const key = master?.path ?? "";
+		let theme = this.themes.get(key);
+		if (!theme) {
+			theme = this.readTheme(master);
+			this.themes.set(key, theme);
+		}
+		return theme;
+	}
+
+	private async readTheme(master: Part | null): Promise<Theme> {
+		const theme: Theme = { colors: new Map(), majorFont: null, minorFont: null };
+		const part = master ? await this.loadRelatedPart(master, "theme") : null;
+		const root = part?.xml.documentElement;
+
+		const scheme = root?.getElementsByTagNameNS("*", "clrScheme")[0] ?? null;
+		elementChildren(scheme).forEach((entry) => {
+			// System colors carry their last resolved value in lastClr
+			const value = elementChildren(entry)[0];
+			const hex = value?.getAttribute("lastClr") ?? value?.getAttribute("val");
+			if (hex) theme.colors.set(entry.localName, hex);
+		});
+
+		const fonts = root?.getElementsByTagNameNS("*", "fontScheme")[0] ?? null;
+		theme.majorFont =
+			child(child(fonts, "majorFont"), "latin")?.getAttribute("typeface") ?? null;
+		theme.minorFont =
+			child(child(fonts, "minorFont"), "latin")?.getAttribute("typeface") ?? null;
+
+		return theme;
+	}
+
+	private async readXml(path: string): Promise<Document | null> {
+		const data = await this.readEntry(path);
+		if (!data) return null;
+
+		const xml = new DOMParser().parseFromString(
+			new TextDecoder().decode(data),
+			"application/xml"
+		);
+		if (xml.getElementsByTagName("parsererror").length > 0) {
+			throw new Error(`Malformed XML in ${path}`);
+		}
+		return xml;
+	}
+
+	private async readEntry(path: string): Promise<Uint8Array | null> {
+		const entry = this.entries.get(path);
+		return entry ? ZipArchive.extract(this.archive, entry) : null;
+	}
+}
+
+function identity(rect: Rect): Rect {
+	return rect;
+}
+
+/**
+ * Map child coordinates of a group into the coordinate space of its parent
+ */
+function composeGroupTransform(group: Element, parent: Transform): Transform {
+	const xfrm = child(child(group, "grpSpPr"), "xfrm");
+	const rect = readRect(xfrm);
+	const childOffset = child(xfrm, "chOff");
+	const childExtent = child(xfrm, "chExt");
+	if (!rect || !childOffset || !childExtent) return parent;
+
+	const offsetX = intAttr(childOffset, "x") ?? 0;
+	const offsetY = intAttr(childOffset, "y") ?? 0;
+	const scaleX = rect.cx / (intAttr(childExtent, "cx") || rect.cx || 1);
+	const scaleY = rect.cy / (intAttr(childExtent, "cy") || rect.cy || 1);
+
+	return (box) =>
+		parent({
+			x: rect.x + (box.x - offsetX) * scaleX,
+			y: rect.y + (box.y - offsetY) * scaleY,
+			cx: box.cx * scaleX,
+			cy: box.cy * scaleY
+		});
+}
+
+export function formatPercent(fraction: number, digits: number = 3): string {
+	return String(Number((fraction * 100).toFixed(digits)));
+}
+
+function readRect(xfrm: Element | null): Rect | null {
+	const offset = child(xfrm, "off");
+	const extent = child(xfrm, "ext");
+	if (!offset || !extent) return null;
+
+	return {
+		x: intAttr(offset, "x") ?? 0,
+		y: intAttr(offset, "y") ?? 0,
+		cx: intAttr(extent, "cx") ?? 0,
+		cy: intAttr(extent, "cy") ?? 0
+	};
+}
+
+function readColorMap(master: Part | null): Record<string, string> {
+	const colorMap = child(master?.xml.documentElement, "clrMap");
+	if (!colorMap) return DEFAULT_COLOR_MAP;
+
+	const map: Record<string, string> = {};
+	Array.from(colorMap.attributes).forEach((attribute) => {
+		map[attribute.localName] = attribute.value;
+	});
+	return map;
+}
+
+function readSpacing(sources: Element[], name: string): number | null {
+	const points = intAttr(child(firstChild(sources, name), "spcPts"), "val");
+	return points === null ? null : points / 100;
+}
+
+function getPlaceholder(shape: Element): Element | null {
+	const properties = elementChildren(shape).find((element) => element.localName.startsWith("nv"));
+	return child(child(properties ?? null, "nvPr"), "ph");
+}
+
+function findPlaceholder(
+	part: Part | null,
+	predicate: (placeholder: Element) => boolean
+): Element | null {
+	const tree = child(child(part?.xml.documentElement, "cSld"), "spTree");
+	return (
+		Array.from(tree?.getElementsByTagNameNS("*", "sp") ?? []).find((shape) => {
+			const placeholder = getPlaceholder(shape);
+			return placeholder !== null && predicate(placeholder);
+		}) ?? null
+	);
+}
+
+function normalizePlaceholderType(type: string): string {
+	if (type === "ctrTitle") return "title";
+	if (type === "subTitle" || type === "obj") return "body";
+	return type;
+}
+
+/**
+ * Plain text of a text body, one entry per paragraph
+ */
+function getText(textBody: Element | null, separator: string = " "): string {
+	return children(textBody, "p")
+		.map((paragraph) =>
+			Array.from(paragraph.getElementsByTagNameNS("*", "t"))
+				.map((text) => text.textContent ?? "")
+				.join("")
+		)
+		.join(separator);
+}
+
+function formatAutoNumber(type: string, value: number): string {
+	let label = String(value);
+	if (type.startsWith("alphaLc")) label = toAlpha(value).toLowerCase();
+	else if (type.startsWith("alphaUc")) label = toAlpha(value);
+	else if (type.startsWith("romanLc")) label = toRoman(value).toLowerCase();
+	else if (type.startsWith("romanUc")) label = toRoman(value);
+
+	if (type.endsWith("ParenBoth")) return `(${label})`;
+	if (type.endsWith("ParenR")) return `${label})`;
+	if (type.endsWith("Plain")) return label;
+	return `${label}.`;
+}
+
+function toAlpha(value: number): string {
+	let label = "";
+	for (let remaining = value; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+		label = String.fromCharCode(65 + ((remaining - 1) % 26)) + label;
+	}
+	return label;
+}
+
+function toRoman(value: number): string {
+	const numerals: Array<[number, string]> = [
+		[1000, "M"],
+		[900, "CM"],
+		[500, "D"],
+		[400, "CD"],
+		[100, "C"],
+		[90, "XC"],
+		[50, "L"],
+		[40, "XL"],
+		[10, "X"],
+		[9, "IX"],
+		[5, "V"],
+		[4, "IV"],
+		[1, "I"]
+	];
+	let remaining = value;
+	let label = "";
+	numerals.forEach(([amount, numeral]) => {
+		while (remaining >= amount) {
+			label += numeral;
+			remaining -= amount;
+		}
+	});
+	return label;
+}
+
+/**
+ * Apply DrawingML color transforms (lumMod, lumOff, shade, tint, alpha)
+ */
+function applyColorModifiers(hex: string, element: Element): string {
+	let [red, green, blue] = [0, 2, 4].map(
+		(offset) => parseInt(hex.slice(offset, offset + 2), 16) || 0
+	) as [number, number, number];
+	let alpha = 1;
+
+	for (const modifier of elementChildren(element)) {
+		const value = (intAttr(modifier, "val") ?? 100000) / 100000;
+		switch (modifier.localName) {
+			case "lumMod":
+			case "lumOff": {
+				const [hue, saturation, lightness] = rgbToHsl(red, green, blue);
+				const adjusted =
+					modifier.localName === "lumMod" ? lightness * value : lightness + value;
+				[red, green, blue] = hslToRgb(hue, saturation, Math.min(1, Math.max(0, adjusted)));
+				break;
+			}
+			case "shade":
+				[red, green, blue] = [red * value, green * value, blue * value];
+				break;
+			case "tint":
+				[red, green, blue] = [red, green, blue].map(
+					(channel) => channel + (255 - channel) * (1 - value)
+				) as [number, number, number];
+				break;
+			case "alpha":
+				alpha = value;
+				break;
+		}
+	}
+
+	const channels = [red, green, blue].map((channel) =>
+		Math.round(Math.min(255, Math.max(0, channel)))
+	);
+	if (alpha < 1) return `rgba(${channels.join(", ")}, ${alpha})`;
+	return `#${channels.map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function rgbToHsl(red: number, green: number, blue: number): [number, number, number] {
+	const [r, g, b] = [red / 255, green / 255, blue / 255];
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const lightness = (max + min) / 2;
+	if (max === min) return [0, 0, lightness];
+
+	const delta = max - min;
+	const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+	let hue: number;
+	if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+	else if (max === g) hue = (b - r) / delta + 2;
+	else hue = (r - g) / delta + 4;
+
+	return [hue / 6, saturation, lightness];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+	if (saturation === 0) {
+		const gray = lightness * 255;
+		return [gray, gray, gray];
+	}
+
+	const q =
+		lightness < 0.5
+			? lightness * (1 + saturation)
+			: lightness + saturation - lightness * saturation;
+	const p = 2 * lightness - q;
+	const channel = (offset: number) => {
+		let t = hue + offset;
+		if (t < 0) t += 1;
+		if (t > 1) t -= 1;
+		if (t < 1 / 6) return p + (q - p) * 6 * t;
+		if (t < 1 / 2) return q;
+		if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+		return p;
+	};
+
+	return [channel(1 / 3) * 255, channel(0) * 255, channel(-1 / 3) * 255];
+}
+
+function resolvePath(base: string, target: string): string {
+	if (target.startsWith("/")) return target.slice(1);
+
+	const segments = base.split("/");
+	segments.pop();
+	target.split("/").forEach((segment) => {
+		if (segment === "..") segments.pop();
+		else if (segment && segment !== ".") segments.push(segment);
+	});
+	return segments.join("/");
+}
+
+function elementChildren(element: Element | null | undefined): Element[] {
+	return element ? Array.from(element.children) : [];
+}
+
+function child(element: Element | null | undefined, name: string): Element | null {
+	return elementChildren(element).find((candidate) => candidate.localName === name) ?? null;
+}
+
+function children(element: Element | null | undefined, name: string): Element[] {
+	return elementChildren(element).filter((candidate) => candidate.localName === name);
+}
+
+function intAttr(element: Element | null, name: string): number | null {
+	const value = element?.getAttribute(name);
+	if (value === null || value === undefined) return null;
+	const parsed = parseInt(value, 10);
+	return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Read a relationship attribute such as r:id or r:embed regardless of prefix
+ */
+function relAttr(element: Element | null, name: string): string | null {
+	if (!element) return null;
+	const attribute = Array.from(element.attributes).find(
+		(candidate) =>
+			candidate.localName === name &&
+			(candidate.namespaceURI ?? "").endsWith("/relationships")
+	);
+	return attribute?.value ?? null;
+}
+
+function firstChild(sources: Element[], name: string): Element | null {
+	return sources.map((source) => child(source, name)).find(isElement) ?? null;
+}
+
+function isElement(element: Element | null | undefined): element is Element {
+	return element !== null && element !== undefined;
+}
+
+function firstWith(sources: Element[], name: string): Element | null {
+	return sources.find((source) => source.hasAttribute(name)) ?? null;
+}
+
+function firstAttr(sources: Element[], name: string): string | null {
+	return firstWith(sources, name)?.getAttribute(name) ?? null;
+}
+
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
@@ -1,13 +1,42 @@
-import { BaseRenderer, EVENTS, RendererFactory, SUPPORTED_FORMATS } from "../core";
-import type { SearchResult, ViewerOptions } from "../types";
+import {
+	BaseRenderer,
+	CompoundFile,
+	EVENTS,
+	RendererFactory,
+	SourceLoader,
+	SUPPORTED_FORMATS,
+	TextSearch
+} from "../core";
+import type {
+	AnnotationLayout,
+	DocumentDegradedEvent,
+	DocumentInput,
+	PageTextContent,
+	PresentationSlide,
+	SearchOptions,
+	SearchResult,
+	TextBlock,
+	TextExtractionOptions,
+	ViewerOptions
+} from "../types";
+import { PptParser } from "./ppt-parser";
+import { escapeHtml, PptxParser } from "./pptx-parser";
+
+// Slide sizes are given in EMUs
+const EMU_PER_POINT = 12700;
+
+// Width in pixels slides are laid out at before they are scaled down to thumbnails
+const THUMBNAIL_SLIDE_WIDTH = 960;
 
 /**
- * Presentation Renderer for PPTX files
+ * Presentation Renderer for PPTX and legacy PPT files
  * Handles PowerPoint presentations by converting to HTML/images for display
  */
 export class PresentationRenderer extends BaseRenderer {
-	public presentationLib: any;
-	public slides: any[];
+	public slides: PresentationSlide[];
+	public slideSize: { width: number; height: number };
+	public resources: string[];
+	public degradation: DocumentDegradedEvent | null;
 	public currentSlideIndex: number;
 	public slideContainer: HTMLElement | null;
 	public slideNavigation: HTMLElement | null;
@@ -27,8 +56,10 @@ export class PresentationRenderer extends BaseRenderer {
 	constructor(container: HTMLElement, options: ViewerOptions = {}) {
 		super(container, options);
 
-		this.presentationLib = null;
 		this.slides = [];
+		this.slideSize = { width: 16, height: 9 };
+		this.resources = [];
+		this.degradation = null;
 		this.currentSlideIndex = 0;
 		this.slideContainer = null;
 		this.slideNavigation = null;
@@ -80,6 +111,7 @@ export class PresentationRenderer extends BaseRenderer {
 			background-color: white;
 			border-radius: 8px;
 			box-shadow: 0 10px 40px rgba(0,0,0,0.3);
+			width: 100%;
 			max-width: 100%;
 			max-height: 100%;
 			overflow: hidden;
@@ -95,7 +127,6 @@ export class PresentationRenderer extends BaseRenderer {
 		this.slideContent.style.cssText = `
 			width: 100%;
 			height: 100%;
-			padding: 40px;
 			box-sizing: border-box;
 			color: #333;
 			font-size: 18px;
@@ -252,23 +283,9 @@ export class PresentationRenderer extends BaseRenderer {
 		document.addEventListener("keydown", this.keyboardHandler);
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput): Promise<void> {
 		try {
-			this.presentationLib = await this.loadPresentationLibrary();
-
-			let data;
-
-			if (typeof source === "string") {
-				const response = await fetch(source);
-				if (!response.ok) {
-					throw new Error(`Failed to fetch presentation: ${response.statusText}`);
-				}
-				data = await response.arrayBuffer();
-			} else if (source instanceof File || source instanceof Blob) {
-				data = await source.arrayBuffer();
-			} else {
-				throw new Error("Unsupported source type");
-			}
+			const data = await this.readSource(source);
 
 			await this.parsePresentationData(data);
 
@@ -288,102 +305,90 @@ export class PresentationRenderer extends BaseRenderer {
 				slideCount: this.slides.length,
 				hasNotes: this.slides.some((slide) => slide.notes)
 			});
+
+			if (this.degradation) {
+				this.emit(EVENTS.DOCUMENT_DEGRADED, this.degradation);
+			}
 		} catch (error) {
 			console.error("Presentation loading failed:", error);
 			throw new Error(`Failed to load presentation: ${error}`);
 		}
 	}
 
-	async loadPresentationLibrary(): Promise<any> {
-		console.log("Using mock presentation library for demonstration");
+	async parsePresentationData(data: ArrayBuffer): Promise<void> {
+		this.degradation = null;
+		const isLegacy = CompoundFile.isCompoundFile(new Uint8Array(data));
+		const format = isLegacy ? SUPPORTED_FORMATS.PPT : SUPPORTED_FORMATS.PPTX;
 
-		return {
-			parse: (data: any) => this.mockParsePPTX(data)
-		};
-	}
-
-	async parsePresentationData(data: any): Promise<void> {
 		try {
-			const parsedData = await this.presentationLib.parse(data);
-			this.slides = parsedData.slides;
-			this.searchableText = parsedData.text;
-		} catch (error) {
-			console.warn("Failed to parse presentation, using fallback");
-			this.createFallbackSlides();
-		}
-	}
+			const parsed = isLegacy ? PptParser.parse(data) : await PptxParser.parse(data);
+			if (!parsed.slides.length) {
+				throw new Error("Presentation has no slides");
+			}
 
-	mockParsePPTX(data: any) {
-		const slideCount = Math.max(1, Math.floor(data.byteLength / 10000));
+			this.slides = parsed.slides;
+			this.searchableText = parsed.text;
+			this.slideSize = { width: parsed.width, height: parsed.height };
+			this.resources = parsed.resources;
+
+			if (isLegacy) {
+				this.degradation = {
+					format,
+					reason: "legacy-format",
+					message: "Legacy PowerPoint file shown with text and pictures only",
+					extractedText: parsed.text
+				};
+			}
+		} catch (error) {
+			console.warn("Failed to parse presentation, using fallback", error);
+			const encrypted = isLegacy && PptParser.isEncrypted(data);
+			let extractedText = "";
+			if (isLegacy && !encrypted) {
+				// The fallback reads the same damaged file, so it may fail as well
+				try {
+					extractedText = PptParser.extractText(data);
+				} catch (extractError) {
+					console.warn("Failed to extract presentation text", extractError);
+				}
+			}
 
-		const slides = [];
-		for (let i = 0; i < Math.min(slideCount, 10); i++) {
-			slides.push({
-				id: i + 1,
-				title: `Slide ${i + 1}`,
-				content: this.generateMockSlideContent(i + 1),
-				notes: i % 3 === 0 ? `Speaker notes for slide ${i + 1}` : "",
-				layout: "title-content",
-				background: this.getSlideBackground(i)
-			});
+			this.degradation = {
+				format,
+				reason: encrypted ? "encrypted" : "unreadable",
+				message: encrypted
+					? "Presentation is password protected"
+					: `Presentation could not be parsed: ${error instanceof Error ? error.message : error}`,
+				extractedText
+			};
+			this.createFallbackSlides(this.degradation);
 		}
-
-		const searchableText = slides
-			.map((slide) => `${slide.title} ${slide.content} ${slide.notes}`)
-			.join(" ");
-
-		return { slides, text: searchableText };
-	}
-
-	generateMockSlideContent(slideNumber: number): string {
-		const contents = [
-			"<h1>Welcome to the Presentation</h1><p>This is the opening slide with an introduction to our topic.</p>",
-			"<h2>Agenda</h2><ul><li>Introduction</li><li>Main Content</li><li>Key Points</li><li>Conclusion</li></ul>",
-			"<h2>Key Statistics</h2><p>Here are some important numbers:</p><ul><li>95% user satisfaction</li><li>50% increase in efficiency</li><li>30+ features added</li></ul>",
-			"<h2>Our Approach</h2><p>We follow a systematic methodology that ensures quality and reliability in every step of the process.</p>",
-			`
-				<h2>Benefits</h2><div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px;"><div><h3>Cost Effective</h3><p>Reduces operational costs by 40%</p></div><div><h3>Time Saving</h3><p>Speeds up processes significantly</p></div></div>
-			`,
-			"<h2>Case Study</h2><p>Let us examine a real-world example of how our solution made a difference for a major client.</p>",
-			"<h2>Implementation Timeline</h2><div><strong>Phase 1:</strong> Planning (2 weeks)<br><strong>Phase 2:</strong> Development (6 weeks)<br><strong>Phase 3:</strong> Testing (2 weeks)<br><strong>Phase 4:</strong> Deployment (1 week)</div>",
-			"<h2>Results</h2><p>The implementation delivered outstanding results across all key performance indicators.</p>",
-			"<h2>Next Steps</h2><p>Moving forward, we recommend the following actions to maximize the benefits of this solution.</p>",
-			`
-				<h1>Thank You</h1><p>Questions & Discussion</p><div style="margin-top: 40px; font-size: 14px; color: #666;">Contact: info@company.com</div>
-			`
-		];
-
-		return (
-			contents[slideNumber - 1] ||
-			`<h2>Slide ${slideNumber}</h2><p>Content for slide number ${slideNumber}.</p>`
-		);
 	}
 
-	getSlideBackground(index: number) {
-		const backgrounds = [
-			"linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
-			"linear-gradient(135deg, #f093fb 0%, #f5576c 100%)",
-			"linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)",
-			"linear-gradient(135deg, #43e97b 0%, #38f9d7 100%)",
-			"linear-gradient(135deg, #fa709a 0%, #fee140 100%)"
-		];
+	createFallbackSlides(degradation?: DocumentDegradedEvent) {
+		const extractedText = degradation?.extractedText ?? "";
+		const paragraphs = extractedText
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => `<p>${escapeHtml(line)}</p>`)
+			.join("");
+		const message = extractedText
+			? `<p>${escapeHtml(degradation?.message ?? "")}. Showing the text that could be extracted.</p>${paragraphs}`
+			: "<p>This document could not be parsed as a presentation.<br>It may be in an unsupported format or corrupted.</p><p>Supported formats: PPTX, PPT</p>";
 
-		return backgrounds[index % backgrounds.length];
-	}
-
-	createFallbackSlides() {
 		this.slides = [
 			{
 				id: 1,
 				title: "Presentation Viewer",
-				content:
-					"<h1>Presentation Viewer</h1><p>This document could not be parsed as a presentation.<br>It may be in an unsupported format or corrupted.</p><p>Supported formats: PPTX, PPT</p>",
+				content: `
+					<div style="padding: 40px; height: 100%; box-sizing: border-box; overflow: auto;"><h1>Presentation Viewer</h1>${message}</div>
+				`,
 				notes: "",
 				layout: "title-content",
-				background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)"
+				background: "#ffffff",
+				text: extractedText
 			}
 		];
-		this.searchableText = "Presentation Viewer document format unsupported";
+		this.searchableText = extractedText || "Presentation Viewer document format unsupported";
 	}
 
 	setupThumbnails() {
@@ -457,8 +462,9 @@ export class PresentationRenderer extends BaseRenderer {
 			this.slideContent.innerHTML = currentSlide.content;
 		}
 
-		if (currentSlide.background && this.slideContainer) {
-			this.slideContainer.style.background = currentSlide.background;
+		if (this.slideDisplay) {
+			this.slideDisplay.style.background = currentSlide.background || "#ffffff";
+			this.slideDisplay.style.aspectRatio = `${this.slideSize.width} / ${this.slideSize.height}`;
 		}
 
 		this.updateSlideCounter();
@@ -470,25 +476,24 @@ export class PresentationRenderer extends BaseRenderer {
 		if (this.autoFitSlide) {
 			this.fitSlideToContainer();
 		}
+
+		// One layer over the slide shows the annotations of whichever slide is current
+		this.renderPageAnnotations(this.currentPage);
 	}
 
 	fitSlideToContainer() {
 		if (!this.slideDisplay || !this.slideContainer) return;
 
 		const containerRect = this.slideContainer.getBoundingClientRect();
-		const slideRect = this.slideDisplay.getBoundingClientRect();
-
-		if (!containerRect || !slideRect) return;
-
-		const scaleX = (containerRect.width - 40) / slideRect.width;
-		const scaleY = (containerRect.height - 40) / slideRect.height;
-		const scale = Math.min(scaleX, scaleY, 1);
+		const availableWidth = containerRect.width - 40;
+		const availableHeight = containerRect.height - 40;
+		if (availableWidth <= 0 || availableHeight <= 0) return;
 
-		if (scale < 1) {
-			this.slideDisplay.style.transform = `scale(${scale})`;
-		} else {
-			this.slideDisplay.style.transform = "scale(1)";
-		}
+		// Largest slide that fits the container at the deck's aspect ratio
+		const ratio = this.slideSize.width / this.slideSize.height;
+		const width = Math.min(availableWidth, availableHeight * ratio);
+		this.slideDisplay.style.width = `${width}px`;
+		this.slideDisplay.style.height = `${width / ratio}px`;
 	}
 
 	updateSlideCounter() {
@@ -507,7 +512,7 @@ export class PresentationRenderer extends BaseRenderer {
 
 		const thumbnails = this.thumbnailsContainer.querySelectorAll(".buka-slide-thumbnail");
 		thumbnails.forEach((thumbnail, index) => {
-			thumbnail.classList.add(index === this.currentSlideIndex ? "active-thumbnail" : "");
+			thumbnail.classList.toggle("active-thumbnail", index === this.currentSlideIndex);
 		});
 	}
 
@@ -520,7 +525,7 @@ export class PresentationRenderer extends BaseRenderer {
 			this.emit(EVENTS.PAGE_CHANGED, {
 				page: this.currentPage,
 				totalPages: this.totalPages,
-				slideTitle: this.slides[slideIndex].title
+				slideTitle: this.slides[slideIndex]?.title
 			});
 
 			return true;
@@ -540,6 +545,53 @@ export class PresentationRenderer extends BaseRenderer {
 		return await this.goToSlide(page - 1);
 	}
 
+	override getAnnotationPageElement(page: number): HTMLElement | null {
+		return page === this.currentSlideIndex + 1 && this.slides.length ? this.slideDisplay : null;
+	}
+
+	/**
+	 * Size of the displayed slide. Annotations are placed at fractions of
+	 * the slide, so they keep their spot on the slide at any window size.
+	 */
+	override getAnnotationLayout(page: number): AnnotationLayout | null {
+		const element = this.getAnnotationPageElement(page);
+		if (!element?.offsetWidth) return null;
+
+		// Fallback slides only know the aspect ratio of the deck
+		const points = this.slideSize.width / EMU_PER_POINT;
+		return {
+			width: element.offsetWidth,
+			height: element.offsetHeight,
+			scale: points >= 1 ? element.offsetWidth / points : 1
+		};
+	}
+
+	/**
+	 * Scaled copy of a slide. Slide content is sized relative to the
+	 * slide, so it is laid out at a fixed width in the deck's aspect ratio.
+	 */
+	protected override async createThumbnail(
+		page: number,
+		size: number
+	): Promise<HTMLElement | null> {
+		const slide = this.slides[page - 1];
+		if (!slide) return null;
+
+		const snapshot = document.createElement("div");
+		snapshot.className = "buka-slide-snapshot";
+		snapshot.style.cssText = `
+			background: ${slide.background || "#ffffff"};
+			color: #333;
+			font-size: 18px;
+			line-height: 1.5;
+			overflow: hidden;
+		`;
+		snapshot.innerHTML = slide.content;
+
+		const height = (THUMBNAIL_SLIDE_WIDTH * this.slideSize.height) / this.slideSize.width;
+		return this.createThumbnailFrame(snapshot, THUMBNAIL_SLIDE_WIDTH, height, size);
+	}
+
 	override async setZoom(factor: number): Promise<void> {
 		this.zoomFactor = Math.max(0.3, Math.min(3.0, factor));
 
@@ -554,7 +606,7 @@ export class PresentationRenderer extends BaseRenderer {
 		this.emit(EVENTS.ZOOM_CHANGED, { zoom: this.zoomFactor });
 	}
 
-	override async search(query: string): Promise<SearchResult[]> {
+	override async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
 		if (!query.trim()) {
 			this.searchResults = [];
 			this.currentSearchIndex = 0;
@@ -565,26 +617,30 @@ export class PresentationRenderer extends BaseRenderer {
 		this.clearSearchHighlights();
 		this.searchResults = [];
 
-		const regex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+		// Invalid regular expressions throw even without slides
+		TextSearch.createPattern(query, options);
 
 		this.slides.forEach((slide, slideIndex) => {
 			const slideText = `${slide.title} ${slide.content} ${slide.notes}`;
 			const textContent = slideText.replace(/<[^>]*>/g, " "); // Strip HTML
 
-			let match;
-			while ((match = regex.exec(textContent)) !== null) {
+			TextSearch.find(textContent, query, options).forEach(({ index, length, match }) => {
 				this.searchResults.push({
-					match: match[0],
+					match,
 					text: textContent,
 					page: slideIndex + 1,
-					index: match.index,
-					length: match[0].length
-				} as SearchResult);
-			}
+					slideIndex,
+					slideTitle: slide.title,
+					index,
+					length,
+					context: this.getSearchContext(textContent, index, length),
+					section: `Slide ${slideIndex + 1}`
+				});
+			});
 		});
 
 		if (this.searchResults.length > 0) {
-			this.highlightSearchMatches(query);
+			this.highlightSearchMatches(query, options);
 			this.currentSearchIndex = 0;
 
 			const firstResult = this.searchResults[0];
@@ -598,6 +654,7 @@ export class PresentationRenderer extends BaseRenderer {
 
 		this.emit(EVENTS.SEARCH_RESULT, {
 			query,
+			options,
 			results: this.searchResults,
 			currentIndex: this.currentSearchIndex
 		});
@@ -605,20 +662,17 @@ export class PresentationRenderer extends BaseRenderer {
 		return this.searchResults;
 	}
 
-	highlightSearchMatches(query: string) {
+	highlightSearchMatches(query: string, options: SearchOptions = {}) {
 		if (!this.slideContent) return;
 
-		const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
 		const currentSlide = this.slides[this.currentSlideIndex];
 
 		if (currentSlide) {
-			const highlightedContent = currentSlide.content.replace(
-				regex,
-				`
-					<mark style="background: #ffeb3b; color: #333; padding: 2px 4px; border-radius: 2px;">$1</mark>
-				`
-			);
-			this.slideContent.innerHTML = highlightedContent;
+			this.slideContent.innerHTML = currentSlide.content;
+			TextSearch.highlight(this.slideContent, query, options, (mark) => {
+				mark.style.cssText =
+					"background: #ffeb3b; color: #333; padding: 2px 4px; border-radius: 2px;";
+			});
 		}
 	}
 
@@ -627,15 +681,84 @@ export class PresentationRenderer extends BaseRenderer {
 	}
 
 	getSearchContext(text: string, index: number, length: number) {
-		const contextLength = 30;
-		const start = Math.max(0, index - contextLength);
-		const end = Math.min(text.length, index + length + contextLength);
+		return TextSearch.getContext(text, index, length, 30);
+	}
+
+	override async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		return this.getTextPages(options).flatMap((page) => {
+			const slide = this.slides[page - 1];
+			if (!slide) return [];
+
+			const blocks = this.getSlideTextBlocks(slide);
+			const content: PageTextContent = {
+				page,
+				label: `Slide ${page}`,
+				// Fallback slides have no positioned shapes, only the extracted text
+				text: blocks.length
+					? blocks.map((block) => block.text).join("\n")
+					: (slide.text ?? "")
+			};
+			if (slide.notes) {
+				content.notes = slide.notes;
+			}
+			if (options.structured) {
+				content.blocks = blocks;
+			}
+			return [content];
+		});
+	}
 
-		return {
-			before: text.substring(start, index),
-			match: text.substring(index, index + length),
-			after: text.substring(index + length, end)
-		};
+	/**
+	 * Text shapes and tables of a slide, positioned from the percentages
+	 * the parsers lay them out with
+	 */
+	getSlideTextBlocks(slide: PresentationSlide): TextBlock[] {
+		// Parsed into an inert document so pictures on the slide are not fetched
+		const body = new DOMParser().parseFromString(slide.content, "text/html").body;
+		body.querySelectorAll(".buka-slide-bullet").forEach((bullet) => bullet.remove());
+		body.querySelectorAll("br").forEach((lineBreak) => lineBreak.replaceWith("\n"));
+
+		const percent = (value: string) => (value.endsWith("%") ? parseFloat(value) / 100 : NaN);
+
+		return Array.from(
+			body.querySelectorAll<HTMLElement>(".buka-slide-shape, .buka-slide-table")
+		).flatMap((element) => {
+			const text = this.getSlideElementText(element);
+			if (!text) return [];
+
+			const block: TextBlock = { text, type: "shape" };
+			const { left, top, width, height } = element.style;
+			const position = { x: left, y: top, width, height };
+			(Object.keys(position) as (keyof typeof position)[]).forEach((key) => {
+				// Tables are laid out with height: auto
+				const value = percent(position[key]);
+				if (!isNaN(value)) {
+					block[key] = value;
+				}
+			});
+			return [block];
+		});
+	}
+
+	getSlideElementText(element: HTMLElement): string {
+		let lines: string[];
+		if (element.tagName === "TABLE") {
+			lines = Array.from((element as HTMLTableElement).rows).map((row) =>
+				Array.from(row.cells)
+					.map((cell) => (cell.textContent ?? "").trim())
+					.join("\t")
+			);
+		} else {
+			const paragraphs = Array.from(element.querySelectorAll("p"));
+			lines = paragraphs.length
+				? paragraphs.map((paragraph) => paragraph.textContent ?? "")
+				: [element.textContent ?? ""];
+		}
+
+		return lines
+			.map((line) => line.trim())
+			.filter(Boolean)
+			.join("\n");
 	}
 
 	toggleThumbnails() {
@@ -659,7 +782,7 @@ export class PresentationRenderer extends BaseRenderer {
 		}
 	}
 
-	getDocumentTitle(source: string | File | Blob): string {
+	getDocumentTitle(source: DocumentInput): string {
 		if (typeof source === "string") {
 			return (
 				source
@@ -669,6 +792,8 @@ export class PresentationRenderer extends BaseRenderer {
 			);
 		} else if (source instanceof File) {
 			return source.name.replace(/\.[^/.]+$/, "");
+		} else if (SourceLoader.isDocumentSource(source) && source.filename) {
+			return source.filename.replace(/\.[^/.]+$/, "");
 		}
 		return "Presentation";
 	}
@@ -721,9 +846,10 @@ export class PresentationRenderer extends BaseRenderer {
 			document.removeEventListener("keydown", this.keyboardHandler);
 		}
 
+		this.resources.forEach((url) => URL.revokeObjectURL(url));
+		this.resources = [];
 		this.slides = [];
 		this.searchResults = [];
-		this.presentationLib = null;
 	}
 }
 
@@ -1,5 +1,31 @@
-import { BaseRenderer, EVENTS, RendererFactory, SUPPORTED_FORMATS } from "../core";
-import type { SearchResult } from "../types";
+import {
+	AnnotationLayer,
+	BaseRenderer,
+	DependencyLoader,
+	EVENTS,
+	RendererFactory,
+	SourceLoader,
+	SUPPORTED_FORMATS,
+	TextSearch
+} from "../core";
+import type {
+	Annotation,
+	AnnotationAnchor,
+	AnnotationLayout,
+	AnnotationPoint,
+	CellAnchor,
+	DocumentInput,
+	PageTextContent,
+	SearchOptions,
+	SearchResult,
+	TextBlock,
+	TextExtractionOptions
+} from "../types";
+
+const MARKUP_TYPES = ["highlight", "underline", "strikeout"];
+
+// Top left corner of a sheet shown in its thumbnail, and the size of its cells in pixels
+const THUMBNAIL_GRID = { rows: 20, columns: 8, cellWidth: 80, cellHeight: 24, headerWidth: 40 };
 
 /**
  * XLSX/CSV Renderer using SheetJS
@@ -12,6 +38,7 @@ export class XlsxRenderer extends BaseRenderer {
 	public currentSheetIndex: number;
 	public currentSheetData: any[][];
 	public gridContainer: HTMLElement;
+	public gridContent: HTMLElement;
 	public gridTable: HTMLElement;
 	public sheetTabs: HTMLElement;
 	public mainContainer: HTMLElement;
@@ -34,6 +61,7 @@ export class XlsxRenderer extends BaseRenderer {
 		this.currentSheetIndex = 0;
 		this.currentSheetData = [];
 		this.gridContainer = null!;
+		this.gridContent = null!;
 		this.gridTable = null!;
 		this.sheetTabs = null!;
 		this.mainContainer = null!;
@@ -89,6 +117,15 @@ export class XlsxRenderer extends BaseRenderer {
       background-color: #fff;
     `;
 
+		// Scrolls with the grid and holds the annotation layer over the cells
+		this.gridContent = document.createElement("div");
+		this.gridContent.className = "buka-xlsx-grid-content";
+		this.gridContent.style.cssText = `
+      position: relative;
+      width: max-content;
+      min-width: 100%;
+    `;
+
 		this.gridTable = document.createElement("table");
 		this.gridTable.className = "buka-xlsx-table";
 		this.gridTable.style.cssText = `
@@ -99,7 +136,8 @@ export class XlsxRenderer extends BaseRenderer {
       width: 100%;
     `;
 
-		this.gridContainer.appendChild(this.gridTable);
+		this.gridContent.appendChild(this.gridTable);
+		this.gridContainer.appendChild(this.gridContent);
 		this.mainContainer.appendChild(this.sheetTabs);
 		this.mainContainer.appendChild(this.gridContainer);
 		this.container.appendChild(this.mainContainer);
@@ -113,23 +151,11 @@ export class XlsxRenderer extends BaseRenderer {
 		this.gridContainer.addEventListener("scroll", this.handleScroll.bind(this));
 	}
 
-	async load(source: string | File | Blob): Promise<void> {
+	async load(source: DocumentInput): Promise<void> {
 		try {
 			this.xlsxLib = await this.loadSheetJS();
 
-			let data;
-
-			if (typeof source === "string") {
-				const response = await fetch(source);
-				if (!response.ok) {
-					throw new Error(`Failed to fetch file: ${response.statusText}`);
-				}
-				data = await response.arrayBuffer();
-			} else if (source instanceof File || source instanceof Blob) {
-				data = await source.arrayBuffer();
-			} else {
-				throw new Error("Unsupported source type");
-			}
+			const data = await this.readSource(source);
 
 			this.workbook = this.xlsxLib.read(data, {
 				type: "array",
@@ -172,31 +198,9 @@ export class XlsxRenderer extends BaseRenderer {
 	}
 
 	async loadSheetJS(): Promise<any> {
-		if (typeof (window as any).XLSX !== "undefined") {
-			return (window as any).XLSX;
-		}
-
-		try {
-			const xlsxModule = await import("xlsx");
-			return xlsxModule.default || xlsxModule;
-		} catch (error) {
-			console.log("Loading SheetJS from CDN...");
-
-			const script = document.createElement("script");
-			script.src = "https://cdn.sheetjs.com/xlsx-0.20.1/package/dist/xlsx.full.min.js";
-			document.head.appendChild(script);
-
-			return new Promise((resolve, reject) => {
-				script.onload = () => {
-					if ((window as any).XLSX) {
-						resolve((window as any).XLSX);
-					} else {
-						reject(new Error("Failed to load SheetJS"));
-					}
-				};
-				script.onerror = () => reject(new Error("Failed to load SheetJS from CDN"));
-			});
-		}
+		return DependencyLoader.load("xlsx", this.options.dependencies, {
+			importModule: () => import("xlsx")
+		});
 	}
 
 	setupSheetTabs(): void {
@@ -251,46 +255,7 @@ export class XlsxRenderer extends BaseRenderer {
 		if (!worksheet) return;
 
 		try {
-			const range = worksheet.range;
-			const sheetData = [];
-
-			for (let row = range.s.r; row <= range.e.r; row++) {
-				const rowData = [];
-				for (let col = range.s.c; col <= range.e.c; col++) {
-					const cellAddress = this.xlsxLib.utils.encode_cell({ r: row, c: col });
-					const cell = worksheet.sheet[cellAddress];
-
-					let value = "";
-					if (cell) {
-						if (cell.t === "n") {
-							// Number
-							value = cell.v;
-						} else if (cell.t === "s") {
-							// String
-							value = cell.v;
-						} else if (cell.t === "b") {
-							// Boolean
-							value = cell.v ? "TRUE" : "FALSE";
-						} else if (cell.t === "d") {
-							// Date
-							value = cell.v instanceof Date ? cell.v.toLocaleDateString() : cell.v;
-						} else {
-							value = cell.w || cell.v || "";
-						}
-					}
-
-					rowData.push({
-						value: value,
-						formatted: cell?.w || String(value),
-						type: cell?.t || "s",
-						style: cell?.s || null,
-						address: cellAddress
-					});
-				}
-				sheetData.push(rowData);
-			}
-
-			this.currentSheetData = sheetData;
+			this.currentSheetData = this.getSheetData(sheetIndex);
 			this.buildSearchableText();
 			await this.render();
 		} catch (error) {
@@ -299,6 +264,58 @@ export class XlsxRenderer extends BaseRenderer {
 		}
 	}
 
+	/**
+	 * Cell values of a worksheet, read once and kept on the worksheet so
+	 * searches and sheet switches do not walk the workbook again
+	 */
+	getSheetData(sheetIndex: number): any[][] {
+		const worksheet = this.worksheets[sheetIndex];
+		if (!worksheet) return [];
+		if (worksheet.data) return worksheet.data;
+
+		const range = worksheet.range;
+		const sheetData = [];
+
+		for (let row = range.s.r; row <= range.e.r; row++) {
+			const rowData = [];
+			for (let col = range.s.c; col <= range.e.c; col++) {
+				const cellAddress = this.xlsxLib.utils.encode_cell({ r: row, c: col });
+				const cell = worksheet.sheet[cellAddress];
+
+				let value = "";
+				if (cell) {
+					if (cell.t === "n") {
+						// Number
+						value = cell.v;
+					} else if (cell.t === "s") {
+						// String
+						value = cell.v;
+					} else if (cell.t === "b") {
+						// Boolean
+						value = cell.v ? "TRUE" : "FALSE";
+					} else if (cell.t === "d") {
+						// Date
+						value = cell.v instanceof Date ? cell.v.toLocaleDateString() : cell.v;
+					} else {
+						value = cell.w || cell.v || "";
+					}
+				}
+
+				rowData.push({
+					value: value,
+					formatted: cell?.w || String(value),
+					type: cell?.t || "s",
+					style: cell?.s || null,
+					address: cellAddress
+				});
+			}
+			sheetData.push(rowData);
+		}
+
+		worksheet.data = sheetData;
+		return sheetData;
+	}
+
 	buildSearchableText(): void {
 		this.searchableData = this.currentSheetData
 			.map((row) => row.map((cell) => cell.value).join(" "))
@@ -310,18 +327,23 @@ export class XlsxRenderer extends BaseRenderer {
 			this.gridTable.innerHTML = `
 					<tr><td style="padding: 20px; text-align: center; color: #666;">No data available</td></tr>
 				`;
+			AnnotationLayer.clear(this.gridContent);
 			return;
 		}
 
 		this.gridTable.innerHTML = "";
 
-		if (this.virtualScrolling && this.currentSheetData.length > 100) {
+		if (this.usesVirtualGrid()) {
 			this.renderVirtualGrid();
 		} else {
 			this.renderFullGrid();
 		}
 	}
 
+	usesVirtualGrid(): boolean {
+		return this.virtualScrolling && this.currentSheetData.length > 100;
+	}
+
 	renderFullGrid(): void {
 		const tbody = document.createElement("tbody");
 
@@ -351,6 +373,8 @@ export class XlsxRenderer extends BaseRenderer {
 				cell.className = "buka-xlsx-cell";
 				cell.textContent = cellData.formatted || "";
 				cell.title = cellData.address;
+				cell.dataset.row = String(rowIndex);
+				cell.dataset.col = String(colIndex);
 
 				cell.style.cssText = `
           border: 1px solid #d0d7de;
@@ -414,6 +438,9 @@ export class XlsxRenderer extends BaseRenderer {
 		}
 
 		this.gridTable.appendChild(tbody);
+		this.highlightSearchResults();
+		// Annotations are placed over the cells that were just rendered
+		this.renderPageAnnotations(this.currentPage);
 	}
 
 	renderVirtualGrid() {
@@ -422,11 +449,16 @@ export class XlsxRenderer extends BaseRenderer {
 
 		const tbody = document.createElement("tbody");
 
+		// Spacers stand in for the rows outside the window so the grid keeps
+		// its full scroll height and scrollTop maps to a row
+		tbody.appendChild(this.createSpacerRow(visibleStart));
+
 		for (let rowIndex = visibleStart; rowIndex < visibleEnd; rowIndex++) {
 			const rowData = this.currentSheetData[rowIndex];
 			if (!rowData) continue;
 
 			const row = document.createElement("tr");
+			row.style.height = `${this.rowHeight}px`;
 
 			const rowHeader = document.createElement("td");
 			rowHeader.textContent = String(rowIndex + 1);
@@ -442,9 +474,13 @@ export class XlsxRenderer extends BaseRenderer {
       `;
 			row.appendChild(rowHeader);
 
-			rowData.forEach((cellData, _colIndex) => {
+			rowData.forEach((cellData, colIndex) => {
 				const cell = document.createElement("td");
+				cell.className = "buka-xlsx-cell";
 				cell.textContent = cellData.formatted || "";
+				cell.title = cellData.address;
+				cell.dataset.row = String(rowIndex);
+				cell.dataset.col = String(colIndex);
 				cell.style.cssText = `
           border: 1px solid #d0d7de;
           padding: 4px 8px;
@@ -460,8 +496,20 @@ export class XlsxRenderer extends BaseRenderer {
 			tbody.appendChild(row);
 		}
 
+		tbody.appendChild(this.createSpacerRow(this.currentSheetData.length - visibleEnd));
+
 		this.gridTable.innerHTML = "";
 		this.gridTable.appendChild(tbody);
+		this.highlightSearchResults();
+		// Annotations are placed over the cells that were just rendered
+		this.renderPageAnnotations(this.currentPage);
+	}
+
+	createSpacerRow(rowCount: number): HTMLElement {
+		const spacer = document.createElement("tr");
+		spacer.className = "buka-xlsx-spacer";
+		spacer.style.height = `${Math.max(0, rowCount) * this.rowHeight}px`;
+		return spacer;
 	}
 
 	getCellTypeStyle(cellType: string): string {
@@ -522,6 +570,7 @@ export class XlsxRenderer extends BaseRenderer {
 		cells.forEach((cell) => {
 			(cell as HTMLElement).style.padding = `${padding}px ${padding * 2}px`;
 		});
+		this.renderPageAnnotations(this.currentPage);
 
 		this.emit(EVENTS.ZOOM_CHANGED, { zoom: this.zoomFactor });
 	}
@@ -535,7 +584,7 @@ export class XlsxRenderer extends BaseRenderer {
 		return false;
 	}
 
-	override async search(query: string): Promise<SearchResult[]> {
+	override async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
 		if (!query.trim()) {
 			this.searchResults = [];
 			this.currentSearchIndex = 0;
@@ -546,35 +595,44 @@ export class XlsxRenderer extends BaseRenderer {
 		this.clearSearchHighlights();
 		this.searchResults = [];
 
-		const regex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
-
-		this.currentSheetData.forEach((rowData, _rowIndex) => {
-			rowData.forEach((cellData, _colIndex) => {
-				const cellValue = String(cellData.value || "");
-				const matches = cellValue.match(regex);
-
-				if (matches) {
-					matches.forEach((match) => {
-						this.searchResults.push({
-							match: match,
-							text: cellValue,
-							page: this.currentPage,
-							index: 0,
-							length: match.length
-						} as SearchResult);
-					});
-				}
+		// Invalid regular expressions throw even on an empty workbook
+		TextSearch.createPattern(query, options);
+
+		this.worksheets.forEach((worksheet, sheetIndex) => {
+			this.getSheetData(sheetIndex).forEach((rowData, rowIndex) => {
+				rowData.forEach((cellData, colIndex) => {
+					// Search what the cell shows, so zeros and number formats match
+					const cellValue = cellData.formatted ?? String(cellData.value ?? "");
+
+					TextSearch.find(cellValue, query, options).forEach(
+						({ index, length, match }) => {
+							this.searchResults.push({
+								match,
+								text: cellValue,
+								page: sheetIndex + 1,
+								sheet: sheetIndex,
+								section: worksheet.name,
+								row: rowIndex,
+								col: colIndex,
+								address: cellData.address,
+								index,
+								length,
+								context: TextSearch.getContext(cellValue, index, length)
+							});
+						}
+					);
+				});
 			});
 		});
 
+		this.currentSearchIndex = 0;
 		if (this.searchResults.length > 0) {
-			this.highlightSearchResults();
-			this.currentSearchIndex = 0;
-			this.scrollToSearchResult(this.currentSearchIndex);
+			await this.scrollToSearchResult(this.currentSearchIndex);
 		}
 
 		this.emit(EVENTS.SEARCH_RESULT, {
 			query,
+			options,
 			results: this.searchResults,
 			currentIndex: this.currentSearchIndex
 		});
@@ -582,39 +640,273 @@ export class XlsxRenderer extends BaseRenderer {
 		return this.searchResults;
 	}
 
+	/**
+	 * Mark the rendered cells of the current sheet that hold a hit; the
+	 * grid calls this after every render so hits survive sheet switches
+	 * and virtual scrolling
+	 */
 	highlightSearchResults(): void {
-		// Implementation simplified for now
-		// TODO: Add proper cell highlighting based on search results
+		this.clearSearchHighlights();
+
+		this.searchResults.forEach((result, index) => {
+			if (result.sheet !== this.currentSheetIndex) return;
+
+			const cell = this.getCellElement(result.row ?? -1, result.col ?? -1);
+			if (!cell) return;
+
+			cell.classList.add("buka-xlsx-cell-match");
+			// A cell holding several hits stays current while any of them is
+			if (index === this.currentSearchIndex) {
+				cell.classList.add("buka-xlsx-cell-match-current");
+			}
+			const current = cell.classList.contains("buka-xlsx-cell-match-current");
+			cell.style.backgroundColor = current ? "#ffb870" : "#fff3a3";
+			cell.style.outline = current ? "2px solid #e66400" : "";
+		});
 	}
 
 	clearSearchHighlights(): void {
-		const highlights = this.gridContainer.querySelectorAll(".buka-search-highlight");
+		const highlights = this.gridContainer.querySelectorAll(".buka-xlsx-cell-match");
 		highlights.forEach((cell) => {
-			cell.classList.remove("buka-search-highlight");
+			cell.classList.remove("buka-xlsx-cell-match", "buka-xlsx-cell-match-current");
 			(cell as HTMLElement).style.backgroundColor = "";
-			(cell as HTMLElement).style.color = "";
+			(cell as HTMLElement).style.outline = "";
 		});
 	}
 
-	scrollToSearchResult(_index: number): void {
-		// Implementation simplified for now
-		// TODO: Add proper scroll to search result functionality
+	getCellElement(row: number, col: number): HTMLElement | null {
+		return this.gridTable.querySelector(`td[data-row="${row}"][data-col="${col}"]`);
 	}
 
-	nextSearchResult(): void {
-		if (this.searchResults.length > 0) {
-			this.currentSearchIndex = (this.currentSearchIndex + 1) % this.searchResults.length;
-			this.scrollToSearchResult(this.currentSearchIndex);
+	override getAnnotationPageElement(page: number): HTMLElement | null {
+		return page === this.currentSheetIndex + 1 && this.currentSheetData.length
+			? this.gridContent
+			: null;
+	}
+
+	override getAnnotationLayout(page: number): AnnotationLayout | null {
+		const element = this.getAnnotationPageElement(page);
+		if (!element?.offsetWidth) return null;
+
+		// Text and padding grow with the zoom, strokes grow with them
+		return {
+			width: element.offsetWidth,
+			height: element.offsetHeight,
+			scale: this.zoomFactor
+		};
+	}
+
+	/**
+	 * Cell under a point of the displayed sheet
+	 */
+	override getPointAnchor(page: number, point: AnnotationPoint): CellAnchor | null {
+		const element = this.getAnnotationPageElement(page);
+		const worksheet = this.worksheets[this.currentSheetIndex];
+		if (!element || !worksheet) return null;
+
+		const bounds = element.getBoundingClientRect();
+		const clientX = bounds.left + point.x * bounds.width;
+		const clientY = bounds.top + point.y * bounds.height;
+		const cell = Array.from(
+			this.gridTable.querySelectorAll<HTMLElement>("td.buka-xlsx-cell")
+		).find((candidate) => {
+			const rect = candidate.getBoundingClientRect();
+			return (
+				clientX >= rect.left &&
+				clientX < rect.right &&
+				clientY >= rect.top &&
+				clientY < rect.bottom
+			);
+		});
+		const address =
+			cell &&
+			this.currentSheetData[Number(cell.dataset.row)]?.[Number(cell.dataset.col)]?.address;
+		return address ? { type: "cell", sheet: worksheet.name, address } : null;
+	}
+
+	protected override getAnchorPage(anchor: AnnotationAnchor): number | null {
+		if (anchor.type !== "cell") return null;
+
+		const index = this.worksheets.findIndex((worksheet) => worksheet.name === anchor.sheet);
+		return index === -1 ? null : index + 1;
+	}
+
+	/**
+	 * Annotation drawn over its cell: markup fills the cell and notes mark
+	 * its corner with a badge. Cells outside the virtual window are not drawn.
+	 */
+	protected override anchorAnnotation(annotation: Annotation): Annotation | null {
+		const anchor = annotation.anchor;
+		if (anchor?.type !== "cell") return annotation;
+
+		const page = this.getAnchorPage(anchor);
+		const element = page === null ? null : this.getAnnotationPageElement(page);
+		const cell = XlsxRenderer.decodeAddress(anchor.address);
+		const range = this.worksheets[this.currentSheetIndex]?.range;
+		if (page === null || !element || !cell || !range) return null;
+
+		const cellElement = this.getCellElement(cell.row - range.s.r, cell.col - range.s.c);
+		const bounds = element.getBoundingClientRect();
+		if (!cellElement || !bounds.width || !bounds.height) return null;
+
+		const rect = cellElement.getBoundingClientRect();
+		const box = {
+			x: (rect.left - bounds.left) / bounds.width,
+			y: (rect.top - bounds.top) / bounds.height,
+			width: rect.width / bounds.width,
+			height: rect.height / bounds.height
+		};
+		return (
+			MARKUP_TYPES.includes(annotation.type)
+				? { ...annotation, page, rects: [box] }
+				: { ...annotation, page, position: box }
+		) as Annotation;
+	}
+
+	/**
+	 * Zero-based row and column of an A1-style address
+	 */
+	static decodeAddress(address: string): { row: number; col: number } | null {
+		const match = /^\$?([A-Z]+)\$?(\d+)$/i.exec(address);
+		if (!match?.[1] || !match[2] || Number(match[2]) < 1) return null;
+
+		const col = Array.from(match[1].toUpperCase()).reduce(
+			(total, letter) => total * 26 + letter.charCodeAt(0) - 64,
+			0
+		);
+		return { row: Number(match[2]) - 1, col: col - 1 };
+	}
+
+	/**
+	 * Scaled preview of the top left corner of a sheet with its row and
+	 * column headers. Works for every sheet, not only the one shown.
+	 */
+	protected override async createThumbnail(
+		page: number,
+		size: number
+	): Promise<HTMLElement | null> {
+		if (!this.worksheets[page - 1]) return null;
+
+		const rows = this.getSheetData(page - 1).slice(0, THUMBNAIL_GRID.rows);
+		const columns = Math.min(
+			THUMBNAIL_GRID.columns,
+			Math.max(0, ...rows.map((rowData) => rowData.length))
+		);
+		const width =
+			THUMBNAIL_GRID.headerWidth + THUMBNAIL_GRID.columns * THUMBNAIL_GRID.cellWidth;
+		const height = (THUMBNAIL_GRID.rows + 1) * THUMBNAIL_GRID.cellHeight;
+		const cellStyle = `
+			height: ${THUMBNAIL_GRID.cellHeight}px;
+			padding: 0 4px;
+			border: 1px solid #d0d7de;
+			overflow: hidden;
+			text-overflow: ellipsis;
+			white-space: nowrap;
+		`;
+		const headerStyle = `${cellStyle} background-color: #f6f8fa; color: #656d76; text-align: center;`;
+
+		const table = document.createElement("table");
+		table.style.cssText = `
+			table-layout: fixed;
+			width: ${THUMBNAIL_GRID.headerWidth + columns * THUMBNAIL_GRID.cellWidth}px;
+			border-collapse: collapse;
+			font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+			font-size: 12px;
+		`;
+
+		const headerRow = table.createTHead().insertRow();
+		const corner = headerRow.appendChild(document.createElement("th"));
+		corner.style.cssText = `${headerStyle} width: ${THUMBNAIL_GRID.headerWidth}px;`;
+		for (let col = 0; col < columns; col++) {
+			const header = headerRow.appendChild(document.createElement("th"));
+			header.textContent = this.xlsxLib.utils.encode_col(col);
+			header.style.cssText = `${headerStyle} width: ${THUMBNAIL_GRID.cellWidth}px;`;
 		}
+
+		const body = table.createTBody();
+		rows.forEach((rowData, rowIndex) => {
+			const row = body.insertRow();
+			const rowHeader = row.insertCell();
+			rowHeader.textContent = String(rowIndex + 1);
+			rowHeader.style.cssText = headerStyle;
+
+			rowData.slice(0, columns).forEach((cellData) => {
+				const cell = row.insertCell();
+				cell.textContent = cellData.formatted || "";
+				cell.style.cssText = `${cellStyle} ${this.getCellTypeStyle(cellData.type)}`;
+			});
+		});
+
+		const sheet = document.createElement("div");
+		sheet.style.background = "white";
+		sheet.appendChild(table);
+		return this.createThumbnailFrame(sheet, width, height, size);
 	}
 
-	previousSearchResult(): void {
-		if (this.searchResults.length > 0) {
-			this.currentSearchIndex =
-				(this.currentSearchIndex - 1 + this.searchResults.length) %
-				this.searchResults.length;
-			this.scrollToSearchResult(this.currentSearchIndex);
+	/**
+	 * Bring a hit into view, switching to its sheet first and moving the
+	 * virtual window when the row is not rendered
+	 */
+	async scrollToSearchResult(index: number): Promise<void> {
+		const result = this.searchResults[index];
+		if (!result || result.sheet === undefined || result.row === undefined) return;
+
+		if (result.sheet !== this.currentSheetIndex) {
+			await this.switchToSheet(result.sheet);
 		}
+
+		if (this.usesVirtualGrid()) {
+			this.scrollPosition.row = Math.max(0, result.row - Math.floor(this.visibleRows / 2));
+			this.renderVirtualGrid();
+			this.gridContainer.scrollTop = this.scrollPosition.row * this.rowHeight;
+		} else {
+			this.highlightSearchResults();
+		}
+
+		this.getCellElement(result.row, result.col ?? 0)?.scrollIntoView({
+			block: "nearest",
+			inline: "nearest"
+		});
+	}
+
+	override async showSearchResult(index: number): Promise<void> {
+		this.currentSearchIndex = index;
+		await this.scrollToSearchResult(index);
+	}
+
+	/**
+	 * Sheets as tab separated rows of their displayed values, with every
+	 * filled cell as a block when structured
+	 */
+	override async getText(options: TextExtractionOptions = {}): Promise<PageTextContent[]> {
+		return this.getTextPages(options).map((page) => {
+			const sheetData = this.getSheetData(page - 1);
+			const content: PageTextContent = {
+				page,
+				label: this.worksheets[page - 1]?.name ?? `Sheet ${page}`,
+				text: sheetData
+					.map((rowData) =>
+						rowData
+							.map((cellData) => cellData.formatted ?? "")
+							.join("\t")
+							.replace(/\t+$/, "")
+					)
+					.join("\n")
+					.replace(/\n+$/, "")
+			};
+
+			if (options.structured) {
+				content.blocks = sheetData.flatMap((rowData, row) =>
+					rowData.flatMap((cellData, col): TextBlock[] => {
+						const text = String(cellData.formatted ?? "");
+						return text.trim()
+							? [{ text, type: "cell", row, col, address: cellData.address }]
+							: [];
+					})
+				);
+			}
+			return content;
+		});
 	}
 
 	exportToCSV(): string {
@@ -647,7 +939,7 @@ export class XlsxRenderer extends BaseRenderer {
 		URL.revokeObjectURL(url);
 	}
 
-	getDocumentTitle(source: string | File | Blob): string {
+	getDocumentTitle(source: DocumentInput): string {
 		if (typeof source === "string") {
 			return (
 				source
@@ -657,6 +949,8 @@ export class XlsxRenderer extends BaseRenderer {
 			);
 		} else if (source instanceof File) {
 			return source.name.replace(/\.[^/.]+$/, "");
+		} else if (SourceLoader.isDocumentSource(source) && source.filename) {
+			return source.filename.replace(/\.[^/.]+$/, "");
 		}
 		return "Spreadsheet";
 	}
@@ -233,6 +233,11 @@ class StyleManager {
         background-color: #f0f8ff;
       }
 
+      .buka-thumbnail-image {
+        display: block;
+        margin: 0 auto;
+      }
+
       .buka-thumbnail-placeholder {
         padding: 20px;
         text-align: center;
@@ -1,74 +1,9 @@
 // Type definitions for external libraries
 
-declare global {
-	interface Window {
-		pdfjsLib?: any;
-		XLSX?: any;
-		mammoth?: any;
-	}
-}
-
-// PDF.js types
-declare module "pdfjs-dist" {
-	export interface PDFDocumentProxy {
-		numPages: number;
-		getPage(pageNumber: number): Promise<PDFPageProxy>;
-		getMetadata(): Promise<PDFMetadata>;
-		destroy(): void;
-	}
-
-	export interface PDFPageProxy {
-		getViewport(options: { scale: number }): PDFPageViewport;
-		render(renderContext: PDFRenderContext): PDFRenderTask;
-		getTextContent(): Promise<PDFTextContent>;
-	}
-
-	export interface PDFPageViewport {
-		width: number;
-		height: number;
-		transform: number[];
-	}
-
-	export interface PDFRenderContext {
-		canvasContext: CanvasRenderingContext2D;
-		viewport: PDFPageViewport;
-	}
-
-	export interface PDFRenderTask {
-		promise: Promise<void>;
-	}
-
-	export interface PDFTextContent {
-		items: PDFTextItem[];
-	}
-
-	export interface PDFTextItem {
-		str: string;
-		transform: number[];
-	}
-
-	export interface PDFMetadata {
-		info?: {
-			Title?: string;
-			Author?: string;
-			Subject?: string;
-			Creator?: string;
-		};
-	}
-
-	export interface PDFLoadingTask {
-		promise: Promise<PDFDocumentProxy>;
-	}
-
-	export function getDocument(src: {
-		data: Uint8Array;
-		cMapUrl?: string;
-		cMapPacked?: boolean;
-	}): PDFLoadingTask;
-
-	export const Util: {
-		transform(m1: number[], m2: number[]): number[];
-	};
+interface Window {
+	pdfjsLib?: any;
+	XLSX?: any;
+	mammoth?: any;
 }
 
 // Mammoth.js types
@@ -157,5 +92,3 @@ declare module "localforage" {
 		description?: string;
 	}): void;
 }
-
-export {};
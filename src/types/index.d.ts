@@ -4,6 +4,143 @@ export interface DocumentSource {
 	url?: string;
 	file?: File | Blob;
 	arrayBuffer?: ArrayBuffer;
+	data?: ArrayBuffer | ArrayBufferView | ReadableStream<Uint8Array> | Response;
+	mimeType?: string;
+	filename?: string;
+}
+
+export type DocumentInput =
+	| string
+	| File
+	| Blob
+	| ArrayBuffer
+	| ArrayBufferView
+	| ReadableStream<Uint8Array>
+	| Response
+	| DocumentSource;
+
+export interface RequestOptions {
+	headers?: Headers | Record<string, string> | Array<[string, string]>;
+	credentials?: "omit" | "same-origin" | "include";
+	mode?: "cors" | "no-cors" | "same-origin";
+}
+
+export interface LoadOptions extends RequestOptions {
+	signal?: AbortSignal;
+	/** Explicit MIME type, skips content sniffing */
+	mimeType?: string;
+	/** Filename used for the document title and extension-based detection */
+	filename?: string;
+	/** Key the annotation store keeps this document's annotations under, defaults to a hash of its bytes */
+	documentId?: string;
+}
+
+export type DocumentFetcher = (url: string, init: LoadOptions) => Promise<Response>;
+
+export interface AuthErrorContext {
+	url: string;
+	response: Response;
+}
+
+export interface RequestRetry extends RequestOptions {
+	url?: string;
+}
+
+export type AuthErrorHandler = (
+	context: AuthErrorContext
+) => Promise<RequestRetry | null | void> | RequestRetry | null | void;
+
+export interface SourceLoadOptions extends LoadOptions {
+	onProgress?: (progress: LoadProgressEvent) => void;
+	fetcher?: DocumentFetcher;
+	onAuthError?: AuthErrorHandler;
+}
+
+export interface LoadedSource {
+	data: ArrayBuffer;
+	filename: string;
+	contentType: string | null;
+	contentDisposition: string | null;
+	size: number;
+	url?: string;
+	mimeType?: string;
+}
+
+export interface LoadProgressEvent {
+	loaded: number;
+	total: number | null;
+	percent: number | null;
+}
+
+export type DegradedReason = "legacy-format" | "encrypted" | "unreadable";
+
+/**
+ * Payload of document:degraded, fired when a document is shown with
+ * reduced fidelity instead of failing to load
+ */
+export interface DocumentDegradedEvent {
+	format: string;
+	reason: DegradedReason;
+	message: string;
+	extractedText: string;
+}
+
+export type PasswordReason = "required" | "incorrect";
+
+/**
+ * Payload of password:required, fired when an encrypted PDF needs a
+ * password or the previous one was rejected
+ */
+export interface PasswordRequest {
+	reason: PasswordReason;
+	/** 1 for the first prompt, incremented on every retry */
+	attempt: number;
+	submit(password: string): void;
+	/** Give up, the load fails with a PasswordError */
+	cancel(): void;
+}
+
+export type PasswordHandler = (
+	request: PasswordRequest
+) => Promise<string | null | void> | string | null | void;
+
+/**
+ * Where PDF.js and its assets are loaded from. Without configuration
+ * they come from the jsDelivr CDN.
+ */
+export interface AssetOptions {
+	/** Base URL of a self-hosted copy of the pdfjs-dist package (build/, cmaps/, standard_fonts/) */
+	baseUrl?: string;
+	/** PDF.js module or a loader for it, e.g. `() => import("pdfjs-dist")` */
+	pdfjs?: any;
+	/** URL of pdf.worker.min.js */
+	workerUrl?: string;
+	/** Worker running the PDF.js worker script, takes precedence over workerUrl */
+	workerPort?: Worker;
+	cMapUrl?: string;
+	standardFontDataUrl?: string;
+}
+
+export type DependencyName = "pdfjs" | "mammoth" | "xlsx";
+
+export interface ScriptSource {
+	url: string;
+	/** Subresource Integrity hash, e.g. "sha384-..." */
+	integrity?: string;
+}
+
+/**
+ * How renderer libraries are loaded when they are neither on the page
+ * nor installed from npm
+ */
+export interface DependencyOptions {
+	/** Never fall back to the built-in CDN scripts */
+	disableRemoteScripts?: boolean;
+	/** Self-hosted script per library, a URL or a URL with its SRI hash */
+	scripts?: Partial<Record<DependencyName, string | ScriptSource>>;
+	/** CSP nonce added to injected script tags */
+	nonce?: string;
+	crossOrigin?: "anonymous" | "use-credentials";
 }
 
 export interface ViewerOptions {
@@ -17,6 +154,68 @@ export interface ViewerOptions {
 	virtualScrolling?: boolean;
 	showThumbnails?: boolean;
 	autoFitSlide?: boolean;
+	request?: RequestOptions;
+	fetcher?: DocumentFetcher;
+	onAuthError?: AuthErrorHandler;
+	onPassword?: PasswordHandler;
+	assets?: AssetOptions;
+	dependencies?: DependencyOptions;
+	/** Initial state of the toolbar search toggles */
+	search?: SearchOptions;
+	/** Author recorded on annotations added without one */
+	annotationAuthor?: string;
+	/** Saves annotations as they change and restores them when the document is opened again */
+	annotationStore?: AnnotationStore;
+	/** Milliseconds to wait after the last annotation change before saving, default 1000 */
+	autosaveDelay?: number;
+	/** Longest side of sidebar thumbnails in pixels, default 120 */
+	thumbnailSize?: number;
+}
+
+export type DetectionMethod =
+	| "explicit"
+	| "signature"
+	| "content"
+	| "content-type"
+	| "blob-type"
+	| "filename";
+
+export interface DetectionCandidate {
+	mimeType: string;
+	confidence: number;
+	method: DetectionMethod;
+}
+
+export interface DetectionResult extends DetectionCandidate {
+	candidates: DetectionCandidate[];
+	filename?: string;
+	resolvedSource?: File;
+}
+
+export interface DetectionHints {
+	mimeType?: string | null;
+	contentType?: string | null;
+	filename?: string | null;
+}
+
+export interface PresentationSlide {
+	id: number;
+	title: string;
+	content: string;
+	notes: string;
+	layout: string;
+	background?: string;
+	text?: string;
+}
+
+export interface ParsedPresentation {
+	slides: PresentationSlide[];
+	text: string;
+	/** Slide size in EMUs */
+	width: number;
+	height: number;
+	/** Object URLs created for embedded images, revoked on destroy */
+	resources: string[];
 }
 
 export interface DocumentInfo {
@@ -61,28 +260,432 @@ export interface SearchResult {
 		after: string;
 	};
 	address?: string;
+	/** Page, slide or sheet name the hit is listed under */
+	section?: string;
 	index?: number;
 	length?: number;
+	/** Text items a PDF match spans, with character offsets into each item */
+	ranges?: SearchTextRange[];
+}
+
+export interface SearchTextRange {
+	itemIndex: number;
+	start: number;
+	end: number;
+}
+
+export interface SearchOptions {
+	caseSensitive?: boolean;
+	/** Only match whole words, e.g. "port" does not match "portuguese" */
+	wholeWords?: boolean;
+	/** Treat the query as a regular expression */
+	regex?: boolean;
+	/** Match "é", "è" and "e" alike */
+	ignoreDiacritics?: boolean;
+}
+
+export interface TextMatch {
+	index: number;
+	length: number;
+	match: string;
 }
 
 export interface SearchResultEvent {
 	query: string;
+	options?: SearchOptions;
 	results: SearchResult[];
 	currentIndex: number;
 }
 
-export interface Annotation {
+/**
+ * Payload of search:progress, fired while a long search is running
+ * with every hit found so far
+ */
+export interface SearchProgressEvent {
+	query: string;
+	options?: SearchOptions;
+	results: SearchResult[];
+	pagesSearched: number;
+	totalPages: number;
+}
+
+export interface TextExtractionOptions {
+	/** Only extract this page, slide or sheet (1-based) */
+	page?: number;
+	/** Include the text blocks of each page with their positions */
+	structured?: boolean;
+}
+
+export type TextBlockType =
+	| "text"
+	| "heading"
+	| "paragraph"
+	| "list-item"
+	| "cell"
+	| "code"
+	| "shape";
+
+export interface TextBlock {
+	text: string;
+	type: TextBlockType;
+	/** Position as fractions (0-1) of the page size from its top-left corner, when known */
+	x?: number;
+	y?: number;
+	width?: number;
+	height?: number;
+	/** Spreadsheet cells are located by row, column and address instead */
+	row?: number;
+	col?: number;
+	address?: string;
+}
+
+export interface PageTextContent {
+	page: number;
+	/** Page, slide or sheet name */
+	label: string;
+	text: string;
+	/** Speaker notes of a slide */
+	notes?: string;
+	/** Only present when extracting with `structured: true` */
+	blocks?: TextBlock[];
+}
+
+export type AnnotationType =
+	| "highlight"
+	| "underline"
+	| "strikeout"
+	| "ink"
+	| "rectangle"
+	| "ellipse"
+	| "arrow"
+	| "stamp"
+	| "note"
+	| "text";
+
+/**
+ * Point on a page as fractions (0-1) of the page width and height from
+ * its top-left corner, so annotations keep their place at any zoom
+ */
+export interface AnnotationPoint {
+	x: number;
+	y: number;
+}
+
+export interface AnnotationRect extends AnnotationPoint {
+	width: number;
+	height: number;
+}
+
+export interface AnnotationBase {
 	id?: string;
-	type: "highlight" | "note" | "text";
-	content?: string;
+	type: AnnotationType;
 	page?: number;
+	/** Comment attached to the annotation */
+	content?: string;
+	author?: string;
+	/** Any CSS color */
+	color?: string;
+	/** 0 (transparent) to 1 (opaque) */
+	opacity?: number;
+	/** Creation time as an ISO 8601 string */
+	timestamp?: string;
+	/** Time of the last change as an ISO 8601 string */
+	modified?: string;
+	/** Box the annotation covers, in page-relative units */
 	position?: {
 		x: number;
 		y: number;
 		width?: number;
 		height?: number;
 	};
-	timestamp?: string;
+	/**
+	 * What the annotation is attached to in documents that reflow. Its page
+	 * and geometry are worked out from the anchor each time it is drawn.
+	 */
+	anchor?: AnnotationAnchor;
+}
+
+/** Range of the text of a DOCX document, which may move between pages */
+export interface TextAnchor {
+	type: "text";
+	/** Offsets into the text of the whole document, end excluded */
+	start: number;
+	end: number;
+	/** The anchored text, which finds the range again when the offsets no longer match */
+	quote: string;
+}
+
+/** Cell of a spreadsheet */
+export interface CellAnchor {
+	type: "cell";
+	/** Name of the worksheet, the annotation's page is the sheet's number */
+	sheet: string;
+	/** A1-style cell address */
+	address: string;
+}
+
+export type AnnotationAnchor = TextAnchor | CellAnchor;
+
+/** Highlight, underline or strike out text */
+export interface TextMarkupAnnotation extends AnnotationBase {
+	type: "highlight" | "underline" | "strikeout";
+	/** One box per marked line of text, position is used without them */
+	rects?: AnnotationRect[];
+	/** The text the markup covers */
+	text?: string;
+}
+
+/** Freehand drawing */
+export interface InkAnnotation extends AnnotationBase {
+	type: "ink";
+	/** Strokes, each a list of points */
+	paths: AnnotationPoint[][];
+	/** Stroke width in points at 100% zoom */
+	strokeWidth?: number;
+}
+
+export interface ShapeAnnotation extends AnnotationBase {
+	type: "rectangle" | "ellipse";
+	position: AnnotationRect;
+	strokeWidth?: number;
+	fillColor?: string;
+}
+
+export interface ArrowAnnotation extends AnnotationBase {
+	type: "arrow";
+	start: AnnotationPoint;
+	end: AnnotationPoint;
+	strokeWidth?: number;
+}
+
+export interface StampAnnotation extends AnnotationBase {
+	type: "stamp";
+	position: AnnotationRect;
+	/** Text of the stamp, e.g. "Approved" */
+	label: string;
+}
+
+/** Sticky note shown as an icon at position, with its text in content */
+export interface NoteAnnotation extends AnnotationBase {
+	type: "note";
+}
+
+/** Text written on the page inside position */
+export interface FreeTextAnnotation extends AnnotationBase {
+	type: "text";
+	/** Font size in points at 100% zoom */
+	fontSize?: number;
+}
+
+export type Annotation =
+	| TextMarkupAnnotation
+	| InkAnnotation
+	| ShapeAnnotation
+	| ArrowAnnotation
+	| StampAnnotation
+	| NoteAnnotation
+	| FreeTextAnnotation;
+
+// Omit for each member of a union rather than for their common keys
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** Annotation as passed to addAnnotation, which assigns its id and timestamps */
+export type AnnotationInput = DistributiveOmit<Annotation, "id" | "timestamp" | "modified">;
+
+/** Changes applied by updateAnnotation, the id cannot change */
+export type AnnotationChanges = DistributiveOmit<Partial<Annotation>, "id">;
+
+/** Tools of the annotation toolbar, "select" picks, moves and resizes annotations */
+export type AnnotationTool =
+	| "select"
+	| "highlight"
+	| "note"
+	| "ink"
+	| "rectangle"
+	| "ellipse"
+	| "arrow";
+
+/** Pixel size of a page at the current zoom, which annotations are laid out on */
+export interface AnnotationLayout {
+	width: number;
+	height: number;
+	scale: number;
+}
+
+/** Formats annotations are exported to and imported from */
+export type AnnotationFormat = "json" | "w3c" | "xfdf";
+
+/** What importAnnotations does with an id that is already in use */
+export type AnnotationConflictStrategy = "replace" | "keep" | "rename" | "newest";
+
+export interface AnnotationExportOptions {
+	/** IRI of the document, written as the W3C target source and the XFDF file reference */
+	source?: string;
+}
+
+/** What exportAnnotations returns in each format */
+export interface AnnotationExports {
+	json: Annotation[];
+	w3c: WebAnnotation[];
+	/** XFDF document */
+	xfdf: string;
+}
+
+export interface AnnotationImportOptions {
+	/** Detected from the input when not given */
+	format?: AnnotationFormat;
+	/** Defaults to "replace" */
+	onConflict?: AnnotationConflictStrategy;
+}
+
+export interface AnnotationValidationError {
+	/** Dotted path of the property, e.g. "rects.0.width", empty for the item itself */
+	path: string;
+	message: string;
+}
+
+/** Item of an import that was skipped */
+export interface AnnotationImportError extends AnnotationValidationError {
+	/** Position of the item in the imported list */
+	index: number;
+	id?: string;
+}
+
+export interface AnnotationConflict {
+	id: string;
+	resolution: "replaced" | "kept" | "renamed";
+	/** Id the imported annotation was stored under when renamed */
+	newId?: string;
+}
+
+export interface AnnotationImportResult {
+	/** Annotations as stored, with generated ids and timestamps filled in */
+	imported: Annotation[];
+	errors: AnnotationImportError[];
+	conflicts: AnnotationConflict[];
+}
+
+export interface WebAnnotationBody {
+	type: "TextualBody";
+	value: string;
+	format?: string;
+	purpose?: string;
+}
+
+export interface WebAnnotationSelector {
+	type: string;
+	value?: string;
+	conformsTo?: string;
+	exact?: string;
+	prefix?: string;
+	suffix?: string;
+	start?: number;
+	end?: number;
+	refinedBy?: WebAnnotationSelector;
+}
+
+/** Annotation in the W3C Web Annotation Data Model */
+export interface WebAnnotation {
+	"@context": string | Array<string | Record<string, string>>;
+	id?: string;
+	type: "Annotation";
+	motivation?: string;
+	created?: string;
+	modified?: string;
+	creator?: { type: "Person"; name: string };
+	body?: WebAnnotationBody | WebAnnotationBody[];
+	target: { source: string; selector?: WebAnnotationSelector | WebAnnotationSelector[] };
+	[property: string]: unknown;
+}
+
+/** Lamport timestamp ordering annotation operations across replicas */
+export interface SyncClock {
+	counter: number;
+	/** Breaks ties between operations with the same counter */
+	replica: string;
+}
+
+/**
+ * Change to one annotation. Each field keeps the value of the operation
+ * with the highest clock, so replicas that saw the same operations in any
+ * order hold the same annotations.
+ */
+export interface AnnotationOperation {
+	id: string;
+	clock: SyncClock;
+	/** Fields written, null clears a field */
+	set?: Record<string, unknown>;
+	/** The annotation was deleted, later writes bring it back */
+	remove?: true;
+}
+
+/** Where a collaborator is in the document */
+export interface PresenceState {
+	replica: string;
+	name: string;
+	color: string;
+	page: number;
+	/** Pointer position on the page, null while it is elsewhere */
+	cursor: AnnotationPoint | null;
+}
+
+export type SyncMessage =
+	| { type: "ops"; replica: string; ops: AnnotationOperation[] }
+	| { type: "presence"; replica: string; presence: PresenceState }
+	/** Sent on connect, peers answer with their annotations and presence */
+	| { type: "hello"; replica: string }
+	| { type: "leave"; replica: string };
+
+/**
+ * Transport between collaborators. Messages pushed by one adapter are
+ * received by the other adapters of the session, not by itself.
+ */
+export interface SyncAdapter {
+	connect(receive: (message: SyncMessage) => void): void | Promise<void>;
+	push(message: SyncMessage): void;
+	disconnect(): void;
+}
+
+export interface SyncOptions {
+	/** Unique per viewer, generated when not given */
+	replica?: string;
+	/** Shown next to the cursor, defaults to the annotationAuthor option */
+	name?: string;
+	/** Any CSS color, picked from the replica id when not given */
+	color?: string;
+}
+
+/** Keeps the annotations of each document between visits */
+export interface AnnotationStore {
+	/** Saved annotations of a document, null when none were saved */
+	load(documentId: string): Promise<Annotation[] | null>;
+	/**
+	 * `removed` lists the ids of annotations read from the document file
+	 * that were deleted, so the file does not bring them back. Stores
+	 * without loadRemoved may ignore it.
+	 */
+	save(documentId: string, annotations: Annotation[], removed?: string[]): Promise<void>;
+	remove(documentId: string): Promise<void>;
+	/** Ids passed as `removed` to the last save, empty when there were none */
+	loadRemoved?(documentId: string): Promise<string[]>;
+}
+
+/** Step of the undo history, already carried out when recorded */
+export interface HistoryCommand {
+	/** Short description such as "Add annotation" */
+	label: string;
+	undo(): void;
+	redo(): void;
+	/** Approximate bytes the command keeps alive, such as pixel copies */
+	size?: number;
+}
+
+/** Payload of history:changed */
+export interface HistoryState {
+	canUndo: boolean;
+	canRedo: boolean;
+	undoLabel: string | null;
+	redoLabel: string | null;
 }
 
 export interface EventCallback<T = any> {
@@ -92,6 +695,8 @@ export interface EventCallback<T = any> {
 export interface ThumbnailData {
 	page: number;
 	element: HTMLElement;
+	/** Whether the renderer has been asked for the preview */
+	rendered: boolean;
 }
 
 export declare const SUPPORTED_FORMATS: {
@@ -100,6 +705,8 @@ export declare const SUPPORTED_FORMATS: {
 	readonly IMAGE_PNG: "image/png";
 	readonly IMAGE_JPEG: "image/jpeg";
 	readonly IMAGE_SVG: "image/svg+xml";
+	readonly IMAGE_GIF: "image/gif";
+	readonly IMAGE_WEBP: "image/webp";
 	readonly XLSX: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
 	readonly CSV: "text/csv";
 	readonly PPTX: "application/vnd.openxmlformats-officedocument.presentationml.presentation";
@@ -111,11 +718,23 @@ export declare const EVENTS: {
 	readonly PAGE_CHANGED: "page:changed";
 	readonly ZOOM_CHANGED: "zoom:changed";
 	readonly SEARCH_RESULT: "search:result";
+	readonly SEARCH_PROGRESS: "search:progress";
+	readonly LOAD_PROGRESS: "load:progress";
+	readonly DOCUMENT_DEGRADED: "document:degraded";
+	readonly PASSWORD_REQUIRED: "password:required";
 	readonly ANNOTATION_ADDED: "annotation:added";
 	readonly ANNOTATION_REMOVED: "annotation:removed";
+	readonly ANNOTATION_UPDATED: "annotation:updated";
+	readonly ANNOTATIONS_IMPORTED: "annotations:imported";
+	readonly HISTORY_CHANGED: "history:changed";
+	readonly PRESENCE_CHANGED: "presence:changed";
 	readonly ERROR: "error";
 };
 
+export declare const ANNOTATION_DEFAULTS: {
+	readonly [type in AnnotationType]: { readonly color: string; readonly opacity: number };
+};
+
 export declare abstract class BaseRenderer {
 	protected container: HTMLElement;
 	protected options: ViewerOptions;
@@ -123,28 +742,263 @@ export declare abstract class BaseRenderer {
 	public totalPages: number;
 	public zoomFactor: number;
 	public annotations: Map<string, Annotation>;
+	public selectedAnnotationId: string | null;
+	public history: HistoryStack;
 	public eventListeners: Map<string, Set<EventCallback>>;
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	abstract load(source: string | File | Blob): Promise<void>;
+	abstract load(source: DocumentInput): Promise<void>;
 	abstract render(): Promise<void>;
-	abstract search(query: string): Promise<SearchResult[]>;
+	abstract search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+	nextSearchResult(): void;
+	previousSearchResult(): void;
+	showSearchResult(index: number): Promise<void>;
+	getText(options?: TextExtractionOptions): Promise<PageTextContent[]>;
+	/** Preview of a page that fits in a square of `size` pixels, 120 by default */
+	getThumbnail(page: number, size?: number): Promise<HTMLElement | null>;
+	/** Identifier read from the document itself, null when the renderer has none */
+	getFingerprint(): string | null;
 
 	goto(page: number): Promise<boolean>;
 	zoom(factor: number): Promise<void>;
-	addAnnotation(annotation: Annotation): string;
+	addAnnotation(annotation: AnnotationInput): string;
+	updateAnnotation(id: string, changes: AnnotationChanges): boolean;
 	removeAnnotation(id: string): boolean;
-	exportAnnotations(): Annotation[];
-	importAnnotations(annotations: Annotation[]): void;
+	selectAnnotation(id: string | null): void;
+	getAnnotations(page?: number): Annotation[];
+	exportAnnotations<F extends AnnotationFormat = "json">(
+		format?: F,
+		options?: AnnotationExportOptions
+	): AnnotationExports[F];
+	importAnnotations(input: unknown, options?: AnnotationImportOptions): AnnotationImportResult;
+	/** Size of a page in points, which XFDF coordinates are written in */
+	getAnnotationPageSize(page: number): { width: number; height: number };
+	/** Store, replace or remove (null) an annotation without an undo step */
+	syncAnnotation(id: string, annotation: Annotation | null): void;
+	/** Ids of annotations read from the document file that were deleted */
+	getRemovedFileAnnotations(): string[];
+	/** Leave out annotations of the document file deleted in an earlier session */
+	setRemovedFileAnnotations(ids: string[]): void;
+	undo(): boolean;
+	redo(): boolean;
+	canUndo(): boolean;
+	canRedo(): boolean;
+	/** Element annotations of a page are drawn in, null while it is not shown */
+	getAnnotationPageElement(page: number): HTMLElement | null;
+	getAnnotationLayout(page: number): AnnotationLayout | null;
+	/** Anchor for the part of a text selection on a page, null where text is not anchored */
+	getTextAnchor(range: Range, page: number): TextAnchor | null;
+	/** Anchor for a point on a page, such as the cell under it */
+	getPointAnchor(page: number, point: AnnotationPoint): AnnotationAnchor | null;
+	/** Move anchored annotations to the pages their anchors are on now and redraw them */
+	reanchorAnnotations(): void;
+	renderPageAnnotations(page: number): void;
 	on(event: string, callback: EventCallback): void;
 	off(event: string, callback: EventCallback): void;
 	emit(event: string, data: any): void;
 	destroy(): void;
 }
 
+export declare class AnnotationLayer {
+	static render(
+		pageElement: HTMLElement,
+		annotations: Annotation[],
+		layout: AnnotationLayout,
+		selectedId?: string | null
+	): HTMLElement;
+	static find(pageElement: HTMLElement): HTMLElement | null;
+	static clear(pageElement: HTMLElement): void;
+	static getColor(annotation: Annotation): string;
+	static setColor(element: HTMLElement, property: string, annotation: Annotation): void;
+	static getOpacity(annotation: Annotation): number;
+	static getBounds(annotation: Annotation): AnnotationRect | null;
+	static isResizable(annotation: Annotation): boolean;
+	static showTooltip(
+		layer: HTMLElement,
+		annotation: Annotation,
+		layout: AnnotationLayout
+	): HTMLElement | null;
+	static hideTooltip(layer: HTMLElement): void;
+	static transform(annotation: Annotation, from: AnnotationRect, to: AnnotationRect): Annotation;
+}
+
+export declare class AnnotationSerializer {
+	static detectFormat(input: unknown): AnnotationFormat;
+	static parse(
+		input: unknown,
+		format: AnnotationFormat,
+		pageSize: (page: number) => { width: number; height: number }
+	): unknown[];
+	static validate(value: unknown): {
+		annotation: Annotation | null;
+		errors: AnnotationValidationError[];
+	};
+	static toWebAnnotation(
+		annotation: Annotation,
+		options?: AnnotationExportOptions
+	): WebAnnotation;
+	static fromWebAnnotation(item: unknown): unknown;
+	static toXfdf(
+		annotations: Annotation[],
+		pageSize: (page: number) => { width: number; height: number },
+		options?: AnnotationExportOptions
+	): string;
+	static fromXfdf(
+		source: string,
+		pageSize: (page: number) => { width: number; height: number }
+	): unknown[];
+	static parsePdfDate(value: unknown): string | null;
+	static formatPdfDate(value: string | undefined): string;
+	static isColor(color: string): boolean;
+	static toRgb(color: string): number[] | null;
+}
+
+export declare class LocalStorageAnnotationStore implements AnnotationStore {
+	readonly prefix: string;
+
+	constructor(prefix?: string);
+
+	load(documentId: string): Promise<Annotation[] | null>;
+	save(documentId: string, annotations: Annotation[], removed?: string[]): Promise<void>;
+	remove(documentId: string): Promise<void>;
+	loadRemoved(documentId: string): Promise<string[]>;
+}
+
+export declare class IndexedDBAnnotationStore implements AnnotationStore {
+	readonly databaseName: string;
+	readonly storeName: string;
+
+	constructor(databaseName?: string, storeName?: string);
+
+	load(documentId: string): Promise<Annotation[] | null>;
+	save(documentId: string, annotations: Annotation[], removed?: string[]): Promise<void>;
+	remove(documentId: string): Promise<void>;
+	loadRemoved(documentId: string): Promise<string[]>;
+	close(): Promise<void>;
+}
+
+export declare class AnnotationSync {
+	readonly replica: string;
+
+	constructor(
+		adapter: SyncAdapter,
+		options?: SyncOptions & { onPresenceChange?: (peers: PresenceState[]) => void }
+	);
+
+	static compareClocks(a: SyncClock, b: SyncClock): number;
+	static pickColor(replica: string): string;
+	connect(): Promise<void>;
+	disconnect(): void;
+	attach(renderer: BaseRenderer): void;
+	detach(): void;
+	updatePresence(changes: { page?: number; cursor?: AnnotationPoint | null }): void;
+	getPeers(): PresenceState[];
+	getSnapshot(): AnnotationOperation[];
+	applyOperations(ops: AnnotationOperation[]): void;
+	receive(message: SyncMessage): void;
+}
+
+export declare class LocalSyncAdapter implements SyncAdapter {
+	readonly channelName: string;
+
+	constructor(channelName?: string, options?: { transport?: "broadcast" | "memory" });
+
+	connect(receive: (message: SyncMessage) => void): void;
+	push(message: SyncMessage): void;
+	disconnect(): void;
+}
+
+export declare class PresenceLayer {
+	static render(
+		pageElement: HTMLElement,
+		peers: PresenceState[],
+		layout: AnnotationLayout
+	): HTMLElement | null;
+	static find(pageElement: HTMLElement): HTMLElement | null;
+	static clear(pageElement: HTMLElement): void;
+}
+
+export declare class HistoryStack {
+	constructor(options?: {
+		limit?: number;
+		maxSize?: number;
+		onChange?: (state: HistoryState) => void;
+	});
+
+	readonly isReplaying: boolean;
+	push(command: HistoryCommand): void;
+	undo(): boolean;
+	redo(): boolean;
+	canUndo(): boolean;
+	canRedo(): boolean;
+	getState(): HistoryState;
+	clear(): void;
+}
+
+export declare class AnnotationEditor {
+	public tool: AnnotationTool | null;
+
+	constructor(container: HTMLElement, getRenderer: () => BaseRenderer | null);
+
+	setTool(tool: AnnotationTool | null): void;
+	openPopover(id: string): void;
+	closePopover(): void;
+	reset(): void;
+	destroy(): void;
+}
+
+export declare class DependencyLoader {
+	static load(
+		name: DependencyName,
+		options?: DependencyOptions,
+		sources?: { importModule?: () => Promise<unknown>; url?: string }
+	): Promise<unknown>;
+	static resolveScript(
+		name: DependencyName,
+		options?: DependencyOptions,
+		sources?: { url?: string }
+	): ScriptSource;
+	static loadScript(source: ScriptSource, options?: DependencyOptions): Promise<void>;
+}
+
+export declare class TextSearch {
+	static createPattern(query: string, options?: SearchOptions): RegExp;
+	static fold(text: string): { text: string; offsets: number[] };
+	static find(text: string, query: string, options?: SearchOptions): TextMatch[];
+	static getContext(
+		text: string,
+		index: number,
+		length: number,
+		contextLength?: number
+	): { before: string; match: string; after: string };
+	static highlight(
+		root: Node,
+		query: string,
+		options?: SearchOptions,
+		decorate?: (mark: HTMLElement) => void,
+		exclude?: string
+	): HTMLElement[];
+}
+
 export declare class DocumentDetector {
-	static detectType(source: string | File | Blob): Promise<string>;
+	static detectType(
+		source: string | File | Blob,
+		loadOptions?: SourceLoadOptions
+	): Promise<string>;
+	static detect(
+		source: string | File | Blob,
+		hints?: DetectionHints,
+		loadOptions?: SourceLoadOptions
+	): Promise<DetectionResult>;
+	static detectFromBytes(bytes: Uint8Array, entryNames?: string[]): DetectionCandidate[];
+	static detectFromContentType(
+		contentType: string | null | undefined,
+		method?: "content-type" | "blob-type"
+	): DetectionCandidate[];
+	static detectFromFilename(filename: string | null | undefined): DetectionCandidate[];
+	static parseContentDisposition(header: string | null | undefined): string | null;
+	static getUrlFilename(url: string): string;
 }
 
 export declare class RendererFactory {
@@ -161,15 +1015,38 @@ export declare class BukaViewer {
 
 	constructor(container: HTMLElement | string, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput, options?: LoadOptions): Promise<void>;
 	on(event: keyof typeof EVENTS, callback: EventCallback): void;
 	emit(event: string, data: any): void;
 
 	getCurrentPage(): number;
 	getTotalPages(): number;
 	getZoom(): number;
-	addAnnotation(annotation: Annotation): string | undefined;
-	exportAnnotations(): Annotation[];
+	addAnnotation(annotation: AnnotationInput): string | undefined;
+	updateAnnotation(id: string, changes: AnnotationChanges): boolean;
+	removeAnnotation(id: string): boolean;
+	getAnnotations(page?: number): Annotation[];
+	exportAnnotations<F extends AnnotationFormat = "json">(
+		format?: F,
+		options?: AnnotationExportOptions
+	): AnnotationExports[F];
+	importAnnotations(input: unknown, options?: AnnotationImportOptions): AnnotationImportResult;
+	exportPDF(): Promise<Blob>;
+	getDocumentId(): string | null;
+	saveAnnotations(): Promise<void>;
+	scheduleAutosave(): void;
+	cancelAutosave(): void;
+	restoreAnnotations(): Promise<void>;
+	connectSync(adapter: SyncAdapter, options?: SyncOptions): Promise<void>;
+	disconnectSync(): void;
+	getPeers(): PresenceState[];
+	setAnnotationTool(tool: AnnotationTool | null): void;
+	getAnnotationTool(): AnnotationTool | null;
+	undo(): boolean;
+	redo(): boolean;
+	canUndo(): boolean;
+	canRedo(): boolean;
+	getText(options?: TextExtractionOptions): Promise<PageTextContent[]>;
 
 	generateThumbnails(): Promise<void>;
 	toggleThumbnails(): void;
@@ -178,27 +1055,52 @@ export declare class BukaViewer {
 
 	performSearch(): void;
 	clearSearch(): void;
+	getSearchOptions(): SearchOptions;
+	toggleSearchOption(option: keyof SearchOptions): void;
+	nextSearchResult(): void;
+	previousSearchResult(): void;
+	showSearchResult(index: number): Promise<void>;
+	renderSearchResults(event: SearchResultEvent | SearchProgressEvent): void;
+	hideSearchPanel(): void;
+
+	showPasswordDialog(request: PasswordRequest): void;
+	hidePasswordDialog(): void;
 
 	toggleFullscreen(): void;
 	destroy(): void;
 }
 
 export declare class PDFRenderer extends BaseRenderer {
+	public pdfjsLib: any;
 	public pdfDocument: any;
 	public canvas: HTMLCanvasElement;
 	public context: CanvasRenderingContext2D;
 	public textLayer: HTMLElement;
+	public pageElements: HTMLElement[];
+	/** Pages within the render buffer around the viewport */
+	public visiblePages: Set<number>;
+	/** Rendered pages and the zoom they were drawn at */
+	public renderedPages: Map<number, number>;
 	public searchResults: SearchResult[];
 	public currentSearchIndex: number;
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput): Promise<void>;
+	loadPDFJS(): Promise<any>;
+	getAssetUrl(path: string): string;
+	requestPassword(reason: PasswordReason, attempt: number): Promise<string | null>;
+	cancelSearch(): void;
 	render(): Promise<void>;
-	search(query: string): Promise<SearchResult[]>;
+	renderPage(pageNum: number): Promise<void>;
+	evictPage(pageNum: number): void;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
 	goto(page: number): Promise<boolean>;
 	zoom(factor: number): Promise<void>;
 	getDocumentTitle(): Promise<string>;
+	importPDFAnnotations(): Promise<void>;
+	importPageAnnotations(pageNum: number, page: any): Promise<void>;
+	exportPDF(): Promise<Blob>;
 }
 
 export declare class ImageRenderer extends BaseRenderer {
@@ -211,9 +1113,9 @@ export declare class ImageRenderer extends BaseRenderer {
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput): Promise<void>;
 	render(): Promise<void>;
-	search(query: string): Promise<SearchResult[]>;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
 	zoom(factor: number): Promise<void>;
 	setFitMode(mode: "fit-width" | "fit-height" | "fit-page" | "original"): void;
 	fitToWidth(): void;
@@ -230,7 +1132,7 @@ export declare class ImageRenderer extends BaseRenderer {
 	handleWheel(event: WheelEvent): void;
 	applyFitMode(): void;
 	centerImage(): void;
-	getImageTitle(source: string | File | Blob): string;
+	getImageTitle(source: DocumentInput): string;
 	getViewInfo(): void;
 	brighten(amount: number = 10): void;
 	darken(amount: number = 10): void;
@@ -242,6 +1144,8 @@ export declare class ImageRenderer extends BaseRenderer {
 	addBlur(amount: number = 1): void;
 	toGrayscale(): void;
 	toSepia(): void;
+	adjustFilter(label: string, filterType: keyof ImageFilterState, value: number): void;
+	recordImageEdit(label: string, edit: () => void): void;
 	getFilters(): ImageFilterState;
 	getCropArea(): CropArea | null;
 	createCropHandles(): void;
@@ -277,13 +1181,15 @@ export declare class DocxRenderer extends BaseRenderer {
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput): Promise<void>;
 	render(): Promise<void>;
-	search(query: string): Promise<SearchResult[]>;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
 	zoom(factor: number): Promise<void>;
 	getWordCount(): number;
 	getOutline(): Array<{ id: string; text: string; level: number; element: HTMLElement }>;
 	navigateToHeading(headingId: string): boolean;
+	/** Anchor for an occurrence of text in the document, counted from 0 */
+	findTextAnchor(quote: string, occurrence?: number): TextAnchor | null;
 }
 
 export declare class XlsxRenderer extends BaseRenderer {
@@ -292,24 +1198,32 @@ export declare class XlsxRenderer extends BaseRenderer {
 	public currentSheetIndex: number;
 	public currentSheetData: any[][];
 	public gridContainer: HTMLElement;
+	/** Scrolls with the grid and holds the annotation layer */
+	public gridContent: HTMLElement;
 	public virtualScrolling: boolean;
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput): Promise<void>;
 	render(): Promise<void>;
-	search(query: string): Promise<SearchResult[]>;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
 	zoom(factor: number): Promise<void>;
 	switchToSheet(sheetIndex: number): Promise<void>;
+	getSheetData(sheetIndex: number): any[][];
+	scrollToSearchResult(index: number): Promise<void>;
 	exportToCSV(): string;
 	downloadCSV(): void;
 	getSheetStats(): any;
 	nextSearchResult(): void;
 	previousSearchResult(): void;
+	/** Zero-based row and column of an A1-style address */
+	static decodeAddress(address: string): { row: number; col: number } | null;
 }
 
 export declare class PresentationRenderer extends BaseRenderer {
-	public slides: any[];
+	public slides: PresentationSlide[];
+	public slideSize: { width: number; height: number };
+	public degradation: DocumentDegradedEvent | null;
 	public currentSlideIndex: number;
 	public slideContainer: HTMLElement;
 	public slideNavigation: HTMLElement;
@@ -318,14 +1232,14 @@ export declare class PresentationRenderer extends BaseRenderer {
 
 	constructor(container: HTMLElement, options?: ViewerOptions);
 
-	load(source: string | File | Blob): Promise<void>;
+	load(source: DocumentInput): Promise<void>;
 	render(): Promise<void>;
-	search(query: string): Promise<SearchResult[]>;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
 	zoom(factor: number): Promise<void>;
 	goToSlide(slideIndex: number): Promise<boolean>;
 	nextSlide(): Promise<boolean>;
 	previousSlide(): Promise<boolean>;
-	getCurrentSlide(): any;
+	getCurrentSlide(): PresentationSlide | undefined;
 	getSlideNotes(): string;
 	enterPresentationMode(): void;
 	exitPresentationMode(): void;
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { AnnotationEditor, BaseRenderer, BukaViewer, EVENTS } from "../../src/core/index.ts";
+
+/**
+ * Renderer showing a single 200x100 page at the top-left of the viewport
+ */
+class PageRenderer extends BaseRenderer {
+	constructor(container) {
+		super(container);
+		this.page = document.createElement("div");
+		this.page.getBoundingClientRect = () => ({
+			left: 0,
+			top: 0,
+			right: 200,
+			bottom: 100,
+			width: 200,
+			height: 100
+		});
+		container.appendChild(this.page);
+	}
+
+	async load() {}
+
+	async render() {}
+
+	async search() {
+		return [];
+	}
+
+	getAnnotationPageElement(page) {
+		return page === 1 ? this.page : null;
+	}
+
+	getAnnotationLayout() {
+		return { width: 200, height: 100, scale: 1 };
+	}
+}
+
+const mouse = (target, type, clientX, clientY) =>
+	target.dispatchEvent(new MouseEvent(type, { bubbles: true, button: 0, clientX, clientY }));
+
+// Page fractions rounded to drop floating point noise
+const rounded = (value) =>
+	JSON.parse(
+		JSON.stringify(value, (key, number) =>
+			typeof number === "number" ? Math.round(number * 1000) / 1000 : number
+		)
+	);
+
+const drag = (target, from, to) => {
+	mouse(target, "mousedown", ...from);
+	mouse(document, "mousemove", ...to);
+	mouse(document, "mouseup", ...to);
+};
+
+describe("AnnotationEditor", () => {
+	let container;
+	let renderer;
+	let editor;
+
+	const drawn = (selector = ".buka-annotation") =>
+		Array.from(renderer.page.querySelectorAll(`.buka-annotation-layer ${selector}`));
+
+	beforeEach(() => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		renderer = new PageRenderer(container);
+		editor = new AnnotationEditor(container, () => renderer);
+	});
+
+	afterEach(() => {
+		editor.destroy();
+		renderer.destroy();
+		container.remove();
+	});
+
+	test("should draw shapes, arrows and ink by dragging", () => {
+		editor.setTool("rectangle");
+		drag(renderer.page, [20, 20], [100, 80]);
+		editor.setTool("arrow");
+		drag(renderer.page, [0, 0], [50, 50]);
+		editor.setTool("ink");
+		mouse(renderer.page, "mousedown", 10, 10);
+		mouse(document, "mousemove", 20, 30);
+		mouse(document, "mousemove", 40, 50);
+		mouse(document, "mouseup", 40, 50);
+
+		const [rectangle, arrow, ink] = renderer.getAnnotations(1);
+		expect(rounded(rectangle.position)).toEqual({ x: 0.1, y: 0.2, width: 0.4, height: 0.6 });
+		expect(arrow).toMatchObject({ start: { x: 0, y: 0 }, end: { x: 0.25, y: 0.5 } });
+		expect(rounded(ink.paths)).toEqual([
+			[
+				{ x: 0.05, y: 0.1 },
+				{ x: 0.1, y: 0.3 },
+				{ x: 0.2, y: 0.5 }
+			]
+		]);
+		expect(container.querySelector(".buka-annotation-preview")).toBeNull();
+	});
+
+	test("should ignore clicks that are too small for a shape", () => {
+		editor.setTool("ellipse");
+		drag(renderer.page, [20, 20], [20, 20]);
+
+		expect(renderer.getAnnotations()).toEqual([]);
+	});
+
+	test("should place a note and edit its comment", () => {
+		const updated = vi.fn();
+		renderer.on(EVENTS.ANNOTATION_UPDATED, updated);
+		editor.setTool("note");
+
+		drag(renderer.page, [100, 50], [100, 50]);
+
+		const [note] = renderer.getAnnotations();
+		expect(note.position).toEqual({ x: 0.5, y: 0.5 });
+		const input = container.querySelector(".buka-annotation-popover-input");
+		expect(document.activeElement).toBe(input);
+
+		input.value = "Check the totals";
+		container.querySelector("[data-action='save']").click();
+
+		expect(renderer.annotations.get(note.id).content).toBe("Check the totals");
+		expect(updated).toHaveBeenCalledWith(renderer.annotations.get(note.id));
+		expect(container.querySelector(".buka-annotation-popover")).toBeNull();
+	});
+
+	test("should select and move an annotation", () => {
+		const updated = vi.fn();
+		renderer.on(EVENTS.ANNOTATION_UPDATED, updated);
+		const id = renderer.addAnnotation({
+			type: "rectangle",
+			position: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 }
+		});
+		editor.setTool("select");
+
+		const [shape] = drawn();
+		mouse(shape, "mousedown", 30, 20);
+		expect(renderer.selectedAnnotationId).toBe(id);
+		expect(drawn(".buka-annotation-selection")).toHaveLength(1);
+
+		mouse(document, "mousemove", 50, 30);
+		expect(container.querySelector(".buka-annotation-preview")).not.toBeNull();
+		mouse(document, "mouseup", 70, 40);
+
+		expect(rounded(renderer.annotations.get(id).position)).toEqual({
+			x: 0.3,
+			y: 0.3,
+			width: 0.2,
+			height: 0.2
+		});
+		expect(updated).toHaveBeenCalledTimes(1);
+		expect(drawn()[0].style.visibility).toBe("");
+	});
+
+	test("should resize the selection from a handle", () => {
+		const id = renderer.addAnnotation({
+			type: "ink",
+			paths: [
+				[
+					{ x: 0.1, y: 0.1 },
+					{ x: 0.3, y: 0.5 }
+				]
+			]
+		});
+		editor.setTool("select");
+		mouse(drawn()[0], "mousedown", 20, 10);
+		mouse(document, "mouseup", 20, 10);
+
+		const handle = drawn(".buka-annotation-handle[data-handle='se']")[0];
+		drag(handle, [60, 50], [100, 90]);
+
+		expect(rounded(renderer.annotations.get(id).paths)).toEqual([
+			[
+				{ x: 0.1, y: 0.1 },
+				{ x: 0.5, y: 0.9 }
+			]
+		]);
+	});
+
+	test("should delete the selected annotation with the keyboard", () => {
+		const removed = vi.fn();
+		renderer.on(EVENTS.ANNOTATION_REMOVED, removed);
+		const id = renderer.addAnnotation({ type: "note", position: { x: 0.2, y: 0.2 } });
+		editor.setTool("select");
+
+		mouse(drawn()[0], "mousedown", 40, 20);
+		mouse(document, "mouseup", 40, 20);
+		document.activeElement.dispatchEvent(
+			new KeyboardEvent("keydown", { key: "Delete", bubbles: true })
+		);
+
+		expect(renderer.annotations.has(id)).toBe(false);
+		expect(removed).toHaveBeenCalledTimes(1);
+		expect(drawn()).toHaveLength(0);
+	});
+
+	test("should deselect when clicking outside annotations", () => {
+		const id = renderer.addAnnotation({ type: "note", position: { x: 0.2, y: 0.2 } });
+		editor.setTool("select");
+		renderer.selectAnnotation(id);
+
+		mouse(renderer.page, "mousedown", 150, 80);
+
+		expect(renderer.selectedAnnotationId).toBeNull();
+		expect(drawn(".buka-annotation-selection")).toHaveLength(0);
+	});
+});
+
+describe("BukaViewer annotation toolbar", () => {
+	let container;
+	let viewer;
+
+	beforeEach(async () => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		viewer = new BukaViewer(container);
+		await vi.waitFor(() =>
+			expect(container.querySelector("#toggleAnnotations")).not.toBeNull()
+		);
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+	});
+
+	test("should switch annotation tools from the toolbar", () => {
+		const palette = container.querySelector(".buka-annotation-tools");
+		const documentContainer = container.querySelector(".buka-document-container");
+		const pressed = () =>
+			Array.from(
+				container.querySelectorAll(".buka-annotation-tool[aria-pressed='true']")
+			).map((button) => button.dataset.annotationTool);
+
+		container.querySelector("#toggleAnnotations").click();
+		expect(palette.style.display).toBe("flex");
+		expect(pressed()).toEqual(["select"]);
+
+		container.querySelector("[data-annotation-tool='ink']").click();
+		expect(viewer.getAnnotationTool()).toBe("ink");
+		expect(documentContainer.dataset.annotationTool).toBe("ink");
+		expect(pressed()).toEqual(["ink"]);
+
+		container.querySelector("#toggleAnnotations").click();
+		expect(viewer.getAnnotationTool()).toBeNull();
+		expect(palette.style.display).toBe("none");
+		expect(documentContainer.dataset.annotationTool).toBeUndefined();
+	});
+});
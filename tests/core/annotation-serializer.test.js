@@ -0,0 +1,330 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { AnnotationSerializer, BaseRenderer } from "../../src/core/index.ts";
+
+class TestRenderer extends BaseRenderer {
+	async load() {}
+
+	async render() {}
+
+	async search() {
+		return [];
+	}
+
+	getAnnotationLayout() {
+		return { width: 800, height: 1000, scale: 2 };
+	}
+}
+
+const annotations = [
+	{
+		id: "mark",
+		type: "highlight",
+		page: 2,
+		rects: [
+			{ x: 0.1, y: 0.2, width: 0.5, height: 0.05 },
+			{ x: 0.1, y: 0.25, width: 0.3, height: 0.05 }
+		],
+		text: "quoted words",
+		content: "Check this",
+		author: "Ada",
+		color: "#ffeb3b",
+		opacity: 0.4,
+		timestamp: "2024-01-31T12:00:00.000Z",
+		modified: "2024-02-01T08:30:00.000Z"
+	},
+	{
+		id: "sketch",
+		type: "ink",
+		page: 1,
+		paths: [
+			[
+				{ x: 0.1, y: 0.1 },
+				{ x: 0.2, y: 0.3 }
+			]
+		],
+		strokeWidth: 3,
+		color: "#ff0000",
+		timestamp: "2024-01-31T12:00:00.000Z"
+	},
+	{
+		id: "pointer",
+		type: "arrow",
+		page: 1,
+		start: { x: 0.5, y: 0.5 },
+		end: { x: 0.75, y: 0.25 },
+		color: "#0000ff",
+		timestamp: "2024-01-31T12:00:00.000Z"
+	},
+	{
+		id: "box",
+		type: "rectangle",
+		page: 1,
+		position: { x: 0.25, y: 0.5, width: 0.25, height: 0.125 },
+		fillColor: "#00ff00",
+		timestamp: "2024-01-31T12:00:00.000Z"
+	},
+	{
+		id: "approved",
+		type: "stamp",
+		page: 1,
+		position: { x: 0.5, y: 0.75, width: 0.25, height: 0.125 },
+		label: "Approved",
+		timestamp: "2024-01-31T12:00:00.000Z"
+	},
+	{
+		id: "sticky",
+		type: "note",
+		page: 3,
+		position: { x: 0.5, y: 0.5 },
+		content: "Line one\nLine two",
+		timestamp: "2024-01-31T12:00:00.000Z"
+	}
+];
+
+describe("AnnotationSerializer", () => {
+	let renderer;
+
+	beforeEach(() => {
+		renderer = new TestRenderer(document.createElement("div"));
+		renderer.importAnnotations(annotations);
+	});
+
+	test("should export W3C Web Annotations with standard selectors", () => {
+		const [mark] = renderer.exportAnnotations("w3c", { source: "https://example.com/a.pdf" });
+
+		expect(mark).toMatchObject({
+			"@context": expect.arrayContaining(["http://www.w3.org/ns/anno.jsonld"]),
+			id: "urn:buka-annotation:mark",
+			type: "Annotation",
+			motivation: "highlighting",
+			created: "2024-01-31T12:00:00.000Z",
+			modified: "2024-02-01T08:30:00.000Z",
+			creator: { type: "Person", name: "Ada" },
+			body: { type: "TextualBody", value: "Check this" },
+			target: {
+				source: "https://example.com/a.pdf",
+				selector: [
+					{
+						type: "FragmentSelector",
+						value: "page=2",
+						refinedBy: { type: "FragmentSelector", value: "xywh=percent:10,20,50,10" }
+					},
+					{ type: "TextQuoteSelector", exact: "quoted words" }
+				]
+			}
+		});
+	});
+
+	test("should read back its own W3C and XFDF exports", () => {
+		const web = JSON.stringify(renderer.exportAnnotations("w3c"));
+		const xfdf = renderer.exportAnnotations("xfdf");
+
+		const fromWeb = new TestRenderer(document.createElement("div"));
+		expect(fromWeb.importAnnotations(web).errors).toEqual([]);
+		expect(fromWeb.exportAnnotations()).toEqual(annotations);
+
+		const fromXfdf = new TestRenderer(document.createElement("div"));
+		expect(fromXfdf.importAnnotations(xfdf).errors).toEqual([]);
+		const [mark, sketch, pointer, box, approved, sticky] = fromXfdf.exportAnnotations();
+		expect(mark).toMatchObject({
+			id: "mark",
+			page: 2,
+			author: "Ada",
+			color: "#ffeb3b",
+			opacity: 0.4,
+			content: "Check this",
+			timestamp: "2024-01-31T12:00:00.000Z",
+			modified: "2024-02-01T08:30:00.000Z"
+		});
+		expect(mark.rects[1].x).toBeCloseTo(0.1);
+		expect(mark.rects[1].width).toBeCloseTo(0.3);
+		expect(sketch.paths[0][1].y).toBeCloseTo(0.3);
+		expect(sketch.strokeWidth).toBe(3);
+		expect(pointer.end.x).toBeCloseTo(0.75);
+		expect(box).toMatchObject({ type: "rectangle", fillColor: "#00ff00" });
+		expect(box.position.height).toBeCloseTo(0.125);
+		expect(approved).toMatchObject({ type: "stamp", label: "Approved" });
+		expect(sticky).toMatchObject({ type: "note", page: 3, content: "Line one\nLine two" });
+		expect(sticky.position.x).toBeCloseTo(0.5);
+	});
+
+	test("should write XFDF in PDF points from the bottom of the page", () => {
+		const xfdf = renderer.exportAnnotations("xfdf", { source: "a.pdf" });
+		const xml = new DOMParser().parseFromString(xfdf, "application/xml");
+
+		const line = xml.querySelector("line");
+		expect(line.getAttribute("page")).toBe("0");
+		expect(line.getAttribute("start")).toBe("200,250");
+		expect(line.getAttribute("end")).toBe("300,375");
+		expect(xml.querySelector("highlight").getAttribute("date")).toBe("D:20240201083000Z");
+		expect(xml.querySelector("f").getAttribute("href")).toBe("a.pdf");
+	});
+
+	test("should import annotations written by other tools", () => {
+		const result = renderer.importAnnotations(
+			{
+				"@context": "http://www.w3.org/ns/anno.jsonld",
+				type: "AnnotationCollection",
+				first: {
+					type: "AnnotationPage",
+					items: [
+						{
+							id: "https://example.com/annotations/1",
+							type: "Annotation",
+							bodyValue: "Nice quote",
+							target: {
+								source: "https://example.com/a.pdf",
+								selector: { type: "TextQuoteSelector", exact: "to be or not to be" }
+							}
+						}
+					]
+				}
+			},
+			{ format: "w3c" }
+		);
+
+		expect(result.imported).toEqual([
+			expect.objectContaining({
+				id: "https://example.com/annotations/1",
+				type: "note",
+				page: 1,
+				content: "Nice quote"
+			})
+		]);
+	});
+
+	test("should report every invalid item and import the rest", () => {
+		const result = renderer.importAnnotations([
+			{ type: "note", position: { x: 0.1, y: 0.1 } },
+			{ id: "bad", type: "ink", paths: [[{ x: "1", y: 0 }]], opacity: 2 },
+			{ type: "comet" },
+			"not an annotation"
+		]);
+
+		expect(result.imported).toHaveLength(1);
+		expect(result.imported[0].id).toMatch(/^ann_/);
+		expect(result.imported[0].timestamp).toEqual(expect.any(String));
+		expect(result.errors).toEqual([
+			{ index: 1, id: "bad", path: "opacity", message: "Expected a number from 0 to 1" },
+			{
+				index: 1,
+				id: "bad",
+				path: "paths.0.0",
+				message: "Expected a point with numeric x and y"
+			},
+			{
+				index: 2,
+				path: "type",
+				message: `Unknown annotation type ${JSON.stringify("comet")}`
+			},
+			{ index: 3, path: "", message: "Expected an annotation object" }
+		]);
+	});
+
+	test("should reject colors that are not a single CSS color", () => {
+		const result = renderer.importAnnotations([
+			{ type: "note", position: { x: 0.1, y: 0.1 }, color: "rgb(255, 235, 59)" },
+			{
+				id: "styled",
+				type: "note",
+				position: { x: 0.2, y: 0.2 },
+				color: "red; background-image: url(https://tracker.example/pixel)"
+			}
+		]);
+
+		expect(result.imported).toHaveLength(1);
+		expect(result.errors).toEqual([
+			{ index: 1, id: "styled", path: "color", message: "Expected a CSS color" }
+		]);
+	});
+
+	test("should keep text and cell anchors", () => {
+		const anchor = { type: "text", start: 120, end: 128, quote: "Clause 4" };
+		const [exported] = AnnotationSerializer.toWebAnnotation({
+			type: "highlight",
+			page: 2,
+			anchor
+		}).target.selector.slice(1);
+		expect(exported).toEqual({ type: "TextQuoteSelector", exact: "Clause 4" });
+
+		const result = renderer.importAnnotations([
+			{
+				type: "Annotation",
+				target: {
+					source: "contract.docx",
+					selector: [
+						{ type: "TextQuoteSelector", exact: "Clause 4" },
+						{ type: "TextPositionSelector", start: 120, end: 128 }
+					]
+				}
+			},
+			{ type: "note", anchor: { type: "cell", sheet: "Totals", address: "B2" } },
+			{ type: "note", anchor: { type: "cell", sheet: "Totals", address: "row 2" } },
+			{ type: "note", anchor: { type: "shape" } }
+		]);
+
+		expect(result.imported.map((annotation) => annotation.anchor)).toEqual([
+			anchor,
+			{ type: "cell", sheet: "Totals", address: "B2" }
+		]);
+		expect(result.errors).toEqual([
+			{ index: 2, path: "anchor.address", message: "Expected an A1-style cell address" },
+			{
+				index: 3,
+				path: "anchor.type",
+				message: `Unknown anchor type ${JSON.stringify("shape")}`
+			}
+		]);
+	});
+
+	test("should throw when the input cannot be read at all", () => {
+		expect(() => renderer.importAnnotations("<xfdf><annots>", { format: "xfdf" })).toThrow(
+			"Invalid XFDF document"
+		);
+		expect(() => renderer.importAnnotations("{oops")).toThrow("Invalid annotation JSON");
+	});
+
+	test("should resolve id conflicts with the chosen strategy", () => {
+		const incoming = (modified) => [
+			{
+				id: "sticky",
+				type: "note",
+				page: 3,
+				position: { x: 0.1, y: 0.1 },
+				content: "Incoming",
+				modified
+			}
+		];
+
+		expect(renderer.importAnnotations(incoming(), { onConflict: "keep" }).conflicts).toEqual([
+			{ id: "sticky", resolution: "kept" }
+		]);
+		expect(renderer.annotations.get("sticky").content).toBe("Line one\nLine two");
+
+		renderer.importAnnotations(incoming("2020-01-01T00:00:00.000Z"), { onConflict: "newest" });
+		expect(renderer.annotations.get("sticky").content).toBe("Line one\nLine two");
+		renderer.importAnnotations(incoming("2030-01-01T00:00:00.000Z"), { onConflict: "newest" });
+		expect(renderer.annotations.get("sticky").content).toBe("Incoming");
+
+		const [renamed] = renderer.importAnnotations(incoming(), {
+			onConflict: "rename"
+		}).conflicts;
+		expect(renamed).toEqual({ id: "sticky", resolution: "renamed", newId: expect.any(String) });
+		expect(renderer.annotations.get(renamed.newId).content).toBe("Incoming");
+
+		expect(renderer.importAnnotations(incoming()).conflicts).toEqual([
+			{ id: "sticky", resolution: "replaced" }
+		]);
+		expect(renderer.getAnnotations(3)).toHaveLength(2);
+	});
+
+	test("should convert PDF dates and CSS colors", () => {
+		expect(AnnotationSerializer.parsePdfDate("D:20240131120000+01'00'")).toBe(
+			"2024-01-31T11:00:00.000Z"
+		);
+		expect(AnnotationSerializer.toRgb("#f80")).toEqual([255, 136, 0]);
+		expect(AnnotationSerializer.toRgb("rgba(0, 50%, 255, 0.5)")).toEqual([0, 128, 255]);
+		expect(AnnotationSerializer.detectFormat("  <?xml version='1.0'?><xfdf/>")).toBe("xfdf");
+		expect(AnnotationSerializer.detectFormat([{ type: "note" }])).toBe("json");
+	});
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+	BaseRenderer,
+	BukaViewer,
+	EVENTS,
+	IndexedDBAnnotationStore,
+	LocalStorageAnnotationStore,
+	RendererFactory,
+	SourceLoader
+} from "../../src/core/index.ts";
+
+class TestRenderer extends BaseRenderer {
+	async load() {}
+
+	async render() {}
+
+	async search() {
+		return [];
+	}
+}
+
+const note = (content) => ({ type: "note", page: 1, position: { x: 0.5, y: 0.5 }, content });
+
+describe("LocalStorageAnnotationStore", () => {
+	afterEach(() => {
+		localStorage.clear();
+	});
+
+	test("should save, load and remove the annotations of a document", async () => {
+		const store = new LocalStorageAnnotationStore("test:");
+		const annotations = [{ id: "a", ...note("Saved") }];
+
+		expect(await store.load("contract")).toBeNull();
+		await store.save("contract", annotations);
+		expect(localStorage.getItem("test:contract")).toBe(JSON.stringify(annotations));
+		expect(await store.load("contract")).toEqual(annotations);
+
+		await store.remove("contract");
+		expect(await store.load("contract")).toBeNull();
+	});
+
+	test("should treat an entry that is not JSON as empty", async () => {
+		const store = new LocalStorageAnnotationStore("test:");
+		localStorage.setItem("test:contract", "{not json");
+
+		expect(await store.load("contract")).toBeNull();
+		expect(await store.loadRemoved("contract")).toEqual([]);
+	});
+});
+
+describe("IndexedDBAnnotationStore", () => {
+	test("should reject where IndexedDB is not available", async () => {
+		await expect(new IndexedDBAnnotationStore().load("contract")).rejects.toThrow(
+			"IndexedDB is not available"
+		);
+	});
+});
+
+describe("SourceLoader.fingerprint", () => {
+	test("should identify documents by their bytes", async () => {
+		const first = await SourceLoader.fingerprint(new Uint8Array([1, 2, 3]).buffer);
+
+		expect(await SourceLoader.fingerprint(new Uint8Array([1, 2, 3]).buffer)).toBe(first);
+		expect(await SourceLoader.fingerprint(new Uint8Array([1, 2, 4]).buffer)).not.toBe(first);
+	});
+});
+
+describe("BukaViewer annotation persistence", () => {
+	let container;
+	let viewer;
+	let store;
+
+	const open = (documentId) =>
+		viewer.load(new File(["%PDF"], "contract.pdf"), {
+			mimeType: "application/pdf",
+			...(documentId && { documentId })
+		});
+
+	beforeEach(async () => {
+		vi.spyOn(RendererFactory, "create").mockImplementation(
+			(_mimeType, documentContainer, options) => new TestRenderer(documentContainer, options)
+		);
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		store = new LocalStorageAnnotationStore("test:");
+		viewer = new BukaViewer(container, {
+			annotationStore: store,
+			autosaveDelay: 10,
+			enableThumbnails: false
+		});
+		await vi.waitFor(() =>
+			expect(container.querySelector(".buka-document-container")).not.toBeNull()
+		);
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+		localStorage.clear();
+		vi.restoreAllMocks();
+	});
+
+	test("should autosave changes and restore them when the document is opened again", async () => {
+		await open("contract");
+		const id = viewer.addAnnotation(note("Check clause 4"));
+		await vi.waitFor(async () => expect(await store.load("contract")).toHaveLength(1));
+
+		await open("invoice");
+		expect(viewer.getAnnotations()).toEqual([]);
+		viewer.addAnnotation(note("Pay by Friday"));
+
+		// Opening the next document saves changes still waiting for the delay
+		await open("contract");
+		expect(await store.load("invoice")).toEqual([
+			expect.objectContaining({ content: "Pay by Friday" })
+		]);
+		expect(viewer.getAnnotations()).toEqual([
+			expect.objectContaining({ id, content: "Check clause 4" })
+		]);
+	});
+
+	test("should key documents by a hash of their bytes by default", async () => {
+		await open();
+		const documentId = viewer.getDocumentId();
+		viewer.addAnnotation(note("Found again"));
+
+		await open();
+		expect(viewer.getDocumentId()).toBe(documentId);
+		expect(viewer.getAnnotations()).toEqual([
+			expect.objectContaining({ content: "Found again" })
+		]);
+	});
+
+	test("should report saved annotations that are no longer valid", async () => {
+		const errors = [];
+		viewer.on(EVENTS.ERROR, (error) => errors.push(error));
+		await store.save("contract", [
+			{ id: "a", ...note("Kept") },
+			{ id: "b", type: "unknown" }
+		]);
+
+		await open("contract");
+
+		expect(viewer.getAnnotations()).toEqual([expect.objectContaining({ content: "Kept" })]);
+		expect(errors.map((error) => error.message)).toEqual([
+			"Skipped 1 invalid saved annotations"
+		]);
+	});
+
+	test("should report a store that fails to save", async () => {
+		const errors = [];
+		viewer.on(EVENTS.ERROR, (error) => errors.push(error));
+		vi.spyOn(store, "save").mockRejectedValue(new Error("Quota exceeded"));
+		await open("contract");
+
+		viewer.addAnnotation(note("Too big"));
+		await viewer.saveAnnotations();
+
+		expect(errors.map((error) => error.message)).toEqual(["Quota exceeded"]);
+	});
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+	AnnotationSync,
+	BaseRenderer,
+	BukaViewer,
+	EVENTS,
+	LocalSyncAdapter
+} from "../../src/core/index.ts";
+
+class TestRenderer extends BaseRenderer {
+	constructor(container) {
+		super(container);
+		this.totalPages = 2;
+		this.pageElements = [document.createElement("div"), document.createElement("div")];
+	}
+
+	async load() {}
+
+	async render() {}
+
+	async search() {
+		return [];
+	}
+
+	getAnnotationPageElement(page) {
+		return this.pageElements[page - 1] ?? null;
+	}
+
+	getAnnotationLayout() {
+		return { width: 600, height: 800, scale: 1 };
+	}
+}
+
+const note = (x, content) => ({ type: "note", page: 1, position: { x, y: 0.5 }, content });
+
+describe("AnnotationSync", () => {
+	let sessions;
+
+	const join = async (replica, renderer = new TestRenderer(document.createElement("div"))) => {
+		const sync = new AnnotationSync(new LocalSyncAdapter("contract", { transport: "memory" }), {
+			replica,
+			name: replica
+		});
+		sync.attach(renderer);
+		await sync.connect();
+		sessions.push(sync);
+		return { sync, renderer };
+	};
+
+	beforeEach(() => {
+		sessions = [];
+	});
+
+	afterEach(() => {
+		sessions.forEach((sync) => sync.disconnect());
+	});
+
+	test("should share added, edited and deleted annotations", async () => {
+		const alice = await join("alice");
+		const bob = await join("bob");
+
+		const id = alice.renderer.addAnnotation(note(0.1, "Check clause 4"));
+		expect(bob.renderer.annotations.get(id)).toEqual(alice.renderer.annotations.get(id));
+
+		bob.renderer.updateAnnotation(id, { content: "Clause 4 is fine" });
+		expect(alice.renderer.annotations.get(id).content).toBe("Clause 4 is fine");
+
+		alice.renderer.removeAnnotation(id);
+		expect(bob.renderer.annotations.has(id)).toBe(false);
+
+		// Undoing the deletion brings the annotation back for everyone
+		alice.renderer.undo();
+		expect(bob.renderer.annotations.get(id).content).toBe("Clause 4 is fine");
+
+		// Bob's edit is not in Alice's history, her next undo removes her note
+		alice.renderer.undo();
+		expect(bob.renderer.annotations.has(id)).toBe(false);
+		expect(alice.renderer.canUndo()).toBe(false);
+	});
+
+	test("should merge concurrent operations in any order", () => {
+		const base = {
+			id: "n1",
+			clock: { counter: 1, replica: "alice" },
+			set: { type: "note", page: 1, position: { x: 0.1, y: 0.1 }, content: "Draft" }
+		};
+		const moved = {
+			id: "n1",
+			clock: { counter: 2, replica: "alice" },
+			set: { position: { x: 0.5, y: 0.5 } }
+		};
+		const commented = {
+			id: "n1",
+			clock: { counter: 2, replica: "bob" },
+			set: { content: "Reviewed" }
+		};
+		const deleted = { id: "n1", clock: { counter: 2, replica: "carol" }, remove: true };
+		const restored = {
+			id: "n1",
+			clock: { counter: 3, replica: "bob" },
+			set: { color: "#00897b" }
+		};
+
+		const orders = [
+			[base, moved, commented, deleted, restored],
+			[restored, deleted, commented, moved, base],
+			[commented, base, restored, moved, deleted, base]
+		];
+		const results = orders.map((ops) => {
+			const renderer = new TestRenderer(document.createElement("div"));
+			const sync = new AnnotationSync(
+				new LocalSyncAdapter("unused", { transport: "memory" })
+			);
+			sync.attach(renderer);
+			sync.applyOperations(ops);
+			return renderer.annotations.get("n1");
+		});
+
+		expect(results[0]).toEqual({
+			id: "n1",
+			type: "note",
+			page: 1,
+			position: { x: 0.5, y: 0.5 },
+			content: "Reviewed",
+			color: "#00897b"
+		});
+		expect(results[1]).toEqual(results[0]);
+		expect(results[2]).toEqual(results[0]);
+	});
+
+	test("should bring late joiners and offline changes up to date", async () => {
+		const alice = await join("alice");
+		const id = alice.renderer.addAnnotation(note(0.2, "Before Bob"));
+
+		const offline = new TestRenderer(document.createElement("div"));
+		const offlineId = offline.addAnnotation(note(0.7, "Written offline"));
+		const bob = await join("bob", offline);
+
+		expect(bob.renderer.annotations.get(id).content).toBe("Before Bob");
+		expect(alice.renderer.annotations.get(offlineId).content).toBe("Written offline");
+	});
+
+	test("should show where collaborators point", async () => {
+		const alice = await join("alice");
+		const bob = await join("bob");
+
+		bob.sync.updatePresence({ page: 2, cursor: { x: 0.5, y: 0.25 } });
+
+		expect(alice.sync.getPeers()).toEqual([
+			expect.objectContaining({ name: "bob", page: 2, cursor: { x: 0.5, y: 0.25 } })
+		]);
+		const cursor = alice.renderer.pageElements[1].querySelector(".buka-presence-cursor");
+		expect(cursor.textContent).toBe("bob");
+		expect(cursor.style.left).toBe("300px");
+		expect(cursor.style.top).toBe("200px");
+
+		bob.sync.disconnect();
+		sessions.splice(sessions.indexOf(bob.sync), 1);
+		expect(alice.sync.getPeers()).toEqual([]);
+		expect(alice.renderer.pageElements[1].querySelector(".buka-presence-layer")).toBeNull();
+	});
+});
+
+describe("BukaViewer sync", () => {
+	let container;
+	let viewer;
+
+	beforeEach(async () => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		viewer = new BukaViewer(container, { annotationAuthor: "Ada" });
+		await vi.waitFor(() => expect(container.querySelector("#undo")).not.toBeNull());
+		viewer.currentRenderer = new TestRenderer(document.createElement("div"));
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+	});
+
+	test("should connect the current document and report collaborators", async () => {
+		const presence = vi.fn();
+		viewer.on(EVENTS.PRESENCE_CHANGED, presence);
+		await viewer.connectSync(new LocalSyncAdapter("viewer", { transport: "memory" }));
+
+		const peer = new AnnotationSync(new LocalSyncAdapter("viewer", { transport: "memory" }), {
+			replica: "peer",
+			name: "Grace"
+		});
+		const renderer = new TestRenderer(document.createElement("div"));
+		peer.attach(renderer);
+		await peer.connect();
+
+		const id = viewer.addAnnotation(note(0.3, "Shared"));
+		expect(renderer.annotations.get(id)).toMatchObject({ content: "Shared" });
+		expect(peer.getPeers()).toEqual([expect.objectContaining({ name: "Ada" })]);
+		expect(presence).toHaveBeenLastCalledWith([expect.objectContaining({ name: "Grace" })]);
+
+		viewer.disconnectSync();
+		expect(peer.getPeers()).toEqual([]);
+		peer.disconnect();
+	});
+});
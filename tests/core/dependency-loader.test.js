@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { DependencyLoader } from "../../src/core/index.ts";
+
+const injectedScripts = () => Array.from(document.head.querySelectorAll("script"));
+
+describe("DependencyLoader", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		injectedScripts().forEach((script) => script.remove());
+	});
+
+	test("should return a library already on the page", async () => {
+		const mammoth = { convertToHtml: vi.fn() };
+		vi.stubGlobal("mammoth", mammoth);
+
+		expect(await DependencyLoader.load("mammoth")).toBe(mammoth);
+		expect(injectedScripts()).toHaveLength(0);
+	});
+
+	test("should prefer the npm package over a script tag", async () => {
+		vi.stubGlobal("XLSX", undefined);
+		const xlsx = { read: vi.fn() };
+
+		const loaded = await DependencyLoader.load(
+			"xlsx",
+			{},
+			{ importModule: () => Promise.resolve({ default: xlsx }) }
+		);
+
+		expect(loaded).toBe(xlsx);
+		expect(injectedScripts()).toHaveLength(0);
+	});
+
+	test("should inject one script with integrity and nonce for concurrent loads", async () => {
+		vi.stubGlobal("XLSX", undefined);
+		const options = {
+			nonce: "r4nd0m",
+			scripts: { xlsx: { url: "/vendor/xlsx.full.min.js", integrity: "sha384-abc" } }
+		};
+
+		const first = DependencyLoader.load("xlsx", options);
+		const second = DependencyLoader.load("xlsx", options);
+		await vi.waitFor(() => expect(injectedScripts()).toHaveLength(1));
+
+		const [script] = injectedScripts();
+		expect(script.getAttribute("src")).toBe("/vendor/xlsx.full.min.js");
+		expect(script.integrity).toBe("sha384-abc");
+		expect(script.crossOrigin).toBe("anonymous");
+		expect(script.nonce).toBe("r4nd0m");
+
+		const xlsx = { read: vi.fn() };
+		vi.stubGlobal("XLSX", xlsx);
+		script.onload();
+
+		expect(await first).toBe(xlsx);
+		expect(await second).toBe(xlsx);
+	});
+
+	test("should pin CDN scripts with integrity hashes", () => {
+		expect(DependencyLoader.resolveScript("pdfjs")).toEqual({
+			url: "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.min.js",
+			integrity: expect.stringMatching(/^sha384-/)
+		});
+		expect(DependencyLoader.resolveScript("mammoth").integrity).toMatch(/^sha384-/);
+	});
+
+	test("should refuse CDN scripts when remote scripts are disabled", async () => {
+		vi.stubGlobal("mammoth", undefined);
+
+		await expect(
+			DependencyLoader.load("mammoth", { disableRemoteScripts: true })
+		).rejects.toThrow("remote scripts are disabled");
+		expect(
+			DependencyLoader.resolveScript("mammoth", {
+				disableRemoteScripts: true,
+				scripts: { mammoth: "/vendor/mammoth.browser.min.js" }
+			})
+		).toEqual({ url: "/vendor/mammoth.browser.min.js" });
+	});
+
+	test("should allow a retry after a script fails to load", async () => {
+		vi.stubGlobal("mammoth", undefined);
+		const options = { scripts: { mammoth: "/vendor/missing.js" } };
+
+		const failed = DependencyLoader.load("mammoth", options);
+		await vi.waitFor(() => expect(injectedScripts()).toHaveLength(1));
+		injectedScripts()[0].onerror();
+
+		await expect(failed).rejects.toThrow("Failed to load script /vendor/missing.js");
+		expect(injectedScripts()).toHaveLength(0);
+
+		DependencyLoader.load("mammoth", options);
+		await vi.waitFor(() => expect(injectedScripts()).toHaveLength(1));
+	});
+});
@@ -1,4 +1,4 @@
-import { describe, test, expect } from "vitest";
+import { describe, test, expect, vi } from "vitest";
 import { DocumentDetector, SUPPORTED_FORMATS } from "../../src/core/index.ts";
 
 describe("DocumentDetector", () => {
@@ -130,4 +130,161 @@ describe("DocumentDetector", () => {
 			expect(result).toBe(SUPPORTED_FORMATS.PDF);
 		});
 	});
+
+	describe("detect", () => {
+		test("should ignore query strings and fragments in URLs", async () => {
+			const result = await DocumentDetector.detect(
+				"https://cdn.example.com/files/report.pdf?token=abc.def#page=2"
+			);
+
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+			expect(result.method).toBe("filename");
+		});
+
+		test("should fetch URLs without an extension with the given load options", async () => {
+			const fetcher = vi.fn(() =>
+				Promise.resolve(
+					new Response("%PDF-1.7", { headers: { "Content-Type": "application/pdf" } })
+				)
+			);
+
+			const result = await DocumentDetector.detect(
+				"https://api.example.com/docs/7",
+				{},
+				{ fetcher, headers: { Authorization: "Bearer token" } }
+			);
+
+			expect(fetcher).toHaveBeenCalledWith("https://api.example.com/docs/7", {
+				headers: { Authorization: "Bearer token" }
+			});
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+		});
+
+		test("should rank hints by confidence", async () => {
+			const result = await DocumentDetector.detect("download.bin.pptx", {
+				contentType: "application/pdf; charset=binary"
+			});
+
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+			expect(result.candidates.map((c) => c.mimeType)).toEqual([
+				SUPPORTED_FORMATS.PDF,
+				SUPPORTED_FORMATS.PPTX
+			]);
+		});
+
+		test("should fall back to the file name for untyped files", async () => {
+			const file = new File([""], "sheet.xlsx", { type: "" });
+			const result = await DocumentDetector.detect(file);
+
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.XLSX);
+		});
+
+		test("should prefer an explicit MIME type over other hints", async () => {
+			const result = await DocumentDetector.detect("scan.png", {
+				mimeType: "Application/X-PDF"
+			});
+
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+			expect(result.method).toBe("explicit");
+		});
+
+		test("should ignore an explicit MIME type no renderer supports", async () => {
+			const result = await DocumentDetector.detect("report.pdf", {
+				mimeType: "application/octet-stream"
+			});
+
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+			expect(result.candidates.map((c) => c.method)).toEqual(["filename"]);
+		});
+	});
+
+	describe("detectFromBytes", () => {
+		const ascii = (text) => new TextEncoder().encode(text);
+
+		const zipWith = (names) => {
+			const parts = names.map((name) => {
+				const nameBytes = ascii(name);
+				const header = new Uint8Array(30 + nameBytes.length);
+				header.set([0x50, 0x4b, 0x03, 0x04]);
+				header[26] = nameBytes.length;
+				header.set(nameBytes, 30);
+				return header;
+			});
+			const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+			let offset = 0;
+			parts.forEach((part) => {
+				bytes.set(part, offset);
+				offset += part.length;
+			});
+			return bytes;
+		};
+
+		test("should detect PDF signature", () => {
+			const [result] = DocumentDetector.detectFromBytes(ascii("%PDF-1.7\n%âãÏÓ"));
+			expect(result.mimeType).toBe(SUPPORTED_FORMATS.PDF);
+			expect(result.method).toBe("signature");
+		});
+
+		test("should detect image signatures", () => {
+			const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+			const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0]);
+
+			expect(DocumentDetector.detectFromBytes(png)[0].mimeType).toBe(
+				SUPPORTED_FORMATS.IMAGE_PNG
+			);
+			expect(DocumentDetector.detectFromBytes(jpeg)[0].mimeType).toBe(
+				SUPPORTED_FORMATS.IMAGE_JPEG
+			);
+			expect(DocumentDetector.detectFromBytes(ascii("GIF89a\0\0"))[0].mimeType).toBe(
+				SUPPORTED_FORMATS.IMAGE_GIF
+			);
+			expect(
+				DocumentDetector.detectFromBytes(ascii("RIFF\0\0\0\0WEBPVP8 "))[0].mimeType
+			).toBe(SUPPORTED_FORMATS.IMAGE_WEBP);
+		});
+
+		test("should inspect ZIP entries for OOXML packages", () => {
+			const docx = zipWith(["[Content_Types].xml", "_rels/.rels", "word/document.xml"]);
+			const xlsx = zipWith(["[Content_Types].xml", "xl/workbook.xml"]);
+			const pptx = zipWith(["[Content_Types].xml", "ppt/presentation.xml"]);
+
+			expect(DocumentDetector.detectFromBytes(docx)[0].mimeType).toBe(SUPPORTED_FORMATS.DOCX);
+			expect(DocumentDetector.detectFromBytes(xlsx)[0].mimeType).toBe(SUPPORTED_FORMATS.XLSX);
+			expect(DocumentDetector.detectFromBytes(pptx)[0].mimeType).toBe(SUPPORTED_FORMATS.PPTX);
+		});
+
+		test("should not guess unknown ZIP archives", () => {
+			expect(DocumentDetector.detectFromBytes(zipWith(["readme.txt"]))).toEqual([]);
+		});
+
+		test("should detect SVG and CSV content", () => {
+			const svg = ascii(
+				"<?xml version='1.0'?>\n<svg xmlns='http://www.w3.org/2000/svg'></svg>"
+			);
+			const csv = ascii("name,amount\nAna,10\nJoão,20\n");
+
+			expect(DocumentDetector.detectFromBytes(svg)[0].mimeType).toBe(
+				SUPPORTED_FORMATS.IMAGE_SVG
+			);
+			expect(DocumentDetector.detectFromBytes(csv)[0].mimeType).toBe(SUPPORTED_FORMATS.CSV);
+			expect(
+				DocumentDetector.detectFromBytes(ascii("just some prose\nwithout columns"))
+			).toEqual([]);
+		});
+	});
+
+	describe("parseContentDisposition", () => {
+		test("should read quoted and extended filenames", () => {
+			const filename = "Q3 report.pdf";
+			expect(
+				DocumentDetector.parseContentDisposition(`attachment; filename="${filename}"`)
+			).toBe(filename);
+			expect(
+				DocumentDetector.parseContentDisposition(
+					"attachment; filename=fallback.pdf; filename*=UTF-8''rel%C3%A1torio.docx"
+				)
+			).toBe("relátorio.docx");
+			expect(DocumentDetector.parseContentDisposition("inline")).toBeNull();
+		});
+	});
 });
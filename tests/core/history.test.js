@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BaseRenderer, BukaViewer, EVENTS, HistoryStack } from "../../src/core/index.ts";
+
+class TestRenderer extends BaseRenderer {
+	async load() {}
+
+	async render() {}
+
+	async search() {
+		return [];
+	}
+}
+
+const counter = (label, state) => ({
+	label,
+	undo: () => state.value--,
+	redo: () => state.value++
+});
+
+describe("HistoryStack", () => {
+	test("should undo and redo commands in order", () => {
+		const state = { value: 2 };
+		const history = new HistoryStack();
+		history.push(counter("First", state));
+		history.push(counter("Second", state));
+
+		expect(history.getState()).toEqual({
+			canUndo: true,
+			canRedo: false,
+			undoLabel: "Second",
+			redoLabel: null
+		});
+
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(false);
+		expect(state.value).toBe(0);
+		expect(history.getState().redoLabel).toBe("First");
+
+		expect(history.redo()).toBe(true);
+		expect(state.value).toBe(1);
+		expect(history.canUndo()).toBe(true);
+		expect(history.canRedo()).toBe(true);
+	});
+
+	test("should drop redo steps when a new command is recorded", () => {
+		const state = { value: 1 };
+		const history = new HistoryStack();
+		history.push(counter("First", state));
+		history.undo();
+
+		history.push(counter("Other", state));
+
+		expect(history.canRedo()).toBe(false);
+		expect(history.redo()).toBe(false);
+	});
+
+	test("should ignore commands recorded while replaying", () => {
+		const history = new HistoryStack();
+		history.push({
+			label: "Outer",
+			undo: () => history.push({ label: "Inner", undo() {}, redo() {} }),
+			redo() {}
+		});
+
+		history.undo();
+
+		expect(history.canUndo()).toBe(false);
+		expect(history.getState().redoLabel).toBe("Outer");
+	});
+
+	test("should keep at most the limit and report changes", () => {
+		const onChange = vi.fn();
+		const state = { value: 0 };
+		const history = new HistoryStack({ limit: 2, onChange });
+		["A", "B", "C"].forEach((label) => history.push(counter(label, state)));
+
+		history.undo();
+		history.undo();
+
+		expect(history.canUndo()).toBe(false);
+		expect(onChange).toHaveBeenCalledTimes(5);
+
+		history.clear();
+		expect(onChange).toHaveBeenLastCalledWith({
+			canUndo: false,
+			canRedo: false,
+			undoLabel: null,
+			redoLabel: null
+		});
+	});
+
+	test("should drop the oldest steps past the size budget but keep the newest", () => {
+		const history = new HistoryStack({ maxSize: 100 });
+		const step = (label, size) => ({ label, size, undo() {}, redo() {} });
+
+		history.push(step("Small", 10));
+		history.push(step("Medium", 60));
+		history.push(step("Large", 40));
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(false);
+		expect(history.getState().redoLabel).toBe("Medium");
+
+		history.push(step("Huge", 500));
+		expect(history.getState().undoLabel).toBe("Huge");
+	});
+});
+
+describe("BaseRenderer history", () => {
+	let renderer;
+
+	beforeEach(() => {
+		renderer = new TestRenderer(document.createElement("div"));
+	});
+
+	test("should undo and redo annotation changes", () => {
+		const changed = vi.fn();
+		renderer.on(EVENTS.HISTORY_CHANGED, changed);
+		const first = renderer.addAnnotation({ type: "note", position: { x: 0, y: 0 } });
+		const second = renderer.addAnnotation({ type: "note", position: { x: 0.5, y: 0.5 } });
+		renderer.updateAnnotation(first, { content: "Edited" });
+		renderer.removeAnnotation(first);
+
+		expect(changed).toHaveBeenLastCalledWith(
+			expect.objectContaining({ canUndo: true, undoLabel: "Delete note" })
+		);
+
+		renderer.undo();
+		expect(renderer.getAnnotations().map(({ id }) => id)).toEqual([first, second]);
+		expect(renderer.annotations.get(first).content).toBe("Edited");
+
+		renderer.undo();
+		expect(renderer.annotations.get(first).content).toBeUndefined();
+
+		renderer.undo();
+		expect(renderer.annotations.has(second)).toBe(false);
+
+		renderer.redo();
+		renderer.redo();
+		renderer.redo();
+		expect(renderer.getAnnotations().map(({ id }) => id)).toEqual([second]);
+		expect(renderer.canRedo()).toBe(false);
+	});
+});
+
+describe("BukaViewer history", () => {
+	let container;
+	let viewer;
+	let renderer;
+
+	beforeEach(async () => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		viewer = new BukaViewer(container);
+		await vi.waitFor(() => expect(container.querySelector("#undo")).not.toBeNull());
+
+		renderer = new TestRenderer(document.createElement("div"));
+		viewer.currentRenderer = renderer;
+		renderer.on(EVENTS.HISTORY_CHANGED, (state) => viewer.emit(EVENTS.HISTORY_CHANGED, state));
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+	});
+
+	const press = (key, options = {}) =>
+		container
+			.querySelector(".buka-document-container")
+			.dispatchEvent(
+				new KeyboardEvent("keydown", { key, ctrlKey: true, bubbles: true, ...options })
+			);
+
+	test("should undo and redo with the keyboard and toolbar", () => {
+		const id = renderer.addAnnotation({ type: "note", position: { x: 0, y: 0 } });
+		const undo = container.querySelector("#undo");
+		const redo = container.querySelector("#redo");
+		expect(undo.disabled).toBe(false);
+		expect(undo.title).toBe("Undo Add note (Ctrl+Z)");
+
+		container.querySelector(".buka-document-container").focus();
+		press("z");
+		expect(renderer.annotations.has(id)).toBe(false);
+		expect(undo.disabled).toBe(true);
+		expect(redo.disabled).toBe(false);
+
+		press("Z", { shiftKey: true });
+		expect(renderer.annotations.has(id)).toBe(true);
+
+		undo.click();
+		expect(viewer.canUndo()).toBe(false);
+		expect(viewer.canRedo()).toBe(true);
+	});
+
+	test("should leave text fields their own undo", () => {
+		renderer.addAnnotation({ type: "note", position: { x: 0, y: 0 } });
+		const input = container.querySelector("#searchInput");
+		input.focus();
+
+		input.dispatchEvent(
+			new KeyboardEvent("keydown", { key: "z", ctrlKey: true, bubbles: true })
+		);
+
+		expect(viewer.canUndo()).toBe(true);
+	});
+});
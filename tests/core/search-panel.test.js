@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BukaViewer, EVENTS } from "../../src/core/index.ts";
+
+const results = [
+	{
+		match: "revenue",
+		page: 1,
+		section: "Page 1",
+		context: { before: "Quarterly", match: "revenue", after: "grew by 4%" }
+	},
+	{
+		match: "Revenue",
+		page: 1,
+		section: "Page 1",
+		context: { before: "", match: "Revenue", after: "" }
+	},
+	{ match: "revenue", page: 3 }
+];
+
+describe("BukaViewer search panel", () => {
+	let container;
+	let viewer;
+	let renderer;
+
+	const items = () => Array.from(container.querySelectorAll(".buka-search-result-item"));
+	const counts = () =>
+		Array.from(container.querySelectorAll(".buka-search-count")).map(
+			(count) => count.textContent
+		);
+
+	beforeEach(async () => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		viewer = new BukaViewer(container);
+		// The toolbar and panels are built once styles are initialized
+		await vi.waitFor(() => expect(container.querySelector("#searchPanel")).not.toBeNull());
+
+		renderer = {
+			searchResults: results,
+			currentSearchIndex: 0,
+			showSearchResult: vi.fn(async (index) => {
+				renderer.currentSearchIndex = index;
+			}),
+			nextSearchResult: vi.fn(() => {
+				renderer.currentSearchIndex = (renderer.currentSearchIndex + 1) % results.length;
+			}),
+			destroy: vi.fn()
+		};
+		viewer.currentRenderer = renderer;
+		viewer.emit(EVENTS.SEARCH_RESULT, { query: "revenue", results, currentIndex: 0 });
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+	});
+
+	test("should list hits grouped by section with snippets", () => {
+		const groups = Array.from(container.querySelectorAll(".buka-search-result-group-title"));
+
+		expect(container.querySelector("#searchPanel").style.display).toBe("flex");
+		expect(groups.map((group) => group.textContent)).toEqual(["Page 1 (2)", "Page 3 (1)"]);
+		expect(items()[0].textContent).toBe("…Quarterlyrevenuegrew by 4%…");
+		expect(items()[0].querySelector("mark").textContent).toBe("revenue");
+		expect(items()[2].textContent).toBe("revenue");
+	});
+
+	test("should show the position of the current hit", () => {
+		expect(counts()).toEqual(["1 of 3", "1 of 3"]);
+		expect(items()[0].classList.contains("active")).toBe(true);
+
+		viewer.nextSearchResult();
+
+		expect(counts()).toEqual(["2 of 3", "2 of 3"]);
+		expect(items()[1].classList.contains("active")).toBe(true);
+		expect(items()[0].classList.contains("active")).toBe(false);
+	});
+
+	test("should navigate to a hit when it is clicked", () => {
+		items()[2].click();
+
+		expect(renderer.showSearchResult).toHaveBeenCalledWith(2);
+		expect(counts()[0]).toBe("3 of 3");
+	});
+
+	test("should append the hits of each progress event to the listed ones", () => {
+		const progress = (found, pagesSearched) =>
+			viewer.emit(EVENTS.SEARCH_PROGRESS, {
+				query: "growth",
+				results: results.slice(0, found),
+				pagesSearched,
+				totalPages: 3
+			});
+
+		progress(1, 1);
+		const [first] = items();
+		first.focus();
+		container.querySelector("#searchPanelResults").scrollTop = 40;
+
+		progress(2, 2);
+		progress(3, 3);
+		viewer.emit(EVENTS.SEARCH_RESULT, { query: "growth", results, currentIndex: 0 });
+
+		const groups = Array.from(container.querySelectorAll(".buka-search-result-group-title"));
+		expect(groups.map((group) => group.textContent)).toEqual(["Page 1 (2)", "Page 3 (1)"]);
+		expect(items()).toHaveLength(3);
+		expect(items()[0]).toBe(first);
+		expect(document.activeElement).toBe(first);
+		expect(container.querySelector("#searchPanelResults").scrollTop).toBe(40);
+		expect(counts()[0]).toBe("1 of 3");
+	});
+
+	test("should report searches without hits", () => {
+		renderer.searchResults = [];
+		viewer.emit(EVENTS.SEARCH_RESULT, { query: "missing", results: [], currentIndex: 0 });
+
+		expect(items()).toHaveLength(0);
+		expect(container.querySelector(".buka-search-result-empty").textContent).toContain(
+			"missing"
+		);
+		expect(counts()[0]).toBe("No results");
+	});
+});
@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { SourceLoader } from "../../src/core/index.ts";
+
+const streamResponse = (chunks, headers = {}) => {
+	const body = new ReadableStream({
+		start(controller) {
+			chunks.forEach((chunk) => controller.enqueue(new Uint8Array(chunk)));
+			controller.close();
+		}
+	});
+	return new Response(body, { status: 200, headers });
+};
+
+describe("SourceLoader", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe("load", () => {
+		test("should read File sources and report progress", async () => {
+			const file = new File(["abcd"], "report.pdf", { type: "application/pdf" });
+			const onProgress = vi.fn();
+
+			const loaded = await SourceLoader.load(file, { onProgress });
+
+			expect(loaded.filename).toBe("report.pdf");
+			expect(loaded.contentType).toBe("application/pdf");
+			expect(loaded.size).toBe(4);
+			expect(onProgress).toHaveBeenCalledWith({ loaded: 4, total: 4, percent: 100 });
+		});
+
+		test("should fetch URLs with request options and stream progress", async () => {
+			const filename = "contract.pdf";
+			const fetchMock = vi.fn(() =>
+				Promise.resolve(
+					streamResponse([[1, 2, 3], [4]], {
+						"Content-Length": "4",
+						"Content-Type": "application/pdf",
+						"Content-Disposition": `attachment; filename="${filename}"`
+					})
+				)
+			);
+			vi.stubGlobal("fetch", fetchMock);
+			const onProgress = vi.fn();
+
+			const loaded = await SourceLoader.load("/files/42/download", {
+				headers: { Authorization: "Bearer token" },
+				credentials: "include",
+				onProgress
+			});
+
+			expect(fetchMock).toHaveBeenCalledWith("/files/42/download", {
+				headers: { Authorization: "Bearer token" },
+				credentials: "include"
+			});
+			expect(Array.from(new Uint8Array(loaded.data))).toEqual([1, 2, 3, 4]);
+			expect(loaded.filename).toBe(filename);
+			expect(loaded.contentType).toBe("application/pdf");
+			expect(onProgress.mock.calls.map(([progress]) => progress.percent)).toEqual([75, 100]);
+		});
+
+		test("should reject unsuccessful responses", async () => {
+			vi.stubGlobal(
+				"fetch",
+				vi.fn(() =>
+					Promise.resolve(new Response("", { status: 403, statusText: "Forbidden" }))
+				)
+			);
+
+			await expect(SourceLoader.load("https://example.com/doc.pdf")).rejects.toThrow(
+				"Failed to fetch document: 403 Forbidden"
+			);
+		});
+
+		test("should accept in-memory bytes with an explicit type and filename", async () => {
+			const bytes = new Uint8Array([0, 1, 2, 3, 4, 5]).subarray(2, 5);
+
+			const loaded = await SourceLoader.load(bytes, {
+				mimeType: "application/pdf",
+				filename: "decrypted.pdf"
+			});
+
+			expect(Array.from(new Uint8Array(loaded.data))).toEqual([2, 3, 4]);
+			expect(loaded.mimeType).toBe("application/pdf");
+			expect(loaded.filename).toBe("decrypted.pdf");
+			expect(SourceLoader.toFile(loaded).type).toBe("application/pdf");
+		});
+
+		test("should read ReadableStream and Response sources", async () => {
+			const onProgress = vi.fn();
+			const fromStream = await SourceLoader.load(streamResponse([[1, 2], [3]]).body, {
+				onProgress
+			});
+			const fromResponse = await SourceLoader.load(
+				streamResponse([[7]], { "Content-Type": "image/png" })
+			);
+
+			expect(fromStream.size).toBe(3);
+			expect(onProgress).toHaveBeenLastCalledWith({ loaded: 3, total: null, percent: null });
+			expect(fromResponse.contentType).toBe("image/png");
+		});
+
+		test("should unwrap DocumentSource objects", async () => {
+			const loaded = await SourceLoader.load({
+				arrayBuffer: new Uint8Array([1, 2]).buffer,
+				mimeType: "image/png",
+				filename: "scan.png"
+			});
+
+			expect(loaded.size).toBe(2);
+			expect(loaded.mimeType).toBe("image/png");
+			expect(loaded.filename).toBe("scan.png");
+		});
+
+		test("should honor an aborted signal", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			const error = await SourceLoader.load("https://example.com/doc.pdf", {
+				signal: controller.signal
+			}).catch((e) => e);
+
+			expect(SourceLoader.isAbortError(error)).toBe(true);
+		});
+	});
+
+	describe("fetch", () => {
+		test("should route requests through a custom fetcher", async () => {
+			const fetcher = vi.fn(() => Promise.resolve(new Response("%PDF-1.7")));
+
+			const loaded = await SourceLoader.load("https://api.example.com/docs/7", {
+				fetcher,
+				headers: { Authorization: "Bearer token" }
+			});
+
+			expect(fetcher).toHaveBeenCalledWith("https://api.example.com/docs/7", {
+				headers: { Authorization: "Bearer token" }
+			});
+			expect(loaded.size).toBe(8);
+		});
+
+		test("should retry once with refreshed credentials after a 401", async () => {
+			const fetcher = vi
+				.fn()
+				.mockResolvedValueOnce(new Response("", { status: 401 }))
+				.mockResolvedValueOnce(new Response("ok"));
+			const onAuthError = vi.fn(() => ({ headers: { Authorization: "Bearer fresh" } }));
+
+			const response = await SourceLoader.fetch("https://api.example.com/docs/7", {
+				fetcher,
+				onAuthError,
+				headers: { Authorization: "Bearer stale", "X-Tenant": "acme" }
+			});
+
+			expect(response.status).toBe(200);
+			expect(onAuthError).toHaveBeenCalledWith(
+				expect.objectContaining({ url: "https://api.example.com/docs/7" })
+			);
+			const retryHeaders = fetcher.mock.calls[1][1].headers;
+			expect(retryHeaders.get("authorization")).toBe("Bearer fresh");
+			expect(retryHeaders.get("x-tenant")).toBe("acme");
+		});
+
+		test("should retry expired signed URLs with the refreshed URL", async () => {
+			const fetcher = vi
+				.fn()
+				.mockResolvedValueOnce(new Response("", { status: 403 }))
+				.mockResolvedValueOnce(new Response("ok"));
+
+			await SourceLoader.fetch("https://bucket.example.com/a.pdf?sig=old", {
+				fetcher,
+				onAuthError: () => ({ url: "https://bucket.example.com/a.pdf?sig=new" })
+			});
+
+			expect(fetcher.mock.calls[1][0]).toBe("https://bucket.example.com/a.pdf?sig=new");
+		});
+
+		test("should return the failed response when no retry is offered", async () => {
+			const fetcher = vi.fn(() => Promise.resolve(new Response("", { status: 401 })));
+
+			const response = await SourceLoader.fetch("https://api.example.com/docs/7", {
+				fetcher,
+				onAuthError: () => null
+			});
+
+			expect(response.status).toBe(401);
+			expect(fetcher).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("mergeRequestOptions", () => {
+		test("should merge headers with later sources taking precedence", () => {
+			const merged = SourceLoader.mergeRequestOptions(
+				{ headers: { Authorization: "Bearer a", "X-Tenant": "acme" }, credentials: "omit" },
+				{ headers: { Authorization: "Bearer b" }, credentials: "include" }
+			);
+
+			expect(merged.headers.get("authorization")).toBe("Bearer b");
+			expect(merged.headers.get("x-tenant")).toBe("acme");
+			expect(merged.credentials).toBe("include");
+		});
+	});
+
+	describe("getUrlFilename", () => {
+		test("should strip query strings and fragments", () => {
+			expect(SourceLoader.getUrlFilename("/a/b/report%20final.pdf?sig=1#p=2")).toBe(
+				"report final.pdf"
+			);
+		});
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+import { TextSearch } from "../../src/core/index.ts";
+
+const matches = (text, query, options) =>
+	TextSearch.find(text, query, options).map(({ match }) => match);
+
+describe("TextSearch", () => {
+	test("should ignore case and treat the query literally by default", () => {
+		expect(matches("Total (EUR) and total (USD)", "total (")).toEqual(["Total (", "total ("]);
+		expect(matches("a.b axb", "a.b")).toEqual(["a.b"]);
+	});
+
+	test("should match case when asked", () => {
+		expect(matches("Porto and porto", "Porto", { caseSensitive: true })).toEqual(["Porto"]);
+	});
+
+	test("should match whole words including accented ones", () => {
+		const text = "port, portuguese, aéroport, port";
+
+		expect(matches(text, "port", { wholeWords: true })).toEqual(["port", "port"]);
+		expect(matches("déjà vu, déjàvu", "déjà", { wholeWords: true })).toEqual(["déjà"]);
+	});
+
+	test("should run regular expressions and report invalid ones", () => {
+		expect(
+			matches("Invoice 2023-04, invoice 2024-11", "\\d{4}-\\d{2}", { regex: true })
+		).toEqual(["2023-04", "2024-11"]);
+		expect(() => TextSearch.find("text", "(unclosed", { regex: true })).toThrow(
+			"Invalid search pattern"
+		);
+		expect(matches("abc", "x*", { regex: true })).toEqual([]);
+	});
+
+	test("should ignore diacritics with offsets into the original text", () => {
+		const text = "Relatório de ação, Relatorio, été";
+
+		const found = TextSearch.find(text, "relatorio", { ignoreDiacritics: true });
+		expect(found.map(({ index, match }) => [index, match])).toEqual([
+			[0, "Relatório"],
+			[19, "Relatorio"]
+		]);
+		expect(matches(text, "ACAO", { ignoreDiacritics: true })).toEqual(["ação"]);
+		expect(matches(text, "été", { ignoreDiacritics: true })).toEqual(["été"]);
+		expect(matches(text, "acao")).toEqual([]);
+	});
+
+	test("should wrap matches in text nodes with marks", () => {
+		const root = document.createElement("div");
+		root.innerHTML = "<p>Ação <b>rápida</b>, acao lenta</p>";
+
+		const marks = TextSearch.highlight(root, "acao", { ignoreDiacritics: true });
+
+		expect(marks.map((mark) => mark.textContent)).toEqual(["Ação", "acao"]);
+		expect(root.querySelector("p").textContent).toBe("Ação rápida, acao lenta");
+		expect(root.querySelectorAll("mark.buka-search-highlight")).toHaveLength(2);
+	});
+});
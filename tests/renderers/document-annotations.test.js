@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { DocxRenderer } from "../../src/renderers/docx.ts";
+import { PresentationRenderer } from "../../src/renderers/presentation.ts";
+import { XlsxRenderer } from "../../src/renderers/xlsx.ts";
+
+const BYTES = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+
+const box = (left, top, width, height) => ({
+	left,
+	top,
+	width,
+	height,
+	right: left + width,
+	bottom: top + height
+});
+
+// Every page and grid is laid out at 800 by 1000 pixels from the viewport origin
+const layOut = (cellBox = () => box(0, 0, 800, 1000)) => {
+	vi.spyOn(HTMLElement.prototype, "offsetWidth", "get").mockReturnValue(800);
+	vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockReturnValue(1000);
+	vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(function () {
+		return cellBox(this);
+	});
+};
+
+const drawn = (element, selector = ".buka-annotation") =>
+	Array.from(element.querySelectorAll(selector));
+
+describe("DOCX annotations", () => {
+	let renderer;
+
+	const paragraphs = (...texts) => texts.map((text) => `<p>${text}</p>`).join("");
+	const intro = `Both parties agree to the terms below. ${"Terms apply in full. ".repeat(3)}`;
+
+	beforeEach(async () => {
+		vi.stubGlobal("mammoth", {
+			convertToHtml: vi.fn(async () => ({
+				value: paragraphs(intro, "Clause 4 applies to every order."),
+				messages: []
+			})),
+			images: { dataUri: vi.fn() }
+		});
+		layOut();
+		// Every line of anchored text is 200 by 20 pixels at (100, 200)
+		Range.prototype.getClientRects = () => [box(100, 200, 200, 20)];
+
+		renderer = new DocxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		delete Range.prototype.getClientRects;
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	test("should draw text anchored markup over the anchored text", () => {
+		const start = renderer.getTextPositions().text.indexOf("Clause 4");
+		const anchor = renderer.findTextAnchor("Clause 4");
+		expect(anchor).toEqual({ type: "text", start, end: start + 8, quote: "Clause 4" });
+
+		renderer.addAnnotation({ type: "highlight", anchor, content: "Check the scope" });
+
+		const [highlight] = drawn(renderer.pageElements[0], ".buka-annotation-highlight rect");
+		expect(highlight.getAttribute("x")).toBe("100");
+		expect(highlight.getAttribute("y")).toBe("200");
+		expect(highlight.getAttribute("width")).toBe("200");
+	});
+
+	test("should anchor the part of a selection on each page", () => {
+		const [paragraph] = renderer.pageElements[0].querySelectorAll("p");
+		const range = document.createRange();
+		range.setStart(paragraph.firstChild, 5);
+		range.setEnd(paragraph.firstChild, 18);
+		const start = renderer.getTextPositions().text.indexOf(intro) + 5;
+
+		expect(renderer.getTextAnchor(range, 1)).toEqual({
+			type: "text",
+			start,
+			end: start + 13,
+			quote: "parties agree"
+		});
+		expect(renderer.getTextAnchor(range, 2)).toBeNull();
+	});
+
+	test("should follow anchored text to its new page after re-pagination", async () => {
+		const id = renderer.addAnnotation({
+			type: "note",
+			anchor: renderer.findTextAnchor("every order"),
+			content: "Includes returns"
+		});
+		expect(renderer.annotations.get(id).page).toBe(1);
+
+		renderer.documentHtml = `${paragraphs(intro)}<!-- page-break -->${paragraphs(
+			"Scope of the agreement follows.",
+			"Clause 4 applies to every order."
+		)}`;
+		await renderer.paginateDocument();
+		await renderer.renderAllPages();
+
+		expect(renderer.totalPages).toBe(2);
+		expect(renderer.annotations.get(id).page).toBe(2);
+		expect(drawn(renderer.pageElements[0])).toHaveLength(0);
+		const [note] = drawn(renderer.pageElements[1], ".buka-annotation-note");
+		// Notes are placed at the end of the text
+		expect(note.style.left).toBe("300px");
+		expect(note.style.top).toBe("200px");
+	});
+
+	test("should not draw annotations whose text was removed", () => {
+		renderer.addAnnotation({
+			type: "highlight",
+			anchor: { type: "text", start: 0, end: 12, quote: "Deleted text" }
+		});
+
+		expect(drawn(renderer.pageElements[0])).toHaveLength(0);
+	});
+});
+
+describe("XLSX annotations", () => {
+	let renderer;
+
+	// Cells are 80 by 25 pixels after a 40 pixel wide row header
+	const cellBox = (element) => {
+		if (element.dataset?.row === undefined) return box(0, 0, 800, 1000);
+
+		const { row, col } = element.dataset;
+		return box(40 + Number(col) * 80, 25 + Number(row) * 25, 80, 25);
+	};
+
+	beforeEach(async () => {
+		vi.stubGlobal("XLSX", {
+			read: () => ({
+				SheetNames: ["Totals", "Notes"],
+				Sheets: {
+					Totals: {
+						"!ref": "A1:C2",
+						A1: { t: "s", v: "Item", w: "Item" },
+						B2: { t: "n", v: 4.5, w: "4.50" }
+					},
+					Notes: { "!ref": "A1:A1", A1: { t: "s", v: "Draft", w: "Draft" } }
+				}
+			}),
+			utils: {
+				encode_cell: ({ r, c }) => `${String.fromCharCode(65 + c)}${r + 1}`,
+				encode_col: (c) => String.fromCharCode(65 + c),
+				decode_range: (ref) => ({
+					s: { r: 0, c: 0 },
+					e: { r: Number(ref.slice(-1)) - 1, c: ref.charCodeAt(ref.length - 2) - 65 }
+				})
+			}
+		});
+		layOut(cellBox);
+
+		renderer = new XlsxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	test("should mark commented cells with a badge on their sheet", async () => {
+		await renderer.switchToSheet(1);
+		const id = renderer.addAnnotation({
+			type: "note",
+			anchor: { type: "cell", sheet: "Totals", address: "B2" },
+			author: "Ana",
+			content: "Check the unit price"
+		});
+
+		expect(renderer.annotations.get(id).page).toBe(1);
+		expect(drawn(renderer.gridContent)).toHaveLength(0);
+
+		await renderer.switchToSheet(0);
+		const [badge] = drawn(renderer.gridContent);
+		expect(badge.style.left).toBe("190px");
+		expect(badge.style.top).toBe("50px");
+
+		badge.dispatchEvent(new Event("pointerenter"));
+		const [tooltip] = drawn(renderer.gridContent, ".buka-annotation-tooltip");
+		expect(tooltip.textContent).toBe("Ana\nCheck the unit price");
+		expect(tooltip.style.top).toBe("79px");
+	});
+
+	test("should fill highlighted cells", () => {
+		renderer.addAnnotation({
+			type: "highlight",
+			anchor: { type: "cell", sheet: "Totals", address: "A1" }
+		});
+
+		const [fill] = drawn(renderer.gridContent, ".buka-annotation-highlight rect");
+		expect(fill.getAttribute("x")).toBe("40");
+		expect(fill.getAttribute("y")).toBe("25");
+		expect(fill.getAttribute("width")).toBe("80");
+	});
+
+	test("should anchor points to the cell under them", () => {
+		expect(renderer.getPointAnchor(1, { x: 0.2, y: 0.06 })).toEqual({
+			type: "cell",
+			sheet: "Totals",
+			address: "B2"
+		});
+		expect(renderer.getPointAnchor(1, { x: 0.9, y: 0.9 })).toBeNull();
+		expect(renderer.getPointAnchor(2, { x: 0.2, y: 0.06 })).toBeNull();
+	});
+});
+
+describe("Presentation annotations", () => {
+	let renderer;
+
+	beforeEach(async () => {
+		layOut();
+		renderer = new PresentationRenderer(document.createElement("div"), {
+			autoFitSlide: false
+		});
+		renderer.slides = [1, 2].map((id) => ({
+			id,
+			title: `Slide ${id}`,
+			content: "<div class='buka-slide-canvas'></div>",
+			notes: "",
+			layout: "custom"
+		}));
+		renderer.slideSize = { width: 12192000, height: 6858000 };
+		renderer.totalPages = 2;
+		await renderer.render();
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.restoreAllMocks();
+	});
+
+	test("should show the annotations of the current slide at their place on it", async () => {
+		renderer.addAnnotation({
+			type: "text",
+			page: 2,
+			position: { x: 0.5, y: 0.25 },
+			content: "Update the figures",
+			fontSize: 24
+		});
+		expect(drawn(renderer.slideDisplay)).toHaveLength(0);
+
+		await renderer.goToSlide(1);
+		const [text] = drawn(renderer.slideDisplay);
+		expect(text.style.left).toBe("400px");
+		expect(text.style.top).toBe("250px");
+		// The 960 point wide slide is shown 800 pixels wide
+		expect(text.style.fontSize).toBe("20px");
+
+		await renderer.goToSlide(0);
+		expect(drawn(renderer.slideDisplay, ".buka-annotation-layer")).toHaveLength(0);
+	});
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { DocxRenderer } from "../../src/renderers/docx.ts";
+
+const firstPage = "<p>The supplier delivers every order within five working days.</p>";
+const secondPage = "<p>Late orders are marked in bold on the next invoice page.</p>";
+
+describe("DocxRenderer search", () => {
+	let renderer;
+
+	const marks = () =>
+		renderer.pageElements.flatMap((page) =>
+			Array.from(page.querySelectorAll(".buka-search-highlight"))
+		);
+
+	beforeEach(async () => {
+		Element.prototype.scrollIntoView = vi.fn();
+		vi.stubGlobal("mammoth", {
+			convertToHtml: vi.fn(async () => ({
+				value: `${firstPage}<!-- page-break -->${secondPage}`,
+				messages: []
+			})),
+			images: { dataUri: vi.fn() }
+		});
+
+		renderer = new DocxRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x50, 0x4b, 0x03, 0x04]));
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+		delete Element.prototype.scrollIntoView;
+	});
+
+	test("should list each hit under the page it is on", async () => {
+		const results = await renderer.search("order");
+
+		expect(renderer.totalPages).toBe(2);
+		expect(results.map(({ page }) => page)).toEqual([1, 2]);
+		expect(marks()).toHaveLength(2);
+	});
+
+	test("should leave page styles and page numbers out of the highlights", async () => {
+		const styles = renderer.pageElements.map((page) => page.querySelector("style").textContent);
+
+		const bold = await renderer.search("bold");
+		expect(bold).toHaveLength(1);
+		expect(marks()).toHaveLength(bold.length);
+		expect(marks()[0].closest("p")).not.toBeNull();
+		expect(
+			renderer.pageElements.map((page) => page.querySelector("style").textContent)
+		).toEqual(styles);
+
+		const page = await renderer.search("page");
+		expect(page).toEqual([expect.objectContaining({ page: 2 })]);
+		expect(marks()).toHaveLength(page.length);
+	});
+});
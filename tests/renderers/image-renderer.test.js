@@ -438,6 +438,108 @@ describe("ImageRenderer", () => {
 		});
 	});
 
+	describe("annotations", () => {
+		test("should draw annotations over the image at its natural size", async () => {
+			vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:photo");
+			const loadPromise = renderer.load(new File(["image data"], "photo.png"));
+			Object.defineProperty(renderer.imageElement, "naturalWidth", { value: 400 });
+			Object.defineProperty(renderer.imageElement, "naturalHeight", { value: 200 });
+			renderer.imageElement.dispatchEvent(new Event("load"));
+			await loadPromise;
+			await renderer.render();
+
+			renderer.addAnnotation({
+				type: "rectangle",
+				position: { x: 0.25, y: 0.5, width: 0.5, height: 0.25 }
+			});
+
+			const page = renderer.getAnnotationPageElement(1);
+			expect(page.style.width).toBe("400px");
+			expect(page.style.transform).toBe(renderer.imageElement.style.transform);
+			expect(page.querySelector(".buka-annotation-rectangle").getAttribute("x")).toBe("100");
+			expect(renderer.getAnnotationPageElement(2)).toBeNull();
+		});
+	});
+
+	describe("edit history", () => {
+		beforeEach(async () => {
+			vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:photo");
+			const loadPromise = renderer.load(new File(["image data"], "photo.png"));
+			Object.defineProperty(renderer.imageElement, "naturalWidth", { value: 400 });
+			Object.defineProperty(renderer.imageElement, "naturalHeight", { value: 200 });
+			renderer.imageElement.dispatchEvent(new Event("load"));
+			await loadPromise;
+		});
+
+		test("should undo and redo filter changes", () => {
+			renderer.brighten(20);
+			renderer.toGrayscale();
+
+			expect(renderer.history.getState().undoLabel).toBe("Grayscale");
+
+			renderer.undo();
+			expect(renderer.getFilters().grayscale).toBe(0);
+			expect(renderer.getFilters().brightness).toBe(120);
+
+			renderer.undo();
+			expect(renderer.getFilters().brightness).toBe(100);
+			expect(renderer.isFiltered).toBe(false);
+			expect(renderer.canvasElement.style.display).toBe("none");
+
+			renderer.redo();
+			expect(renderer.getFilters().brightness).toBe(120);
+			expect(renderer.isFiltered).toBe(true);
+		});
+
+		test("should undo a crop back to the full image", () => {
+			renderer.imageElement.width = 400;
+			renderer.imageElement.height = 200;
+			renderer.zoomFactor = 1;
+			renderer.cropArea = { x: 0, y: 0, width: 100, height: 50 };
+
+			renderer.applyCrop();
+			expect(renderer.originalDimensions).toEqual({ width: 100, height: 50 });
+
+			renderer.undo();
+			expect(renderer.originalDimensions).toEqual({ width: 400, height: 200 });
+			expect(renderer.imageElement.style.display).not.toBe("none");
+
+			renderer.redo();
+			expect(renderer.originalDimensions).toEqual({ width: 100, height: 50 });
+			expect(renderer.canvasElement.style.display).toBe("block");
+		});
+
+		test("should keep pixels only for cropped states and share them between steps", () => {
+			renderer.brighten(20);
+			renderer.toGrayscale();
+			expect(renderer.history.done.every(({ size }) => size === 0)).toBe(true);
+
+			renderer.imageElement.width = 400;
+			renderer.imageElement.height = 200;
+			renderer.zoomFactor = 1;
+			renderer.cropArea = { x: 0, y: 0, width: 100, height: 50 };
+			renderer.applyCrop();
+			renderer.toSepia();
+
+			const [crop, sepia] = renderer.history.done.slice(-2);
+			expect(crop.size).toBe(100 * 50 * 4);
+			expect(sepia.size).toBe(100 * 50 * 4);
+
+			renderer.undo();
+			renderer.undo();
+			expect(renderer.getFilters().grayscale).toBe(100);
+			expect(renderer.originalDimensions).toEqual({ width: 400, height: 200 });
+			expect(renderer.canvasElement.width).toBe(400);
+			expect(renderer.canvasElement.style.display).toBe("block");
+		});
+
+		test("should not record edits that change nothing", () => {
+			renderer.resetFilters();
+
+			expect(renderer.canUndo()).toBe(false);
+		});
+	});
+
 	describe("cleanup", () => {
 		test("should cleanup resources on destroy", async () => {
 			const mockFile = new File(["image data"], "test.png", { type: "image/png" });
@@ -0,0 +1,358 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+	ANNOTATION_DEFAULTS,
+	BukaViewer,
+	EVENTS,
+	LocalStorageAnnotationStore
+} from "../../src/core/index.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+const createDocument = () => ({
+	numPages: 3,
+	getPage: vi.fn(() =>
+		Promise.resolve({
+			getViewport: ({ scale }) => ({
+				width: 400 * scale,
+				height: 200 * scale,
+				transform: [scale, 0, 0, scale, 0, 0]
+			}),
+			render: () => ({ promise: Promise.resolve(), cancel: vi.fn() }),
+			getTextContent: () => Promise.resolve({ items: [] })
+		})
+	),
+	getMetadata: () => Promise.resolve({ info: {} }),
+	destroy: vi.fn()
+});
+
+describe("PDFRenderer annotations", () => {
+	let renderer;
+
+	const drawn = (page, selector = ".buka-annotation") =>
+		Array.from(renderer.pageElements[page - 1].querySelectorAll(selector));
+
+	beforeEach(async () => {
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({ promise: Promise.resolve(createDocument()) })),
+			Util: { transform: (viewport, transform) => transform }
+		});
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn(() => ({ observe: vi.fn(), disconnect: vi.fn() }))
+		);
+
+		renderer = new PDFRenderer(document.createElement("div"), { annotationAuthor: "Ana" });
+		await renderer.load(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+		await renderer.renderPage(1);
+		await renderer.renderPage(2);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+	});
+
+	test("should fill in metadata for new annotations", () => {
+		const added = vi.fn();
+		renderer.on(EVENTS.ANNOTATION_ADDED, added);
+
+		const id = renderer.addAnnotation({ type: "highlight", rects: [] });
+		const annotation = renderer.annotations.get(id);
+
+		expect(annotation).toMatchObject({
+			id,
+			page: 1,
+			author: "Ana",
+			color: ANNOTATION_DEFAULTS.highlight.color,
+			opacity: ANNOTATION_DEFAULTS.highlight.opacity
+		});
+		expect(annotation.modified).toBe(annotation.timestamp);
+		expect(added).toHaveBeenCalledWith(annotation);
+
+		const own = renderer.addAnnotation({
+			type: "note",
+			color: "#000",
+			position: { x: 0, y: 0 }
+		});
+		expect(renderer.annotations.get(own).color).toBe("#000");
+	});
+
+	test("should draw annotations on every rendered page", () => {
+		renderer.addAnnotation({ type: "note", page: 1, position: { x: 0.5, y: 0.5 } });
+		const ink = renderer.addAnnotation({
+			type: "ink",
+			page: 2,
+			paths: [
+				[
+					{ x: 0, y: 0 },
+					{ x: 0.5, y: 0.5 }
+				]
+			]
+		});
+		renderer.addAnnotation({
+			type: "rectangle",
+			page: 3,
+			position: { x: 0, y: 0, width: 1, height: 1 }
+		});
+
+		expect(drawn(1).map((element) => element.classList[1])).toEqual(["buka-annotation-note"]);
+		expect(drawn(2)[0].dataset.annotationId).toBe(ink);
+		expect(drawn(2, "polyline")[0].getAttribute("points")).toBe("0,0 200,100");
+		expect(drawn(3)).toHaveLength(0);
+		expect(renderer.getAnnotations(3)).toHaveLength(1);
+	});
+
+	test("should draw each annotation type", () => {
+		const rect = { x: 0.25, y: 0.5, width: 0.5, height: 0.1 };
+		const types = [
+			{ type: "highlight", rects: [rect] },
+			{ type: "underline", rects: [rect] },
+			{ type: "strikeout", position: rect },
+			{ type: "ink", paths: [[{ x: 0, y: 0 }]] },
+			{ type: "rectangle", position: rect },
+			{ type: "ellipse", position: rect },
+			{ type: "arrow", start: { x: 0, y: 0 }, end: { x: 1, y: 1 } },
+			{ type: "stamp", label: "Approved", position: rect },
+			{ type: "note", position: rect },
+			{ type: "text", content: "Draft", position: rect }
+		];
+		types.forEach((annotation) => renderer.addAnnotation(annotation));
+
+		expect(drawn(1).map((element) => element.classList[1])).toEqual(
+			types.map(({ type }) => `buka-annotation-${type}`)
+		);
+		expect(drawn(1, ".buka-annotation-highlight rect")[0].getAttribute("width")).toBe("200");
+		expect(drawn(1, ".buka-annotation-strikeout line")[0].getAttribute("y1")).toBe("110");
+		expect(drawn(1, ".buka-annotation-ellipse")[0].getAttribute("rx")).toBe("100");
+		expect(drawn(1, ".buka-annotation-stamp")[0].textContent).toBe("Approved");
+	});
+
+	test("should re-lay out annotations when zooming", async () => {
+		renderer.addAnnotation({
+			type: "stamp",
+			label: "Draft",
+			position: { x: 0.5, y: 0.5, width: 0.25, height: 0.1 }
+		});
+		renderer.addAnnotation({
+			type: "text",
+			content: "Draft",
+			fontSize: 10,
+			position: { x: 0, y: 0 }
+		});
+
+		renderer.visiblePages.add(1);
+		renderer.zoom = 2;
+		await renderer.render();
+
+		const [stamp] = drawn(1, ".buka-annotation-stamp");
+		expect(stamp.style.left).toBe("400px");
+		expect(stamp.style.width).toBe("200px");
+		expect(drawn(1, ".buka-annotation-text")[0].style.fontSize).toBe("20px");
+		expect(drawn(1, ".buka-annotation-layer")[0].style.width).toBe("800px");
+	});
+
+	test("should redraw pages when annotations are removed or imported", () => {
+		const id = renderer.addAnnotation({
+			type: "note",
+			content: "Check",
+			position: { x: 0, y: 0 }
+		});
+		expect(drawn(1)[0].getAttribute("aria-label")).toBe("Ana: Check");
+
+		drawn(1)[0].dispatchEvent(new Event("pointerenter"));
+		expect(drawn(1, ".buka-annotation-tooltip")[0].textContent).toBe("Ana\nCheck");
+		drawn(1)[0].dispatchEvent(new Event("pointerleave"));
+		expect(drawn(1, ".buka-annotation-tooltip")).toHaveLength(0);
+
+		renderer.removeAnnotation(id);
+		expect(drawn(1, ".buka-annotation-layer")).toHaveLength(0);
+
+		renderer.importAnnotations([
+			{ id: "saved", type: "note", page: 2, position: { x: 0, y: 0 }, timestamp: "" }
+		]);
+		expect(drawn(2)[0].dataset.annotationId).toBe("saved");
+	});
+});
+
+describe("PDFRenderer annotations in the PDF file", () => {
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+		"<< /Type /Page /Parent 2 0 R /MediaBox [0 0 400 200] /Annots [4 0 R 5 0 R 6 0 R] >>",
+		"<< /Type /Annot /Subtype /Link /Rect [0 0 10 10] >>",
+		"<< /Type /Annot /Subtype /Text /Rect [40 180 60 200] /Contents (Check) /Popup 6 0 R >>",
+		"<< /Type /Annot /Subtype /Popup /Rect [60 100 160 200] /Parent 5 0 R >>"
+	];
+
+	const buildPdf = () => {
+		let body = "%PDF-1.4\n";
+		const offsets = objects.map((object, index) => {
+			const offset = body.length;
+			body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+			return offset;
+		});
+		const xref = body.length;
+		body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f\r\n`;
+		offsets.forEach((offset) => {
+			body += `${String(offset).padStart(10, "0")} 00000 n\r\n`;
+		});
+		body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+		return Uint8Array.from(body, (char) => char.charCodeAt(0));
+	};
+
+	// PDF.js data for the annotations in the file
+	const pageAnnotations = [
+		{ id: "4R", subtype: "Link", rect: [0, 0, 10, 10] },
+		{
+			id: "5R",
+			subtype: "Text",
+			rect: [40, 180, 60, 200],
+			contentsObj: { str: "Check" },
+			titleObj: { str: "Ana" },
+			color: new Uint8ClampedArray([255, 235, 59]),
+			creationDate: "D:20240131120000+01'00'"
+		},
+		{ id: "6R", subtype: "Popup", rect: [60, 100, 160, 200], parentId: "5R" }
+	];
+
+	// Page 400x200 points whose PDF y axis points up
+	const createPage = () => ({
+		ref: { num: 3, gen: 0 },
+		getViewport: ({ scale }) => ({
+			width: 400 * scale,
+			height: 200 * scale,
+			transform: [scale, 0, 0, -scale, 0, 200 * scale],
+			convertToPdfPoint: (x, y) => [x / scale, 200 - y / scale],
+			convertToViewportPoint: (x, y) => [x * scale, (200 - y) * scale]
+		}),
+		render: () => ({ promise: Promise.resolve(), cancel: vi.fn() }),
+		getTextContent: () => Promise.resolve({ items: [] }),
+		getAnnotations: () => Promise.resolve(pageAnnotations)
+	});
+
+	let renderer;
+	let storage;
+
+	beforeEach(async () => {
+		storage = { setValue: vi.fn() };
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({
+				promise: Promise.resolve({
+					numPages: 1,
+					annotationStorage: storage,
+					getPage: () => Promise.resolve(createPage()),
+					getData: () => Promise.resolve(buildPdf()),
+					getMetadata: () => Promise.resolve({ info: {} }),
+					destroy: vi.fn()
+				})
+			})),
+			Util: { transform: (viewport, transform) => transform }
+		});
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn(() => ({ observe: vi.fn(), disconnect: vi.fn() }))
+		);
+
+		renderer = new PDFRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+	});
+
+	test("should import the annotations of every page after loading", async () => {
+		await vi.waitFor(() => expect(renderer.getAnnotations()).toHaveLength(1));
+		expect(renderer.renderedPages.size).toBe(0);
+
+		// Rendering the page does not read it again
+		await renderer.renderPage(1);
+
+		expect(renderer.getAnnotations()).toEqual([
+			{
+				id: "pdf-5R",
+				type: "note",
+				page: 1,
+				position: { x: 0.1, y: 0 },
+				content: "Check",
+				author: "Ana",
+				color: "#ffeb3b",
+				timestamp: "2024-01-31T11:00:00.000Z",
+				modified: "2024-01-31T11:00:00.000Z"
+			}
+		]);
+		// The annotation layer draws it instead of the page canvas
+		expect(storage.setValue).toHaveBeenCalledWith("5R", { noView: true });
+		expect(storage.setValue).toHaveBeenCalledTimes(1);
+	});
+
+	test("should not bring back file annotations deleted in an earlier session", async () => {
+		const container = document.createElement("div");
+		document.body.appendChild(container);
+		const store = new LocalStorageAnnotationStore("test:");
+		const viewer = new BukaViewer(container, {
+			annotationStore: store,
+			enableThumbnails: false
+		});
+		const open = async () => {
+			await viewer.load(new File([buildPdf()], "review.pdf"), { documentId: "review" });
+			await viewer.currentRenderer.importPDFAnnotations();
+		};
+
+		await open();
+		expect(viewer.getAnnotations().map(({ id }) => id)).toEqual(["pdf-5R"]);
+		// An undone deletion is not remembered
+		viewer.removeAnnotation("pdf-5R");
+		viewer.undo();
+		await viewer.saveAnnotations();
+		expect(await store.loadRemoved("review")).toEqual([]);
+
+		viewer.removeAnnotation("pdf-5R");
+		await viewer.saveAnnotations();
+		expect(await store.loadRemoved("review")).toEqual(["pdf-5R"]);
+
+		await open();
+		expect(viewer.getAnnotations()).toEqual([]);
+		expect(viewer.currentRenderer.getRemovedFileAnnotations()).toEqual(["pdf-5R"]);
+
+		viewer.destroy();
+		container.remove();
+		localStorage.clear();
+	});
+
+	test("should write annotations into a copy of the PDF", async () => {
+		const { PdfFile, PdfName, PdfRef } = await import("../../src/renderers/pdf-file.ts");
+		await renderer.importPDFAnnotations();
+		renderer.updateAnnotation("pdf-5R", { content: "Checked" });
+		renderer.addAnnotation({
+			type: "highlight",
+			author: "Ana",
+			rects: [{ x: 0.25, y: 0.5, width: 0.5, height: 0.1 }]
+		});
+
+		const blob = await renderer.exportPDF();
+		expect(blob.type).toBe("application/pdf");
+
+		const original = buildPdf();
+		const [bytes] = blob._parts;
+		expect(bytes.subarray(0, original.length)).toEqual(original);
+
+		const file = await PdfFile.open(bytes);
+		const [link, note, highlight] = (await file.getObject(3)).get("Annots");
+		expect(link).toEqual(new PdfRef(4, 0));
+
+		const noteDict = await file.getObject(note.num);
+		expect(noteDict.get("Subtype")).toEqual(new PdfName("Text"));
+		expect(noteDict.get("Contents").bytes).toBe("Checked");
+		expect(noteDict.get("Rect")).toEqual([40, 180, 60, 200]);
+
+		const highlightDict = await file.getObject(highlight.num);
+		expect(highlightDict.get("Subtype")).toEqual(new PdfName("Highlight"));
+		expect(highlightDict.get("QuadPoints")).toEqual([100, 100, 300, 100, 100, 80, 300, 80]);
+		expect(highlightDict.get("C")).toEqual([1, 0.922, 0.231]);
+		expect(highlightDict.get("T").bytes).toBe("Ana");
+
+		const appearance = await file.resolve(highlightDict.get("AP").get("N"));
+		expect(String.fromCharCode(...appearance.data)).toContain("100 80 200 20 re f");
+	});
+});
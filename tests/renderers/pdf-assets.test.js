@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+// Behave as if the optional pdfjs-dist package was not installed
+vi.mock("pdfjs-dist", () => {
+	throw new Error("Cannot find package pdfjs-dist");
+});
+
+const createPdfjs = () => ({
+	version: "4.0.0",
+	GlobalWorkerOptions: { workerSrc: "", workerPort: null },
+	getDocument: vi.fn()
+});
+
+describe("PDFRenderer assets", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		document.head.querySelectorAll("script").forEach((script) => script.remove());
+	});
+
+	test("should use a configured PDF.js module with self-hosted assets", async () => {
+		const pdfjs = createPdfjs();
+		const renderer = new PDFRenderer(document.createElement("div"), {
+			assets: { pdfjs: () => Promise.resolve({ default: pdfjs }), baseUrl: "/static/pdfjs/" }
+		});
+
+		expect(await renderer.loadPDFJS()).toBe(pdfjs);
+		expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe("/static/pdfjs/build/pdf.worker.min.js");
+		expect(renderer.getDocumentParams()).toEqual({
+			cMapUrl: "/static/pdfjs/cmaps/",
+			cMapPacked: true,
+			standardFontDataUrl: "/static/pdfjs/standard_fonts/"
+		});
+	});
+
+	test("should prefer explicit worker and cMap locations", async () => {
+		const pdfjs = createPdfjs();
+		const workerPort = { postMessage: vi.fn() };
+		const renderer = new PDFRenderer(document.createElement("div"), {
+			assets: { pdfjs, workerPort, cMapUrl: "/cmaps/" }
+		});
+
+		await renderer.loadPDFJS();
+
+		expect(pdfjs.GlobalWorkerOptions.workerPort).toBe(workerPort);
+		expect(renderer.getDocumentParams().cMapUrl).toBe("/cmaps/");
+		expect(renderer.getDocumentParams().standardFontDataUrl).toBe(
+			"https://cdn.jsdelivr.net/npm/pdfjs-dist@4.0.0/standard_fonts/"
+		);
+	});
+
+	test("should keep a worker configured by the host page", async () => {
+		const pdfjs = createPdfjs();
+		pdfjs.GlobalWorkerOptions.workerSrc = "/app/pdf.worker.js";
+		vi.stubGlobal("pdfjsLib", pdfjs);
+
+		await new PDFRenderer(document.createElement("div")).loadPDFJS();
+
+		expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe("/app/pdf.worker.js");
+	});
+
+	test("should load the script build from the asset base URL", async () => {
+		vi.stubGlobal("pdfjsLib", undefined);
+		const renderer = new PDFRenderer(document.createElement("div"), {
+			assets: { baseUrl: "https://intranet.example/pdfjs" }
+		});
+
+		const loading = renderer.loadPDFJS();
+		await vi.waitFor(() => expect(document.head.querySelector("script")).not.toBeNull());
+		const script = document.head.querySelector("script");
+		const pdfjs = createPdfjs();
+		vi.stubGlobal("pdfjsLib", pdfjs);
+		script.onload();
+
+		expect(script.src).toBe("https://intranet.example/pdfjs/build/pdf.min.js");
+		expect(await loading).toBe(pdfjs);
+		expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe(
+			"https://intranet.example/pdfjs/build/pdf.worker.min.js"
+		);
+	});
+});
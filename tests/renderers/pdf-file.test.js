@@ -0,0 +1,136 @@
+import { deflateSync } from "zlib";
+import { describe, expect, test } from "vitest";
+import { PdfFile, PdfName, PdfRef, PdfStream, PdfString } from "../../src/renderers/pdf-file.ts";
+
+const latin1 = (bytes) => String.fromCharCode(...bytes);
+
+const toBytes = (text) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * PDF with a classic cross-reference table, objects are numbered from 1
+ */
+const buildPdf = (objects) => {
+	let body = "%PDF-1.4\n";
+	const offsets = objects.map((object, index) => {
+		const offset = body.length;
+		body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+		return offset;
+	});
+	const xref = body.length;
+	body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f\r\n`;
+	offsets.forEach((offset) => {
+		body += `${String(offset).padStart(10, "0")} 00000 n\r\n`;
+	});
+	body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+	return toBytes(body);
+};
+
+/**
+ * PDF 1.5 file whose page objects sit in a compressed object stream,
+ * indexed by a cross-reference stream with a PNG predictor
+ */
+const buildCompressedPdf = () => {
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+		"<< /Type /Page /Parent 2 0 R /MediaBox [0 0 400 200] /Annots [] >>"
+	];
+	let header = "";
+	let data = "";
+	objects.forEach((object, index) => {
+		header += `${index + 1} ${data.length} `;
+		data += `${object}\n`;
+	});
+	const stream = deflateSync(Buffer.from(header + data, "latin1"));
+
+	let body = "%PDF-1.5\n";
+	const objectStream = body.length;
+	body += `4 0 obj\n<< /Type /ObjStm /N 3 /First ${header.length} /Filter /FlateDecode /Length ${stream.length} >>\nstream\n${latin1(stream)}\nendstream\nendobj\n`;
+
+	// Rows of type, object stream or offset, index, each behind an "Up" filter byte
+	const rows = [
+		[0, 0, 0],
+		[2, 4, 0],
+		[2, 4, 1],
+		[2, 4, 2],
+		[1, objectStream, 0],
+		[1, body.length, 0]
+	];
+	let previous = [0, 0, 0, 0];
+	const raw = rows.flatMap(([type, field, index]) => {
+		const row = [type, (field >> 8) & 0xff, field & 0xff, index];
+		const encoded = [2, ...row.map((value, column) => (value - previous[column]) & 0xff)];
+		previous = row;
+		return encoded;
+	});
+	const xref = deflateSync(Buffer.from(raw));
+	const xrefOffset = body.length;
+	body += `5 0 obj\n<< /Type /XRef /Size 6 /W [1 2 1] /Root 1 0 R /Filter /FlateDecode /DecodeParms << /Predictor 12 /Columns 4 >> /Length ${xref.length} >>\nstream\n${latin1(xref)}\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`;
+	return toBytes(body);
+};
+
+describe("PdfFile", () => {
+	test("should read objects through a cross-reference table", async () => {
+		const file = await PdfFile.open(
+			buildPdf([
+				"<< /Type /Catalog /Pages 2 0 R >>",
+				"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+				"<< /Type /Page /MediaBox [0 0 612 792] /Title (Caf\\351 \\(draft\\)) /Ids <0A1b> /Annots 4 0 R >>",
+				"[5 0 R]"
+			])
+		);
+
+		const page = await file.getObject(3);
+		expect(page.get("Type")).toEqual(new PdfName("Page"));
+		expect(page.get("MediaBox")).toEqual([0, 0, 612, 792]);
+		expect(page.get("Title").bytes).toBe("Caf\xe9 (draft)");
+		expect(page.get("Ids").bytes).toBe("\x0a\x1b");
+		expect(await file.resolve(page.get("Annots"))).toEqual([new PdfRef(5, 0)]);
+		expect(file.trailer.get("Root")).toEqual(new PdfRef(1, 0));
+	});
+
+	test("should append changed and new objects as an incremental update", async () => {
+		const original = buildPdf([
+			"<< /Type /Catalog /Pages 2 0 R >>",
+			"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+			"<< /Type /Page /Parent 2 0 R >>"
+		]);
+		const file = await PdfFile.open(original);
+
+		const note = file.add(new Map([["Contents", PdfString.text("Überprüft")]]));
+		const appearance = file.add(new PdfStream(new Map(), toBytes("0 0 m 1 1 l S")));
+		const page = await file.getObject(3);
+		file.set(new PdfRef(3, 0), new Map([...page, ["Annots", [note, appearance]]]));
+		const saved = file.save();
+
+		expect(note).toEqual(new PdfRef(4, 0));
+		expect(saved.subarray(0, original.length)).toEqual(original);
+		const [, previous] = /startxref\n(\d+)/.exec(latin1(original));
+		expect(latin1(saved.subarray(original.length))).toContain(`/Prev ${previous}`);
+
+		const updated = await PdfFile.open(saved);
+		expect((await updated.getObject(3)).get("Annots")).toEqual([
+			new PdfRef(4, 0),
+			new PdfRef(5, 0)
+		]);
+		expect((await updated.getObject(4)).get("Contents").bytes).toBe(
+			"\xfe\xff\x00\xdc\x00b\x00e\x00r\x00p\x00r\x00\xfc\x00f\x00t"
+		);
+		expect(latin1((await updated.getObject(5)).data)).toBe("0 0 m 1 1 l S");
+		expect(updated.trailer.get("Size")).toBe(6);
+	});
+
+	test("should read compressed objects and update them with a cross-reference stream", async () => {
+		const file = await PdfFile.open(buildCompressedPdf());
+
+		const page = await file.getObject(3);
+		expect(page.get("MediaBox")).toEqual([0, 0, 400, 200]);
+
+		file.set(new PdfRef(3, 0), new Map([...page, ["Annots", [file.add(new Map())]]]));
+		const updated = await PdfFile.open(file.save());
+
+		expect(updated.trailer.get("Type")).toEqual(new PdfName("XRef"));
+		expect((await updated.getObject(3)).get("Annots")).toEqual([new PdfRef(6, 0)]);
+		expect((await updated.getObject(2)).get("Count")).toBe(1);
+	});
+});
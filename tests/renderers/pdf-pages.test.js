@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { EVENTS } from "../../src/core/index.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+const createDocument = (numPages) => {
+	const render = vi.fn(() => ({ promise: Promise.resolve(), cancel: vi.fn() }));
+	const getPage = vi.fn((pageNumber) =>
+		Promise.resolve({
+			getViewport: ({ scale }) => ({
+				width: (pageNumber === 2 ? 200 : 100) * scale,
+				height: 150 * scale,
+				transform: [scale, 0, 0, -scale, 0, 150 * scale]
+			}),
+			render,
+			getTextContent: () => Promise.resolve({ items: [] })
+		})
+	);
+
+	return {
+		render,
+		getPage,
+		document: {
+			numPages,
+			getPage,
+			getMetadata: () => Promise.resolve({ info: {} }),
+			destroy: vi.fn()
+		}
+	};
+};
+
+describe("PDFRenderer page virtualization", () => {
+	let observer;
+	let pdf;
+	let renderer;
+
+	const intersect = async (pages, isIntersecting = true) => {
+		observer.callback(
+			pages.map((page) => ({
+				target: renderer.pageElements[page - 1],
+				isIntersecting
+			}))
+		);
+		if (isIntersecting) {
+			await vi.waitFor(() =>
+				pages.forEach((page) => expect(renderer.renderedPages.has(page)).toBe(true))
+			);
+		}
+	};
+
+	beforeEach(async () => {
+		pdf = createDocument(500);
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({ promise: Promise.resolve(pdf.document) })),
+			Util: { transform: (a, b) => b }
+		});
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn((callback, options) => {
+				observer = { callback, options, observe: vi.fn(), disconnect: vi.fn() };
+				return observer;
+			})
+		);
+
+		renderer = new PDFRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+	});
+
+	test("should lay out sized placeholders without rendering pages up front", () => {
+		expect(renderer.pageElements).toHaveLength(500);
+		expect(renderer.pageElements[499].style.height).toBe("150px");
+		expect(observer.observe).toHaveBeenCalledTimes(500);
+		expect(pdf.render).not.toHaveBeenCalled();
+	});
+
+	test("should size each placeholder from its own page in the background", async () => {
+		await vi.waitFor(() => expect(pdf.getPage).toHaveBeenCalledWith(500));
+
+		expect(renderer.pageElements[0].style.width).toBe("100px");
+		expect(renderer.pageElements[1].style.width).toBe("200px");
+		expect(renderer.pageElements[2].style.width).toBe("100px");
+		expect(pdf.render).not.toHaveBeenCalled();
+	});
+
+	test("should render pages that enter the buffered viewport", async () => {
+		await intersect([1, 2]);
+
+		expect(pdf.render).toHaveBeenCalledTimes(2);
+		expect(renderer.pageElements[0].querySelector("canvas")).not.toBeNull();
+		expect(renderer.pageElements[2].querySelector("canvas")).toBeNull();
+		expect(renderer.pageElements[1].style.width).toBe("200px");
+
+		await intersect([1]);
+		expect(pdf.render).toHaveBeenCalledTimes(2);
+	});
+
+	test("should evict pages that leave the buffered viewport", async () => {
+		await intersect([1, 2]);
+		await intersect([1], false);
+
+		expect(renderer.pageElements[0].children).toHaveLength(0);
+		expect(renderer.renderedPages.has(1)).toBe(false);
+		expect(renderer.renderedPages.has(2)).toBe(true);
+	});
+
+	test("should only redraw visible pages on zoom", async () => {
+		await intersect([3]);
+		pdf.render.mockClear();
+
+		await renderer.setZoom(2);
+
+		expect(pdf.render).toHaveBeenCalledTimes(1);
+		expect(renderer.renderedPages.get(3)).toBe(2);
+		expect(renderer.pageElements[99].style.width).toBe("200px");
+	});
+
+	test("should report pages that fail to render as errors", async () => {
+		const error = new Error("Broken page");
+		const errors = [];
+		renderer.on(EVENTS.ERROR, (data) => errors.push(data));
+		pdf.render.mockReturnValueOnce({ promise: Promise.reject(error), cancel: vi.fn() });
+
+		observer.callback([{ target: renderer.pageElements[0], isIntersecting: true }]);
+
+		await vi.waitFor(() => expect(errors).toEqual([error]));
+		expect(renderer.renderedPages.has(1)).toBe(false);
+	});
+});
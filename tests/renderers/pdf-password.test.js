@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BukaViewer, EVENTS } from "../../src/core/index.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+const PDF_BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+
+const pdfDocument = {
+	numPages: 1,
+	getPage: () =>
+		Promise.resolve({
+			getViewport: ({ scale }) => ({ width: 100 * scale, height: 150 * scale })
+		}),
+	getMetadata: () => Promise.resolve({ info: { Title: "Payroll" } }),
+	destroy: vi.fn()
+};
+
+/**
+ * Loading task that behaves like PDF.js for a document encrypted with
+ * the password "secret"
+ */
+const createEncryptedTask = () => {
+	let resolveDocument;
+	const task = {
+		promise: new Promise((resolve) => {
+			resolveDocument = resolve;
+		}),
+		destroy: vi.fn()
+	};
+	const updatePassword = (password) => {
+		if (password === "secret") {
+			resolveDocument(pdfDocument);
+		} else {
+			task.onPassword(updatePassword, 2);
+		}
+	};
+	setTimeout(() => task.onPassword(updatePassword, 1));
+	return task;
+};
+
+describe("PDFRenderer password protected documents", () => {
+	let tasks;
+
+	beforeEach(() => {
+		tasks = [];
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => {
+				const task = createEncryptedTask();
+				tasks.push(task);
+				return task;
+			}),
+			PasswordResponses: { NEED_PASSWORD: 1, INCORRECT_PASSWORD: 2 }
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test("should open the document with the password from onPassword", async () => {
+		const onPassword = vi.fn(({ attempt }) => (attempt === 1 ? "guess" : "secret"));
+		const renderer = new PDFRenderer(document.createElement("div"), { onPassword });
+
+		await renderer.load(PDF_BYTES);
+
+		expect(renderer.totalPages).toBe(1);
+		expect(onPassword.mock.calls.map(([request]) => request.reason)).toEqual([
+			"required",
+			"incorrect"
+		]);
+		renderer.destroy();
+	});
+
+	test("should let password:required listeners submit a password", async () => {
+		const renderer = new PDFRenderer(document.createElement("div"));
+		const requests = [];
+		renderer.on(EVENTS.PASSWORD_REQUIRED, (request) => {
+			requests.push(request);
+			request.submit("secret");
+		});
+
+		await renderer.load(PDF_BYTES);
+
+		expect(requests).toEqual([expect.objectContaining({ reason: "required", attempt: 1 })]);
+		renderer.destroy();
+	});
+
+	test("should fail with a PasswordError when the prompt is cancelled", async () => {
+		const renderer = new PDFRenderer(document.createElement("div"), {
+			onPassword: (request) => request.cancel()
+		});
+
+		await expect(renderer.load(PDF_BYTES)).rejects.toMatchObject({
+			name: "PasswordError",
+			message: "A password is required to open this document"
+		});
+		expect(tasks[0].destroy).toHaveBeenCalled();
+		renderer.destroy();
+	});
+
+	test("should fail without a prompt when nobody can supply a password", async () => {
+		const renderer = new PDFRenderer(document.createElement("div"));
+
+		await expect(renderer.load(PDF_BYTES)).rejects.toThrow("password is required");
+		renderer.destroy();
+	});
+
+	test("should prompt with the built-in dialog when no callback is configured", async () => {
+		const container = document.createElement("div");
+		document.body.appendChild(container);
+		const viewer = new BukaViewer(container);
+		const requests = [];
+		viewer.on(EVENTS.PASSWORD_REQUIRED, (request) => requests.push(request));
+
+		const loading = viewer.load(new File([PDF_BYTES], "payroll.pdf"));
+		const dialog = () => container.querySelector(".buka-password-dialog");
+		const submit = (password) => {
+			dialog().querySelector(".buka-password-input").value = password;
+			dialog().dispatchEvent(new Event("submit", { cancelable: true }));
+		};
+
+		await vi.waitFor(() => expect(dialog()).not.toBeNull());
+		submit("guess");
+		await vi.waitFor(() => expect(requests).toHaveLength(2));
+		expect(dialog().querySelector(".buka-password-error").textContent).toContain(
+			"Incorrect password"
+		);
+		submit("secret");
+
+		await loading;
+		expect(dialog()).toBeNull();
+		expect(viewer.getTotalPages()).toBe(1);
+		viewer.destroy();
+		container.remove();
+	});
+});
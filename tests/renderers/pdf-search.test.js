@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { EVENTS } from "../../src/core/index.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+// Text items are 10px high with ten pixels per character
+const item = (str, x, y, hasEOL = false) => ({
+	str,
+	transform: [10, 0, 0, 10, x, y],
+	width: str.length * 10,
+	hasEOL
+});
+
+const PAGE_TEXT = {
+	1: [item("Quarterly rev", 0, 20), item("enue grew", 130, 20, true), item("Revenue", 0, 40)],
+	2: [item("No matches here", 0, 20)],
+	3: [item("Revenue again", 0, 20)]
+};
+
+const createDocument = () => {
+	const getTextContent = vi.fn((pageNumber) => Promise.resolve({ items: PAGE_TEXT[pageNumber] }));
+	const getPage = vi.fn((pageNumber) =>
+		Promise.resolve({
+			getViewport: ({ scale }) => ({
+				width: 300 * scale,
+				height: 100 * scale,
+				transform: [scale, 0, 0, scale, 0, 0]
+			}),
+			render: () => ({ promise: Promise.resolve(), cancel: vi.fn() }),
+			getTextContent: () => getTextContent(pageNumber)
+		})
+	);
+
+	return {
+		getTextContent,
+		numPages: 3,
+		getPage,
+		getMetadata: () => Promise.resolve({ info: {} }),
+		destroy: vi.fn()
+	};
+};
+
+describe("PDFRenderer search highlighting", () => {
+	let renderer;
+	let scrolled;
+	let pdf;
+
+	const highlights = (page) =>
+		Array.from(renderer.pageElements[page - 1].querySelectorAll(".buka-search-highlight"));
+
+	beforeEach(async () => {
+		scrolled = [];
+		pdf = createDocument();
+		Element.prototype.scrollIntoView = vi.fn(function () {
+			scrolled.push(this);
+		});
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({ promise: Promise.resolve(pdf) })),
+			Util: { transform: (viewport, transform) => transform }
+		});
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn(() => ({ observe: vi.fn(), disconnect: vi.fn() }))
+		);
+
+		renderer = new PDFRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+		await renderer.renderPage(1);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+		delete Element.prototype.scrollIntoView;
+	});
+
+	test("should find matches that span several text items", async () => {
+		const results = await renderer.search("revenue");
+
+		expect(results.map((result) => result.page)).toEqual([1, 1, 3]);
+		expect(results[0].ranges).toEqual([
+			{ itemIndex: 0, start: 10, end: 13 },
+			{ itemIndex: 1, start: 0, end: 4 }
+		]);
+		expect(results[1].ranges).toEqual([{ itemIndex: 2, start: 0, end: 7 }]);
+		expect(results[0].context).toEqual({
+			before: "Quarterly ",
+			match: "revenue",
+			after: " grew Revenue"
+		});
+		expect(results[2].section).toBe("Page 3");
+	});
+
+	test("should match across line breaks", async () => {
+		const results = await renderer.search("grew  Revenue");
+
+		expect(results).toHaveLength(1);
+		expect(results[0].ranges.map((range) => range.itemIndex)).toEqual([1, 2]);
+	});
+
+	test("should apply search options", async () => {
+		const results = await renderer.search("Revenue", { caseSensitive: true, wholeWords: true });
+
+		expect(results.map((result) => result.ranges[0].itemIndex)).toEqual([2, 0]);
+		await expect(renderer.search("rev(", { regex: true })).rejects.toThrow(
+			"Invalid search pattern"
+		);
+	});
+
+	test("should draw a box per matched character run", async () => {
+		await renderer.search("revenue");
+
+		const boxes = highlights(1).map((highlight) => ({
+			index: highlight.dataset.resultIndex,
+			left: highlight.style.left,
+			top: highlight.style.top,
+			width: highlight.style.width
+		}));
+		expect(boxes).toEqual([
+			{ index: "0", left: "100px", top: "10px", width: "30px" },
+			{ index: "0", left: "130px", top: "10px", width: "40px" },
+			{ index: "1", left: "0px", top: "30px", width: "70px" }
+		]);
+	});
+
+	test("should mark and scroll to the current hit", async () => {
+		await renderer.search("revenue");
+
+		const current = highlights(1).filter((highlight) =>
+			highlight.classList.contains("buka-search-highlight-current")
+		);
+		expect(current.map((highlight) => highlight.dataset.resultIndex)).toEqual(["0", "0"]);
+		expect(scrolled.at(-1)).toBe(current[0]);
+
+		renderer.nextSearchResult();
+		await vi.waitFor(() =>
+			expect(highlights(1)[2].classList.contains("buka-search-highlight-current")).toBe(true)
+		);
+		expect(highlights(1)[0].classList.contains("buka-search-highlight-current")).toBe(false);
+	});
+
+	test("should render the page of a hit outside the render buffer", async () => {
+		await renderer.search("revenue");
+
+		await renderer.showSearchResult(2);
+
+		expect(renderer.renderedPages.has(3)).toBe(true);
+		expect(highlights(3)).toHaveLength(1);
+		expect(scrolled.at(-1)).toBe(highlights(3)[0]);
+		expect(renderer.currentPage).toBe(3);
+	});
+
+	test("should stream hits as pages are searched", async () => {
+		const progress = [];
+		renderer.on(EVENTS.SEARCH_PROGRESS, (event) => progress.push(event));
+
+		await renderer.search("revenue");
+
+		expect(progress.map((event) => [event.pagesSearched, event.results.length])).toEqual([
+			[1, 2],
+			[3, 3]
+		]);
+		expect(progress[0].totalPages).toBe(3);
+	});
+
+	test("should reuse extracted page text for later searches", async () => {
+		await renderer.search("revenue");
+		pdf.getTextContent.mockClear();
+
+		const results = await renderer.search("again");
+
+		expect(results).toHaveLength(1);
+		expect(pdf.getTextContent).not.toHaveBeenCalled();
+	});
+
+	test("should cancel a running search when a new one starts", async () => {
+		const first = renderer.search("revenue");
+		const second = renderer.search("matches");
+
+		await expect(first).rejects.toMatchObject({ name: "AbortError" });
+		expect(await second).toHaveLength(1);
+		expect(renderer.searchResults.map((result) => result.page)).toEqual([2]);
+	});
+});
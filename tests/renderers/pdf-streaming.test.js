@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BukaViewer } from "../../src/core/index.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+
+const URL = "https://files.example.com/reports/q3.pdf?signature=abc";
+const DOCUMENT_SIZE = 200000;
+
+const pdfDocument = {
+	numPages: 1,
+	fingerprints: ["4f2b1a"],
+	getPage: () =>
+		Promise.resolve({
+			getViewport: ({ scale }) => ({ width: 100 * scale, height: 150 * scale })
+		}),
+	getMetadata: () => Promise.resolve({ info: { Title: "Q3" } }),
+	destroy: vi.fn()
+};
+
+class PDFDataRangeTransport {
+	constructor(length, initialData) {
+		this.length = length;
+		this.initialData = initialData;
+	}
+}
+
+/**
+ * Fetcher for a server that supports range requests, answering the second
+ * chunk with `chunkStatus`
+ */
+const createFetcher = (chunkStatus = 206) =>
+	vi.fn(async (_url, init) => {
+		const [begin, end] = new Headers(init.headers)
+			.get("Range")
+			.replace("bytes=", "")
+			.split("-")
+			.map(Number);
+		const status = begin === 0 ? 206 : chunkStatus;
+		return new Response(new Uint8Array(end - begin + 1), {
+			status,
+			headers: { "Content-Range": `bytes ${begin}-${end}/${DOCUMENT_SIZE}` }
+		});
+	});
+
+describe("PDFRenderer range requests", () => {
+	let tasks;
+	let pdfjsLib;
+
+	beforeEach(() => {
+		tasks = [];
+		pdfjsLib = {
+			PDFDataRangeTransport,
+			// Opening the document needs the second chunk, like a PDF whose xref is not in the first one
+			getDocument: vi.fn(({ range }) => {
+				const task = { destroyed: false };
+				task.destroy = vi.fn(() => {
+					task.destroyed = true;
+				});
+				task.promise = new Promise((resolve) => {
+					range.onDataRange = () => resolve(pdfDocument);
+				});
+				setTimeout(() => range.requestDataRange(65536, 131072));
+				tasks.push(task);
+				return task;
+			})
+		};
+		vi.stubGlobal("pdfjsLib", pdfjsLib);
+		// jsdom's Headers drops Range, the fetch implementation's own class keeps it
+		vi.stubGlobal("Headers", new Response().headers.constructor);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test("should stream a URL loaded by the viewer with its request headers", async () => {
+		const container = document.createElement("div");
+		document.body.appendChild(container);
+		const fetcher = createFetcher();
+		const viewer = new BukaViewer(container, {
+			fetcher,
+			request: { headers: { Authorization: "Bearer token" } }
+		});
+
+		await viewer.load(URL, { headers: { "X-Tenant": "acme" } });
+
+		expect(viewer.getTotalPages()).toBe(1);
+		expect(pdfjsLib.getDocument).toHaveBeenCalledWith(
+			expect.objectContaining({ range: expect.any(PDFDataRangeTransport) })
+		);
+		const requests = fetcher.mock.calls.map(([url, init]) => {
+			const headers = new Headers(init.headers);
+			return [
+				url,
+				headers.get("Range"),
+				headers.get("Authorization"),
+				headers.get("X-Tenant")
+			];
+		});
+		expect(requests).toEqual([
+			[URL, "bytes=0-65535", "Bearer token", "acme"],
+			[URL, "bytes=65536-131071", "Bearer token", "acme"]
+		]);
+		viewer.destroy();
+		container.remove();
+	});
+
+	test("should fail the load when a range request is refused", async () => {
+		const renderer = new PDFRenderer(document.createElement("div"), {
+			fetcher: createFetcher(401)
+		});
+
+		await expect(renderer.load(URL)).rejects.toThrow("65536-131072 failed: 401");
+		expect(tasks[0].destroy).toHaveBeenCalled();
+		renderer.destroy();
+	});
+});
@@ -0,0 +1,286 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { CompoundFile, EVENTS } from "../../src/core/index.ts";
+import { PptParser } from "../../src/renderers/ppt-parser.ts";
+import { PresentationRenderer } from "../../src/renderers/presentation.ts";
+
+const SECTOR_SIZE = 512;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+
+const concat = (parts) => {
+	const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+	let offset = 0;
+	parts.forEach((part) => {
+		bytes.set(part, offset);
+		offset += part.length;
+	});
+	return bytes;
+};
+
+const words = (...values) => {
+	const bytes = new Uint8Array(values.length * 4);
+	const view = new DataView(bytes.buffer);
+	values.forEach((value, index) => view.setUint32(index * 4, value >>> 0, true));
+	return bytes;
+};
+
+const shorts = (...values) => {
+	const bytes = new Uint8Array(values.length * 2);
+	const view = new DataView(bytes.buffer);
+	values.forEach((value, index) => view.setUint16(index * 2, value & 0xffff, true));
+	return bytes;
+};
+
+const utf16 = (text) => shorts(...Array.from(text, (char) => char.charCodeAt(0)));
+
+/**
+ * Build a version 3 compound file with every stream in regular sectors,
+ * the header mini stream cutoff is set to zero so no mini FAT is needed
+ */
+const buildCompoundFile = (streams) => {
+	const names = Object.keys(streams);
+	const fat = [];
+	const sectors = [];
+	const starts = names.map((name) => {
+		const data = streams[name];
+		const count = Math.max(1, Math.ceil(data.length / SECTOR_SIZE));
+		const start = sectors.length;
+		for (let i = 0; i < count; i++) {
+			const sector = new Uint8Array(SECTOR_SIZE);
+			sector.set(data.subarray(i * SECTOR_SIZE, (i + 1) * SECTOR_SIZE));
+			sectors.push(sector);
+			fat.push(i === count - 1 ? END_OF_CHAIN : start + i + 1);
+		}
+		return start;
+	});
+
+	const entry = (name, type, start, size) => {
+		const bytes = new Uint8Array(128);
+		bytes.set(utf16(name));
+		bytes.set(shorts((name.length + 1) * 2), 0x40);
+		bytes[0x42] = type;
+		bytes.set(words(FREE_SECTOR, FREE_SECTOR, type === 5 ? 1 : FREE_SECTOR), 0x44);
+		bytes.set(words(start, size), 0x74);
+		return bytes;
+	};
+	const directory = concat([
+		entry("Root Entry", 5, END_OF_CHAIN, 0),
+		...names.map((name, index) => entry(name, 2, starts[index], streams[name].length))
+	]);
+
+	const directoryStart = sectors.length;
+	const directorySectors = Math.ceil(directory.length / SECTOR_SIZE);
+	for (let i = 0; i < directorySectors; i++) {
+		const sector = new Uint8Array(SECTOR_SIZE);
+		sector.set(directory.subarray(i * SECTOR_SIZE, (i + 1) * SECTOR_SIZE));
+		sectors.push(sector);
+		fat.push(i === directorySectors - 1 ? END_OF_CHAIN : directoryStart + i + 1);
+	}
+
+	const fatSector = sectors.length;
+	fat.push(0xfffffffd);
+	while (fat.length < SECTOR_SIZE / 4) fat.push(FREE_SECTOR);
+	sectors.push(words(...fat));
+
+	const header = new Uint8Array(SECTOR_SIZE).fill(0xff, 0x4c);
+	header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+	header.set(shorts(0x3e, 3, 0xfffe, 9, 6), 0x18);
+	header.set(words(1, directoryStart, 0, 0, END_OF_CHAIN, 0, END_OF_CHAIN, 0), 0x2c);
+	header.set(words(fatSector), 0x4c);
+
+	return concat([header, ...sectors]).buffer;
+};
+
+// Atoms have version 0, containers version 0xF
+const atom = (type, body, instance = 0) =>
+	concat([shorts(instance << 4, type), words(body.length), body]);
+const container = (type, children, instance = 0) =>
+	concat([
+		shorts((instance << 4) | 0xf, type),
+		words(children.reduce((n, c) => n + c.length, 0)),
+		...children
+	]);
+
+const textAtoms = (type, text) => [atom(0x0f9f, words(type)), atom(0x0fa0, utf16(text))];
+
+// Client anchors are top, left, right, bottom in master units
+const shape = (anchor, children) =>
+	container(0xf004, [atom(0xf00a, words(0, 0)), atom(0xf010, shorts(...anchor)), ...children]);
+
+const drawing = (shapes) =>
+	container(0x040c, [
+		container(0xf002, [
+			container(0xf003, [
+				container(0xf004, [atom(0xf009, words(0, 0, 0, 0)), atom(0xf00a, words(0, 5))]),
+				...shapes
+			])
+		])
+	]);
+
+const PNG = [0x89, 0x50, 0x4e, 0x47];
+
+const buildPresentation = ({ encrypted = false, withUserEdit = true } = {}) => {
+	const documentContainer = container(0x03e8, [
+		atom(0x03e9, concat([words(5760, 4320), new Uint8Array(32)])),
+		container(
+			0x0ff0,
+			[
+				atom(0x03f3, words(2, 0, 2, 256, 0)),
+				...textAtoms(0, "Quarterly Review"),
+				...textAtoms(1, "Revenue up\rCosts down")
+			],
+			0
+		),
+		container(0x0ff0, [atom(0x03f3, words(3, 0, 0, 0x100, 0))], 2),
+		container(0x040b, [
+			container(0xf000, [
+				container(0xf001, [atom(0xf007, concat([new Uint8Array(28), words(0, 0)]), 6)], 1)
+			])
+		])
+	]);
+
+	const slide = container(0x03ee, [
+		atom(0x03ef, words(0, 0, 0, 0, 0x100, 0)),
+		drawing([
+			shape([200, 300, 5460, 1000], [container(0xf00d, [atom(0x0f9e, words(0))])]),
+			shape([1200, 300, 2800, 4000], [container(0xf00d, [atom(0x0f9e, words(1))])]),
+			shape([1200, 3000, 5460, 4000], [atom(0xf00b, concat([shorts(0x4104), words(1)]), 1)])
+		])
+	]);
+
+	const notes = container(0x03f0, [
+		drawing([
+			shape(
+				[2000, 500, 5200, 4000],
+				[container(0xf00d, textAtoms(2, "Mention the hiring plan"))]
+			)
+		])
+	]);
+
+	const slideOffset = documentContainer.length;
+	const notesOffset = slideOffset + slide.length;
+	const directoryOffset = notesOffset + notes.length;
+	const directory = atom(0x1772, words((3 << 20) | 1, 0, slideOffset, notesOffset));
+	const editOffset = directoryOffset + directory.length;
+	const userEdit = atom(0x0ff5, words(0, 0, 0, directoryOffset, 1, 4, 0));
+
+	const streams = {
+		"Current User": atom(
+			0x0ff6,
+			words(20, encrypted ? 0xf3d1c4df : 0xe391c05f, withUserEdit ? editOffset : 0)
+		),
+		"PowerPoint Document": concat([documentContainer, slide, notes, directory, userEdit]),
+		Pictures: atom(0xf01e, concat([new Uint8Array(17), new Uint8Array(PNG)]), 0x6e0)
+	};
+	return buildCompoundFile(streams);
+};
+
+describe("CompoundFile", () => {
+	test("should list entries and read streams", () => {
+		const file = new CompoundFile(buildCompoundFile({ Alpha: new Uint8Array(600).fill(7) }));
+
+		expect(file.entries.map((entry) => entry.name)).toEqual(["Root Entry", "Alpha"]);
+		expect(file.getStream("Alpha")).toEqual(new Uint8Array(600).fill(7));
+		expect(file.getStream("Missing")).toBeNull();
+	});
+
+	test("should reject data without the compound file signature", () => {
+		expect(() => new CompoundFile(new Uint8Array(512))).toThrow("Not a compound file");
+	});
+});
+
+describe("PptParser", () => {
+	test("should read slide text, pictures and notes", () => {
+		const parsed = PptParser.parse(buildPresentation());
+		const [slide] = parsed.slides;
+
+		expect(parsed.slides).toHaveLength(1);
+		expect(parsed.width / parsed.height).toBeCloseTo(4 / 3);
+		expect(slide.title).toBe("Quarterly Review");
+		expect(slide.text).toContain("Costs down");
+		expect(slide.notes).toBe("Mention the hiring plan");
+		const content = document.createElement("div");
+		content.innerHTML = slide.content;
+		expect(content.querySelector("img.buka-slide-image").getAttribute("src")).toBe(
+			"mock-object-url"
+		);
+		expect(slide.content).toContain("left: 5.208%");
+		expect(parsed.resources).toEqual(["mock-object-url"]);
+	});
+
+	test("should detect encrypted presentations", () => {
+		const data = buildPresentation({ encrypted: true });
+
+		expect(PptParser.isEncrypted(data)).toBe(true);
+		expect(() => PptParser.parse(data)).toThrow("Presentation is encrypted");
+	});
+
+	test("should extract text when the slide structure cannot be followed", () => {
+		const data = buildPresentation({ withUserEdit: false });
+
+		expect(() => PptParser.parse(data)).toThrow();
+		expect(PptParser.extractText(data)).toBe(
+			"Quarterly Review\nRevenue up\nCosts down\nMention the hiring plan"
+		);
+	});
+});
+
+describe("PresentationRenderer with legacy files", () => {
+	const load = async (data) => {
+		const renderer = new PresentationRenderer(document.createElement("div"));
+		const events = [];
+		renderer.on(EVENTS.DOCUMENT_DEGRADED, (event) => events.push(event));
+		await renderer.load(data);
+		return { renderer, events };
+	};
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	test("should render PPT slides and report the reduced fidelity", async () => {
+		const { renderer, events } = await load(buildPresentation());
+
+		expect(renderer.getCurrentSlide().title).toBe("Quarterly Review");
+		expect(events).toEqual([
+			expect.objectContaining({
+				format: "application/vnd.ms-powerpoint",
+				reason: "legacy-format"
+			})
+		]);
+		renderer.destroy();
+	});
+
+	test("should show extracted text for unreadable PPT files", async () => {
+		const { renderer, events } = await load(buildPresentation({ withUserEdit: false }));
+
+		expect(events[0].reason).toBe("unreadable");
+		expect(events[0].extractedText).toContain("Revenue up");
+		expect(renderer.getCurrentSlide().content).toContain("Mention the hiring plan");
+		renderer.destroy();
+	});
+
+	test("should show the placeholder when no text can be extracted either", async () => {
+		vi.spyOn(PptParser, "extractText").mockImplementation(() => {
+			throw new RangeError("Offset is outside the bounds of the DataView");
+		});
+
+		const { renderer, events } = await load(buildPresentation({ withUserEdit: false }));
+
+		expect(events[0]).toEqual(
+			expect.objectContaining({ reason: "unreadable", extractedText: "" })
+		);
+		expect(renderer.getCurrentSlide().title).toBe("Presentation Viewer");
+		renderer.destroy();
+	});
+
+	test("should report encrypted PPT files", async () => {
+		const { renderer, events } = await load(buildPresentation({ encrypted: true }));
+
+		expect(events[0]).toEqual(
+			expect.objectContaining({ reason: "encrypted", extractedText: "" })
+		);
+		expect(renderer.getCurrentSlide().title).toBe("Presentation Viewer");
+		renderer.destroy();
+	});
+});
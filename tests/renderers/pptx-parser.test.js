@@ -0,0 +1,237 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, test } from "vitest";
+import { PptxParser } from "../../src/renderers/pptx-parser.ts";
+import { PresentationRenderer } from "../../src/renderers/presentation.ts";
+
+const namespace = (prefix, uri) => `xmlns:${prefix}="${uri}"`;
+
+const NS = [
+	namespace("a", "http://schemas.openxmlformats.org/drawingml/2006/main"),
+	namespace("r", "http://schemas.openxmlformats.org/officeDocument/2006/relationships"),
+	namespace("p", "http://schemas.openxmlformats.org/presentationml/2006/main")
+].join(" ");
+
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const rels = (entries) =>
+	`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries
+		.map(
+			([id, type, target]) =>
+				`<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`
+		)
+		.join("")}</Relationships>`;
+
+const xfrm = (x, y, cx, cy) =>
+	`<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`;
+
+const FILES = {
+	"ppt/presentation.xml": `<p:presentation ${NS}>
+		<p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/></p:sldIdLst>
+		<p:sldSz cx="9144000" cy="6858000"/>
+		<p:defaultTextStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:defaultTextStyle>
+	</p:presentation>`,
+	"ppt/_rels/presentation.xml.rels": rels([
+		["rId2", "slide", "slides/slide1.xml"],
+		["rId3", "slide", "slides/slide2.xml"]
+	]),
+	"ppt/slides/slide1.xml": `<p:sld ${NS}><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+			<p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:rPr b="1"/><a:t>Quarterly &lt;Review&gt;</a:t></a:r></a:p></p:txBody></p:sp>
+		<p:sp><p:nvSpPr><p:cNvPr id="3" name="Text"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+			<p:spPr>${xfrm(0, 3429000, 4572000, 1000000)}<a:solidFill><a:schemeClr val="accent1"/></a:solidFill></p:spPr>
+			<p:txBody><a:bodyPr/><a:p><a:pPr><a:buAutoNum type="arabicPeriod"/></a:pPr><a:r><a:t>Revenue up</a:t></a:r></a:p></p:txBody></p:sp>
+		<p:pic><p:nvPicPr><p:cNvPr id="4" name="Chart" descr="Sales chart"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+			<p:blipFill><a:blip r:embed="rId2"/></p:blipFill><p:spPr>${xfrm(4572000, 3429000, 4572000, 3429000)}</p:spPr></p:pic>
+	</p:spTree></p:cSld></p:sld>`,
+	"ppt/slides/_rels/slide1.xml.rels": rels([
+		["rId1", "slideLayout", "../slideLayouts/slideLayout1.xml"],
+		["rId2", "image", "../media/image1.png"],
+		["rId3", "notesSlide", "../notesSlides/notesSlide1.xml"]
+	]),
+	"ppt/slides/slide2.xml": `<p:sld ${NS}><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:cNvPr id="2" name="Body"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+			<p:spPr>${xfrm(0, 0, 9144000, 1000000)}</p:spPr>
+			<p:txBody><a:bodyPr/><a:p><a:r><a:t>Compressed slide</a:t></a:r></a:p></p:txBody></p:sp>
+	</p:spTree></p:cSld></p:sld>`,
+	"ppt/slides/_rels/slide2.xml.rels": rels([
+		["rId1", "slideLayout", "../slideLayouts/slideLayout1.xml"]
+	]),
+	"ppt/slideLayouts/slideLayout1.xml": `<p:sldLayout ${NS} type="title"><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+			<p:spPr>${xfrm(914400, 685800, 7315200, 1143000)}</p:spPr></p:sp>
+	</p:spTree></p:cSld></p:sldLayout>`,
+	"ppt/slideLayouts/_rels/slideLayout1.xml.rels": rels([
+		["rId1", "slideMaster", "../slideMasters/slideMaster1.xml"]
+	]),
+	"ppt/slideMasters/slideMaster1.xml": `<p:sldMaster ${NS}>
+		<p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="112233"/></a:solidFill></p:bgPr></p:bg><p:spTree/></p:cSld>
+		<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1"/>
+		<p:txStyles><p:titleStyle><a:lvl1pPr algn="ctr"><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill></a:defRPr></a:lvl1pPr></p:titleStyle></p:txStyles>
+	</p:sldMaster>`,
+	"ppt/slideMasters/_rels/slideMaster1.xml.rels": rels([
+		["rId1", "theme", "../theme/theme1.xml"]
+	]),
+	"ppt/theme/theme1.xml": `<a:theme ${NS}><a:themeElements>
+		<a:clrScheme name="Office">
+			<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>
+			<a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>
+			<a:accent1><a:srgbClr val="4472C4"/></a:accent1>
+		</a:clrScheme>
+		<a:fontScheme name="Office"><a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont></a:fontScheme>
+	</a:themeElements></a:theme>`,
+	"ppt/notesSlides/notesSlide1.xml": `<p:notes ${NS}><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:cNvPr id="2" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>
+			<p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:t>Remember the numbers</a:t></a:r></a:p></p:txBody></p:sp>
+	</p:spTree></p:cSld></p:notes>`,
+	"ppt/media/image1.png": "\x89PNG"
+};
+
+/**
+ * Build a ZIP archive with a central directory. Slides are deflated, the
+ * remaining parts are stored.
+ */
+const buildZip = (files) => {
+	const encoder = new TextEncoder();
+	const local = [];
+	const central = [];
+	let offset = 0;
+
+	Object.entries(files).forEach(([name, content]) => {
+		const nameBytes = encoder.encode(name);
+		const raw = encoder.encode(content);
+		const deflate = name.startsWith("ppt/slides/slide");
+		const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+		const header = new Uint8Array(30 + nameBytes.length);
+		const view = new DataView(header.buffer);
+		view.setUint32(0, 0x04034b50, true);
+		view.setUint16(8, deflate ? 8 : 0, true);
+		view.setUint32(18, data.length, true);
+		view.setUint32(22, raw.length, true);
+		view.setUint16(26, nameBytes.length, true);
+		header.set(nameBytes, 30);
+
+		const entry = new Uint8Array(46 + nameBytes.length);
+		const entryView = new DataView(entry.buffer);
+		entryView.setUint32(0, 0x02014b50, true);
+		entryView.setUint16(10, deflate ? 8 : 0, true);
+		entryView.setUint32(20, data.length, true);
+		entryView.setUint32(24, raw.length, true);
+		entryView.setUint16(28, nameBytes.length, true);
+		entryView.setUint32(42, offset, true);
+		entry.set(nameBytes, 46);
+
+		local.push(header, data);
+		central.push(entry);
+		offset += header.length + data.length;
+	});
+
+	const directorySize = central.reduce((size, part) => size + part.length, 0);
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, central.length, true);
+	endView.setUint16(10, central.length, true);
+	endView.setUint32(12, directorySize, true);
+	endView.setUint32(16, offset, true);
+
+	const parts = [...local, ...central, end];
+	const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+	let position = 0;
+	parts.forEach((part) => {
+		bytes.set(part, position);
+		position += part.length;
+	});
+	return bytes.buffer;
+};
+
+describe("PptxParser", () => {
+	test("should read slides in presentation order with titles and notes", async () => {
+		const result = await PptxParser.parse(buildZip(FILES));
+
+		expect(result.slides).toHaveLength(2);
+		expect(result.slides.map((slide) => slide.title)).toEqual([
+			"Quarterly <Review>",
+			"Slide 2"
+		]);
+		expect(result.slides[0].notes).toBe("Remember the numbers");
+		expect(result.slides[0].layout).toBe("title");
+		expect(result.width).toBe(9144000);
+		expect(result.height).toBe(6858000);
+	});
+
+	test("should inherit placeholder position and text style from layout and master", async () => {
+		const [slide] = (await PptxParser.parse(buildZip(FILES))).slides;
+		const canvas = document.createElement("div");
+		canvas.innerHTML = slide.content;
+
+		const title = canvas.querySelector(".buka-slide-shape");
+		expect(title.style.left).toBe("10%");
+		expect(title.style.top).toBe("10%");
+		expect(title.textContent).toBe("Quarterly <Review>");
+
+		const run = title.querySelector("span");
+		expect(run.style.fontWeight).toBe("bold");
+		expect(run.style.color).toBe("rgb(0, 0, 0)");
+		expect(run.style.fontFamily).toContain("Calibri");
+		expect(title.querySelector("p").style.textAlign).toBe("center");
+	});
+
+	test("should render fills, numbered bullets, images and backgrounds", async () => {
+		const result = await PptxParser.parse(buildZip(FILES));
+		const canvas = document.createElement("div");
+		canvas.innerHTML = result.slides[0].content;
+
+		const [, textBox] = canvas.querySelectorAll(".buka-slide-shape");
+		expect(textBox.style.background).toContain("rgb(68, 114, 196)");
+		expect(textBox.querySelector(".buka-slide-bullet").textContent).toBe("1.");
+
+		const image = canvas.querySelector("img");
+		expect(image.getAttribute("src")).toBe("mock-object-url");
+		expect(image.getAttribute("alt")).toBe("Sales chart");
+		expect(result.resources).toEqual(["mock-object-url"]);
+
+		expect(result.slides[0].background).toBe("#112233");
+	});
+
+	test("should inflate deflated parts", async () => {
+		const result = await PptxParser.parse(buildZip(FILES));
+
+		expect(result.slides[1].content).toContain("Compressed slide");
+		expect(result.text).toContain("Compressed slide");
+	});
+
+	test("should reject data that is not a ZIP package", async () => {
+		await expect(PptxParser.parse(new Uint8Array([1, 2, 3]).buffer)).rejects.toThrow(
+			"Not a valid PPTX package"
+		);
+	});
+});
+
+describe("PresentationRenderer", () => {
+	test("should display parsed slides", async () => {
+		const container = document.createElement("div");
+		const renderer = new PresentationRenderer(container);
+
+		await renderer.load(buildZip(FILES));
+
+		expect(renderer.totalPages).toBe(2);
+		expect(container.querySelector(".buka-slide-content").textContent).toContain(
+			"Quarterly <Review>"
+		);
+		expect(renderer.getSlideNotes()).toBe("Remember the numbers");
+		renderer.destroy();
+	});
+
+	test("should fall back to a placeholder slide for unreadable files", async () => {
+		const container = document.createElement("div");
+		const renderer = new PresentationRenderer(container);
+
+		await renderer.load(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0]));
+
+		expect(renderer.totalPages).toBe(1);
+		expect(renderer.getCurrentSlide().title).toBe("Presentation Viewer");
+		expect(renderer.degradation.reason).toBe("unreadable");
+		renderer.destroy();
+	});
+});
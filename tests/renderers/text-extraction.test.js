@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { BukaViewer } from "../../src/core/index.ts";
+import { DocxRenderer } from "../../src/renderers/docx.ts";
+import { ImageRenderer } from "../../src/renderers/image.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+import { PresentationRenderer } from "../../src/renderers/presentation.ts";
+import { XlsxRenderer } from "../../src/renderers/xlsx.ts";
+
+const BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+
+const pdfItem = (str, x, y, hasEOL = false) => ({
+	str,
+	transform: [10, 0, 0, 10, x, y],
+	width: str.length * 10,
+	hasEOL
+});
+
+const createPdfDocument = () => {
+	const pages = {
+		1: [pdfItem("Annual", 0, 20), pdfItem(" report", 60, 20, true), pdfItem("2024", 0, 40)],
+		2: [pdfItem("Appendix", 0, 20)]
+	};
+	return {
+		numPages: 2,
+		getPage: (pageNumber) =>
+			Promise.resolve({
+				getViewport: ({ scale }) => ({
+					width: 200 * scale,
+					height: 100 * scale,
+					scale,
+					transform: [scale, 0, 0, scale, 0, 0]
+				}),
+				getTextContent: () => Promise.resolve({ items: pages[pageNumber] })
+			}),
+		getMetadata: () => Promise.resolve({ info: {} }),
+		destroy: vi.fn()
+	};
+};
+
+describe("Text extraction", () => {
+	let renderer;
+
+	afterEach(() => {
+		renderer?.destroy();
+		renderer = null;
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	test("should extract PDF text per page with positioned items", async () => {
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({ promise: Promise.resolve(createPdfDocument()) })),
+			Util: { transform: (viewport, transform) => transform }
+		});
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn(() => ({ observe: vi.fn(), disconnect: vi.fn() }))
+		);
+		renderer = new PDFRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+
+		const pages = await renderer.getText();
+		expect(pages).toEqual([
+			{ page: 1, label: "Page 1", text: "Annual report\n2024" },
+			{ page: 2, label: "Page 2", text: "Appendix" }
+		]);
+
+		const [page] = await renderer.getText({ page: 1, structured: true });
+		expect(page.blocks[2]).toEqual({
+			text: "2024",
+			type: "text",
+			x: 0,
+			y: 0.3,
+			width: 0.2,
+			height: 0.1
+		});
+		expect(await renderer.getText({ page: 3 })).toEqual([]);
+	});
+
+	test("should extract DOCX paragraphs, headings, list items and cells", async () => {
+		vi.stubGlobal("mammoth", {
+			convertToHtml: vi.fn(async () => ({
+				value:
+					"<h1>Minutes</h1><p>Present:  Ana and\nJo</p><ul><li><p>Budget</p></li></ul>" +
+					"<table><tr><td><p>Q1</p></td><td>120</td></tr></table>",
+				messages: []
+			})),
+			images: { dataUri: vi.fn() }
+		});
+		renderer = new DocxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+
+		const [page] = await renderer.getText({ structured: true });
+
+		expect(page.text).toBe("Minutes\nPresent: Ana and Jo\nBudget\nQ1\n120");
+		expect(page.blocks.map((block) => block.type)).toEqual([
+			"heading",
+			"paragraph",
+			"list-item",
+			"cell",
+			"cell"
+		]);
+	});
+
+	test("should extract every sheet as tab separated rows", async () => {
+		vi.stubGlobal("XLSX", {
+			read: () => ({
+				SheetNames: ["Totals", "Notes"],
+				Sheets: {
+					Totals: {
+						"!ref": "A1:C2",
+						A1: { t: "s", v: "Item", w: "Item" },
+						B1: { t: "s", v: "Cost", w: "Cost" },
+						A2: { t: "s", v: "Paper", w: "Paper" },
+						B2: { t: "n", v: 4.5, w: "4.50" }
+					},
+					Notes: { "!ref": "A1:A1", A1: { t: "s", v: "Draft", w: "Draft" } }
+				}
+			}),
+			utils: {
+				encode_cell: ({ r, c }) => `${String.fromCharCode(65 + c)}${r + 1}`,
+				encode_col: (c) => String.fromCharCode(65 + c),
+				decode_range: (ref) => ({
+					s: { r: 0, c: 0 },
+					e: { r: Number(ref.slice(-1)) - 1, c: ref.charCodeAt(ref.length - 2) - 65 }
+				})
+			}
+		});
+		renderer = new XlsxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+
+		const pages = await renderer.getText();
+		expect(pages).toEqual([
+			{ page: 1, label: "Totals", text: "Item\tCost\nPaper\t4.50" },
+			{ page: 2, label: "Notes", text: "Draft" }
+		]);
+
+		const [sheet] = await renderer.getText({ page: 1, structured: true });
+		expect(sheet.blocks[3]).toEqual({
+			text: "4.50",
+			type: "cell",
+			row: 1,
+			col: 1,
+			address: "B2"
+		});
+	});
+
+	test("should extract slide shapes, tables and notes", async () => {
+		renderer = new PresentationRenderer(document.createElement("div"));
+		renderer.slides = [
+			{
+				id: 1,
+				title: "Roadmap",
+				content:
+					"<div class='buka-slide-canvas'>" +
+					"<div class='buka-slide-shape' style='position: absolute; left: 10%; top: 5%; width: 80%; height: 20%'>" +
+					"<p><span class='buka-slide-bullet'>•</span>Roadmap<br />2025</p></div>" +
+					"<img class='buka-slide-image' src='picture.png' style='left: 0%; top: 50%' />" +
+					"<table class='buka-slide-table' style='position: absolute; left: 10%; top: 40%; width: 50%; height: auto'>" +
+					"<tr><td>Q1</td><td>Launch</td></tr></table></div>",
+				notes: "Mention the budget",
+				layout: "custom"
+			}
+		];
+		renderer.totalPages = 1;
+
+		const [slide] = await renderer.getText({ structured: true });
+
+		expect(slide.text).toBe("Roadmap\n2025\nQ1\tLaunch");
+		expect(slide.notes).toBe("Mention the budget");
+		expect(slide.blocks).toEqual([
+			{ text: "Roadmap\n2025", type: "shape", x: 0.1, y: 0.05, width: 0.8, height: 0.2 },
+			{ text: "Q1\tLaunch", type: "shape", x: 0.1, y: 0.4, width: 0.5 }
+		]);
+	});
+
+	test("should extract the text of SVG images", async () => {
+		vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:chart");
+		renderer = new ImageRenderer(document.createElement("div"));
+		const svg = {
+			arrayBuffer: new TextEncoder().encode(
+				"<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 200 100'>" +
+					"<text x='20' y='50'>Sales <tspan>by region</tspan></text>" +
+					"<text><tspan x='100' y='90'>Q4</tspan></text></svg>"
+			),
+			filename: "chart.svg"
+		};
+
+		const loading = renderer.load(svg);
+		await vi.waitFor(() => expect(renderer.imageElement.src).toBe("blob:chart"));
+		renderer.imageElement.dispatchEvent(new Event("load"));
+		await loading;
+
+		const [image] = await renderer.getText({ structured: true });
+		expect(image.text).toBe("Sales by region\nQ4");
+		expect(image.blocks[1]).toEqual({ text: "Q4", type: "text", x: 0.5, y: 0.9 });
+	});
+
+	test("should return no text for raster images and from an empty viewer", async () => {
+		vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:photo");
+		renderer = new ImageRenderer(document.createElement("div"));
+		const loading = renderer.load(new File([new Uint8Array([0x89, 0x50])], "photo.png"));
+		renderer.imageElement.dispatchEvent(new Event("load"));
+		await loading;
+
+		expect(await renderer.getText()).toEqual([{ page: 1, label: "photo.png", text: "" }]);
+		const viewer = new BukaViewer(document.createElement("div"));
+		expect(await viewer.getText()).toEqual([]);
+		viewer.destroy();
+	});
+});
@@ -0,0 +1,312 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BaseRenderer, BukaViewer, RendererFactory } from "../../src/core/index.ts";
+import { DocxRenderer } from "../../src/renderers/docx.ts";
+import { ImageRenderer } from "../../src/renderers/image.ts";
+import { PDFRenderer } from "../../src/renderers/pdf.ts";
+import { PresentationRenderer } from "../../src/renderers/presentation.ts";
+import { XlsxRenderer } from "../../src/renderers/xlsx.ts";
+
+const BYTES = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+
+describe("PDFRenderer thumbnails", () => {
+	let renderer;
+	let render;
+
+	beforeEach(async () => {
+		render = vi.fn(() => ({ promise: Promise.resolve() }));
+		const pdfDocument = {
+			numPages: 2,
+			getPage: vi.fn(async (pageNumber) => ({
+				getViewport: ({ scale }) => ({
+					width: (pageNumber === 2 ? 200 : 100) * scale,
+					height: 150 * scale
+				}),
+				render
+			})),
+			getMetadata: () => Promise.resolve({ info: {} }),
+			destroy: vi.fn()
+		};
+		vi.stubGlobal("pdfjsLib", {
+			getDocument: vi.fn(() => ({ promise: Promise.resolve(pdfDocument) }))
+		});
+
+		renderer = new PDFRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+	});
+
+	test("should draw the page on a canvas that fits the size", async () => {
+		const canvas = await renderer.getThumbnail(2, 100);
+
+		expect(canvas.tagName).toBe("CANVAS");
+		expect(canvas.width).toBe(100);
+		expect(canvas.height).toBe(75);
+		expect(render).toHaveBeenCalledWith(
+			expect.objectContaining({ viewport: expect.objectContaining({ width: 100 }) })
+		);
+		expect(await renderer.getThumbnail(3, 100)).toBeNull();
+	});
+
+	test("should cancel thumbnails still drawing when the document closes", async () => {
+		let rejectTask;
+		const task = {
+			promise: new Promise((_resolve, reject) => {
+				rejectTask = reject;
+			}),
+			cancel: vi.fn(() => rejectTask(new Error("Rendering cancelled")))
+		};
+		render.mockReturnValueOnce(task);
+
+		const thumbnail = renderer.getThumbnail(1, 100);
+		await vi.waitFor(() => expect(render).toHaveBeenCalled());
+		renderer.destroy();
+
+		expect(task.cancel).toHaveBeenCalled();
+		expect(await thumbnail).toBeNull();
+	});
+});
+
+describe("ImageRenderer thumbnails", () => {
+	test("should downscale the image without enlarging small ones", async () => {
+		const drawImage = vi.fn();
+		vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({ drawImage });
+		const renderer = new ImageRenderer(document.createElement("div"));
+		renderer.originalDimensions = { width: 800, height: 600 };
+
+		const canvas = await renderer.getThumbnail(1, 120);
+		expect(canvas.width).toBe(120);
+		expect(canvas.height).toBe(90);
+		expect(drawImage).toHaveBeenCalledWith(renderer.imageElement, 0, 0, 120, 90);
+
+		expect((await renderer.getThumbnail(1, 1000)).width).toBe(800);
+		expect(await renderer.getThumbnail(2, 120)).toBeNull();
+
+		renderer.destroy();
+		vi.restoreAllMocks();
+	});
+});
+
+describe("DocxRenderer thumbnails", () => {
+	let renderer;
+
+	beforeEach(async () => {
+		vi.stubGlobal("mammoth", {
+			convertToHtml: vi.fn(async () => ({
+				value: "<p id='intro'>Both parties agree.</p>",
+				messages: []
+			})),
+			images: { dataUri: vi.fn() }
+		});
+		vi.spyOn(HTMLElement.prototype, "offsetWidth", "get").mockReturnValue(800);
+		vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockReturnValue(1000);
+
+		renderer = new DocxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	test("should scale a copy of the page without the annotations", async () => {
+		renderer.addAnnotation({ type: "note", page: 1, position: { x: 0.5, y: 0.5 } });
+		expect(renderer.pageElements[0].querySelector(".buka-annotation-layer")).not.toBeNull();
+
+		const frame = await renderer.getThumbnail(1, 100);
+		expect(frame.style.width).toBe("80px");
+		expect(frame.style.height).toBe("100px");
+
+		const page = frame.firstElementChild;
+		expect(page).not.toBe(renderer.pageElements[0]);
+		expect(page.style.transform).toBe("scale(0.1)");
+		expect(page.textContent).toContain("Both parties agree.");
+		expect(page.querySelector(".buka-annotation-layer")).toBeNull();
+		expect(page.querySelector("[id]")).toBeNull();
+	});
+});
+
+describe("XlsxRenderer thumbnails", () => {
+	let renderer;
+
+	beforeEach(async () => {
+		vi.stubGlobal("XLSX", {
+			read: () => ({
+				SheetNames: ["Totals", "Notes"],
+				Sheets: {
+					Totals: { "!ref": "A1:A1", A1: { t: "s", v: "Item", w: "Item" } },
+					Notes: {
+						"!ref": "A1:B2",
+						A1: { t: "s", v: "Draft", w: "Draft" },
+						B2: { t: "n", v: 3, w: "3.00" }
+					}
+				}
+			}),
+			utils: {
+				encode_cell: ({ r, c }) => `${String.fromCharCode(65 + c)}${r + 1}`,
+				encode_col: (c) => String.fromCharCode(65 + c),
+				decode_range: (ref) => ({
+					s: { r: 0, c: 0 },
+					e: { r: Number(ref.slice(-1)) - 1, c: ref.charCodeAt(ref.length - 2) - 65 }
+				})
+			}
+		});
+
+		renderer = new XlsxRenderer(document.createElement("div"));
+		await renderer.load(BYTES);
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+	});
+
+	test("should preview the corner of sheets that are not shown", async () => {
+		const frame = await renderer.getThumbnail(2, 136);
+
+		expect(renderer.currentPage).toBe(1);
+		// 8 columns of 80 pixels and 20 rows of 24 pixels under the headers
+		expect(frame.style.width).toBe("136px");
+		expect(frame.style.height).toBe("101px");
+
+		const rows = Array.from(frame.querySelectorAll("tr"), (row) =>
+			Array.from(row.cells, (cell) => cell.textContent)
+		);
+		expect(rows).toEqual([
+			["", "A", "B"],
+			["1", "Draft", ""],
+			["2", "", "3.00"]
+		]);
+	});
+});
+
+describe("PresentationRenderer thumbnails", () => {
+	test("should lay out the slide at the deck's aspect ratio", async () => {
+		const renderer = new PresentationRenderer(document.createElement("div"));
+		renderer.slides = [1, 2].map((id) => ({
+			id,
+			title: `Slide ${id}`,
+			content: `<div class='buka-slide-canvas'>Quarter ${id}</div>`,
+			notes: "",
+			layout: "custom",
+			background: "#003366"
+		}));
+		renderer.slideSize = { width: 12192000, height: 6858000 };
+		renderer.totalPages = 2;
+
+		const frame = await renderer.getThumbnail(2, 96);
+		expect(frame.style.width).toBe("96px");
+		expect(frame.style.height).toBe("54px");
+
+		const slide = frame.firstElementChild;
+		expect(slide.style.width).toBe("960px");
+		expect(slide.style.background).toBe("rgb(0, 51, 102)");
+		expect(slide.textContent).toBe("Quarter 2");
+
+		renderer.destroy();
+	});
+});
+
+describe("BukaViewer thumbnails", () => {
+	let container;
+	let viewer;
+	let observer;
+
+	class TestRenderer extends BaseRenderer {
+		async load() {
+			this.totalPages = 3;
+		}
+
+		async render() {}
+
+		async search() {
+			return [];
+		}
+
+		async createThumbnail(page) {
+			const preview = document.createElement("div");
+			preview.textContent = `Preview ${page}`;
+			return page === 3 ? null : preview;
+		}
+	}
+
+	const open = async (options = {}) => {
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		viewer = new BukaViewer(container, options);
+		await vi.waitFor(() =>
+			expect(container.querySelector(".buka-document-container")).not.toBeNull()
+		);
+		await viewer.load(new File(["%PDF"], "slides.pdf"), { mimeType: "application/pdf" });
+		return Array.from(container.querySelectorAll(".buka-thumbnail"));
+	};
+
+	beforeEach(() => {
+		vi.spyOn(RendererFactory, "create").mockImplementation(
+			(_mimeType, documentContainer, options) => new TestRenderer(documentContainer, options)
+		);
+		vi.spyOn(TestRenderer.prototype, "getThumbnail");
+		vi.stubGlobal(
+			"IntersectionObserver",
+			vi.fn((callback, options) => {
+				observer = {
+					callback,
+					options,
+					observe: vi.fn(),
+					unobserve: vi.fn(),
+					disconnect: vi.fn()
+				};
+				return observer;
+			})
+		);
+	});
+
+	afterEach(() => {
+		viewer.destroy();
+		container.remove();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	test("should draw thumbnails as they scroll into the sidebar", async () => {
+		const thumbnails = await open({ thumbnailSize: 90 });
+
+		expect(thumbnails.map((thumbnail) => thumbnail.textContent)).toEqual([
+			"Page 11",
+			"Page 22",
+			"Page 33"
+		]);
+		expect(observer.options.root).toBe(container.querySelector("#sidebar"));
+		expect(observer.observe).toHaveBeenCalledTimes(3);
+		expect(TestRenderer.prototype.getThumbnail).not.toHaveBeenCalled();
+
+		observer.callback([
+			{ target: thumbnails[1], isIntersecting: true },
+			{ target: thumbnails[2], isIntersecting: false }
+		]);
+		await vi.waitFor(() => expect(thumbnails[1].textContent).toBe("Preview 22"));
+
+		expect(TestRenderer.prototype.getThumbnail).toHaveBeenCalledTimes(1);
+		expect(TestRenderer.prototype.getThumbnail).toHaveBeenCalledWith(2, 90);
+		expect(observer.unobserve).toHaveBeenCalledWith(thumbnails[1]);
+		expect(thumbnails[1].firstElementChild.className).toBe("buka-thumbnail-image");
+	});
+
+	test("should draw every thumbnail without IntersectionObserver", async () => {
+		vi.stubGlobal("IntersectionObserver", undefined);
+		const thumbnails = await open();
+
+		// Pages without a preview keep their placeholder
+		expect(thumbnails.map((thumbnail) => thumbnail.textContent)).toEqual([
+			"Preview 11",
+			"Preview 22",
+			"Page 33"
+		]);
+		expect(TestRenderer.prototype.getThumbnail).toHaveBeenCalledWith(1, undefined);
+	});
+});
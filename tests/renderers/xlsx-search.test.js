@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { EVENTS } from "../../src/core/index.ts";
+import { XlsxRenderer } from "../../src/renderers/xlsx.ts";
+
+const encodeCol = (col) => String.fromCharCode(65 + col);
+const encodeCell = ({ r, c }) => `${encodeCol(c)}${r + 1}`;
+
+const text = (value) => ({ t: "s", v: value, w: value });
+
+/**
+ * Workbook with a small "Summary" sheet and a "Ledger" sheet long enough
+ * to be rendered through the virtual grid
+ */
+const createWorkbook = () => {
+	const ledger = { "!ref": "A1:B150" };
+	for (let row = 1; row <= 150; row++) {
+		ledger[`A${row}`] = text(`Entry ${row}`);
+	}
+	ledger.B120 = text("Revenue adjustment");
+
+	return {
+		SheetNames: ["Summary", "Ledger"],
+		Sheets: {
+			Summary: {
+				"!ref": "A1:B2",
+				A1: text("Revenue"),
+				B1: text("Costs"),
+				A2: text("Net revenue"),
+				B2: { t: "n", v: 42, w: "42" }
+			},
+			Ledger: ledger
+		}
+	};
+};
+
+describe("XlsxRenderer search", () => {
+	let renderer;
+	let scrolled;
+
+	const matchedCells = () =>
+		Array.from(renderer.gridTable.querySelectorAll(".buka-xlsx-cell-match")).map(
+			(cell) => cell.title
+		);
+	const currentCell = () => renderer.gridTable.querySelector(".buka-xlsx-cell-match-current");
+
+	beforeEach(async () => {
+		scrolled = [];
+		Element.prototype.scrollIntoView = vi.fn(function () {
+			scrolled.push(this);
+		});
+		vi.stubGlobal("XLSX", {
+			read: vi.fn(() => createWorkbook()),
+			utils: {
+				encode_cell: encodeCell,
+				encode_col: encodeCol,
+				decode_range: (ref) => {
+					const [, lastCol, lastRow] = ref.match(/:([A-Z])(\d+)$/);
+					return {
+						s: { r: 0, c: 0 },
+						e: { r: Number(lastRow) - 1, c: lastCol.charCodeAt(0) - 65 }
+					};
+				}
+			}
+		});
+
+		renderer = new XlsxRenderer(document.createElement("div"));
+		await renderer.load(new Uint8Array([0x50, 0x4b, 0x03, 0x04]));
+	});
+
+	afterEach(() => {
+		renderer.destroy();
+		vi.unstubAllGlobals();
+		delete Element.prototype.scrollIntoView;
+	});
+
+	test("should search every sheet and locate each hit", async () => {
+		const results = await renderer.search("revenue");
+
+		expect(
+			results.map(({ sheet, section, row, col, address }) => ({
+				sheet,
+				section,
+				row,
+				col,
+				address
+			}))
+		).toEqual([
+			{ sheet: 0, section: "Summary", row: 0, col: 0, address: "A1" },
+			{ sheet: 0, section: "Summary", row: 1, col: 0, address: "A2" },
+			{ sheet: 1, section: "Ledger", row: 119, col: 1, address: "B120" }
+		]);
+		expect(results[1].context).toEqual({ before: "Net ", match: "revenue", after: "" });
+	});
+
+	test("should match zeros and formatted numbers as displayed", async () => {
+		XLSX.read.mockReturnValueOnce({
+			SheetNames: ["Totals"],
+			Sheets: {
+				Totals: {
+					"!ref": "A1:B1",
+					A1: { t: "n", v: 0, w: "0" },
+					B1: { t: "n", v: 1234.5, w: "$1,234.50" }
+				}
+			}
+		});
+		await renderer.load(new Uint8Array([0x50, 0x4b, 0x03, 0x04]));
+
+		expect((await renderer.search("0")).map(({ address }) => address)).toEqual(["A1", "B1"]);
+		expect((await renderer.search("$1,234")).map(({ address }) => address)).toEqual(["B1"]);
+	});
+
+	test("should highlight matching cells and mark the current one", async () => {
+		await renderer.search("revenue");
+
+		expect(matchedCells()).toEqual(["A1", "A2"]);
+		expect(currentCell().title).toBe("A1");
+		expect(scrolled.at(-1)).toBe(currentCell());
+
+		renderer.nextSearchResult();
+		await vi.waitFor(() => expect(currentCell().title).toBe("A2"));
+		expect(matchedCells()).toEqual(["A1", "A2"]);
+	});
+
+	test("should switch sheets and scroll the virtual grid to a hit", async () => {
+		const pages = [];
+		renderer.on(EVENTS.PAGE_CHANGED, (event) => pages.push(event.sheetName));
+		await renderer.search("revenue");
+
+		await renderer.showSearchResult(2);
+
+		expect(renderer.currentSheetIndex).toBe(1);
+		expect(pages).toEqual(["Ledger"]);
+		expect(renderer.usesVirtualGrid()).toBe(true);
+		expect(renderer.gridContainer.scrollTop).toBe(109 * renderer.rowHeight);
+		expect(currentCell().title).toBe("B120");
+		expect(scrolled.at(-1)).toBe(currentCell());
+
+		renderer.previousSearchResult();
+		await vi.waitFor(() => expect(renderer.currentSheetIndex).toBe(0));
+		expect(currentCell().title).toBe("A2");
+	});
+
+	test("should keep highlights when switching sheets by hand", async () => {
+		await renderer.search("costs");
+		await renderer.switchToSheet(1);
+
+		expect(matchedCells()).toEqual([]);
+
+		await renderer.switchToSheet(0);
+		expect(matchedCells()).toEqual(["B1"]);
+	});
+});